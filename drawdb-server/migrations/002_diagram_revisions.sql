@@ -0,0 +1,16 @@
+-- DrawDB Database Schema
+-- Migration: diagram revision history
+
+-- One snapshot of the diagram document per saved version
+CREATE TABLE IF NOT EXISTS diagram_revisions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  diagram_id UUID NOT NULL REFERENCES diagrams(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  snapshot JSONB NOT NULL,
+  last_modified_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  message TEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT unique_diagram_version UNIQUE(diagram_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_diagram_revisions_author ON diagram_revisions(last_modified_by);
@@ -0,0 +1,7 @@
+-- DrawDB Database Schema
+-- Migration: trash bin (soft delete) for diagrams
+
+-- Deleted diagrams keep their row until purged; NULL means the diagram is live
+ALTER TABLE diagrams ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP;
+
+CREATE INDEX IF NOT EXISTS idx_diagrams_deleted_at ON diagrams(deleted_at);
@@ -0,0 +1,45 @@
+-- DrawDB Database Schema
+-- Migration: folders for organising diagrams
+
+-- Nested folders owned by a user; removing a folder removes its subfolders
+CREATE TABLE IF NOT EXISTS folders (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  parent_id UUID REFERENCES folders(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Folder shares apply to every diagram in the folder and its subfolders
+CREATE TABLE IF NOT EXISTS folder_shares (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  folder_id UUID NOT NULL REFERENCES folders(id) ON DELETE CASCADE,
+  shared_with_user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  shared_by_user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  permission_level VARCHAR(20) NOT NULL DEFAULT 'viewer',
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT unique_folder_user UNIQUE(folder_id, shared_with_user_id),
+  CONSTRAINT valid_folder_permission CHECK (permission_level IN ('viewer', 'editor', 'owner'))
+);
+
+ALTER TABLE diagrams
+  ADD COLUMN IF NOT EXISTS folder_id UUID REFERENCES folders(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_folders_user_parent ON folders(user_id, parent_id);
+CREATE INDEX IF NOT EXISTS idx_folders_parent ON folders(parent_id);
+CREATE INDEX IF NOT EXISTS idx_folder_shares_user ON folder_shares(shared_with_user_id);
+CREATE INDEX IF NOT EXISTS idx_diagrams_folder ON diagrams(folder_id);
+
+DROP TRIGGER IF EXISTS update_folders_updated_at ON folders;
+CREATE TRIGGER update_folders_updated_at
+  BEFORE UPDATE ON folders
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_folder_shares_updated_at ON folder_shares;
+CREATE TRIGGER update_folder_shares_updated_at
+  BEFORE UPDATE ON folder_shares
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,37 @@
+-- DrawDB Database Schema
+-- Migration: trigram search over diagram contents
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- JSONB value as an array, so malformed documents cannot break indexing
+CREATE OR REPLACE FUNCTION diagram_search_array(value JSONB)
+RETURNS JSONB
+LANGUAGE sql IMMUTABLE PARALLEL SAFE
+AS $$
+  SELECT CASE WHEN jsonb_typeof(value) = 'array' THEN value ELSE '[]'::jsonb END
+$$;
+
+-- Searchable text of a diagram: its name, table and field names and comments,
+-- note titles and contents, enum names and values
+CREATE OR REPLACE FUNCTION diagram_search_text(name TEXT, tables JSONB, notes JSONB, enums JSONB)
+RETURNS TEXT
+LANGUAGE sql IMMUTABLE PARALLEL SAFE
+AS $$
+  SELECT concat_ws(E'\n',
+    name,
+    (SELECT string_agg(concat_ws(E'\n', t->>'name', t->>'comment',
+       (SELECT string_agg(concat_ws(E'\n', f->>'name', f->>'comment'), E'\n')
+          FROM jsonb_array_elements(diagram_search_array(t->'fields')) f)), E'\n')
+       FROM jsonb_array_elements(diagram_search_array(tables)) t),
+    (SELECT string_agg(concat_ws(E'\n', n->>'title', n->>'content'), E'\n')
+       FROM jsonb_array_elements(diagram_search_array(notes)) n),
+    (SELECT string_agg(concat_ws(E'\n', e->>'name',
+       (SELECT string_agg(v, E'\n')
+          FROM jsonb_array_elements_text(diagram_search_array(e->'values')) v)), E'\n')
+       FROM jsonb_array_elements(diagram_search_array(enums)) e)
+  )
+$$;
+
+-- Serves ILIKE '%term%' lookups; queries must use the same expression to hit it
+CREATE INDEX IF NOT EXISTS idx_diagrams_search_trgm ON diagrams
+  USING gin (diagram_search_text(name, tables, notes, enums) gin_trgm_ops);
@@ -0,0 +1,19 @@
+-- DrawDB Database Schema
+-- Migration: schema drift reports
+
+-- Dated comparisons of a diagram with a live database; connection details are never stored
+CREATE TABLE IF NOT EXISTS diagram_drift_reports (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  diagram_id UUID NOT NULL REFERENCES diagrams(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  source VARCHAR(50) NOT NULL,
+  database_name VARCHAR(255) NOT NULL,
+  summary JSONB NOT NULL,
+  differences JSONB NOT NULL DEFAULT '[]',
+  warnings JSONB NOT NULL DEFAULT '[]',
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_diagram_drift_reports_diagram
+  ON diagram_drift_reports(diagram_id, created_at);
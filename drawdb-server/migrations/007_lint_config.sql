@@ -0,0 +1,6 @@
+-- DrawDB Database Schema
+-- Migration: lint rule settings
+
+-- Folder settings apply to the diagrams inside, overridden by a diagram's own
+ALTER TABLE folders ADD COLUMN IF NOT EXISTS lint_config JSONB;
+ALTER TABLE diagrams ADD COLUMN IF NOT EXISTS lint_config JSONB;
@@ -0,0 +1,10 @@
+-- DrawDB Database Schema
+-- Migration: diagram thumbnails
+
+-- One cached PNG thumbnail per diagram, tagged with the version it shows
+CREATE TABLE IF NOT EXISTS diagram_thumbnails (
+  diagram_id UUID PRIMARY KEY REFERENCES diagrams(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  image BYTEA NOT NULL,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
@@ -0,0 +1,29 @@
+-- DrawDB Database Schema
+-- Migration: system templates
+
+-- The editor's bundled starter schemas as system templates (no owner, public to everyone).
+-- Inserted by title, so running this again leaves existing rows alone.
+
+INSERT INTO templates (user_id, title, custom, data, is_public)
+SELECT NULL, 'Blog database schema', false, $template${"description":"A blog database including tables such as posts, users, comments, and tags to facilitate the storage and retrieval of blog-related information.","database":"generic","tables":[{"id":0,"name":"users","x":114.92525,"y":281.2977500000002,"fields":[{"name":"id","type":"INT","default":"","check":"","primary":true,"unique":true,"notNull":true,"increment":true,"comment":"","id":0},{"name":"username","type":"VARCHAR","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":1,"size":255},{"name":"password","type":"VARCHAR","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":2,"size":255},{"name":"email","type":"VARCHAR","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":3,"size":255},{"name":"last_login","type":"TIMESTAMP","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":4,"size":"","values":[]}],"comment":"","indices":[],"color":"#6360f7"},{"id":1,"name":"blog_posts","x":277.57925,"y":19.206750000000113,"fields":[{"name":"id","type":"INT","default":"","check":"","primary":true,"unique":true,"notNull":true,"increment":true,"comment":"","id":0},{"name":"user_id","type":"INT","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":1},{"name":"title","type":"VARCHAR","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":2,"size":255},{"name":"content","type":"VARCHAR","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":3,"size":255},{"name":"cover","type":"VARCHAR","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":4,"size":255}],"comment":"","indices":[],"color":"#bc49c4"},{"id":2,"name":"comments","x":505.62112500000035,"y":341.6078750000002,"fields":[{"name":"id","type":"INT","default":"","check":"","primary":true,"unique":true,"notNull":true,"increment":true,"comment":"","id":0},{"name":"blog_id","type":"INT","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":1},{"name":"user_id","type":"INT","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":2},{"name":"content","type":"VARCHAR","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":3,"size":255}],"comment":"","indices":[],"color":"#3cde7d"},{"id":3,"name":"tags","x":743.2832500000009,"y":318.1841250000001,"fields":[{"name":"id","type":"INT","default":"","check":"","primary":true,"unique":true,"notNull":true,"increment":true,"comment":"","id":0},{"name":"name","type":"VARCHAR","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":1,"size":255}],"comment":"","indices":[],"color":"#7d9dff"},{"id":4,"name":"blog_tag","x":812.1175000000004,"y":131.55062500000008,"fields":[{"name":"blog_id","type":"INT","default":"","check":"","primary":true,"unique":false,"notNull":false,"increment":false,"comment":"","id":0},{"name":"tag_id","type":"INT","default":"","check":"","primary":true,"unique":false,"notNull":false,"increment":false,"comment":"","id":1}],"comment":"","indices":[],"color":"#ffe159"}],"references":[{"startTableId":1,"startFieldId":1,"endTableId":0,"endFieldId":0,"name":"blog_posts_user_id_fk","cardinality":"many_to_one","updateConstraint":"No action","deleteConstraint":"No action","id":0},{"startTableId":2,"startFieldId":1,"endTableId":1,"endFieldId":0,"name":"comments_blog_id_fk","cardinality":"many_to_one","updateConstraint":"No action","deleteConstraint":"No action","id":1},{"startTableId":2,"startFieldId":2,"endTableId":0,"endFieldId":0,"name":"comments_user_id_fk","cardinality":"many_to_one","updateConstraint":"No action","deleteConstraint":"No action","id":2},{"startTableId":4,"startFieldId":1,"endTableId":3,"endFieldId":0,"name":"blog_tag_tag_id_fk","cardinality":"many_to_one","updateConstraint":"No action","deleteConstraint":"No action","id":3},{"startTableId":4,"startFieldId":0,"endTableId":1,"endFieldId":0,"name":"blog_tag_blog_id_fk","cardinality":"many_to_one","updateConstraint":"No action","deleteConstraint":"No action","id":4}],"notes":[],"areas":[],"types":[],"enums":[]}$template$::jsonb, true
+WHERE NOT EXISTS (SELECT 1 FROM templates WHERE user_id IS NULL AND title = 'Blog database schema');
+
+INSERT INTO templates (user_id, title, custom, data, is_public)
+SELECT NULL, 'Human resources schema', false, $template${"description":"A Human Resources (HR) schema designed to manage employee and project related information within an organization.","database":"generic","tables":[{"id":0,"name":"employees","x":365,"y":20,"fields":[{"name":"id","type":"INT","default":"","check":"","primary":true,"unique":true,"notNull":true,"increment":true,"comment":"","id":0},{"name":"first_name","type":"VARCHAR","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":1,"size":255},{"name":"last_name","type":"VARCHAR","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":2,"size":255},{"name":"dob","type":"DATE","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":3,"size":"","values":[]},{"name":"dep_id","type":"INT","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":4},{"name":"pos_id","type":"INT","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":5}],"comment":"","indices":[],"color":"#a751e8"},{"id":1,"name":"department","x":41,"y":59,"fields":[{"name":"id","type":"INT","default":"","check":"","primary":true,"unique":true,"notNull":true,"increment":true,"comment":"","id":0},{"name":"name","type":"VARCHAR","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":1,"size":255}],"comment":"","indices":[],"color":"#6360f7"},{"id":2,"name":"positions","x":37,"y":284,"fields":[{"name":"id","type":"INT","default":"","check":"","primary":true,"unique":true,"notNull":true,"increment":true,"comment":"","id":0},{"name":"name","type":"VARCHAR","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":1,"size":255},{"name":"salary","type":"DOUBLE","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":2,"size":""}],"comment":"","indices":[],"color":"#3cde7d"},{"id":3,"name":"projects","x":668,"y":28,"fields":[{"name":"id","type":"INT","default":"","check":"","primary":true,"unique":true,"notNull":true,"increment":true,"comment":"","id":0},{"name":"name","type":"VARCHAR","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":1,"size":255},{"name":"description","type":"TEXT","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":2,"size":65535},{"name":"start_date","type":"DATE","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":3,"size":"","values":[]},{"name":"end_date","type":"DATE","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":4,"size":"","values":[]}],"comment":"","indices":[],"color":"#7d9dff"},{"id":4,"name":"project_assignment","x":684,"y":295,"fields":[{"name":"id","type":"INT","default":"","check":"","primary":true,"unique":true,"notNull":true,"increment":true,"comment":"","id":0},{"name":"project_id","type":"INT","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":1},{"name":"employee_id","type":"INT","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":2}],"comment":"","indices":[],"color":"#32c9b0"}],"references":[{"startTableId":0,"startFieldId":4,"endTableId":1,"endFieldId":0,"name":"employees_dep_id_fk","cardinality":"many_to_one","updateConstraint":"No action","deleteConstraint":"No action","id":0},{"startTableId":0,"startFieldId":5,"endTableId":2,"endFieldId":0,"name":"employees_pos_id_fk","cardinality":"one_to_one","updateConstraint":"No action","deleteConstraint":"No action","id":1},{"startTableId":4,"startFieldId":1,"endTableId":3,"endFieldId":0,"name":"project_assignment_project_id_fk","cardinality":"one_to_one","updateConstraint":"No action","deleteConstraint":"No action","id":2},{"startTableId":4,"startFieldId":2,"endTableId":0,"endFieldId":0,"name":"project_assignment_employee_id_fk","cardinality":"many_to_one","updateConstraint":"No action","deleteConstraint":"No action","id":3}],"notes":[],"areas":[],"types":[],"enums":[]}$template$::jsonb, true
+WHERE NOT EXISTS (SELECT 1 FROM templates WHERE user_id IS NULL AND title = 'Human resources schema');
+
+INSERT INTO templates (user_id, title, custom, data, is_public)
+SELECT NULL, 'E-commerce schema', false, $template${"description":"An e-commerce schema designed to manage various aspects of an online store, including products, orders, and customers.","database":"generic","tables":[{"id":0,"name":"products","x":331,"y":300,"fields":[{"name":"id","type":"INT","default":"","check":"","primary":true,"unique":true,"notNull":true,"increment":true,"comment":"","id":0},{"name":"name","type":"VARCHAR","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":1,"size":255},{"name":"description","type":"TEXT","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":2,"size":65535},{"name":"price","type":"DOUBLE","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":3,"size":""},{"name":"category_id","type":"INT","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":4}],"comment":"","indices":[],"color":"#32c9b0"},{"id":1,"name":"categories","x":649,"y":391,"fields":[{"name":"id","type":"INT","default":"","check":"","primary":true,"unique":true,"notNull":true,"increment":true,"comment":"","id":0},{"name":"name","type":"VARCHAR","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":1,"size":255}],"comment":"","indices":[],"color":"#89e667"},{"id":2,"name":"orders","x":756,"y":47,"fields":[{"name":"id","type":"INT","default":"","check":"","primary":true,"unique":true,"notNull":true,"increment":true,"comment":"","id":0},{"name":"date","type":"DATETIME","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":1,"size":"","values":[]},{"name":"customer_id","type":"INT","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":2},{"name":"amount","type":"INT","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":3},{"name":"status","type":"ENUM","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":4,"values":["delivered","received","processing"]},{"name":"product_id","type":"INT","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":5}],"comment":"","indices":[],"color":"#6360f7"},{"id":3,"name":"reviews","x":33,"y":93,"fields":[{"name":"id","type":"INT","default":"","check":"","primary":true,"unique":true,"notNull":true,"increment":true,"comment":"","id":0},{"name":"customer_id","type":"INT","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":1},{"name":"product_id","type":"INT","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":2},{"name":"rating","type":"INT","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":3},{"name":"content","type":"VARCHAR","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":4,"size":255},{"name":"date","type":"DATETIME","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":5,"size":"","values":[]}],"comment":"","indices":[],"color":"#ffe159"},{"id":4,"name":"customers","x":402,"y":16,"fields":[{"name":"id","type":"INT","default":"","check":"","primary":true,"unique":true,"notNull":true,"increment":true,"comment":"","id":0},{"name":"name","type":"VARCHAR","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":1,"size":255},{"name":"address","type":"VARCHAR","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":2,"size":255},{"name":"email","type":"VARCHAR","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":3,"size":255},{"name":"phone","type":"VARCHAR","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":4,"size":255}],"comment":"","indices":[],"color":"#ff4f81"}],"references":[{"startTableId":2,"startFieldId":5,"endTableId":0,"endFieldId":0,"name":"order_product_id_fk","cardinality":"one_to_one","updateConstraint":"No action","deleteConstraint":"No action","id":0},{"startTableId":0,"startFieldId":4,"endTableId":1,"endFieldId":0,"name":"products_category_id_fk","cardinality":"many_to_one","updateConstraint":"No action","deleteConstraint":"No action","id":1},{"startTableId":3,"startFieldId":1,"endTableId":4,"endFieldId":0,"name":"reviews_customer_id_fk","cardinality":"many_to_one","updateConstraint":"No action","deleteConstraint":"No action","id":2},{"startTableId":3,"startFieldId":2,"endTableId":0,"endFieldId":0,"name":"reviews_product_id_fk","cardinality":"one_to_one","updateConstraint":"No action","deleteConstraint":"No action","id":3},{"startTableId":2,"startFieldId":2,"endTableId":4,"endFieldId":0,"name":"orders_customer_id_fk","cardinality":"many_to_one","updateConstraint":"No action","deleteConstraint":"No action","id":4}],"notes":[],"areas":[],"types":[],"enums":[]}$template$::jsonb, true
+WHERE NOT EXISTS (SELECT 1 FROM templates WHERE user_id IS NULL AND title = 'E-commerce schema');
+
+INSERT INTO templates (user_id, title, custom, data, is_public)
+SELECT NULL, 'Library schema', false, $template${"description":"A library schema designed to manage the books, genres, reservations, and other aspects of a library system","database":"generic","tables":[{"id":0,"name":"books","x":167,"y":88,"fields":[{"name":"id","type":"INT","default":"","check":"","primary":true,"unique":true,"notNull":true,"increment":true,"comment":"","id":0},{"name":"title","type":"VARCHAR","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":1,"size":255},{"name":"isbn","type":"VARCHAR","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":2,"size":255},{"name":"author_id","type":"INT","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":3},{"name":"genre_id","type":"INT","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":4}],"comment":"","indices":[],"color":"#6360f7"},{"id":1,"name":"genres","x":78,"y":379,"fields":[{"name":"id","type":"INT","default":"","check":"","primary":true,"unique":true,"notNull":true,"increment":true,"comment":"","id":0},{"name":"name","type":"VARCHAR","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":1,"size":255}],"comment":"","indices":[],"color":"#bc49c4"},{"id":2,"name":"authors","x":475,"y":342,"fields":[{"name":"id","type":"INT","default":"","check":"","primary":true,"unique":true,"notNull":true,"increment":true,"comment":"","id":0},{"name":"name","type":"VARCHAR","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":1,"size":255},{"name":"birthday","type":"DATE","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":2,"size":"","values":[]},{"name":"nationality","type":"VARCHAR","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":3,"size":255}],"comment":"","indices":[],"color":"#ffe159"},{"id":3,"name":"reservations","x":501,"y":14,"fields":[{"name":"id","type":"INT","default":"","check":"","primary":true,"unique":true,"notNull":true,"increment":true,"comment":"","id":0},{"name":"book_id","type":"INT","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":1},{"name":"patron_id","type":"INT","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":2},{"name":"date","type":"DATE","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":3,"size":"","values":[]},{"name":"email","type":"VARCHAR","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":4,"size":255}],"comment":"","indices":[],"color":"#89e667"},{"id":4,"name":"patrons","x":780,"y":220,"fields":[{"name":"id","type":"INT","default":"","check":"","primary":true,"unique":true,"notNull":true,"increment":true,"comment":"","id":0},{"name":"name","type":"VARCHAR","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":1,"size":255},{"name":"email","type":"VARCHAR","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":2,"size":255},{"name":"phone","type":"VARCHAR","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":3,"size":255}],"comment":"","indices":[],"color":"#ff9159"}],"references":[{"startTableId":0,"startFieldId":3,"endTableId":2,"endFieldId":0,"name":"books_author_id_fk","cardinality":"many_to_one","updateConstraint":"No action","deleteConstraint":"No action","id":0},{"startTableId":3,"startFieldId":1,"endTableId":0,"endFieldId":0,"name":"reservations_book_id_fk","cardinality":"one_to_one","updateConstraint":"No action","deleteConstraint":"No action","id":1},{"startTableId":3,"startFieldId":2,"endTableId":4,"endFieldId":0,"name":"reservations_patron_id_fk","cardinality":"one_to_one","updateConstraint":"No action","deleteConstraint":"No action","id":2},{"startTableId":0,"startFieldId":4,"endTableId":1,"endFieldId":0,"name":"books_genre_id_fk","cardinality":"many_to_one","updateConstraint":"No action","deleteConstraint":"No action","id":3}],"notes":[],"areas":[],"types":[],"enums":[]}$template$::jsonb, true
+WHERE NOT EXISTS (SELECT 1 FROM templates WHERE user_id IS NULL AND title = 'Library schema');
+
+INSERT INTO templates (user_id, title, custom, data, is_public)
+SELECT NULL, 'Bank schema', false, $template${"description":"A financial schema designed to manage financial transactions, accounts, customers, and other aspects of financial data.","database":"generic","tables":[{"id":0,"name":"accounts","x":129,"y":92,"fields":[{"name":"id","type":"INT","default":"","check":"","primary":true,"unique":true,"notNull":true,"increment":true,"comment":"","id":0},{"name":"customer_id","type":"INT","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":1},{"name":"type","type":"ENUM","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":2,"values":["checking","savings"]},{"name":"number","type":"BIGINT","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":3},{"name":"balance","type":"FLOAT","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":4,"size":""}],"comment":"","indices":[],"color":"#7d9dff"},{"id":1,"name":"customers","x":384,"y":315,"fields":[{"name":"id","type":"INT","default":"","check":"","primary":true,"unique":true,"notNull":true,"increment":true,"comment":"","id":0},{"name":"first_name","type":"VARCHAR","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":1,"size":255},{"name":"last_name","type":"VARCHAR","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":2,"size":255},{"name":"phone","type":"VARCHAR","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":3,"size":255},{"name":"address","type":"VARCHAR","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":4,"size":255}],"comment":"","indices":[],"color":"#32c9b0"},{"id":2,"name":"transactions","x":431,"y":4,"fields":[{"name":"id","type":"INT","default":"","check":"","primary":true,"unique":true,"notNull":true,"increment":true,"comment":"","id":0},{"name":"account_id","type":"INT","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":1},{"name":"time","type":"DATETIME","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":2,"size":"","values":[]},{"name":"type","type":"ENUM","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":3,"values":["withdrawal","deposit"]},{"name":"amount","type":"FLOAT","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":4,"size":""}],"comment":"","indices":[],"color":"#3cde7d"},{"id":3,"name":"transfers","x":112,"y":358,"fields":[{"name":"id","type":"INT","default":"","check":"","primary":true,"unique":true,"notNull":true,"increment":true,"comment":"","id":0},{"name":"from","type":"INT","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":1},{"name":"to","type":"INT","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":2},{"name":"time","type":"DATETIME","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":3,"size":"","values":[]},{"name":"amount","type":"FLOAT","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":4,"size":""}],"comment":"","indices":[],"color":"#89e667"},{"id":4,"name":"cards","x":772,"y":29,"fields":[{"name":"id","type":"INT","default":"","check":"","primary":true,"unique":true,"notNull":true,"increment":true,"comment":"","id":0},{"name":"type","type":"ENUM","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":1,"values":["visa","master"]},{"name":"customer_id","type":"INT","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":2},{"name":"number","type":"BIGINT","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":3},{"name":"limit","type":"FLOAT","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":4,"size":""}],"comment":"","indices":[],"color":"#ffe159"},{"id":5,"name":"loans","x":919,"y":281,"fields":[{"name":"id","type":"INT","default":"","check":"","primary":true,"unique":true,"notNull":true,"increment":true,"comment":"","id":0},{"name":"customer_id","type":"INT","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":1},{"name":"amount","type":"FLOAT","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":2,"size":""},{"name":"rate","type":"FLOAT","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":3,"size":""},{"name":"term","type":"DATE","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":4,"size":"","values":[]},{"name":"status","type":"ENUM","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":5,"values":["paid","approved"]}],"comment":"","indices":[],"color":"#ff9159"},{"id":6,"name":"investments","x":664,"y":395,"fields":[{"name":"id","type":"INT","default":"","check":"","primary":true,"unique":true,"notNull":true,"increment":true,"comment":"","id":0},{"name":"customer_id","type":"INT","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":1},{"name":"type","type":"ENUM","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":2,"values":["mutual-fund","stock"]},{"name":"amount","type":"FLOAT","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":3,"size":""},{"name":"date","type":"DATE","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":4,"size":"","values":[]},{"name":"current_val","type":"FLOAT","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":5,"size":""}],"comment":"","indices":[],"color":"#f03c3c"}],"references":[{"startTableId":0,"startFieldId":1,"endTableId":1,"endFieldId":0,"name":"accounts_customer_id_fk","cardinality":"many_to_one","updateConstraint":"No action","deleteConstraint":"No action","id":0},{"startTableId":4,"startFieldId":2,"endTableId":1,"endFieldId":0,"name":"cards_customer_id_fk","cardinality":"many_to_one","updateConstraint":"No action","deleteConstraint":"No action","id":1},{"startTableId":5,"startFieldId":1,"endTableId":1,"endFieldId":0,"name":"loans_customer_id_fk","cardinality":"many_to_one","updateConstraint":"No action","deleteConstraint":"No action","id":2},{"startTableId":6,"startFieldId":1,"endTableId":1,"endFieldId":0,"name":"investments_customer_id_fk","cardinality":"many_to_one","updateConstraint":"No action","deleteConstraint":"No action","id":3},{"startTableId":2,"startFieldId":1,"endTableId":0,"endFieldId":0,"name":"transactions_account_id_fk","cardinality":"many_to_one","updateConstraint":"No action","deleteConstraint":"No action","id":4},{"startTableId":3,"startFieldId":2,"endTableId":0,"endFieldId":0,"name":"transfers_to_fk","cardinality":"many_to_one","updateConstraint":"No action","deleteConstraint":"No action","id":5},{"startTableId":3,"startFieldId":1,"endTableId":0,"endFieldId":0,"name":"transfers_from_fk","cardinality":"many_to_one","updateConstraint":"No action","deleteConstraint":"No action","id":6}],"notes":[],"areas":[],"types":[],"enums":[]}$template$::jsonb, true
+WHERE NOT EXISTS (SELECT 1 FROM templates WHERE user_id IS NULL AND title = 'Bank schema');
+
+INSERT INTO templates (user_id, title, custom, data, is_public)
+SELECT NULL, 'University schema', false, $template${"description":"A university schema designed to manage information about students, courses, instructors, and other aspects of university-related data.","database":"generic","tables":[{"id":0,"name":"students","x":200,"y":10,"fields":[{"name":"id","type":"INT","default":"","check":"","primary":true,"unique":true,"notNull":true,"increment":true,"comment":"","id":0},{"name":"first_name","type":"VARCHAR","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":1,"size":255},{"name":"last_name","type":"VARCHAR","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":2,"size":255},{"name":"email","type":"VARCHAR","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":3,"size":255},{"name":"phone","type":"VARCHAR","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":4,"size":255},{"name":"address","type":"VARCHAR","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":5,"size":255},{"name":"dob","type":"DATE","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":6,"size":"","values":[]},{"name":"major_id","type":"INT","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":7}],"comment":"","indices":[],"color":"#ff4f81"},{"id":1,"name":"courses","x":477,"y":354,"fields":[{"name":"id","type":"INT","default":"","check":"","primary":true,"unique":true,"notNull":true,"increment":true,"comment":"","id":0},{"name":"name","type":"VARCHAR","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":1,"size":255},{"name":"dep_id","type":"INT","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":2},{"name":"credits","type":"INT","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":3}],"comment":"","indices":[],"color":"#bc49c4"},{"id":2,"name":"enrollment","x":81,"y":377,"fields":[{"name":"id","type":"INT","default":"","check":"","primary":true,"unique":true,"notNull":true,"increment":true,"comment":"","id":0},{"name":"course_id","type":"INT","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":1},{"name":"student_id","type":"INT","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":2},{"name":"term","type":"VARCHAR","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":3,"size":255}],"comment":"","indices":[],"color":"#7c4af0"},{"id":3,"name":"instructors","x":771,"y":50,"fields":[{"name":"id","type":"INT","default":"","check":"","primary":true,"unique":true,"notNull":true,"increment":true,"comment":"","id":0},{"name":"first_name","type":"VARCHAR","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":1,"size":255},{"name":"last_name","type":"VARCHAR","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":2,"size":255},{"name":"email","type":"VARCHAR","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":3,"size":255},{"name":"dep_id","type":"INT","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":4}],"comment":"","indices":[],"color":"#7d9dff"},{"id":4,"name":"departments","x":785,"y":338,"fields":[{"name":"id","type":"INT","default":"","check":"","primary":true,"unique":true,"notNull":true,"increment":true,"comment":"","id":0},{"name":"name","type":"VARCHAR","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":1,"size":255},{"name":"chairperson","type":"INT","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":2}],"comment":"","indices":[],"color":"#32c9b0"},{"id":5,"name":"major","x":495,"y":78,"fields":[{"name":"id","type":"INT","default":"","check":"","primary":true,"unique":true,"notNull":true,"increment":true,"comment":"","id":0},{"name":"name","type":"VARCHAR","default":"","check":"","primary":false,"unique":false,"notNull":false,"increment":false,"comment":"","id":1,"size":255}],"comment":"","indices":[],"color":"#ffe159"}],"references":[{"startTableId":2,"startFieldId":2,"endTableId":0,"endFieldId":0,"name":"enrollment_student_id_fk","cardinality":"many_to_one","updateConstraint":"No action","deleteConstraint":"No action","id":0},{"startTableId":2,"startFieldId":1,"endTableId":1,"endFieldId":0,"name":"enrollment_course_id_fk","cardinality":"many_to_one","updateConstraint":"No action","deleteConstraint":"No action","id":1},{"startTableId":3,"startFieldId":4,"endTableId":4,"endFieldId":0,"name":"instructors_dep_id_fk","cardinality":"one_to_one","updateConstraint":"No action","deleteConstraint":"No action","id":2},{"startTableId":1,"startFieldId":2,"endTableId":4,"endFieldId":0,"name":"courses_dep_id_fk","cardinality":"one_to_one","updateConstraint":"No action","deleteConstraint":"No action","id":3},{"startTableId":0,"startFieldId":7,"endTableId":5,"endFieldId":0,"name":"students_major_id_fk","cardinality":"many_to_one","updateConstraint":"No action","deleteConstraint":"No action","id":4}],"notes":[],"areas":[],"types":[],"enums":[]}$template$::jsonb, true
+WHERE NOT EXISTS (SELECT 1 FROM templates WHERE user_id IS NULL AND title = 'University schema');
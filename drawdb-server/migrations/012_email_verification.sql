@@ -0,0 +1,13 @@
+-- DrawDB Database Schema
+-- Migration: email verification
+
+-- Whether the user has proven they receive mail at their address. Accounts created before
+-- this are unverified too and can ask for a verification link
+ALTER TABLE users ADD COLUMN IF NOT EXISTS email_verified BOOLEAN NOT NULL DEFAULT false;
+
+-- Email change tokens carry the new address until it is confirmed
+ALTER TABLE user_tokens ADD COLUMN IF NOT EXISTS email VARCHAR(255);
+
+ALTER TABLE user_tokens DROP CONSTRAINT IF EXISTS valid_user_token_purpose;
+ALTER TABLE user_tokens ADD CONSTRAINT valid_user_token_purpose
+  CHECK (purpose IN ('password_reset', 'email_verification', 'email_change'));
@@ -0,0 +1,15 @@
+-- DrawDB Database Schema
+-- Migration: diagram image links
+
+-- Read-only keys that render one diagram as an image without signing in, for READMEs and wiki
+-- pages. Stored as SHA-256 hashes; deleting a link revokes its key
+CREATE TABLE IF NOT EXISTS diagram_image_links (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  diagram_id UUID NOT NULL REFERENCES diagrams(id) ON DELETE CASCADE,
+  key_hash VARCHAR(64) NOT NULL UNIQUE,
+  label VARCHAR(255),
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_diagram_image_links_diagram ON diagram_image_links(diagram_id);
@@ -0,0 +1,6 @@
+-- DrawDB Database Schema
+-- Migration: diagram thumbnails that could not be drawn
+
+-- Thumbnails are drawn in the background; a version that could not be drawn is stored without an
+-- image, so it is not tried again until the diagram changes
+ALTER TABLE diagram_thumbnails ALTER COLUMN image DROP NOT NULL;
@@ -0,0 +1,16 @@
+-- DrawDB Database Schema
+-- Migration: diagram presence
+
+-- Users who have a diagram open, shared by every server instance. Rows without a heartbeat for
+-- PRESENCE_TIMEOUT_MS are swept by whichever instance finds them first
+CREATE TABLE IF NOT EXISTS diagram_presence (
+  diagram_id UUID NOT NULL REFERENCES diagrams(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  username VARCHAR(50) NOT NULL,
+  selection JSONB,
+  viewport JSONB,
+  last_seen TIMESTAMP NOT NULL,
+  PRIMARY KEY (diagram_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_diagram_presence_last_seen ON diagram_presence(last_seen);
@@ -1,4 +1,4 @@
-import express from 'express';
+import express, { Request } from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
 import morgan from 'morgan';
@@ -6,6 +6,9 @@ import { emailRouter } from './routes/email-route';
 import { gistRouter } from './routes/gist-route';
 import { authRouter } from './routes/auth-route';
 import { diagramRouter } from './routes/diagram-route';
+import { folderRouter } from './routes/folder-route';
+import { searchRouter } from './routes/search-route';
+import { templateRouter } from './routes/template-route';
 import { config } from './config';
 
 const app = express();
@@ -13,12 +16,16 @@ const app = express();
 // Security middleware
 app.use(helmet());
 
-// Request logging
+// Request logging. Access tokens sent as `?token=` by EventSource clients and image link keys
+// stay out of the log.
+morgan.token<Request>('url', (req) =>
+  (req.originalUrl || req.url).replace(/([?&](?:token|key)=)[^&]*/g, '$1[redacted]'),
+);
 app.use(morgan(config.dev ? 'dev' : 'combined'));
 
 // Body parsing
-app.use(express.json({ limit: '10mb' }));
-app.use(express.urlencoded({ extended: true, limit: '10mb' }));
+app.use(express.json({ limit: config.server.bodyLimit }));
+app.use(express.urlencoded({ extended: true, limit: config.server.bodyLimit }));
 
 // CORS configuration
 app.use(
@@ -33,8 +40,8 @@ app.use(
           }
         },
     credentials: true,
-    methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization'],
+    methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'Last-Event-ID'],
   }),
 );
 
@@ -55,6 +62,9 @@ app.get('/', (req, res) => {
     endpoints: {
       auth: '/api/v1/auth',
       diagrams: '/api/v1/diagrams',
+      folders: '/api/v1/folders',
+      search: '/api/v1/search',
+      templates: '/api/v1/templates',
       email: '/email',
       gists: '/gists',
     },
@@ -64,6 +74,9 @@ app.get('/', (req, res) => {
 // API routes
 app.use('/api/v1/auth', authRouter);
 app.use('/api/v1/diagrams', diagramRouter);
+app.use('/api/v1/folders', folderRouter);
+app.use('/api/v1/search', searchRouter);
+app.use('/api/v1/templates', templateRouter);
 
 // Legacy routes (keep for backward compatibility)
 app.use('/email', emailRouter);
@@ -1,6 +1,13 @@
+import { readFileSync } from 'fs';
+import path from 'path';
 import { Sequelize } from 'sequelize';
 import { config } from './index';
 
+// Search functions and indexes are not described by the models, so sync cannot create them
+const SEARCH_MIGRATION = path.join(__dirname, '../../migrations/005_diagram_search.sql');
+// Seed rows are data, not schema, so sync leaves the system templates out as well
+const TEMPLATES_MIGRATION = path.join(__dirname, '../../migrations/009_system_templates.sql');
+
 // Create Sequelize instance
 export const sequelize = new Sequelize({
   host: config.database.host,
@@ -32,6 +39,12 @@ export async function connectDatabase() {
       // Sync models in development (create tables if they don't exist)
       await sequelize.sync({ alter: true });
       console.log('✓ Database models synchronized');
+
+      await sequelize.query(readFileSync(SEARCH_MIGRATION, 'utf8'));
+      console.log('✓ Diagram search index ready');
+
+      await sequelize.query(readFileSync(TEMPLATES_MIGRATION, 'utf8'));
+      console.log('✓ System templates seeded');
     }
   } catch (error) {
     console.error('✗ Unable to connect to the database:', error);
@@ -10,6 +10,12 @@ export const config = {
   server: {
     port: process.env.PORT || 9080,
     allowedOrigins: process.env.CLIENT_URLS ? process.env.CLIENT_URLS.split(',') : [],
+    // Frontend address used in links sent by email; the first allowed origin when unset
+    clientUrl:
+      process.env.CLIENT_URL ||
+      (process.env.CLIENT_URLS ? process.env.CLIENT_URLS.split(',')[0] : 'http://localhost:5173'),
+    // Largest request body, and live editing message, accepted in bytes
+    bodyLimit: 10 * 1024 * 1024,
   },
   mail: {
     service: process.env.MAIL_SERVICE || 'gmail',
@@ -26,7 +32,47 @@ export const config = {
   },
   jwt: {
     secret: process.env.JWT_SECRET || 'change_this_secret_in_production',
-    expiresIn: process.env.JWT_EXPIRES_IN || '7d',
+    // Access tokens are short-lived; sessions are kept going with refresh tokens
+    expiresIn: process.env.JWT_EXPIRES_IN || '15m',
+  },
+  session: {
+    // Days a session lasts without being refreshed; each refresh issues a new token
+    refreshTokenDays: parseInt(process.env.REFRESH_TOKEN_DAYS || '30'),
+    purgeInterval: parseInt(process.env.SESSION_PURGE_INTERVAL_MS || '3600000'),
+  },
+  passwordReset: {
+    // Minutes a password reset link stays valid
+    tokenMinutes: parseInt(process.env.PASSWORD_RESET_TOKEN_MINUTES || '60'),
+  },
+  emailVerification: {
+    // Refuse logins until the account's email address is verified
+    required: process.env.REQUIRE_EMAIL_VERIFICATION === 'true',
+    // Hours a verification or email change link stays valid
+    tokenHours: parseInt(process.env.EMAIL_VERIFICATION_TOKEN_HOURS || '48'),
+  },
+  presence: {
+    // Presence entries without a heartbeat for this long are dropped
+    timeout: parseInt(process.env.PRESENCE_TIMEOUT_MS || '60000'),
+  },
+  thumbnails: {
+    // How often thumbnails of changed diagrams are redrawn, and how many each time
+    interval: parseInt(process.env.THUMBNAIL_INTERVAL_MS || '30000'),
+    batchSize: parseInt(process.env.THUMBNAIL_BATCH_SIZE || '20'),
+  },
+  trash: {
+    // Days a deleted diagram stays restorable before it is purged
+    retentionDays: parseInt(process.env.TRASH_RETENTION_DAYS || '30'),
+    purgeInterval: parseInt(process.env.TRASH_PURGE_INTERVAL_MS || '3600000'),
+  },
+  introspection: {
+    // Hosts live databases may be read from; any public host when empty. Loopback, private and
+    // link-local addresses are only reached through hosts listed here.
+    allowedHosts: process.env.INTROSPECT_ALLOWED_HOSTS
+      ? process.env.INTROSPECT_ALLOWED_HOSTS.split(',')
+      : [],
+    // Directory SQLite files may be read from; SQLite connections are refused when unset
+    sqliteDir: process.env.INTROSPECT_SQLITE_DIR || '',
+    timeout: parseInt(process.env.INTROSPECT_TIMEOUT_MS || '10000'),
   },
   bcrypt: {
     rounds: parseInt(process.env.BCRYPT_ROUNDS || '10'),
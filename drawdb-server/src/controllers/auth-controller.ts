@@ -1,8 +1,74 @@
 import { Response } from 'express';
-import jwt, { Secret, SignOptions } from 'jsonwebtoken';
+import { sequelize } from '../config/database';
 import { User } from '../models';
+import { UserTokenPurpose } from '../models/UserToken';
 import { config } from '../config';
 import { AuthRequest } from '../middleware/auth';
+import { SessionClient, SessionService } from '../services/session-service';
+import { invalidTokenError, UserTokenService } from '../services/user-token-service';
+import { emailChangeEmail, passwordResetEmail, verificationEmail } from '../utils/account-emails';
+import { HttpError } from '../utils/http-error';
+import { sendEmail } from '../utils/send-email';
+
+const HOUR = 60 * 60 * 1000;
+
+// The device a request comes from, remembered on its session
+function clientOf(req: AuthRequest): SessionClient {
+  return {
+    userAgent: req.get('user-agent')?.slice(0, 255) ?? null,
+    ipAddress: req.ip ?? null,
+  };
+}
+
+// Email a link that verifies the user's current address; sending happens in the background
+async function sendVerification(user: User): Promise<void> {
+  const hours = config.emailVerification.tokenHours;
+  const token = await UserTokenService.issue(
+    user.id,
+    UserTokenPurpose.EMAIL_VERIFICATION,
+    hours * HOUR,
+    user.email,
+  );
+  const link = `${config.server.clientUrl}/verify-email?token=${token}`;
+  const { subject, html } = verificationEmail(user.username, link, hours);
+
+  sendEmail(subject, html, user.email, config.mail.username).catch((error) =>
+    console.error('Verification email error:', error),
+  );
+}
+
+// Email a link that lets the user set a new password
+async function sendPasswordReset(user: User): Promise<void> {
+  const minutes = config.passwordReset.tokenMinutes;
+  const token = await UserTokenService.issue(
+    user.id,
+    UserTokenPurpose.PASSWORD_RESET,
+    minutes * 60 * 1000,
+  );
+  const link = `${config.server.clientUrl}/reset-password?token=${token}`;
+  const { subject, html } = passwordResetEmail(user.username, link, minutes);
+
+  sendEmail(subject, html, user.email, config.mail.username).catch((error) =>
+    console.error('Password reset email error:', error),
+  );
+}
+
+// Email the new address a link that switches the account over to it
+async function sendEmailChange(user: User, email: string): Promise<void> {
+  const hours = config.emailVerification.tokenHours;
+  const token = await UserTokenService.issue(
+    user.id,
+    UserTokenPurpose.EMAIL_CHANGE,
+    hours * HOUR,
+    email,
+  );
+  const link = `${config.server.clientUrl}/confirm-email?token=${token}`;
+  const { subject, html } = emailChangeEmail(user.username, link, hours);
+
+  sendEmail(subject, html, email, config.mail.username).catch((error) =>
+    console.error('Email change email error:', error),
+  );
+}
 
 export class AuthController {
   // Register a new user
@@ -30,16 +96,26 @@ export class AuthController {
         password,
       });
 
-      // Generate JWT token
-      const token = jwt.sign(
-        { userId: user.id },
-        config.jwt.secret as Secret,
-        { expiresIn: config.jwt.expiresIn } as SignOptions
-      );
+      await sendVerification(user);
+
+      // With verification required, the user signs in after following the emailed link
+      if (config.emailVerification.required) {
+        res.status(201).json({
+          message: 'User registered successfully. Verify your email address to log in',
+          verificationRequired: true,
+          user: user.toJSON(),
+        });
+        return;
+      }
+
+      // Sign the new user in on this device
+      const { token, refreshToken } = await SessionService.start(user, clientOf(req));
 
       res.status(201).json({
         message: 'User registered successfully',
         token,
+        refreshToken,
+        expiresIn: config.jwt.expiresIn,
         user: user.toJSON(),
       });
     } catch (error) {
@@ -87,19 +163,25 @@ export class AuthController {
         return;
       }
 
+      if (config.emailVerification.required && !user.emailVerified) {
+        res.status(403).json({
+          error: 'Email not verified',
+          message: 'Verify your email address before logging in',
+        });
+        return;
+      }
+
       // Update last login
       await user.update({ lastLogin: new Date() });
 
-      // Generate JWT token
-      const token = jwt.sign(
-        { userId: user.id },
-        config.jwt.secret as Secret,
-        { expiresIn: config.jwt.expiresIn } as SignOptions
-      );
+      // Start a session for this device
+      const { token, refreshToken } = await SessionService.start(user, clientOf(req));
 
       res.json({
         message: 'Login successful',
         token,
+        refreshToken,
+        expiresIn: config.jwt.expiresIn,
         user: user.toJSON(),
       });
     } catch (error) {
@@ -145,15 +227,36 @@ export class AuthController {
         return;
       }
 
-      const { username } = req.body;
+      const { username, email } = req.body;
+      const emailChanged = Boolean(email) && email !== req.user.email;
+
+      if (emailChanged) {
+        const existingUser = await User.findOne({ where: { email } });
+
+        if (existingUser) {
+          res.status(409).json({
+            error: 'Email already in use',
+            message: 'A user with this email already exists',
+          });
+          return;
+        }
+      }
 
       if (username) {
         await req.user.update({ username });
       }
 
+      // The address only changes once the link sent to it is followed
+      if (emailChanged) {
+        await sendEmailChange(req.user, email);
+      }
+
       res.json({
-        message: 'Profile updated successfully',
+        message: emailChanged
+          ? 'Profile updated. Confirm your new email address with the link sent to it'
+          : 'Profile updated successfully',
         user: req.user.toJSON(),
+        pendingEmail: emailChanged ? email : null,
       });
     } catch (error) {
       console.error('Update profile error:', error);
@@ -188,11 +291,13 @@ export class AuthController {
         return;
       }
 
-      // Update password
+      // Update password and sign out every other device
       await req.user.update({ password: newPassword });
+      const revokedSessions = await SessionService.revokeAll(req.user.id, req.sessionId);
 
       res.json({
         message: 'Password changed successfully',
+        revokedSessions,
       });
     } catch (error) {
       console.error('Change password error:', error);
@@ -202,6 +307,297 @@ export class AuthController {
       });
     }
   }
+
+  // Email a password reset link. The response is the same whether or not the address belongs
+  // to an account, and the email is sent in the background so a slow mail server does not
+  // give it away either
+  static async forgotPassword(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { email } = req.body;
+
+      const user = await User.findOne({ where: { email } });
+
+      res.json({
+        message: 'If an account exists for this email, a password reset link has been sent',
+      });
+
+      // Only after responding, so response times do not tell which emails have accounts
+      if (user && user.isActive) {
+        sendPasswordReset(user).catch((error) => console.error('Forgot password error:', error));
+      }
+    } catch (error) {
+      console.error('Forgot password error:', error);
+      res.status(500).json({
+        error: 'Failed to request password reset',
+        message: error instanceof Error ? error.message : 'An unexpected error occurred',
+      });
+    }
+  }
+
+  // Set a new password with an emailed reset token and sign out every session
+  static async resetPassword(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { token, newPassword } = req.body;
+
+      const userId = await sequelize.transaction(async (transaction) => {
+        const userToken = await UserTokenService.consume(
+          token,
+          UserTokenPurpose.PASSWORD_RESET,
+          transaction,
+        );
+        const user = await User.findByPk(userToken.userId, { transaction });
+
+        if (!user || !user.isActive) {
+          throw invalidTokenError();
+        }
+
+        await user.update({ password: newPassword }, { transaction });
+        return user.id;
+      });
+
+      const revokedSessions = await SessionService.revokeAll(userId);
+
+      res.json({
+        message: 'Password reset successfully',
+        revokedSessions,
+      });
+    } catch (error) {
+      if (error instanceof HttpError) {
+        res.status(error.statusCode).json(error.body);
+        return;
+      }
+      console.error('Reset password error:', error);
+      res.status(500).json({
+        error: 'Failed to reset password',
+        message: error instanceof Error ? error.message : 'An unexpected error occurred',
+      });
+    }
+  }
+
+  // Mark the account's email address verified with an emailed token
+  static async verifyEmail(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { token } = req.body;
+
+      await sequelize.transaction(async (transaction) => {
+        const userToken = await UserTokenService.consume(
+          token,
+          UserTokenPurpose.EMAIL_VERIFICATION,
+          transaction,
+        );
+        const user = await User.findByPk(userToken.userId, { transaction });
+
+        // A link sent before an email change does not verify the new address
+        if (!user || user.email !== userToken.email) {
+          throw invalidTokenError();
+        }
+
+        await user.update({ emailVerified: true }, { transaction });
+      });
+
+      res.json({
+        message: 'Email verified successfully',
+      });
+    } catch (error) {
+      if (error instanceof HttpError) {
+        res.status(error.statusCode).json(error.body);
+        return;
+      }
+      console.error('Verify email error:', error);
+      res.status(500).json({
+        error: 'Failed to verify email',
+        message: error instanceof Error ? error.message : 'An unexpected error occurred',
+      });
+    }
+  }
+
+  // Send a new verification link; like forgot-password, the answer does not reveal accounts
+  static async resendVerification(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { email } = req.body;
+
+      const user = await User.findOne({ where: { email } });
+
+      res.json({
+        message: 'If an unverified account uses this email, a verification link has been sent',
+      });
+
+      // Only after responding, so response times do not tell which emails have accounts
+      if (user && user.isActive && !user.emailVerified) {
+        sendVerification(user).catch((error) => console.error('Resend verification error:', error));
+      }
+    } catch (error) {
+      console.error('Resend verification error:', error);
+      res.status(500).json({
+        error: 'Failed to send verification email',
+        message: error instanceof Error ? error.message : 'An unexpected error occurred',
+      });
+    }
+  }
+
+  // Switch the account to the new address an email change token was sent to
+  static async confirmEmail(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { token } = req.body;
+
+      const email = await sequelize.transaction(async (transaction) => {
+        const userToken = await UserTokenService.consume(
+          token,
+          UserTokenPurpose.EMAIL_CHANGE,
+          transaction,
+        );
+        const user = await User.findByPk(userToken.userId, { transaction });
+
+        if (!user || !user.isActive || !userToken.email) {
+          throw invalidTokenError();
+        }
+
+        // Another account may have registered the address since the link was sent
+        const existingUser = await User.findOne({
+          where: { email: userToken.email },
+          transaction,
+        });
+
+        if (existingUser) {
+          throw new HttpError(409, {
+            error: 'Email already in use',
+            message: 'A user with this email already exists',
+          });
+        }
+
+        await user.update({ email: userToken.email, emailVerified: true }, { transaction });
+        return user.email;
+      });
+
+      res.json({
+        message: 'Email address changed successfully',
+        email,
+      });
+    } catch (error) {
+      if (error instanceof HttpError) {
+        res.status(error.statusCode).json(error.body);
+        return;
+      }
+      console.error('Confirm email error:', error);
+      res.status(500).json({
+        error: 'Failed to change email',
+        message: error instanceof Error ? error.message : 'An unexpected error occurred',
+      });
+    }
+  }
+
+  // Exchange a refresh token for a new access token and refresh token
+  static async refresh(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { refreshToken } = req.body;
+
+      const session = await SessionService.refresh(refreshToken, clientOf(req));
+
+      res.json({
+        token: session.token,
+        refreshToken: session.refreshToken,
+        expiresIn: config.jwt.expiresIn,
+      });
+    } catch (error) {
+      if (error instanceof HttpError) {
+        res.status(error.statusCode).json(error.body);
+        return;
+      }
+      console.error('Refresh token error:', error);
+      res.status(500).json({
+        error: 'Failed to refresh session',
+        message: error instanceof Error ? error.message : 'An unexpected error occurred',
+      });
+    }
+  }
+
+  // End the session the request was made with
+  static async logout(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      if (!req.userId || !req.sessionId) {
+        res.status(401).json({
+          error: 'Authentication required',
+          message: 'No user found',
+        });
+        return;
+      }
+
+      const session = await SessionService.findActive(req.sessionId, req.userId);
+      if (session) {
+        await SessionService.revoke(session);
+      }
+
+      res.json({
+        message: 'Logged out successfully',
+      });
+    } catch (error) {
+      console.error('Logout error:', error);
+      res.status(500).json({
+        error: 'Failed to log out',
+        message: error instanceof Error ? error.message : 'An unexpected error occurred',
+      });
+    }
+  }
+
+  // List the devices the user is signed in on, marking the one making the request
+  static async getSessions(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      if (!req.userId) {
+        res.status(401).json({
+          error: 'Authentication required',
+          message: 'No user found',
+        });
+        return;
+      }
+
+      const sessions = await SessionService.listActive(req.userId);
+
+      res.json({
+        sessions: sessions.map((session) => ({
+          ...session.toJSON(),
+          current: session.id === req.sessionId,
+        })),
+      });
+    } catch (error) {
+      console.error('Get sessions error:', error);
+      res.status(500).json({
+        error: 'Failed to get sessions',
+        message: error instanceof Error ? error.message : 'An unexpected error occurred',
+      });
+    }
+  }
+
+  // Sign out one device; its access and refresh tokens stop working at once
+  static async revokeSession(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      if (!req.userId) {
+        res.status(401).json({
+          error: 'Authentication required',
+          message: 'No user found',
+        });
+        return;
+      }
+
+      const session = await SessionService.findActive(req.params.id, req.userId);
+
+      if (!session) {
+        res.status(404).json({ error: 'Session not found' });
+        return;
+      }
+
+      await SessionService.revoke(session);
+
+      res.json({
+        message: 'Session revoked successfully',
+      });
+    } catch (error) {
+      console.error('Revoke session error:', error);
+      res.status(500).json({
+        error: 'Failed to revoke session',
+        message: error instanceof Error ? error.message : 'An unexpected error occurred',
+      });
+    }
+  }
 }
 
 export default AuthController;
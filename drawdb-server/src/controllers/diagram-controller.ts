@@ -1,12 +1,23 @@
 import { Response } from 'express';
-import { Op } from 'sequelize';
 import { Diagram, DiagramShare, User } from '../models';
 import { AuthRequest } from '../middleware/auth';
 import { PermissionLevel } from '../models/DiagramShare';
 import { sequelize } from '../config/database';
+import { RevisionService } from '../services/revision-service';
+import { DiagramPatchService } from '../services/diagram-patch-service';
+import { MergeService } from '../services/merge-service';
+import { DiagramEventService } from '../services/diagram-event-service';
+import { TrashService } from '../services/trash-service';
+import { DiagramAccessService } from '../services/diagram-access-service';
+import { FolderService } from '../services/folder-service';
+import { LintService } from '../services/lint-service';
+import { DiagramListService, ListOptions } from '../services/diagram-list-service';
+import { HttpError } from '../utils/http-error';
+import { summarizeChanges } from '../utils/diagram-diff';
+import { validateReferences } from '../utils/diagram-schema';
 
 export class DiagramController {
-  // Get all diagrams (owned + shared with user)
+  // List diagrams the user can see (owned + shared) as summaries, one cursor page at a time
   static async getAll(req: AuthRequest, res: Response): Promise<void> {
     try {
       if (!req.userId) {
@@ -14,48 +25,29 @@ export class DiagramController {
         return;
       }
 
-      // Get user's own diagrams
-      const ownDiagrams = await Diagram.findAll({
-        where: { userId: req.userId },
-        order: [['lastModified', 'DESC']],
-      });
-
-      // Get diagrams shared with user
-      const sharedDiagramIds = await DiagramShare.findAll({
-        where: { sharedWithUserId: req.userId },
-        attributes: ['diagramId', 'permissionLevel'],
-      });
-
-      const sharedDiagrams = await Diagram.findAll({
-        where: {
-          id: {
-            [Op.in]: sharedDiagramIds.map((s) => s.diagramId),
-          },
-        },
-        include: [
-          {
-            model: User,
-            as: 'owner',
-            attributes: ['id', 'username', 'email'],
-          },
-        ],
-      });
+      const query = req.query as Record<string, string | undefined>;
+      const sort = (query.sort as ListOptions['sort']) || 'lastModified';
 
-      // Add permission level to shared diagrams
-      const sharedDiagramsWithPermissions = sharedDiagrams.map((diagram) => {
-        const share = sharedDiagramIds.find((s) => s.diagramId === diagram.id);
-        return {
-          ...diagram.toJSON(),
-          permissionLevel: share?.permissionLevel,
-          isSharedWithMe: true,
-        };
+      const page = await DiagramListService.list(req.userId, {
+        limit: query.limit ? parseInt(query.limit, 10) : 50,
+        cursor: query.cursor,
+        sort,
+        order: (query.order as ListOptions['order']) || (sort === 'name' ? 'asc' : 'desc'),
+        scope: (query.scope as ListOptions['scope']) || 'all',
+        database: query.database,
+        ownerId: query.ownerId,
+        name: query.name,
+        // ?folderId=<id> lists one folder, ?folderId=root the diagrams outside any folder
+        folderId: query.folderId === 'root' ? null : query.folderId,
+        loadedFromGistId: query.loadedFromGistId,
       });
 
-      res.json({
-        ownDiagrams,
-        sharedDiagrams: sharedDiagramsWithPermissions,
-      });
+      res.json(page);
     } catch (error) {
+      if (error instanceof HttpError) {
+        res.status(error.statusCode).json(error.body);
+        return;
+      }
       console.error('Get diagrams error:', error);
       res.status(500).json({
         error: 'Failed to get diagrams',
@@ -80,12 +72,6 @@ export class DiagramController {
             as: 'owner',
             attributes: ['id', 'username', 'email'],
           },
-          {
-            model: DiagramShare,
-            as: 'shares',
-            where: { sharedWithUserId: req.userId },
-            required: false,
-          },
         ],
       });
 
@@ -94,16 +80,15 @@ export class DiagramController {
         return;
       }
 
-      // Check access rights
-      const isOwner = diagram.userId === req.userId;
-      const hasSharedAccess = diagram.shares && diagram.shares.length > 0;
+      // Check access rights (owner, diagram share or folder share)
+      const permission = await DiagramAccessService.getPermission(diagram, req.userId);
 
-      if (!isOwner && !hasSharedAccess) {
+      if (!permission) {
         res.status(403).json({ error: 'Access denied' });
         return;
       }
 
-      res.json(diagram);
+      res.json({ ...diagram.toJSON(), permissionLevel: permission });
     } catch (error) {
       console.error('Get diagram error:', error);
       res.status(500).json({
@@ -127,11 +112,24 @@ export class DiagramController {
         lastModifiedBy: req.userId,
         version: 1,
       };
+      // Lint settings are owner-only and go through PUT /:id/lint/config
+      delete diagramData.lintConfig;
+
+      await FolderService.checkTarget(diagramData.folderId ?? null, req.userId);
 
-      const diagram = await Diagram.create(diagramData);
+      const diagram = await sequelize.transaction(async (transaction) => {
+        const created = await Diagram.create(diagramData, { transaction });
+        await LintService.checkSave(created, RevisionService.toSnapshot(created), transaction);
+        await RevisionService.record(created, null, transaction);
+        return created;
+      });
 
       res.status(201).json(diagram);
     } catch (error) {
+      if (error instanceof HttpError) {
+        res.status(error.statusCode).json(error.body);
+        return;
+      }
       console.error('Create diagram error:', error);
       res.status(500).json({
         error: 'Failed to create diagram',
@@ -146,7 +144,10 @@ export class DiagramController {
 
     try {
       const { id } = req.params;
-      const { expectedVersion, ...diagramData } = req.body;
+      const { expectedVersion, message, ...diagramData } = req.body;
+      // Folder placement is the owner's call and goes through PUT /:id/folder
+      delete diagramData.folderId;
+      delete diagramData.lintConfig;
 
       if (!req.userId) {
         await transaction.rollback();
@@ -167,47 +168,85 @@ export class DiagramController {
         return;
       }
 
-      // Check edit permission - owner or has editor/owner share
-      const isOwner = diagram.userId === req.userId;
-      let hasEditAccess = false;
+      // Check edit permission - owner or editor/owner share on the diagram or its folders
+      const permission = await DiagramAccessService.getPermission(diagram, req.userId, transaction);
 
-      if (!isOwner) {
-        // Check if user has edit access via share
-        const share = await DiagramShare.findOne({
-          where: {
-            diagramId: id,
-            sharedWithUserId: req.userId,
-            permissionLevel: {
-              [Op.in]: [PermissionLevel.EDITOR, PermissionLevel.OWNER],
-            },
-          },
-          transaction,
-        });
-        hasEditAccess = !!share;
-      }
-
-      if (!isOwner && !hasEditAccess) {
+      if (!DiagramAccessService.canEdit(permission)) {
         await transaction.rollback();
         res.status(403).json({ error: 'No edit permission' });
         return;
       }
 
-      // Conflict detection
+      // Conflict detection: edits made against an older version are merged three-way
+      // with the stored state; only overlapping edits are rejected
+      let mergedFromVersion: number | null = null;
+
       if (expectedVersion && diagram.version !== expectedVersion) {
+        const result = await MergeService.rebase(
+          diagram,
+          expectedVersion,
+          (base) => ({ ...base, ...MergeService.pickDocument(diagramData) }),
+          transaction,
+        );
+
+        if (!result || result.conflicts.length > 0) {
+          const changes = await RevisionService.changesSince(diagram, expectedVersion, transaction);
+          await transaction.rollback();
+          res.status(409).json({
+            error: 'Conflict detected',
+            message: result
+              ? 'Diagram was modified by another user and the changes overlap'
+              : 'Diagram was modified by another user',
+            currentVersion: {
+              version: diagram.version,
+              lastModified: diagram.lastModified,
+              lastModifiedBy: diagram.lastModifiedBy,
+              data: diagram.toJSON(),
+            },
+            changes,
+            conflicts: result ? result.conflicts : [],
+          });
+          return;
+        }
+
+        Object.assign(diagramData, result.merged);
+        mergedFromVersion = diagram.version;
+      }
+
+      // Relationships sent without their tables (or the reverse) must fit the stored half
+      if (diagramData.tables !== undefined || diagramData.references !== undefined) {
+        const details = validateReferences(
+          diagramData.tables ?? diagram.tables,
+          diagramData.references ?? diagram.references,
+        );
+
+        if (details.length > 0) {
+          await transaction.rollback();
+          res.status(400).json({
+            error: 'Validation error',
+            message: 'Invalid diagram document',
+            details,
+          });
+          return;
+        }
+      }
+
+      // Diagrams whose lint settings reject errors keep their last error-free state
+      const issues = await LintService.blockingIssues(
+        diagram,
+        { ...RevisionService.toSnapshot(diagram), ...MergeService.pickDocument(diagramData) },
+        transaction,
+      );
+
+      if (issues.length > 0) {
         await transaction.rollback();
-        res.status(409).json({
-          error: 'Conflict detected',
-          message: 'Diagram was modified by another user',
-          currentVersion: {
-            version: diagram.version,
-            lastModified: diagram.lastModified,
-            lastModifiedBy: diagram.lastModifiedBy,
-            data: diagram.toJSON(),
-          },
-        });
+        res.status(422).json(LintService.rejection(issues));
         return;
       }
 
+      await RevisionService.ensureRecorded(diagram, transaction);
+      const before = RevisionService.toSnapshot(diagram);
+
       // Update diagram
       await diagram.update(
         {
@@ -219,9 +258,24 @@ export class DiagramController {
         { transaction },
       );
 
+      await RevisionService.record(
+        diagram,
+        message || (mergedFromVersion ? `Merged with version ${mergedFromVersion}` : null),
+        transaction,
+      );
+
       await transaction.commit();
 
-      res.json(diagram);
+      DiagramEventService.publish({
+        type: 'version',
+        diagramId: diagram.id,
+        version: diagram.version,
+        lastModifiedBy: req.userId,
+        changes: summarizeChanges(before, RevisionService.toSnapshot(diagram)),
+        merged: mergedFromVersion !== null,
+      });
+
+      res.json(mergedFromVersion ? { ...diagram.toJSON(), merged: true } : diagram);
     } catch (error) {
       await transaction.rollback();
       console.error('Update diagram error:', error);
@@ -232,6 +286,39 @@ export class DiagramController {
     }
   }
 
+  // Apply JSON Patch operations instead of replacing the whole document
+  static async patch(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { operations, expectedVersion, message } = req.body;
+
+      if (!req.userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const { diagram, merged } = await DiagramPatchService.apply({
+        diagramId: id,
+        userId: req.userId,
+        operations,
+        expectedVersion,
+        message,
+      });
+
+      res.json({ version: diagram.version, merged });
+    } catch (error) {
+      if (error instanceof HttpError) {
+        res.status(error.statusCode).json(error.body);
+        return;
+      }
+      console.error('Patch diagram error:', error);
+      res.status(500).json({
+        error: 'Failed to patch diagram',
+        message: error instanceof Error ? error.message : 'An unexpected error occurred',
+      });
+    }
+  }
+
   // Delete diagram
   static async delete(req: AuthRequest, res: Response): Promise<void> {
     try {
@@ -251,9 +338,21 @@ export class DiagramController {
         return;
       }
 
+      // Soft delete: the diagram moves to the owner's trash and keeps its shares
       await diagram.destroy();
 
-      res.json({ message: 'Diagram deleted successfully' });
+      DiagramEventService.publish({
+        type: 'deleted',
+        diagramId: diagram.id,
+        version: diagram.version,
+        deletedBy: req.userId,
+        permanent: false,
+      });
+
+      res.json({
+        message: 'Diagram moved to trash',
+        purgeAt: TrashService.purgeAt(diagram.deletedAt as Date),
+      });
     } catch (error) {
       console.error('Delete diagram error:', error);
       res.status(500).json({
@@ -299,6 +398,43 @@ export class DiagramController {
     }
   }
 
+  // Move a diagram into a folder (or back to the top level with folderId null)
+  static async moveToFolder(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const folderId: string | null = req.body.folderId ?? null;
+
+      if (!req.userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const diagram = await Diagram.findOne({
+        where: { id, userId: req.userId },
+      });
+
+      if (!diagram) {
+        res.status(404).json({ error: 'Diagram not found or access denied' });
+        return;
+      }
+
+      await FolderService.checkTarget(folderId, req.userId);
+      await diagram.update({ folderId });
+
+      res.json({ id: diagram.id, folderId: diagram.folderId });
+    } catch (error) {
+      if (error instanceof HttpError) {
+        res.status(error.statusCode).json(error.body);
+        return;
+      }
+      console.error('Move diagram error:', error);
+      res.status(500).json({
+        error: 'Failed to move diagram',
+        message: error instanceof Error ? error.message : 'An unexpected error occurred',
+      });
+    }
+  }
+
   // Duplicate diagram
   static async duplicate(req: AuthRequest, res: Response): Promise<void> {
     try {
@@ -316,24 +452,47 @@ export class DiagramController {
         return;
       }
 
+      const permission = await DiagramAccessService.getPermission(originalDiagram, req.userId);
+      if (!permission) {
+        res.status(403).json({ error: 'Access denied' });
+        return;
+      }
+
+      // The copy belongs to the caller, so it goes into one of their folders or the top level
+      const folderId: string | null = req.body.folderId ?? null;
+      await FolderService.checkTarget(folderId, req.userId);
+
       // Create duplicate
       const duplicateData = originalDiagram.toJSON();
       delete (duplicateData as { id?: string }).id;
       delete (duplicateData as { createdAt?: Date }).createdAt;
       delete (duplicateData as { updatedAt?: Date }).updatedAt;
 
-      const newDiagram = await Diagram.create({
-        ...duplicateData,
-        name: `${originalDiagram.name} (Copy)`,
-        userId: req.userId,
-        lastModifiedBy: req.userId,
-        version: 1,
-        gistId: null,
-        loadedFromGistId: originalDiagram.gistId,
+      const newDiagram = await sequelize.transaction(async (transaction) => {
+        const created = await Diagram.create(
+          {
+            ...duplicateData,
+            name: `${originalDiagram.name} (Copy)`,
+            userId: req.userId as string,
+            folderId,
+            lastModifiedBy: req.userId,
+            version: 1,
+            gistId: null,
+            loadedFromGistId: originalDiagram.gistId,
+          },
+          { transaction },
+        );
+        await LintService.checkSave(created, RevisionService.toSnapshot(created), transaction);
+        await RevisionService.record(created, null, transaction);
+        return created;
       });
 
       res.status(201).json(newDiagram);
     } catch (error) {
+      if (error instanceof HttpError) {
+        res.status(error.statusCode).json(error.body);
+        return;
+      }
       console.error('Duplicate diagram error:', error);
       res.status(500).json({
         error: 'Failed to duplicate diagram',
@@ -365,6 +524,7 @@ export class DiagramController {
           error: 'Conflict detected',
           message: 'Diagram has been updated',
           currentVersion: diagram.toJSON(),
+          changes: await RevisionService.changesSince(diagram, expectedVersion),
         });
         return;
       }
@@ -434,6 +594,16 @@ export class DiagramController {
       // Update diagram isShared flag
       await diagram.update({ isShared: true });
 
+      DiagramEventService.publish({
+        type: 'shares',
+        diagramId: diagram.id,
+        version: diagram.version,
+        action: 'shared',
+        userId: sharedWithUserId,
+        permissionLevel,
+        changedBy: req.userId,
+      });
+
       res.status(201).json({
         message: 'Diagram shared successfully',
         share,
@@ -524,6 +694,16 @@ export class DiagramController {
 
       await share.update({ permissionLevel: permissionLevel as PermissionLevel });
 
+      DiagramEventService.publish({
+        type: 'shares',
+        diagramId: diagram.id,
+        version: diagram.version,
+        action: 'updated',
+        userId: sharedWithUserId,
+        permissionLevel,
+        changedBy: req.userId,
+      });
+
       res.json({
         message: 'Permission updated successfully',
         share,
@@ -579,6 +759,16 @@ export class DiagramController {
         await diagram.update({ isShared: false });
       }
 
+      DiagramEventService.publish({
+        type: 'shares',
+        diagramId: diagram.id,
+        version: diagram.version,
+        action: 'revoked',
+        userId: sharedWithUserId,
+        permissionLevel: null,
+        changedBy: req.userId,
+      });
+
       res.json({ message: 'Share revoked successfully' });
     } catch (error) {
       console.error('Revoke share error:', error);
@@ -603,6 +793,8 @@ export class DiagramController {
           {
             model: Diagram,
             as: 'diagram',
+            // Leave out diagrams in the owner's trash
+            required: true,
             include: [
               {
                 model: User,
@@ -0,0 +1,176 @@
+import { Response } from 'express';
+import { Diagram, DiagramDriftReport, User } from '../models';
+import { AuthRequest } from '../middleware/auth';
+import { DiagramAccessService } from '../services/diagram-access-service';
+import { IntrospectionService } from '../services/introspection-service';
+import { IDriftReport } from '../interfaces/drift-report';
+import { SqlDatabase } from '../utils/export-sql';
+import { HttpError } from '../utils/http-error';
+import { detectDrift, summarizeDrift } from '../utils/schema-drift';
+
+export class DriftController {
+  // Compare a diagram with the live database named by `connection`; with `store`, keep the report
+  // as a dated drift report of the diagram. The connection string is never stored or logged.
+  static async check(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { connection, schema, store } = req.body;
+
+      if (!req.userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const diagram = await Diagram.findByPk(id);
+
+      if (!diagram) {
+        res.status(404).json({ error: 'Diagram not found' });
+        return;
+      }
+
+      const permission = await DiagramAccessService.getPermission(diagram, req.userId);
+      if (!permission || (store && !DiagramAccessService.canEdit(permission))) {
+        res.status(403).json({ error: 'Access denied' });
+        return;
+      }
+
+      // Types are read as the diagram names them, so they compare directly
+      const live = await IntrospectionService.read(connection, {
+        database: diagram.database as SqlDatabase,
+        schema,
+      });
+      const differences = detectDrift(
+        { tables: diagram.tables, relationships: diagram.references, enums: diagram.enums ?? [] },
+        live,
+        live.source,
+      );
+      const report: IDriftReport = {
+        version: diagram.version,
+        source: live.source,
+        databaseName: live.databaseName,
+        summary: summarizeDrift(differences),
+        differences,
+        warnings: live.warnings,
+      };
+
+      if (!store) {
+        res.json({ report });
+        return;
+      }
+
+      const stored = await DiagramDriftReport.create({
+        ...report,
+        diagramId: diagram.id,
+        createdBy: req.userId,
+      });
+
+      res.status(201).json({ report: stored });
+    } catch (error) {
+      if (error instanceof HttpError) {
+        res.status(error.statusCode).json(error.body);
+        return;
+      }
+      // The error, not the request: the body holds the credentials
+      console.error('Check drift error:', error);
+      res.status(500).json({
+        error: 'Failed to check drift',
+        message: error instanceof Error ? error.message : 'An unexpected error occurred',
+      });
+    }
+  }
+
+  // List a diagram's stored drift reports, newest first (without their differences)
+  static async list(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (!req.userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const diagram = await Diagram.findByPk(id);
+
+      if (!diagram) {
+        res.status(404).json({ error: 'Diagram not found' });
+        return;
+      }
+
+      const permission = await DiagramAccessService.getPermission(diagram, req.userId);
+      if (!permission) {
+        res.status(403).json({ error: 'Access denied' });
+        return;
+      }
+
+      const reports = await DiagramDriftReport.findAll({
+        where: { diagramId: id },
+        attributes: ['id', 'version', 'source', 'databaseName', 'summary', 'createdAt'],
+        include: [
+          {
+            model: User,
+            as: 'creator',
+            attributes: ['id', 'username'],
+          },
+        ],
+        order: [['createdAt', 'DESC']],
+      });
+
+      res.json({ reports });
+    } catch (error) {
+      console.error('List drift reports error:', error);
+      res.status(500).json({
+        error: 'Failed to list drift reports',
+        message: error instanceof Error ? error.message : 'An unexpected error occurred',
+      });
+    }
+  }
+
+  // Get a single stored drift report with its differences
+  static async getById(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { id, reportId } = req.params;
+
+      if (!req.userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const diagram = await Diagram.findByPk(id);
+
+      if (!diagram) {
+        res.status(404).json({ error: 'Diagram not found' });
+        return;
+      }
+
+      const permission = await DiagramAccessService.getPermission(diagram, req.userId);
+      if (!permission) {
+        res.status(403).json({ error: 'Access denied' });
+        return;
+      }
+
+      const report = await DiagramDriftReport.findOne({
+        where: { id: reportId, diagramId: id },
+        include: [
+          {
+            model: User,
+            as: 'creator',
+            attributes: ['id', 'username'],
+          },
+        ],
+      });
+
+      if (!report) {
+        res.status(404).json({ error: 'Drift report not found' });
+        return;
+      }
+
+      res.json({ report });
+    } catch (error) {
+      console.error('Get drift report error:', error);
+      res.status(500).json({
+        error: 'Failed to get drift report',
+        message: error instanceof Error ? error.message : 'An unexpected error occurred',
+      });
+    }
+  }
+}
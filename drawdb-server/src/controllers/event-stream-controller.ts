@@ -0,0 +1,179 @@
+import { Response } from 'express';
+import { Diagram } from '../models';
+import { AuthRequest } from '../middleware/auth';
+import {
+  IDiagramDeletedEvent,
+  IDiagramEvent,
+  IDiagramSharesEvent,
+  IDiagramVersionEvent,
+} from '../interfaces/diagram-event';
+import { DiagramAccessService } from '../services/diagram-access-service';
+import { DiagramEventService } from '../services/diagram-event-service';
+import { RevisionService } from '../services/revision-service';
+import { summarizeChanges } from '../utils/diagram-diff';
+
+// Comment lines keep idle connections open through proxies
+const KEEP_ALIVE_INTERVAL = 25000;
+
+function writeEvent(res: Response, type: string, version: number, data: object) {
+  res.write(`id: ${version}\nevent: ${type}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+// Event payload without the routing fields used between server components
+function toStreamEvent(
+  event: IDiagramVersionEvent | IDiagramSharesEvent | IDiagramDeletedEvent,
+): object {
+  switch (event.type) {
+    case 'version':
+      return {
+        version: event.version,
+        lastModifiedBy: event.lastModifiedBy,
+        merged: event.merged ?? false,
+        changes: event.changes,
+      };
+    case 'shares':
+      return {
+        version: event.version,
+        action: event.action,
+        userId: event.userId,
+        permissionLevel: event.permissionLevel,
+        changedBy: event.changedBy,
+        ...(event.folderId && { folderId: event.folderId }),
+      };
+    case 'deleted':
+      return { version: event.version, deletedBy: event.deletedBy, permanent: event.permanent };
+  }
+}
+
+export class EventStreamController {
+  // Server-Sent Events feed of version, share and deletion changes for one diagram
+  static async stream(req: AuthRequest, res: Response): Promise<void> {
+    // Subscribe before reading the diagram so nothing published in between is lost; events wait
+    // in `pending` until the stream is open
+    const pending: IDiagramEvent[] = [];
+    let deliver = (event: IDiagramEvent) => {
+      pending.push(event);
+    };
+    const unsubscribe = DiagramEventService.subscribe(req.params.id, (event) => deliver(event));
+
+    try {
+      const { id } = req.params;
+
+      if (!req.userId || !req.sessionId) {
+        unsubscribe();
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const diagram = await Diagram.findByPk(id);
+
+      if (!diagram) {
+        unsubscribe();
+        res.status(404).json({ error: 'Diagram not found' });
+        return;
+      }
+
+      const permission = await DiagramAccessService.getPermission(diagram, req.userId);
+      if (!permission) {
+        unsubscribe();
+        res.status(403).json({ error: 'Access denied' });
+        return;
+      }
+
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no',
+      });
+      res.write('retry: 5000\n\n');
+
+      // A reconnecting EventSource sends the last version it saw; catch it up in one event
+      const lastEventId = parseInt(String(req.headers['last-event-id'] ?? ''), 10);
+      if (lastEventId > 0 && lastEventId < diagram.version) {
+        const revision = await RevisionService.find(diagram.id, lastEventId);
+        writeEvent(res, 'version', diagram.version, {
+          version: diagram.version,
+          lastModifiedBy: diagram.lastModifiedBy,
+          merged: false,
+          changes: revision
+            ? summarizeChanges(revision.snapshot, RevisionService.toSnapshot(diagram))
+            : null,
+        });
+      } else {
+        writeEvent(res, 'ready', diagram.version, {
+          version: diagram.version,
+          lastModifiedBy: diagram.lastModifiedBy,
+        });
+      }
+
+      const userId = req.userId;
+      const sessionId = req.sessionId;
+      const close = () => {
+        unsubscribe();
+        unsubscribeSessions();
+        clearInterval(keepAlive);
+        res.end();
+      };
+
+      deliver = (event) => {
+        if (event.type === 'presence' || event.type === 'presence_left') return;
+
+        writeEvent(res, event.type, event.version, toStreamEvent(event));
+
+        if (event.type === 'deleted') {
+          close();
+        } else if (
+          event.type === 'shares' &&
+          event.action === 'revoked' &&
+          event.userId === userId
+        ) {
+          // Access may still come from ownership or another share
+          Diagram.findByPk(diagram.id)
+            .then((current) => current && DiagramAccessService.getPermission(current, userId))
+            .then((remaining) => {
+              if (!remaining) close();
+            })
+            .catch((error) => {
+              console.error('Diagram events error:', error);
+              close();
+            });
+        }
+      };
+
+      // The stream ends with the session it was opened with
+      const unsubscribeSessions = DiagramEventService.subscribeSessionsEnded((sessionIds) => {
+        if (sessionIds.includes(sessionId)) {
+          close();
+        }
+      });
+
+      const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), KEEP_ALIVE_INTERVAL);
+
+      req.on('close', () => {
+        unsubscribe();
+        unsubscribeSessions();
+        clearInterval(keepAlive);
+      });
+
+      // Versions up to the one just sent are already covered by the opening event
+      for (const event of pending) {
+        if (res.writableEnded) break;
+        if (event.type !== 'version' || event.version > diagram.version) {
+          deliver(event);
+        }
+      }
+    } catch (error) {
+      unsubscribe();
+      console.error('Diagram events error:', error);
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+      res.status(500).json({
+        error: 'Failed to open event stream',
+        message: error instanceof Error ? error.message : 'An unexpected error occurred',
+      });
+    }
+  }
+}
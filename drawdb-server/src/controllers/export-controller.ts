@@ -0,0 +1,294 @@
+import { Response } from 'express';
+import { Diagram } from '../models';
+import { AuthRequest } from '../middleware/auth';
+import { DiagramAccessService } from '../services/diagram-access-service';
+import { ImageLinkService } from '../services/image-link-service';
+import { RenderService } from '../services/render-service';
+import { toDBML } from '../utils/dbml';
+import { buildDataDictionary, toHtmlBundle, toMarkdown } from '../utils/docs';
+import { exportSQL, ISqlExportInput, SQL_DIALECTS, SqlDatabase } from '../utils/export-sql';
+import { ImageTooLargeError, renderPng, renderSvg } from '../utils/render';
+
+function toExportInput(diagram: Diagram): ISqlExportInput {
+  return {
+    database: diagram.database,
+    tables: diagram.tables,
+    references: diagram.references,
+    types: diagram.types ?? [],
+    enums: diagram.enums ?? [],
+  };
+}
+
+// Diagram name as a safe download file name
+function fileName(diagram: Diagram, extension: string): string {
+  const base = diagram.name.replace(/[^\w.-]+/g, '_').replace(/^_+|_+$/g, '') || 'diagram';
+  return `${base}.${extension}`;
+}
+
+// Draw the diagram as SVG or PNG; throws ImageTooLargeError for PNGs over the pixel limit
+function sendImage(res: Response, diagram: Diagram, format: string, scale: number) {
+  const svg = renderSvg(RenderService.input(diagram), { scale });
+  const image = format === 'png' ? renderPng(svg) : svg;
+
+  res.setHeader('Content-Disposition', `inline; filename="${fileName(diagram, format)}"`);
+  res.type(format === 'png' ? 'image/png' : 'image/svg+xml');
+  res.send(image);
+}
+
+export class ExportController {
+  // Export the diagram's schema as DDL for one SQL dialect
+  static async sql(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const dialect = req.query.dialect as string | undefined;
+
+      if (!req.userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const diagram = await Diagram.findByPk(id);
+
+      if (!diagram) {
+        res.status(404).json({ error: 'Diagram not found' });
+        return;
+      }
+
+      const permission = await DiagramAccessService.getPermission(diagram, req.userId);
+      if (!permission) {
+        res.status(403).json({ error: 'Access denied' });
+        return;
+      }
+
+      // Without a dialect the diagram exports to its own database
+      const target = dialect ? SQL_DIALECTS[dialect] : (diagram.database as SqlDatabase);
+      const sql = exportSQL(toExportInput(diagram), target);
+
+      if (sql === null) {
+        res.status(400).json({
+          error: 'Unsupported dialect',
+          message:
+            diagram.database === SqlDatabase.GENERIC
+              ? 'Generic diagrams need a dialect to export to'
+              : `This diagram is for ${diagram.database}; only generic diagrams export to other dialects`,
+        });
+        return;
+      }
+
+      res.type('application/sql');
+      res.setHeader('Content-Disposition', `inline; filename="${fileName(diagram, 'sql')}"`);
+      res.send(sql);
+    } catch (error) {
+      console.error('Export SQL error:', error);
+      res.status(500).json({
+        error: 'Failed to export diagram',
+        message: error instanceof Error ? error.message : 'An unexpected error occurred',
+      });
+    }
+  }
+
+  // Export the diagram as DBML, with its areas as table groups and its notes as sticky notes
+  static async dbml(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (!req.userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const diagram = await Diagram.findByPk(id);
+
+      if (!diagram) {
+        res.status(404).json({ error: 'Diagram not found' });
+        return;
+      }
+
+      const permission = await DiagramAccessService.getPermission(diagram, req.userId);
+      if (!permission) {
+        res.status(403).json({ error: 'Access denied' });
+        return;
+      }
+
+      const dbml = toDBML({
+        ...toExportInput(diagram),
+        areas: diagram.areas ?? [],
+        notes: diagram.notes ?? [],
+      });
+
+      res.type('text/plain');
+      res.setHeader('Content-Disposition', `inline; filename="${fileName(diagram, 'dbml')}"`);
+      res.send(dbml);
+    } catch (error) {
+      console.error('Export DBML error:', error);
+      res.status(500).json({
+        error: 'Failed to export diagram',
+        message: error instanceof Error ? error.message : 'An unexpected error occurred',
+      });
+    }
+  }
+
+  // Export the diagram as a data dictionary: one Markdown document, or a zip of static HTML pages
+  // with a page per table
+  static async docs(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const format = (req.query.format as string | undefined) ?? 'markdown';
+
+      if (!req.userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const diagram = await Diagram.findByPk(id);
+
+      if (!diagram) {
+        res.status(404).json({ error: 'Diagram not found' });
+        return;
+      }
+
+      const permission = await DiagramAccessService.getPermission(diagram, req.userId);
+      if (!permission) {
+        res.status(403).json({ error: 'Access denied' });
+        return;
+      }
+
+      const dictionary = buildDataDictionary({
+        ...toExportInput(diagram),
+        name: diagram.name,
+        areas: diagram.areas ?? [],
+        notes: diagram.notes ?? [],
+      });
+
+      if (format === 'html') {
+        const bundle = fileName(diagram, 'zip');
+        res.type('application/zip');
+        res.setHeader('Content-Disposition', `attachment; filename="${bundle}"`);
+        res.send(await toHtmlBundle(dictionary, bundle.replace(/\.zip$/, '')));
+        return;
+      }
+
+      res.type('text/markdown');
+      res.setHeader('Content-Disposition', `inline; filename="${fileName(diagram, 'md')}"`);
+      res.send(toMarkdown(dictionary));
+    } catch (error) {
+      console.error('Export docs error:', error);
+      res.status(500).json({
+        error: 'Failed to export diagram',
+        message: error instanceof Error ? error.message : 'An unexpected error occurred',
+      });
+    }
+  }
+
+  // Draw the diagram as the editor shows it, as SVG or PNG, at an optional scale
+  static async image(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { id, format } = req.params;
+      const scale = (req.query.scale as unknown as number | undefined) ?? 1;
+
+      if (!req.userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const diagram = await Diagram.findByPk(id);
+
+      if (!diagram) {
+        res.status(404).json({ error: 'Diagram not found' });
+        return;
+      }
+
+      const permission = await DiagramAccessService.getPermission(diagram, req.userId);
+      if (!permission) {
+        res.status(403).json({ error: 'Access denied' });
+        return;
+      }
+
+      sendImage(res, diagram, format, scale);
+    } catch (error) {
+      if (error instanceof ImageTooLargeError) {
+        res.status(422).json({ error: 'Image too large', message: error.message });
+        return;
+      }
+      console.error('Render diagram error:', error);
+      res.status(500).json({
+        error: 'Failed to render diagram',
+        message: error instanceof Error ? error.message : 'An unexpected error occurred',
+      });
+    }
+  }
+
+  // The cached list thumbnail of the diagram as PNG; 404 until the background job has drawn one
+  static async thumbnail(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (!req.userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const diagram = await Diagram.findByPk(id, { attributes: ['id', 'userId', 'folderId'] });
+
+      if (!diagram) {
+        res.status(404).json({ error: 'Diagram not found' });
+        return;
+      }
+
+      const permission = await DiagramAccessService.getPermission(diagram, req.userId);
+      if (!permission) {
+        res.status(403).json({ error: 'Access denied' });
+        return;
+      }
+
+      const image = await RenderService.thumbnail(diagram.id);
+
+      if (!image) {
+        res.status(404).json({ error: 'Thumbnail not found' });
+        return;
+      }
+
+      // The list links each version under its own URL
+      res.setHeader('Cache-Control', 'private, max-age=86400');
+      res.type('image/png');
+      res.send(image);
+    } catch (error) {
+      console.error('Get thumbnail error:', error);
+      res.status(500).json({
+        error: 'Failed to get thumbnail',
+        message: error instanceof Error ? error.message : 'An unexpected error occurred',
+      });
+    }
+  }
+
+  // Draw the diagram for an image link, without signing in. Unknown and revoked keys get 404, and
+  // the image may be embedded in pages on other sites.
+  static async linkedImage(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { id, format } = req.params;
+      const key = req.query.key as string;
+      const scale = (req.query.scale as unknown as number | undefined) ?? 1;
+
+      const diagram = await ImageLinkService.findDiagram(id, key);
+
+      if (!diagram) {
+        res.status(404).json({ error: 'Image not found' });
+        return;
+      }
+
+      res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin');
+      res.setHeader('Cache-Control', 'no-cache');
+      sendImage(res, diagram, format, scale);
+    } catch (error) {
+      if (error instanceof ImageTooLargeError) {
+        res.status(422).json({ error: 'Image too large', message: error.message });
+        return;
+      }
+      console.error('Render linked image error:', error);
+      res.status(500).json({
+        error: 'Failed to render diagram',
+        message: error instanceof Error ? error.message : 'An unexpected error occurred',
+      });
+    }
+  }
+}
@@ -0,0 +1,398 @@
+import { Response } from 'express';
+import { Op } from 'sequelize';
+import { Diagram, Folder, FolderShare, User } from '../models';
+import { AuthRequest } from '../middleware/auth';
+import { IDiagramSharesEvent } from '../interfaces/diagram-event';
+import { PermissionLevel } from '../models/DiagramShare';
+import { DiagramEventService } from '../services/diagram-event-service';
+import { FolderService } from '../services/folder-service';
+import { HttpError } from '../utils/http-error';
+
+type FolderShareChange = Pick<
+  IDiagramSharesEvent,
+  'action' | 'userId' | 'permissionLevel' | 'changedBy'
+>;
+
+// Tell live connections to every diagram under the folders that a user's folder share changed
+function publishShareChanges(folderId: string, diagrams: Diagram[], changes: FolderShareChange[]) {
+  for (const diagram of diagrams) {
+    for (const change of changes) {
+      DiagramEventService.publish({
+        type: 'shares',
+        diagramId: diagram.id,
+        version: diagram.version,
+        folderId,
+        ...change,
+      });
+    }
+  }
+}
+
+export class FolderController {
+  // Get all folders (owned + reachable through folder shares) as a flat list
+  static async getAll(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      if (!req.userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const ownFolders = await Folder.findAll({
+        where: { userId: req.userId },
+        order: [['name', 'ASC']],
+      });
+
+      const sharedPermissions = await FolderService.sharedFolderPermissions(req.userId);
+      const sharedFolders = await Folder.findAll({
+        where: {
+          id: { [Op.in]: [...sharedPermissions.keys()] },
+          userId: { [Op.ne]: req.userId },
+        },
+        include: [
+          {
+            model: User,
+            as: 'owner',
+            attributes: ['id', 'username', 'email'],
+          },
+        ],
+        order: [['name', 'ASC']],
+      });
+
+      res.json({
+        ownFolders,
+        sharedFolders: sharedFolders.map((folder) => ({
+          ...folder.toJSON(),
+          permissionLevel: sharedPermissions.get(folder.id),
+          isSharedWithMe: true,
+        })),
+      });
+    } catch (error) {
+      console.error('Get folders error:', error);
+      res.status(500).json({
+        error: 'Failed to get folders',
+        message: error instanceof Error ? error.message : 'An unexpected error occurred',
+      });
+    }
+  }
+
+  // Create folder, optionally inside another folder
+  static async create(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { name, parentId = null } = req.body;
+
+      if (!req.userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      await FolderService.checkTarget(parentId, req.userId);
+
+      const folder = await Folder.create({ name, parentId, userId: req.userId });
+
+      res.status(201).json(folder);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        res.status(error.statusCode).json(error.body);
+        return;
+      }
+      console.error('Create folder error:', error);
+      res.status(500).json({
+        error: 'Failed to create folder',
+        message: error instanceof Error ? error.message : 'An unexpected error occurred',
+      });
+    }
+  }
+
+  // Rename and/or move folder
+  static async update(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { name, parentId } = req.body;
+
+      if (!req.userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const folder = await Folder.findOne({
+        where: { id, userId: req.userId },
+      });
+
+      if (!folder) {
+        res.status(404).json({ error: 'Folder not found or access denied' });
+        return;
+      }
+
+      if (parentId !== undefined) {
+        await FolderService.checkTarget(parentId, req.userId, folder.id);
+      }
+
+      await folder.update({
+        ...(name !== undefined && { name }),
+        ...(parentId !== undefined && { parentId }),
+      });
+
+      res.json(folder);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        res.status(error.statusCode).json(error.body);
+        return;
+      }
+      console.error('Update folder error:', error);
+      res.status(500).json({
+        error: 'Failed to update folder',
+        message: error instanceof Error ? error.message : 'An unexpected error occurred',
+      });
+    }
+  }
+
+  // Delete folder and its subfolders; the diagrams inside are kept
+  static async delete(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (!req.userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const folder = await Folder.findOne({
+        where: { id, userId: req.userId },
+      });
+
+      if (!folder) {
+        res.status(404).json({ error: 'Folder not found or access denied' });
+        return;
+      }
+
+      // Shares on the deleted folders go with them
+      const subtree = await FolderService.subtreeIds(folder.id);
+      const diagrams = await FolderService.diagramsIn(subtree);
+      const shares = await FolderShare.findAll({ where: { folderId: subtree } });
+
+      await FolderService.remove(folder);
+
+      publishShareChanges(
+        folder.id,
+        diagrams,
+        [...new Set(shares.map((share) => share.sharedWithUserId))].map((userId) => ({
+          action: 'revoked',
+          userId,
+          permissionLevel: null,
+          changedBy: req.userId as string,
+        })),
+      );
+
+      res.json({ message: 'Folder deleted successfully' });
+    } catch (error) {
+      console.error('Delete folder error:', error);
+      res.status(500).json({
+        error: 'Failed to delete folder',
+        message: error instanceof Error ? error.message : 'An unexpected error occurred',
+      });
+    }
+  }
+
+  // Share folder with user
+  static async shareFolder(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { userId: sharedWithUserId, permissionLevel } = req.body;
+
+      if (!req.userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const folder = await Folder.findOne({
+        where: { id, userId: req.userId },
+      });
+
+      if (!folder) {
+        res.status(404).json({ error: 'Folder not found or access denied' });
+        return;
+      }
+
+      const userToShareWith = await User.findByPk(sharedWithUserId);
+      if (!userToShareWith) {
+        res.status(404).json({ error: 'User not found' });
+        return;
+      }
+
+      const existingShare = await FolderShare.findOne({
+        where: {
+          folderId: id,
+          sharedWithUserId,
+        },
+      });
+
+      if (existingShare) {
+        res.status(409).json({ error: 'Folder already shared with this user' });
+        return;
+      }
+
+      const share = await FolderShare.create({
+        folderId: id,
+        sharedWithUserId,
+        sharedByUserId: req.userId,
+        permissionLevel: permissionLevel as PermissionLevel,
+      });
+
+      publishShareChanges(folder.id, await FolderService.diagramsUnder(folder.id), [
+        { action: 'shared', userId: sharedWithUserId, permissionLevel, changedBy: req.userId },
+      ]);
+
+      res.status(201).json({
+        message: 'Folder shared successfully',
+        share,
+      });
+    } catch (error) {
+      console.error('Share folder error:', error);
+      res.status(500).json({
+        error: 'Failed to share folder',
+        message: error instanceof Error ? error.message : 'An unexpected error occurred',
+      });
+    }
+  }
+
+  // Get all shares for a folder
+  static async getShares(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (!req.userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const folder = await Folder.findOne({
+        where: { id, userId: req.userId },
+      });
+
+      if (!folder) {
+        res.status(404).json({ error: 'Folder not found or access denied' });
+        return;
+      }
+
+      const shares = await FolderShare.findAll({
+        where: { folderId: id },
+        include: [
+          {
+            model: User,
+            as: 'sharedWith',
+            attributes: ['id', 'username', 'email'],
+          },
+        ],
+      });
+
+      res.json(shares);
+    } catch (error) {
+      console.error('Get folder shares error:', error);
+      res.status(500).json({
+        error: 'Failed to get shares',
+        message: error instanceof Error ? error.message : 'An unexpected error occurred',
+      });
+    }
+  }
+
+  // Update folder share permission
+  static async updateShare(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { id, userId: sharedWithUserId } = req.params;
+      const { permissionLevel } = req.body;
+
+      if (!req.userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const folder = await Folder.findOne({
+        where: { id, userId: req.userId },
+      });
+
+      if (!folder) {
+        res.status(404).json({ error: 'Folder not found or access denied' });
+        return;
+      }
+
+      const share = await FolderShare.findOne({
+        where: {
+          folderId: id,
+          sharedWithUserId,
+        },
+      });
+
+      if (!share) {
+        res.status(404).json({ error: 'Share not found' });
+        return;
+      }
+
+      await share.update({ permissionLevel: permissionLevel as PermissionLevel });
+
+      publishShareChanges(folder.id, await FolderService.diagramsUnder(folder.id), [
+        { action: 'updated', userId: sharedWithUserId, permissionLevel, changedBy: req.userId },
+      ]);
+
+      res.json({
+        message: 'Permission updated successfully',
+        share,
+      });
+    } catch (error) {
+      console.error('Update folder share error:', error);
+      res.status(500).json({
+        error: 'Failed to update share',
+        message: error instanceof Error ? error.message : 'An unexpected error occurred',
+      });
+    }
+  }
+
+  // Revoke folder share
+  static async revokeShare(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { id, userId: sharedWithUserId } = req.params;
+
+      if (!req.userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const folder = await Folder.findOne({
+        where: { id, userId: req.userId },
+      });
+
+      if (!folder) {
+        res.status(404).json({ error: 'Folder not found or access denied' });
+        return;
+      }
+
+      const deleted = await FolderShare.destroy({
+        where: {
+          folderId: id,
+          sharedWithUserId,
+        },
+      });
+
+      if (!deleted) {
+        res.status(404).json({ error: 'Share not found' });
+        return;
+      }
+
+      publishShareChanges(folder.id, await FolderService.diagramsUnder(folder.id), [
+        {
+          action: 'revoked',
+          userId: sharedWithUserId,
+          permissionLevel: null,
+          changedBy: req.userId,
+        },
+      ]);
+
+      res.json({ message: 'Share revoked successfully' });
+    } catch (error) {
+      console.error('Revoke folder share error:', error);
+      res.status(500).json({
+        error: 'Failed to revoke share',
+        message: error instanceof Error ? error.message : 'An unexpected error occurred',
+      });
+    }
+  }
+}
@@ -0,0 +1,133 @@
+import { Response } from 'express';
+import { Diagram, DiagramImageLink, User } from '../models';
+import { AuthRequest } from '../middleware/auth';
+import { DiagramAccessService } from '../services/diagram-access-service';
+import { ImageLinkService } from '../services/image-link-service';
+
+export class ImageLinkController {
+  // List a diagram's image links, newest first, without their keys
+  static async list(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (!req.userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const diagram = await Diagram.findByPk(id);
+
+      if (!diagram) {
+        res.status(404).json({ error: 'Diagram not found' });
+        return;
+      }
+
+      const permission = await DiagramAccessService.getPermission(diagram, req.userId);
+      if (!DiagramAccessService.canEdit(permission)) {
+        res.status(403).json({ error: 'Access denied' });
+        return;
+      }
+
+      const links = await DiagramImageLink.findAll({
+        where: { diagramId: id },
+        include: [
+          {
+            model: User,
+            as: 'creator',
+            attributes: ['id', 'username'],
+          },
+        ],
+        order: [['createdAt', 'DESC']],
+      });
+
+      res.json({ links });
+    } catch (error) {
+      console.error('List image links error:', error);
+      res.status(500).json({
+        error: 'Failed to list image links',
+        message: error instanceof Error ? error.message : 'An unexpected error occurred',
+      });
+    }
+  }
+
+  // Create a read-only image link; the response is the only place its key appears
+  static async create(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { label = null } = req.body;
+
+      if (!req.userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const diagram = await Diagram.findByPk(id);
+
+      if (!diagram) {
+        res.status(404).json({ error: 'Diagram not found' });
+        return;
+      }
+
+      const permission = await DiagramAccessService.getPermission(diagram, req.userId);
+      if (!DiagramAccessService.canEdit(permission)) {
+        res.status(403).json({ error: 'Access denied' });
+        return;
+      }
+
+      const { link, key } = await ImageLinkService.create(diagram.id, req.userId, label);
+
+      res.status(201).json({
+        link,
+        key,
+        svg: `/api/v1/diagrams/${diagram.id}/image.svg?key=${key}`,
+        png: `/api/v1/diagrams/${diagram.id}/image.png?key=${key}`,
+      });
+    } catch (error) {
+      console.error('Create image link error:', error);
+      res.status(500).json({
+        error: 'Failed to create image link',
+        message: error instanceof Error ? error.message : 'An unexpected error occurred',
+      });
+    }
+  }
+
+  // Revoke an image link; images embedded with its key stop loading
+  static async revoke(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { id, linkId } = req.params;
+
+      if (!req.userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const diagram = await Diagram.findByPk(id);
+
+      if (!diagram) {
+        res.status(404).json({ error: 'Diagram not found' });
+        return;
+      }
+
+      const permission = await DiagramAccessService.getPermission(diagram, req.userId);
+      if (!DiagramAccessService.canEdit(permission)) {
+        res.status(403).json({ error: 'Access denied' });
+        return;
+      }
+
+      const revoked = await DiagramImageLink.destroy({ where: { id: linkId, diagramId: id } });
+
+      if (revoked === 0) {
+        res.status(404).json({ error: 'Image link not found' });
+        return;
+      }
+
+      res.json({ message: 'Image link revoked successfully' });
+    } catch (error) {
+      console.error('Revoke image link error:', error);
+      res.status(500).json({
+        error: 'Failed to revoke image link',
+        message: error instanceof Error ? error.message : 'An unexpected error occurred',
+      });
+    }
+  }
+}
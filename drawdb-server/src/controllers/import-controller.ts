@@ -0,0 +1,225 @@
+import { Response } from 'express';
+import { Diagram } from '../models';
+import { AuthRequest } from '../middleware/auth';
+import { sequelize } from '../config/database';
+import { FolderService } from '../services/folder-service';
+import { IntrospectionService } from '../services/introspection-service';
+import { LintService } from '../services/lint-service';
+import { RevisionService } from '../services/revision-service';
+import { HttpError } from '../utils/http-error';
+import { DbmlSyntaxError, fromDBML } from '../utils/dbml';
+import { SQL_DIALECTS, SqlDatabase } from '../utils/export-sql';
+import { importSQL } from '../utils/import-sql';
+
+type ImportedAttributes = Pick<
+  Diagram,
+  'name' | 'database' | 'folderId' | 'tables' | 'references' | 'enums'
+> &
+  Partial<Pick<Diagram, 'types' | 'areas' | 'notes'>>;
+
+// The script sent as `field` or uploaded as `file`, or null when neither holds any
+function readScript(req: AuthRequest, field: string): string | null {
+  const script: unknown = req.file ? req.file.buffer.toString('utf8') : req.body[field];
+  return typeof script === 'string' && script.trim() ? script : null;
+}
+
+// Named after the uploaded file unless a name is given
+function importName(req: AuthRequest, extension: RegExp): string {
+  return req.body.name || req.file?.originalname.replace(extension, '') || 'Imported diagram';
+}
+
+// Store an import as a new diagram with its first revision
+function createDiagram(userId: string, attributes: ImportedAttributes): Promise<Diagram> {
+  return sequelize.transaction(async (transaction) => {
+    const created = await Diagram.create(
+      { ...attributes, userId, lastModifiedBy: userId, version: 1 },
+      { transaction },
+    );
+    await LintService.checkSave(created, RevisionService.toSnapshot(created), transaction);
+    await RevisionService.record(created, null, transaction);
+    return created;
+  });
+}
+
+export class ImportController {
+  // Create a diagram from a DDL script sent as `sql` or uploaded as `file`
+  static async sql(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      if (!req.userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const userId = req.userId;
+      const { dialect, generic, folderId = null } = req.body;
+      const script = readScript(req, 'sql');
+
+      if (!script) {
+        res.status(400).json({
+          error: 'Validation error',
+          message: 'Send the script as sql or upload it as file',
+        });
+        return;
+      }
+
+      await FolderService.checkTarget(folderId, userId);
+
+      const source = SQL_DIALECTS[dialect];
+      const database = generic ? SqlDatabase.GENERIC : source;
+      const { tables, relationships, enums, types, warnings } = importSQL(script, source, database);
+
+      if (tables.length === 0) {
+        res.status(422).json({
+          error: 'Nothing to import',
+          message: 'The script has no CREATE TABLE statement that could be imported',
+          details: warnings,
+        });
+        return;
+      }
+
+      const diagram = await createDiagram(userId, {
+        name: importName(req, /\.sql$/i),
+        database,
+        folderId,
+        tables,
+        references: relationships,
+        enums,
+        types,
+      });
+
+      res.status(201).json({ diagram, warnings });
+    } catch (error) {
+      if (error instanceof HttpError) {
+        res.status(error.statusCode).json(error.body);
+        return;
+      }
+      console.error('Import SQL error:', error);
+      res.status(500).json({
+        error: 'Failed to import diagram',
+        message: error instanceof Error ? error.message : 'An unexpected error occurred',
+      });
+    }
+  }
+
+  // Create a diagram from DBML sent as `dbml` or uploaded as `file`, with its table groups as
+  // areas and its sticky notes as notes
+  static async dbml(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      if (!req.userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const userId = req.userId;
+      const { dialect, folderId = null } = req.body;
+      const script = readScript(req, 'dbml');
+
+      if (!script) {
+        res.status(400).json({
+          error: 'Validation error',
+          message: 'Send the DBML as dbml or upload it as file',
+        });
+        return;
+      }
+
+      await FolderService.checkTarget(folderId, userId);
+
+      const { tables, relationships, enums, areas, notes, warnings } = fromDBML(script);
+
+      if (tables.length === 0) {
+        res.status(422).json({
+          error: 'Nothing to import',
+          message: 'The DBML defines no tables',
+          details: warnings,
+        });
+        return;
+      }
+
+      // DBML types are not tied to a database, so the diagram is generic unless told otherwise
+      const diagram = await createDiagram(userId, {
+        name: importName(req, /\.dbml$/i),
+        database: dialect ? SQL_DIALECTS[dialect] : SqlDatabase.GENERIC,
+        folderId,
+        tables,
+        references: relationships,
+        enums,
+        areas,
+        notes,
+      });
+
+      res.status(201).json({ diagram, warnings });
+    } catch (error) {
+      if (error instanceof HttpError) {
+        res.status(error.statusCode).json(error.body);
+        return;
+      }
+      if (error instanceof DbmlSyntaxError) {
+        res.status(422).json({
+          error: 'Invalid DBML',
+          message: error.message,
+          details: error.diagnostics,
+        });
+        return;
+      }
+      console.error('Import DBML error:', error);
+      res.status(500).json({
+        error: 'Failed to import diagram',
+        message: error instanceof Error ? error.message : 'An unexpected error occurred',
+      });
+    }
+  }
+
+  // Create a diagram from the schema of the live database named by `connection`. The connection
+  // string is used for this request only and is never stored or logged.
+  static async introspect(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      if (!req.userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const userId = req.userId;
+      const { connection, schema, generic, folderId = null } = req.body;
+
+      await FolderService.checkTarget(folderId, userId);
+
+      const { source, databaseName, tables, relationships, enums, types, warnings } =
+        await IntrospectionService.read(connection, {
+          database: generic ? SqlDatabase.GENERIC : undefined,
+          schema,
+        });
+
+      if (tables.length === 0) {
+        res.status(422).json({
+          error: 'Nothing to import',
+          message: 'The database has no tables',
+          details: warnings,
+        });
+        return;
+      }
+
+      const diagram = await createDiagram(userId, {
+        name: req.body.name || databaseName,
+        database: generic ? SqlDatabase.GENERIC : source,
+        folderId,
+        tables,
+        references: relationships,
+        enums,
+        types,
+      });
+
+      res.status(201).json({ diagram, warnings });
+    } catch (error) {
+      if (error instanceof HttpError) {
+        res.status(error.statusCode).json(error.body);
+        return;
+      }
+      // The error, not the request: the body holds the credentials
+      console.error('Introspect database error:', error);
+      res.status(500).json({
+        error: 'Failed to import diagram',
+        message: error instanceof Error ? error.message : 'An unexpected error occurred',
+      });
+    }
+  }
+}
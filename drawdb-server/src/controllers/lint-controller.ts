@@ -0,0 +1,201 @@
+import { Response } from 'express';
+import { Diagram, Folder } from '../models';
+import { AuthRequest } from '../middleware/auth';
+import { PermissionLevel } from '../models/DiagramShare';
+import { DiagramAccessService } from '../services/diagram-access-service';
+import { LintService } from '../services/lint-service';
+import { RevisionService } from '../services/revision-service';
+import { ILintConfig } from '../interfaces/lint';
+import { lintDiagram, summarizeIssues } from '../utils/lint';
+
+// The settings a lint config body carries; null when it sets nothing
+function pickLintConfig(body: ILintConfig): ILintConfig | null {
+  const config: ILintConfig = {};
+  if (body.rules !== undefined) config.rules = body.rules;
+  if (body.naming !== undefined) config.naming = body.naming;
+  if (body.rejectOnError !== undefined) config.rejectOnError = body.rejectOnError;
+  return Object.keys(config).length > 0 ? config : null;
+}
+
+export class LintController {
+  // Lint the stored diagram with its folders' and its own settings
+  static async lint(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (!req.userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const diagram = await Diagram.findByPk(id);
+
+      if (!diagram) {
+        res.status(404).json({ error: 'Diagram not found' });
+        return;
+      }
+
+      const permission = await DiagramAccessService.getPermission(diagram, req.userId);
+      if (!permission) {
+        res.status(403).json({ error: 'Access denied' });
+        return;
+      }
+
+      const config = await LintService.configFor(diagram);
+      const issues = lintDiagram(RevisionService.toSnapshot(diagram), config);
+
+      res.json({
+        version: diagram.version,
+        config,
+        summary: summarizeIssues(issues),
+        issues,
+      });
+    } catch (error) {
+      console.error('Lint diagram error:', error);
+      res.status(500).json({
+        error: 'Failed to lint diagram',
+        message: error instanceof Error ? error.message : 'An unexpected error occurred',
+      });
+    }
+  }
+
+  // A diagram's own lint settings, and the settings it is linted with after its folders'
+  static async getConfig(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (!req.userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const diagram = await Diagram.findByPk(id);
+
+      if (!diagram) {
+        res.status(404).json({ error: 'Diagram not found' });
+        return;
+      }
+
+      const permission = await DiagramAccessService.getPermission(diagram, req.userId);
+      if (!permission) {
+        res.status(403).json({ error: 'Access denied' });
+        return;
+      }
+
+      res.json({
+        config: diagram.lintConfig,
+        resolved: await LintService.configFor(diagram),
+      });
+    } catch (error) {
+      console.error('Get lint config error:', error);
+      res.status(500).json({
+        error: 'Failed to get lint config',
+        message: error instanceof Error ? error.message : 'An unexpected error occurred',
+      });
+    }
+  }
+
+  // Replace a diagram's own lint settings (owner only); an empty body clears them
+  static async updateConfig(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (!req.userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const diagram = await Diagram.findByPk(id);
+
+      if (!diagram) {
+        res.status(404).json({ error: 'Diagram not found' });
+        return;
+      }
+
+      const permission = await DiagramAccessService.getPermission(diagram, req.userId);
+      if (permission !== PermissionLevel.OWNER) {
+        res.status(403).json({ error: 'Only the owner can change lint settings' });
+        return;
+      }
+
+      await diagram.update({ lintConfig: pickLintConfig(req.body) });
+
+      res.json({
+        config: diagram.lintConfig,
+        resolved: await LintService.configFor(diagram),
+      });
+    } catch (error) {
+      console.error('Update lint config error:', error);
+      res.status(500).json({
+        error: 'Failed to update lint config',
+        message: error instanceof Error ? error.message : 'An unexpected error occurred',
+      });
+    }
+  }
+
+  // A folder's own lint settings, and those it passes on after its parents' (owner only)
+  static async getFolderConfig(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (!req.userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const folder = await Folder.findOne({
+        where: { id, userId: req.userId },
+      });
+
+      if (!folder) {
+        res.status(404).json({ error: 'Folder not found or access denied' });
+        return;
+      }
+
+      res.json({
+        config: folder.lintConfig,
+        resolved: await LintService.configFor({ folderId: folder.id, lintConfig: null }),
+      });
+    } catch (error) {
+      console.error('Get folder lint config error:', error);
+      res.status(500).json({
+        error: 'Failed to get lint config',
+        message: error instanceof Error ? error.message : 'An unexpected error occurred',
+      });
+    }
+  }
+
+  // Replace a folder's own lint settings, which apply to every diagram below it (owner only)
+  static async updateFolderConfig(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (!req.userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const folder = await Folder.findOne({
+        where: { id, userId: req.userId },
+      });
+
+      if (!folder) {
+        res.status(404).json({ error: 'Folder not found or access denied' });
+        return;
+      }
+
+      await folder.update({ lintConfig: pickLintConfig(req.body) });
+
+      res.json({
+        config: folder.lintConfig,
+        resolved: await LintService.configFor({ folderId: folder.id, lintConfig: null }),
+      });
+    } catch (error) {
+      console.error('Update folder lint config error:', error);
+      res.status(500).json({
+        error: 'Failed to update lint config',
+        message: error instanceof Error ? error.message : 'An unexpected error occurred',
+      });
+    }
+  }
+}
@@ -0,0 +1,91 @@
+import { Response } from 'express';
+import { Diagram } from '../models';
+import { AuthRequest } from '../middleware/auth';
+import { DiagramAccessService } from '../services/diagram-access-service';
+import { PresenceService } from '../services/presence-service';
+
+async function findAccessibleDiagram(req: AuthRequest, res: Response): Promise<Diagram | null> {
+  const diagram = await Diagram.findByPk(req.params.id);
+
+  if (!diagram) {
+    res.status(404).json({ error: 'Diagram not found' });
+    return null;
+  }
+
+  const permission = await DiagramAccessService.getPermission(diagram, req.userId as string);
+  if (!permission) {
+    res.status(403).json({ error: 'Access denied' });
+    return null;
+  }
+
+  return diagram;
+}
+
+export class PresenceController {
+  // Users currently viewing the diagram
+  static async list(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      if (!req.userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const diagram = await findAccessibleDiagram(req, res);
+      if (!diagram) return;
+
+      res.json({ presence: await PresenceService.list(diagram.id) });
+    } catch (error) {
+      console.error('Get presence error:', error);
+      res.status(500).json({
+        error: 'Failed to get presence',
+        message: error instanceof Error ? error.message : 'An unexpected error occurred',
+      });
+    }
+  }
+
+  // Heartbeat for clients that are not connected to the live channel
+  static async heartbeat(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      if (!req.userId || !req.user) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const diagram = await findAccessibleDiagram(req, res);
+      if (!diagram) return;
+
+      const { selection, viewport } = req.body;
+      const presence = await PresenceService.update(diagram.id, req.user, {
+        selection,
+        viewport,
+      });
+
+      res.json({ presence });
+    } catch (error) {
+      console.error('Update presence error:', error);
+      res.status(500).json({
+        error: 'Failed to update presence',
+        message: error instanceof Error ? error.message : 'An unexpected error occurred',
+      });
+    }
+  }
+
+  static async leave(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      if (!req.userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      await PresenceService.remove(req.params.id, req.userId);
+
+      res.json({ message: 'Presence cleared' });
+    } catch (error) {
+      console.error('Clear presence error:', error);
+      res.status(500).json({
+        error: 'Failed to clear presence',
+        message: error instanceof Error ? error.message : 'An unexpected error occurred',
+      });
+    }
+  }
+}
@@ -0,0 +1,320 @@
+import { Response } from 'express';
+import { Diagram, DiagramRevision, User } from '../models';
+import { AuthRequest } from '../middleware/auth';
+import { sequelize } from '../config/database';
+import { DiagramAccessService } from '../services/diagram-access-service';
+import { RevisionService } from '../services/revision-service';
+import { DiagramEventService } from '../services/diagram-event-service';
+import { LintService } from '../services/lint-service';
+import { diffDiagrams, summarizeChanges } from '../utils/diagram-diff';
+import { SQL_DIALECTS, SqlDatabase } from '../utils/export-sql';
+import { generateMigration } from '../utils/migration';
+import { IMigration } from '../interfaces/migration';
+
+export class RevisionController {
+  // List revisions of a diagram, newest first (without snapshots)
+  static async list(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (!req.userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const diagram = await Diagram.findByPk(id);
+
+      if (!diagram) {
+        res.status(404).json({ error: 'Diagram not found' });
+        return;
+      }
+
+      const permission = await DiagramAccessService.getPermission(diagram, req.userId);
+      if (!permission) {
+        res.status(403).json({ error: 'Access denied' });
+        return;
+      }
+
+      const revisions = await DiagramRevision.findAll({
+        where: { diagramId: id },
+        attributes: ['id', 'version', 'lastModifiedBy', 'message', 'createdAt'],
+        include: [
+          {
+            model: User,
+            as: 'author',
+            attributes: ['id', 'username'],
+          },
+        ],
+        order: [['version', 'DESC']],
+      });
+
+      res.json({
+        currentVersion: diagram.version,
+        revisions,
+      });
+    } catch (error) {
+      console.error('List revisions error:', error);
+      res.status(500).json({
+        error: 'Failed to list revisions',
+        message: error instanceof Error ? error.message : 'An unexpected error occurred',
+      });
+    }
+  }
+
+  // Get a single revision including its snapshot
+  static async getByVersion(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const version = parseInt(req.params.version, 10);
+
+      if (!req.userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const diagram = await Diagram.findByPk(id);
+
+      if (!diagram) {
+        res.status(404).json({ error: 'Diagram not found' });
+        return;
+      }
+
+      const permission = await DiagramAccessService.getPermission(diagram, req.userId);
+      if (!permission) {
+        res.status(403).json({ error: 'Access denied' });
+        return;
+      }
+
+      const revision = await DiagramRevision.findOne({
+        where: { diagramId: id, version },
+        include: [
+          {
+            model: User,
+            as: 'author',
+            attributes: ['id', 'username'],
+          },
+        ],
+      });
+
+      if (!revision) {
+        res.status(404).json({ error: 'Revision not found' });
+        return;
+      }
+
+      res.json(revision);
+    } catch (error) {
+      console.error('Get revision error:', error);
+      res.status(500).json({
+        error: 'Failed to get revision',
+        message: error instanceof Error ? error.message : 'An unexpected error occurred',
+      });
+    }
+  }
+
+  // Structural change set between two versions
+  static async diff(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (!req.userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const diagram = await Diagram.findByPk(id);
+
+      if (!diagram) {
+        res.status(404).json({ error: 'Diagram not found' });
+        return;
+      }
+
+      const permission = await DiagramAccessService.getPermission(diagram, req.userId);
+      if (!permission) {
+        res.status(403).json({ error: 'Access denied' });
+        return;
+      }
+
+      const from = parseInt(req.query.from as string, 10);
+      const to = req.query.to ? parseInt(req.query.to as string, 10) : diagram.version;
+
+      const [before, after] = await Promise.all([
+        RevisionService.resolveSnapshot(diagram, from),
+        RevisionService.resolveSnapshot(diagram, to),
+      ]);
+
+      if (!before || !after) {
+        res.status(404).json({
+          error: 'Revision not found',
+          message: `No revision stored for version ${!before ? from : to}`,
+        });
+        return;
+      }
+
+      res.json(diffDiagrams(before, after, from, to));
+    } catch (error) {
+      console.error('Diff revisions error:', error);
+      res.status(500).json({
+        error: 'Failed to diff revisions',
+        message: error instanceof Error ? error.message : 'An unexpected error occurred',
+      });
+    }
+  }
+
+  // Up and down SQL scripts taking the schema from one version to another
+  static async migration(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const dialect = req.query.dialect as string | undefined;
+
+      if (!req.userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const diagram = await Diagram.findByPk(id);
+
+      if (!diagram) {
+        res.status(404).json({ error: 'Diagram not found' });
+        return;
+      }
+
+      const permission = await DiagramAccessService.getPermission(diagram, req.userId);
+      if (!permission) {
+        res.status(403).json({ error: 'Access denied' });
+        return;
+      }
+
+      const from = parseInt(req.query.from as string, 10);
+      const to = req.query.to ? parseInt(req.query.to as string, 10) : diagram.version;
+
+      const [before, after] = await Promise.all([
+        RevisionService.resolveSnapshot(diagram, from),
+        RevisionService.resolveSnapshot(diagram, to),
+      ]);
+
+      if (!before || !after) {
+        res.status(404).json({
+          error: 'Revision not found',
+          message: `No revision stored for version ${!before ? from : to}`,
+        });
+        return;
+      }
+
+      // Without a dialect the script is for the diagram's own database
+      const target = dialect ? SQL_DIALECTS[dialect] : (after.database as SqlDatabase);
+      const scripts = generateMigration(before, after, target);
+
+      if (scripts === null) {
+        res.status(400).json({
+          error: 'Unsupported dialect',
+          message:
+            after.database === SqlDatabase.GENERIC
+              ? 'Generic diagrams need a dialect to migrate in'
+              : `This diagram is for ${after.database}; only generic diagrams migrate in other dialects`,
+        });
+        return;
+      }
+
+      const migration: IMigration = { from, to, dialect: target, ...scripts };
+      res.json(migration);
+    } catch (error) {
+      console.error('Generate migration error:', error);
+      res.status(500).json({
+        error: 'Failed to generate migration',
+        message: error instanceof Error ? error.message : 'An unexpected error occurred',
+      });
+    }
+  }
+
+  // Restore a revision by saving its snapshot as a new version
+  static async restore(req: AuthRequest, res: Response): Promise<void> {
+    const transaction = await sequelize.transaction();
+
+    try {
+      const { id } = req.params;
+      const version = parseInt(req.params.version, 10);
+      const { message } = req.body;
+
+      if (!req.userId) {
+        await transaction.rollback();
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const diagram = await Diagram.findOne({
+        where: { id },
+        lock: true,
+        transaction,
+      });
+
+      if (!diagram) {
+        await transaction.rollback();
+        res.status(404).json({ error: 'Diagram not found' });
+        return;
+      }
+
+      const permission = await DiagramAccessService.getPermission(diagram, req.userId, transaction);
+      if (!DiagramAccessService.canEdit(permission)) {
+        await transaction.rollback();
+        res.status(403).json({ error: 'No edit permission' });
+        return;
+      }
+
+      const revision = await RevisionService.find(diagram.id, version, transaction);
+
+      if (!revision) {
+        await transaction.rollback();
+        res.status(404).json({ error: 'Revision not found' });
+        return;
+      }
+
+      const issues = await LintService.blockingIssues(diagram, revision.snapshot, transaction);
+
+      if (issues.length > 0) {
+        await transaction.rollback();
+        res.status(422).json(LintService.rejection(issues));
+        return;
+      }
+
+      await RevisionService.ensureRecorded(diagram, transaction);
+      const before = RevisionService.toSnapshot(diagram);
+
+      await diagram.update(
+        {
+          ...revision.snapshot,
+          version: diagram.version + 1,
+          lastModifiedBy: req.userId,
+          lastModified: new Date(),
+        },
+        { transaction },
+      );
+
+      await RevisionService.record(
+        diagram,
+        message || `Restored from version ${revision.version}`,
+        transaction,
+      );
+
+      await transaction.commit();
+
+      DiagramEventService.publish({
+        type: 'version',
+        diagramId: diagram.id,
+        version: diagram.version,
+        lastModifiedBy: req.userId,
+        changes: summarizeChanges(before, revision.snapshot),
+      });
+
+      res.json(diagram);
+    } catch (error) {
+      await transaction.rollback();
+      console.error('Restore revision error:', error);
+      res.status(500).json({
+        error: 'Failed to restore revision',
+        message: error instanceof Error ? error.message : 'An unexpected error occurred',
+      });
+    }
+  }
+}
+
+export default RevisionController;
@@ -0,0 +1,34 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth';
+import { SearchKind } from '../interfaces/search-result';
+import { SearchService } from '../services/search-service';
+
+export class SearchController {
+  // Find tables, fields, enums, notes and diagram names across every diagram the user can open
+  static async search(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      if (!req.userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const query = String(req.query.q);
+      const kinds = req.query.kind
+        ? (String(req.query.kind).split(',') as SearchKind[])
+        : undefined;
+
+      const { results, truncated } = await SearchService.search(req.userId, query, {
+        limit: req.query.limit ? Number(req.query.limit) : 50,
+        kinds,
+      });
+
+      res.json({ query, results, truncated });
+    } catch (error) {
+      console.error('Search error:', error);
+      res.status(500).json({
+        error: 'Failed to search diagrams',
+        message: error instanceof Error ? error.message : 'An unexpected error occurred',
+      });
+    }
+  }
+}
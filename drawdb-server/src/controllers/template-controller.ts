@@ -0,0 +1,211 @@
+import { Response } from 'express';
+import { Diagram, Template } from '../models';
+import { AuthRequest } from '../middleware/auth';
+import { DiagramAccessService } from '../services/diagram-access-service';
+import { MergeService } from '../services/merge-service';
+import { RevisionService } from '../services/revision-service';
+import { TemplateScope, TemplateService } from '../services/template-service';
+import { HttpError } from '../utils/http-error';
+
+export class TemplateController {
+  // Own templates, public ones and the system templates, filtered by `scope`
+  static async getAll(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      if (!req.userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const scope = (req.query.scope as TemplateScope | undefined) ?? 'all';
+      const templates = await TemplateService.list(req.userId, scope);
+
+      res.json({ templates });
+    } catch (error) {
+      console.error('Get templates error:', error);
+      res.status(500).json({
+        error: 'Failed to get templates',
+        message: error instanceof Error ? error.message : 'An unexpected error occurred',
+      });
+    }
+  }
+
+  // Get a template with its document
+  static async getById(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      if (!req.userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const template = await TemplateService.findVisible(req.params.id, req.userId);
+
+      res.json(template);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        res.status(error.statusCode).json(error.body);
+        return;
+      }
+      console.error('Get template error:', error);
+      res.status(500).json({
+        error: 'Failed to get template',
+        message: error instanceof Error ? error.message : 'An unexpected error occurred',
+      });
+    }
+  }
+
+  // Create a custom template from a document sent like a diagram body
+  static async create(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      if (!req.userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const { title, description = '', isPublic = false } = req.body;
+
+      const template = await Template.create({
+        userId: req.userId,
+        title,
+        custom: true,
+        isPublic,
+        data: TemplateService.toData(MergeService.pickDocument(req.body), description),
+      });
+
+      res.status(201).json(template);
+    } catch (error) {
+      console.error('Create template error:', error);
+      res.status(500).json({
+        error: 'Failed to create template',
+        message: error instanceof Error ? error.message : 'An unexpected error occurred',
+      });
+    }
+  }
+
+  // Update title, description, visibility and any document collections sent
+  static async update(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      if (!req.userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const { title, description, isPublic } = req.body;
+      const template = await TemplateService.findEditable(req.params.id, req.userId);
+
+      await template.update({
+        ...(title !== undefined && { title }),
+        ...(isPublic !== undefined && { isPublic }),
+        data: TemplateService.toData(
+          { ...template.data, ...MergeService.pickDocument(req.body) },
+          description ?? template.data.description,
+        ),
+      });
+
+      res.json(template);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        res.status(error.statusCode).json(error.body);
+        return;
+      }
+      console.error('Update template error:', error);
+      res.status(500).json({
+        error: 'Failed to update template',
+        message: error instanceof Error ? error.message : 'An unexpected error occurred',
+      });
+    }
+  }
+
+  // Delete a custom template; diagrams created from it are not affected
+  static async delete(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      if (!req.userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const template = await TemplateService.findEditable(req.params.id, req.userId);
+      await template.destroy();
+
+      res.json({ message: 'Template deleted successfully' });
+    } catch (error) {
+      if (error instanceof HttpError) {
+        res.status(error.statusCode).json(error.body);
+        return;
+      }
+      console.error('Delete template error:', error);
+      res.status(500).json({
+        error: 'Failed to delete template',
+        message: error instanceof Error ? error.message : 'An unexpected error occurred',
+      });
+    }
+  }
+
+  // Create a diagram from a template, named after it unless `name` is given
+  static async instantiate(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      if (!req.userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const { name, folderId = null } = req.body;
+      const template = await TemplateService.findVisible(req.params.id, req.userId);
+      const diagram = await TemplateService.instantiate(template, req.userId, { name, folderId });
+
+      res.status(201).json(diagram);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        res.status(error.statusCode).json(error.body);
+        return;
+      }
+      console.error('Instantiate template error:', error);
+      res.status(500).json({
+        error: 'Failed to create diagram from template',
+        message: error instanceof Error ? error.message : 'An unexpected error occurred',
+      });
+    }
+  }
+
+  // Save a copy of a diagram the user can view as a custom template
+  static async saveDiagram(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { title, description = '', isPublic = false } = req.body;
+
+      if (!req.userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const diagram = await Diagram.findByPk(id);
+
+      if (!diagram) {
+        res.status(404).json({ error: 'Diagram not found' });
+        return;
+      }
+
+      const permission = await DiagramAccessService.getPermission(diagram, req.userId);
+
+      if (!permission) {
+        res.status(403).json({ error: 'Access denied' });
+        return;
+      }
+
+      const template = await Template.create({
+        userId: req.userId,
+        title: title ?? diagram.name,
+        custom: true,
+        isPublic,
+        data: TemplateService.toData(RevisionService.toSnapshot(diagram), description),
+      });
+
+      res.status(201).json(template);
+    } catch (error) {
+      console.error('Save as template error:', error);
+      res.status(500).json({
+        error: 'Failed to save diagram as template',
+        message: error instanceof Error ? error.message : 'An unexpected error occurred',
+      });
+    }
+  }
+}
@@ -0,0 +1,123 @@
+import { Response } from 'express';
+import { Op } from 'sequelize';
+import { Diagram } from '../models';
+import { AuthRequest } from '../middleware/auth';
+import { DiagramEventService } from '../services/diagram-event-service';
+import { TrashService } from '../services/trash-service';
+
+export class TrashController {
+  // List the user's deleted diagrams, most recently deleted first
+  static async list(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      if (!req.userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const diagrams = await Diagram.findAll({
+        where: { userId: req.userId, deletedAt: { [Op.ne]: null } },
+        attributes: ['id', 'name', 'database', 'version', 'isShared', 'lastModified', 'deletedAt'],
+        order: [['deletedAt', 'DESC']],
+        paranoid: false,
+      });
+
+      res.json(
+        diagrams.map((diagram) => ({
+          ...diagram.toJSON(),
+          purgeAt: TrashService.purgeAt(diagram.deletedAt as Date),
+        })),
+      );
+    } catch (error) {
+      console.error('Get trash error:', error);
+      res.status(500).json({
+        error: 'Failed to get trash',
+        message: error instanceof Error ? error.message : 'An unexpected error occurred',
+      });
+    }
+  }
+
+  // Move a diagram out of the trash; its shares become visible to collaborators again
+  static async restore(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (!req.userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const diagram = await Diagram.findOne({
+        where: { id, userId: req.userId },
+        paranoid: false,
+      });
+
+      if (!diagram) {
+        res.status(404).json({ error: 'Diagram not found or access denied' });
+        return;
+      }
+
+      if (!diagram.deletedAt) {
+        res.status(409).json({ error: 'Diagram is not in the trash' });
+        return;
+      }
+
+      await diagram.restore();
+
+      res.json(diagram);
+    } catch (error) {
+      console.error('Restore diagram error:', error);
+      res.status(500).json({
+        error: 'Failed to restore diagram',
+        message: error instanceof Error ? error.message : 'An unexpected error occurred',
+      });
+    }
+  }
+
+  // Delete a trashed diagram for good, together with its shares and revisions
+  static async deletePermanently(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (!req.userId) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const diagram = await Diagram.findOne({
+        where: { id, userId: req.userId },
+        paranoid: false,
+      });
+
+      if (!diagram) {
+        res.status(404).json({ error: 'Diagram not found or access denied' });
+        return;
+      }
+
+      if (!diagram.deletedAt) {
+        res.status(409).json({
+          error: 'Diagram is not in the trash',
+          message: 'Move the diagram to the trash before deleting it permanently',
+        });
+        return;
+      }
+
+      await diagram.destroy({ force: true });
+
+      DiagramEventService.publish({
+        type: 'deleted',
+        diagramId: diagram.id,
+        version: diagram.version,
+        deletedBy: req.userId,
+        permanent: true,
+      });
+
+      res.json({ message: 'Diagram permanently deleted' });
+    } catch (error) {
+      console.error('Permanent delete error:', error);
+      res.status(500).json({
+        error: 'Failed to delete diagram',
+        message: error instanceof Error ? error.message : 'An unexpected error occurred',
+      });
+    }
+  }
+}
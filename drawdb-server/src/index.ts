@@ -1,6 +1,12 @@
 import app from './app';
 import { config } from './config';
 import { connectDatabase } from './config/database';
+import { attachCollaborationServer } from './realtime/collaboration-server';
+import { PresenceService } from './services/presence-service';
+import { RenderService } from './services/render-service';
+import { DiagramEventService } from './services/diagram-event-service';
+import { TrashService } from './services/trash-service';
+import { SessionService } from './services/session-service';
 
 async function startServer() {
   try {
@@ -8,6 +14,9 @@ async function startServer() {
     console.log('🔄 Connecting to database...');
     await connectDatabase();
 
+    // Share diagram change events with other server instances
+    const stopEventListener = await DiagramEventService.listen();
+
     // Start server
     const server = app.listen(config.server.port, () => {
       console.log(`✓ Server is running on http://localhost:${config.server.port}`);
@@ -15,9 +24,29 @@ async function startServer() {
       console.log(`✓ Health check: http://localhost:${config.server.port}/health`);
     });
 
+    // Live collaboration over WebSockets shares the HTTP server; background jobs run alongside
+    const collaborationServer = attachCollaborationServer(server);
+    const stopPresenceExpiry = PresenceService.startExpiry();
+    const stopTrashPurge = TrashService.startPurge();
+    const stopSessionPurge = SessionService.startPurge();
+    const stopThumbnails = RenderService.startThumbnails();
+
+    const stopServices = () => {
+      for (const client of collaborationServer.clients) {
+        client.close(1001, 'Server shutting down');
+      }
+      collaborationServer.close();
+      stopPresenceExpiry();
+      stopTrashPurge();
+      stopSessionPurge();
+      stopThumbnails();
+      stopEventListener().catch((error) => console.error('Event listener shutdown error:', error));
+    };
+
     // Graceful shutdown
     process.on('SIGTERM', () => {
       console.log('SIGTERM signal received: closing HTTP server');
+      stopServices();
       server.close(() => {
         console.log('HTTP server closed');
         process.exit(0);
@@ -26,6 +55,7 @@ async function startServer() {
 
     process.on('SIGINT', () => {
       console.log('\nSIGINT signal received: closing HTTP server');
+      stopServices();
       server.close(() => {
         console.log('HTTP server closed');
         process.exit(0);
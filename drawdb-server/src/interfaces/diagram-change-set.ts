@@ -0,0 +1,66 @@
+import { ElementId } from './diagram-document';
+
+export interface IPropertyChange {
+  from: unknown;
+  to: unknown;
+}
+
+export type IPropertyChanges = Record<string, IPropertyChange>;
+
+export interface IElementRef {
+  id: ElementId;
+  name: string;
+}
+
+export interface IAlteredElement extends IElementRef {
+  changes: IPropertyChanges;
+}
+
+export interface ICollectionChangeSet {
+  added: IElementRef[];
+  removed: IElementRef[];
+  altered: IAlteredElement[];
+}
+
+export interface ITableRename {
+  id: ElementId;
+  from: string;
+  to: string;
+}
+
+export interface ITableChange extends IAlteredElement {
+  fields: ICollectionChangeSet;
+  indices: ICollectionChangeSet;
+}
+
+export interface IDiagramChangeSet {
+  from: number;
+  to: number;
+  tables: {
+    added: IElementRef[];
+    removed: IElementRef[];
+    renamed: ITableRename[];
+    altered: ITableChange[];
+  };
+  relationships: ICollectionChangeSet;
+  enums: ICollectionChangeSet;
+  types: ICollectionChangeSet;
+  areas: ICollectionChangeSet;
+  notes: ICollectionChangeSet;
+}
+
+export interface IChangeCounts {
+  added: number;
+  removed: number;
+  altered: number;
+}
+
+// Per-collection counts of an IDiagramChangeSet, small enough for change notifications
+export interface IDiagramChangeSummary {
+  tables: IChangeCounts & { renamed: number };
+  relationships: IChangeCounts;
+  enums: IChangeCounts;
+  types: IChangeCounts;
+  areas: IChangeCounts;
+  notes: IChangeCounts;
+}
@@ -0,0 +1,102 @@
+export type ElementId = string | number;
+
+export interface IDiagramField {
+  id: ElementId;
+  name: string;
+  type: string;
+  default: string | number | boolean;
+  check: string;
+  primary: boolean;
+  unique: boolean;
+  notNull: boolean;
+  increment: boolean;
+  comment: string;
+  size?: string | number;
+  values?: string[];
+  unsigned?: boolean;
+  isArray?: boolean;
+}
+
+export interface IDiagramIndex {
+  id?: ElementId;
+  name: string;
+  unique: boolean;
+  fields: string[];
+}
+
+export interface IDiagramTable {
+  id: ElementId;
+  name: string;
+  x: number;
+  y: number;
+  fields: IDiagramField[];
+  comment: string;
+  indices: IDiagramIndex[];
+  color: string;
+  locked?: boolean;
+  hidden?: boolean;
+  inherits?: string[];
+}
+
+export interface IDiagramRelationship {
+  id: ElementId;
+  name: string;
+  startTableId: ElementId;
+  startFieldId: ElementId;
+  endTableId: ElementId;
+  endFieldId: ElementId;
+  cardinality: string;
+  updateConstraint: string;
+  deleteConstraint: string;
+}
+
+export interface IDiagramEnum {
+  id?: ElementId;
+  name: string;
+  values: string[];
+}
+
+export interface IDiagramTypeField {
+  id?: ElementId;
+  name: string;
+  type: string;
+  values?: string[];
+  size?: string | number;
+}
+
+export interface IDiagramType {
+  id?: ElementId;
+  name: string;
+  fields: IDiagramTypeField[];
+  comment: string;
+}
+
+export interface IDiagramArea {
+  id: number;
+  name: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  color: string;
+  locked?: boolean;
+}
+
+export interface IDiagramNote {
+  id: number;
+  x: number;
+  y: number;
+  title: string;
+  content: string;
+  color: string;
+  height: number;
+  locked?: boolean;
+}
+
+export interface IDiagramTodo {
+  title: string;
+  details: string;
+  complete: boolean;
+  priority: number;
+  order: number;
+}
@@ -0,0 +1,56 @@
+import { IDiagramChangeSummary } from './diagram-change-set';
+import { IDiagramPresence } from './diagram-presence';
+
+export interface IDiagramVersionEvent {
+  type: 'version';
+  diagramId: string;
+  version: number;
+  lastModifiedBy: string | null;
+  changes: IDiagramChangeSummary;
+  merged?: boolean;
+  // Element operation that produced the version, when it came from a live session
+  operation?: unknown;
+  // Connection that sent the operation, so it is not echoed back
+  origin?: string;
+}
+
+export interface IDiagramSharesEvent {
+  type: 'shares';
+  diagramId: string;
+  version: number;
+  action: 'shared' | 'updated' | 'revoked';
+  userId: string;
+  permissionLevel: string | null;
+  changedBy: string;
+  // Set when the share is on a folder holding the diagram; the user's access to the diagram
+  // may still come from another share
+  folderId?: string;
+}
+
+export interface IDiagramDeletedEvent {
+  type: 'deleted';
+  diagramId: string;
+  version: number;
+  deletedBy: string;
+  // false while the diagram is only in the trash
+  permanent: boolean;
+}
+
+export interface IDiagramPresenceEvent {
+  type: 'presence';
+  diagramId: string;
+  presence: IDiagramPresence;
+}
+
+export interface IDiagramPresenceLeftEvent {
+  type: 'presence_left';
+  diagramId: string;
+  userId: string;
+}
+
+export type IDiagramEvent =
+  | IDiagramVersionEvent
+  | IDiagramSharesEvent
+  | IDiagramDeletedEvent
+  | IDiagramPresenceEvent
+  | IDiagramPresenceLeftEvent;
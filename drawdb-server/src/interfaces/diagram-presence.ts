@@ -0,0 +1,19 @@
+import { ElementId } from './diagram-document';
+
+export interface IPresenceSelection {
+  tableId: ElementId | null;
+  fieldId: ElementId | null;
+}
+
+export interface IPresenceViewport {
+  pan: { x: number; y: number };
+  zoom: number;
+}
+
+export interface IDiagramPresence {
+  userId: string;
+  username: string;
+  selection: IPresenceSelection | null;
+  viewport: IPresenceViewport | null;
+  lastSeen: Date;
+}
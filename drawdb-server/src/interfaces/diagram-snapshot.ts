@@ -0,0 +1,21 @@
+import {
+  IDiagramArea,
+  IDiagramEnum,
+  IDiagramNote,
+  IDiagramRelationship,
+  IDiagramTable,
+  IDiagramTodo,
+  IDiagramType,
+} from './diagram-document';
+
+export interface IDiagramSnapshot {
+  name: string;
+  database: string;
+  tables: IDiagramTable[];
+  references: IDiagramRelationship[];
+  notes: IDiagramNote[];
+  areas: IDiagramArea[];
+  todos: IDiagramTodo[];
+  enums: IDiagramEnum[] | null;
+  types: IDiagramType[] | null;
+}
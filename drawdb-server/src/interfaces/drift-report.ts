@@ -0,0 +1,33 @@
+import { IImportWarning } from './import-warning';
+
+export type DriftObject = 'table' | 'column' | 'index' | 'foreign_key' | 'enum';
+
+// One way the live database differs from the diagram. Missing objects have no property; mismatches
+// name the property and hold each side's value.
+export interface IDriftDifference {
+  kind: 'missing_in_database' | 'missing_in_diagram' | 'mismatch';
+  object: DriftObject;
+  table: string | null;
+  name: string;
+  property?: 'type' | 'notNull' | 'default' | 'values' | 'updateConstraint' | 'deleteConstraint';
+  diagram?: unknown;
+  database?: unknown;
+}
+
+export interface IDriftSummary {
+  inSync: boolean;
+  missingInDatabase: number;
+  missingInDiagram: number;
+  mismatches: number;
+}
+
+export interface IDriftReport {
+  // Diagram version that was compared
+  version: number;
+  source: string;
+  databaseName: string;
+  summary: IDriftSummary;
+  differences: IDriftDifference[];
+  // What introspection could not read
+  warnings: IImportWarning[];
+}
@@ -0,0 +1,19 @@
+import { ElementId, IDiagramField, IDiagramRelationship, IDiagramTable } from './diagram-document';
+import { IJsonPatchOperation } from './json-patch-operation';
+
+export type IElementOperation =
+  | { kind: 'move_table'; tableId: ElementId; x: number; y: number }
+  | { kind: 'add_table'; table: IDiagramTable }
+  | { kind: 'edit_table'; tableId: ElementId; changes: Partial<IDiagramTable> }
+  | { kind: 'delete_table'; tableId: ElementId }
+  | { kind: 'add_field'; tableId: ElementId; field: IDiagramField }
+  | { kind: 'edit_field'; tableId: ElementId; fieldId: ElementId; changes: Partial<IDiagramField> }
+  | { kind: 'delete_field'; tableId: ElementId; fieldId: ElementId }
+  | { kind: 'add_relationship'; relationship: IDiagramRelationship }
+  | {
+      kind: 'edit_relationship';
+      relationshipId: ElementId;
+      changes: Partial<IDiagramRelationship>;
+    }
+  | { kind: 'delete_relationship'; relationshipId: ElementId }
+  | { kind: 'patch'; operations: IJsonPatchOperation[] };
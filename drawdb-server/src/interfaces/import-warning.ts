@@ -0,0 +1,5 @@
+// A statement the SQL import skipped or only partly took in, with the script line it starts on
+export interface IImportWarning {
+  line: number;
+  message: string;
+}
@@ -0,0 +1,61 @@
+import { ElementId } from './diagram-document';
+
+export type LintSeverity = 'error' | 'warning' | 'info';
+
+export type LintRuleId =
+  | 'empty_name'
+  | 'duplicate_name'
+  | 'missing_type'
+  | 'missing_values'
+  | 'invalid_default'
+  | 'empty_index'
+  | 'inherited_column'
+  | 'circular_dependency'
+  | 'missing_primary_key'
+  | 'relationship_type_mismatch'
+  | 'unindexed_foreign_key'
+  | 'reserved_word'
+  | 'naming_convention';
+
+export type LintElement = 'table' | 'field' | 'index' | 'relationship' | 'enum' | 'type';
+
+// One problem found in a diagram; tableId and elementId locate the element it was found on
+export interface ILintIssue {
+  rule: LintRuleId;
+  severity: LintSeverity;
+  message: string;
+  element: LintElement;
+  tableId: ElementId | null;
+  elementId: ElementId | null;
+}
+
+export interface ILintRuleSetting {
+  enabled?: boolean;
+  severity?: LintSeverity;
+}
+
+// Names each kind of element must match, as a preset (snake_case, camelCase, PascalCase,
+// UPPER_SNAKE_CASE, kebab-case) or a regular expression
+export interface ILintNaming {
+  table?: string;
+  column?: string;
+  index?: string;
+  relationship?: string;
+  enum?: string;
+  type?: string;
+}
+
+// Lint settings of a folder or diagram. Unset values fall through to the enclosing folder and
+// then to the defaults.
+export interface ILintConfig {
+  rules?: Partial<Record<LintRuleId, ILintRuleSetting>>;
+  naming?: ILintNaming;
+  // Refuse saves that leave error-level issues in the diagram
+  rejectOnError?: boolean;
+}
+
+export interface IResolvedLintConfig {
+  rules: Record<LintRuleId, Required<ILintRuleSetting>>;
+  naming: ILintNaming;
+  rejectOnError: boolean;
+}
@@ -0,0 +1,13 @@
+import { ElementId } from './diagram-document';
+
+export interface IMergeConflict {
+  path: string;
+  element: string;
+  id?: ElementId;
+  tableId?: ElementId;
+  property?: string;
+  reason: 'both_modified' | 'modified_and_deleted' | 'added_twice';
+  base: unknown;
+  ours: unknown;
+  theirs: unknown;
+}
@@ -0,0 +1,13 @@
+// One direction of a migration: the statements in order, and what they could not express
+export interface IMigrationScript {
+  sql: string;
+  warnings: string[];
+}
+
+export interface IMigration {
+  from: number;
+  to: number;
+  dialect: string;
+  up: IMigrationScript;
+  down: IMigrationScript;
+}
@@ -0,0 +1,17 @@
+import { ElementId } from './diagram-document';
+
+export type SearchKind = 'diagram' | 'table' | 'field' | 'enum' | 'note';
+
+// One matching element; tableId/fieldId locate tables and fields, elementId enums and notes
+export interface ISearchResult {
+  diagramId: string;
+  diagramName: string;
+  kind: SearchKind;
+  matchedOn: 'name' | 'comment' | 'title' | 'content' | 'value';
+  tableId: ElementId | null;
+  tableName: string | null;
+  fieldId: ElementId | null;
+  fieldName: string | null;
+  elementId: ElementId | null;
+  text: string;
+}
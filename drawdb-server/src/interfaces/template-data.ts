@@ -0,0 +1,7 @@
+import { IDiagramSnapshot } from './diagram-snapshot';
+
+// What a template holds: a diagram document without its name and todo list, plus a short
+// description for the gallery
+export interface ITemplateData extends Omit<IDiagramSnapshot, 'name' | 'todos'> {
+  description: string;
+}
@@ -0,0 +1,5 @@
+// One entry of an ErrorResponse's details: the offending input path and what is wrong with it
+export interface IValidationDetail {
+  field: string;
+  message: string;
+}
@@ -2,12 +2,29 @@ import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { User } from '../models';
 import { config } from '../config';
+import { SessionService } from '../services/session-service';
 
 export interface AuthRequest extends Request {
   user?: User;
   userId?: string;
+  sessionId?: string;
 }
 
+// Resolve the active user and session an access token belongs to; tokens of revoked or expired
+// sessions resolve to null. Throws jsonwebtoken errors for bad or expired tokens
+export const resolveToken = async (
+  token: string,
+): Promise<{ user: User; sessionId: string } | null> => {
+  const decoded = jwt.verify(token, config.jwt.secret) as { userId: string; sessionId?: string };
+  if (!decoded.sessionId) return null;
+
+  const session = await SessionService.findActive(decoded.sessionId, decoded.userId);
+  if (!session) return null;
+
+  const user = await User.findByPk(decoded.userId);
+  return user && user.isActive ? { user, sessionId: session.id } : null;
+};
+
 export const authenticate = async (
   req: AuthRequest,
   res: Response,
@@ -27,13 +44,10 @@ export const authenticate = async (
 
     const token = authHeader.substring(7); // Remove 'Bearer ' prefix
 
-    // Verify token
-    const decoded = jwt.verify(token, config.jwt.secret) as { userId: string };
-
-    // Find user
-    const user = await User.findByPk(decoded.userId);
+    // Verify token and find user and session
+    const resolved = await resolveToken(token);
 
-    if (!user || !user.isActive) {
+    if (!resolved) {
       res.status(401).json({
         error: 'Authentication failed',
         message: 'Invalid or expired token',
@@ -42,8 +56,9 @@ export const authenticate = async (
     }
 
     // Attach user to request
-    req.user = user;
-    req.userId = user.id;
+    req.user = resolved.user;
+    req.userId = resolved.user.id;
+    req.sessionId = resolved.sessionId;
 
     next();
   } catch (error) {
@@ -70,3 +85,13 @@ export const authenticate = async (
   }
 };
 
+// EventSource cannot send headers, so streaming endpoints also accept `?token=`
+export const acceptQueryToken = (req: AuthRequest, res: Response, next: NextFunction): void => {
+  const { token } = req.query;
+
+  if (!req.headers.authorization && typeof token === 'string') {
+    req.headers.authorization = `Bearer ${token}`;
+  }
+
+  next();
+};
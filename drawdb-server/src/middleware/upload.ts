@@ -0,0 +1,21 @@
+import { NextFunction, Request, Response } from 'express';
+import multer from 'multer';
+
+const MAX_SCRIPT_FILE_SIZE = 5 * 1024 * 1024;
+
+const scriptFile = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_SCRIPT_FILE_SIZE, files: 1 },
+}).single('file');
+
+// Read an optional multipart upload of a SQL or DBML script from the `file` field into req.file;
+// requests that are not multipart pass through untouched
+export const acceptScriptUpload = (req: Request, res: Response, next: NextFunction): void => {
+  scriptFile(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError) {
+      res.status(400).json({ error: 'Invalid upload', message: error.message });
+      return;
+    }
+    next(error);
+  });
+};
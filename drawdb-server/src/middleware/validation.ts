@@ -1,5 +1,8 @@
 import { Request, Response, NextFunction } from 'express';
 import { body, validationResult } from 'express-validator';
+import { ErrorResponse } from './errorHandler';
+import { validateDocument, validateReferences } from '../utils/diagram-schema';
+import { validateLintConfig } from '../utils/lint';
 
 // Validation rules for registration
 export const validateRegistration = [
@@ -24,6 +27,38 @@ export const validateLogin = [
   body('password').notEmpty().withMessage('Password is required'),
 ];
 
+// Validation rules for requesting a password reset or verification link
+export const validateEmailRequest = [
+  body('email').trim().isEmail().withMessage('Invalid email address').normalizeEmail(),
+];
+
+// Validation rules for using an emailed verification or email change token
+export const validateEmailToken = [
+  body('token').isString().notEmpty().withMessage('Token is required'),
+];
+
+// Validation rules for profile updates
+export const validateProfile = [
+  body('username')
+    .optional()
+    .trim()
+    .isLength({ min: 3, max: 50 })
+    .withMessage('Username must be between 3 and 50 characters')
+    .isAlphanumeric()
+    .withMessage('Username must contain only letters and numbers'),
+
+  body('email').optional().trim().isEmail().withMessage('Invalid email address').normalizeEmail(),
+];
+
+// Validation rules for setting a new password with a reset token
+export const validateResetPassword = [
+  body('token').isString().notEmpty().withMessage('Reset token is required'),
+
+  body('newPassword')
+    .isLength({ min: 6 })
+    .withMessage('Password must be at least 6 characters long'),
+];
+
 // Validation rules for diagram creation/update
 export const validateDiagram = [
   body('name')
@@ -59,6 +94,20 @@ export const validateShare = [
     .withMessage('Permission level must be viewer, editor, or owner'),
 ];
 
+// Validation rules for reading a live database
+export const validateConnection = [
+  body('connection')
+    .isString()
+    .notEmpty()
+    .withMessage('connection must be a database connection string'),
+
+  body('schema')
+    .optional()
+    .isString()
+    .isLength({ min: 1, max: 63 })
+    .withMessage('Schema must be between 1 and 63 characters'),
+];
+
 // Middleware to check validation results
 export const checkValidation = (
   req: Request,
@@ -82,3 +131,45 @@ export const checkValidation = (
 // Alias for checkValidation (used in some routes)
 export const validate = checkValidation;
 
+// Check the document collections in a diagram create/update body against the editor's schemas,
+// and relationship endpoints against the tables when both are sent
+export const validateDiagramDocument = (req: Request, res: Response, next: NextFunction): void => {
+  const details = validateDocument(req.body);
+
+  if (
+    details.length === 0 &&
+    Array.isArray(req.body.tables) &&
+    Array.isArray(req.body.references)
+  ) {
+    details.push(...validateReferences(req.body.tables, req.body.references));
+  }
+
+  if (details.length > 0) {
+    const response: ErrorResponse = {
+      error: 'Validation error',
+      message: 'Invalid diagram document',
+      details,
+    };
+    res.status(400).json(response);
+    return;
+  }
+
+  next();
+};
+
+// Check a lint config body: known rules and severities, presets or valid naming patterns
+export const validateLintConfigBody = (req: Request, res: Response, next: NextFunction): void => {
+  const details = validateLintConfig(req.body);
+
+  if (details.length > 0) {
+    const response: ErrorResponse = {
+      error: 'Validation error',
+      message: 'Invalid lint config',
+      details,
+    };
+    res.status(400).json(response);
+    return;
+  }
+
+  next();
+};
@@ -1,18 +1,29 @@
 import { DataTypes, Model, Optional } from 'sequelize';
 import { sequelize } from '../config/database';
+import {
+  IDiagramArea,
+  IDiagramEnum,
+  IDiagramNote,
+  IDiagramRelationship,
+  IDiagramTable,
+  IDiagramTodo,
+  IDiagramType,
+} from '../interfaces/diagram-document';
+import { ILintConfig } from '../interfaces/lint';
 
 interface DiagramAttributes {
   id: string;
   userId: string;
+  folderId: string | null;
   name: string;
   database: string;
-  tables: Array<unknown>;
-  references: Array<unknown>;
-  notes: Array<unknown>;
-  areas: Array<unknown>;
-  todos: Array<unknown>;
-  enums: Array<unknown> | null;
-  types: Array<unknown> | null;
+  tables: IDiagramTable[];
+  references: IDiagramRelationship[];
+  notes: IDiagramNote[];
+  areas: IDiagramArea[];
+  todos: IDiagramTodo[];
+  enums: IDiagramEnum[] | null;
+  types: IDiagramType[] | null;
   pan: { x: number; y: number } | null;
   zoom: number | null;
   gistId: string | null;
@@ -21,14 +32,17 @@ interface DiagramAttributes {
   lastModifiedBy: string | null;
   version: number;
   isShared: boolean;
+  lintConfig: ILintConfig | null;
   createdAt?: Date;
   updatedAt?: Date;
+  deletedAt?: Date | null;
 }
 
 interface DiagramCreationAttributes
   extends Optional<
     DiagramAttributes,
     | 'id'
+    | 'folderId'
     | 'tables'
     | 'references'
     | 'notes'
@@ -44,6 +58,7 @@ interface DiagramCreationAttributes
     | 'lastModifiedBy'
     | 'version'
     | 'isShared'
+    | 'lintConfig'
   > {}
 
 export class Diagram
@@ -52,15 +67,16 @@ export class Diagram
 {
   public id!: string;
   public userId!: string;
+  public folderId!: string | null;
   public name!: string;
   public database!: string;
-  public tables!: Array<unknown>;
-  public references!: Array<unknown>;
-  public notes!: Array<unknown>;
-  public areas!: Array<unknown>;
-  public todos!: Array<unknown>;
-  public enums!: Array<unknown> | null;
-  public types!: Array<unknown> | null;
+  public tables!: IDiagramTable[];
+  public references!: IDiagramRelationship[];
+  public notes!: IDiagramNote[];
+  public areas!: IDiagramArea[];
+  public todos!: IDiagramTodo[];
+  public enums!: IDiagramEnum[] | null;
+  public types!: IDiagramType[] | null;
   public pan!: { x: number; y: number } | null;
   public zoom!: number | null;
   public gistId!: string | null;
@@ -69,9 +85,12 @@ export class Diagram
   public lastModifiedBy!: string | null;
   public version!: number;
   public isShared!: boolean;
+  public lintConfig!: ILintConfig | null;
 
   public readonly createdAt!: Date;
   public readonly updatedAt!: Date;
+  // Set while the diagram is in the trash
+  public readonly deletedAt!: Date | null;
 
   // Associations
   public readonly shares?: Array<any>;
@@ -93,6 +112,15 @@ Diagram.init(
       },
       onDelete: 'CASCADE',
     },
+    folderId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'folders',
+        key: 'id',
+      },
+      onDelete: 'SET NULL',
+    },
     name: {
       type: DataTypes.STRING(255),
       allowNull: false,
@@ -178,12 +206,19 @@ Diagram.init(
       type: DataTypes.BOOLEAN,
       defaultValue: false,
     },
+    // Lint settings over those of the diagram's folders; not part of the versioned document
+    lintConfig: {
+      type: DataTypes.JSONB,
+      allowNull: true,
+      defaultValue: null,
+    },
   },
   {
     sequelize,
     tableName: 'diagrams',
     timestamps: true,
     underscored: true,
+    paranoid: true,
     indexes: [
       {
         fields: ['user_id', 'last_modified'],
@@ -194,6 +229,12 @@ Diagram.init(
       {
         fields: ['version'],
       },
+      {
+        fields: ['deleted_at'],
+      },
+      {
+        fields: ['folder_id'],
+      },
     ],
   },
 );
@@ -0,0 +1,108 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import { sequelize } from '../config/database';
+import { IDriftDifference, IDriftSummary } from '../interfaces/drift-report';
+import { IImportWarning } from '../interfaces/import-warning';
+
+interface DiagramDriftReportAttributes {
+  id: string;
+  diagramId: string;
+  version: number;
+  source: string;
+  databaseName: string;
+  summary: IDriftSummary;
+  differences: IDriftDifference[];
+  warnings: IImportWarning[];
+  createdBy: string | null;
+  createdAt?: Date;
+}
+
+type DiagramDriftReportCreationAttributes = Optional<
+  DiagramDriftReportAttributes,
+  'id' | 'createdBy'
+>;
+
+export class DiagramDriftReport
+  extends Model<DiagramDriftReportAttributes, DiagramDriftReportCreationAttributes>
+  implements DiagramDriftReportAttributes
+{
+  public id!: string;
+  public diagramId!: string;
+  public version!: number;
+  public source!: string;
+  public databaseName!: string;
+  public summary!: IDriftSummary;
+  public differences!: IDriftDifference[];
+  public warnings!: IImportWarning[];
+  public createdBy!: string | null;
+
+  public readonly createdAt!: Date;
+}
+
+DiagramDriftReport.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    diagramId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'diagrams',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+    },
+    version: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+    },
+    source: {
+      type: DataTypes.STRING(50),
+      allowNull: false,
+    },
+    databaseName: {
+      type: DataTypes.STRING(255),
+      allowNull: false,
+    },
+    summary: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+    },
+    differences: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+      defaultValue: [],
+    },
+    warnings: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+      defaultValue: [],
+    },
+    createdBy: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+      onDelete: 'SET NULL',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'diagram_drift_reports',
+    timestamps: true,
+    updatedAt: false,
+    underscored: true,
+    indexes: [
+      {
+        fields: ['diagram_id', 'created_at'],
+        name: 'idx_diagram_drift_reports_diagram',
+      },
+    ],
+  },
+);
+
+export default DiagramDriftReport;
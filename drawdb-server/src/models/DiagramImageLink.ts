@@ -0,0 +1,89 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import { sequelize } from '../config/database';
+
+interface DiagramImageLinkAttributes {
+  id: string;
+  diagramId: string;
+  keyHash: string;
+  label: string | null;
+  createdBy: string | null;
+  createdAt?: Date;
+}
+
+type DiagramImageLinkCreationAttributes = Optional<
+  DiagramImageLinkAttributes,
+  'id' | 'label' | 'createdBy'
+>;
+
+// A read-only key that renders one diagram as an image without signing in
+export class DiagramImageLink
+  extends Model<DiagramImageLinkAttributes, DiagramImageLinkCreationAttributes>
+  implements DiagramImageLinkAttributes
+{
+  public id!: string;
+  public diagramId!: string;
+  public keyHash!: string;
+  public label!: string | null;
+  public createdBy!: string | null;
+
+  public readonly createdAt!: Date;
+
+  // Override toJSON to exclude the key hash; the key itself is only shown on creation
+  toJSON(): Omit<DiagramImageLinkAttributes, 'keyHash'> {
+    const values = { ...this.get() } as Partial<DiagramImageLinkAttributes>;
+    delete values.keyHash;
+    return values as Omit<DiagramImageLinkAttributes, 'keyHash'>;
+  }
+}
+
+DiagramImageLink.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    diagramId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'diagrams',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+    },
+    keyHash: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+      unique: true,
+    },
+    label: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+    },
+    createdBy: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+      onDelete: 'SET NULL',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'diagram_image_links',
+    timestamps: true,
+    updatedAt: false,
+    underscored: true,
+    indexes: [
+      {
+        fields: ['diagram_id'],
+        name: 'idx_diagram_image_links_diagram',
+      },
+    ],
+  },
+);
+
+export default DiagramImageLink;
@@ -0,0 +1,78 @@
+import { DataTypes, Model } from 'sequelize';
+import { sequelize } from '../config/database';
+import { IPresenceSelection, IPresenceViewport } from '../interfaces/diagram-presence';
+
+interface DiagramPresenceAttributes {
+  diagramId: string;
+  userId: string;
+  username: string;
+  selection: IPresenceSelection | null;
+  viewport: IPresenceViewport | null;
+  lastSeen: Date;
+}
+
+// A user who has a diagram open, as of their last heartbeat to any server instance
+export class DiagramPresence
+  extends Model<DiagramPresenceAttributes, DiagramPresenceAttributes>
+  implements DiagramPresenceAttributes
+{
+  public diagramId!: string;
+  public userId!: string;
+  public username!: string;
+  public selection!: IPresenceSelection | null;
+  public viewport!: IPresenceViewport | null;
+  public lastSeen!: Date;
+}
+
+DiagramPresence.init(
+  {
+    diagramId: {
+      type: DataTypes.UUID,
+      primaryKey: true,
+      references: {
+        model: 'diagrams',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+    },
+    userId: {
+      type: DataTypes.UUID,
+      primaryKey: true,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+    },
+    username: {
+      type: DataTypes.STRING(50),
+      allowNull: false,
+    },
+    selection: {
+      type: DataTypes.JSONB,
+      allowNull: true,
+    },
+    viewport: {
+      type: DataTypes.JSONB,
+      allowNull: true,
+    },
+    lastSeen: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'diagram_presence',
+    timestamps: false,
+    underscored: true,
+    indexes: [
+      {
+        fields: ['last_seen'],
+        name: 'idx_diagram_presence_last_seen',
+      },
+    ],
+  },
+);
+
+export default DiagramPresence;
@@ -0,0 +1,88 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import { sequelize } from '../config/database';
+import { IDiagramSnapshot } from '../interfaces/diagram-snapshot';
+
+interface DiagramRevisionAttributes {
+  id: string;
+  diagramId: string;
+  version: number;
+  snapshot: IDiagramSnapshot;
+  lastModifiedBy: string | null;
+  message: string | null;
+  createdAt?: Date;
+}
+
+type DiagramRevisionCreationAttributes = Optional<
+  DiagramRevisionAttributes,
+  'id' | 'lastModifiedBy' | 'message'
+>;
+
+export class DiagramRevision
+  extends Model<DiagramRevisionAttributes, DiagramRevisionCreationAttributes>
+  implements DiagramRevisionAttributes
+{
+  public id!: string;
+  public diagramId!: string;
+  public version!: number;
+  public snapshot!: IDiagramSnapshot;
+  public lastModifiedBy!: string | null;
+  public message!: string | null;
+
+  public readonly createdAt!: Date;
+}
+
+DiagramRevision.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    diagramId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'diagrams',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+    },
+    version: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+    },
+    snapshot: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+    },
+    lastModifiedBy: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+      onDelete: 'SET NULL',
+    },
+    message: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'diagram_revisions',
+    timestamps: true,
+    updatedAt: false,
+    underscored: true,
+    indexes: [
+      {
+        unique: true,
+        fields: ['diagram_id', 'version'],
+        name: 'unique_diagram_version',
+      },
+    ],
+  },
+);
+
+export default DiagramRevision;
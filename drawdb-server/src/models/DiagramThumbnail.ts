@@ -0,0 +1,53 @@
+import { DataTypes, Model } from 'sequelize';
+import { sequelize } from '../config/database';
+
+interface DiagramThumbnailAttributes {
+  diagramId: string;
+  version: number;
+  // Null when the diagram could not be drawn at this version
+  image: Buffer | null;
+  updatedAt?: Date;
+}
+
+// A small PNG of a diagram as of `version`, redrawn in the background once the diagram moves on
+export class DiagramThumbnail
+  extends Model<DiagramThumbnailAttributes, DiagramThumbnailAttributes>
+  implements DiagramThumbnailAttributes
+{
+  public diagramId!: string;
+  public version!: number;
+  public image!: Buffer | null;
+
+  public readonly updatedAt!: Date;
+}
+
+DiagramThumbnail.init(
+  {
+    diagramId: {
+      type: DataTypes.UUID,
+      primaryKey: true,
+      references: {
+        model: 'diagrams',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+    },
+    version: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+    },
+    image: {
+      type: DataTypes.BLOB,
+      allowNull: true,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'diagram_thumbnails',
+    timestamps: true,
+    createdAt: false,
+    underscored: true,
+  },
+);
+
+export default DiagramThumbnail;
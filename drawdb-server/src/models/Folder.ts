@@ -0,0 +1,83 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import { sequelize } from '../config/database';
+import { ILintConfig } from '../interfaces/lint';
+
+interface FolderAttributes {
+  id: string;
+  userId: string;
+  parentId: string | null;
+  name: string;
+  lintConfig: ILintConfig | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+type FolderCreationAttributes = Optional<FolderAttributes, 'id' | 'parentId' | 'lintConfig'>;
+
+export class Folder
+  extends Model<FolderAttributes, FolderCreationAttributes>
+  implements FolderAttributes
+{
+  public id!: string;
+  public userId!: string;
+  public parentId!: string | null;
+  public name!: string;
+  public lintConfig!: ILintConfig | null;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+Folder.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    userId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+    },
+    parentId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'folders',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+    },
+    name: {
+      type: DataTypes.STRING(255),
+      allowNull: false,
+    },
+    // Lint settings for the diagrams in this folder and its subfolders
+    lintConfig: {
+      type: DataTypes.JSONB,
+      allowNull: true,
+      defaultValue: null,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'folders',
+    timestamps: true,
+    underscored: true,
+    indexes: [
+      {
+        fields: ['user_id', 'parent_id'],
+      },
+      {
+        fields: ['parent_id'],
+      },
+    ],
+  },
+);
+
+export default Folder;
@@ -0,0 +1,90 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import { sequelize } from '../config/database';
+import { PermissionLevel } from './DiagramShare';
+
+interface FolderShareAttributes {
+  id: string;
+  folderId: string;
+  sharedWithUserId: string;
+  sharedByUserId: string;
+  permissionLevel: PermissionLevel;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+type FolderShareCreationAttributes = Optional<FolderShareAttributes, 'id' | 'permissionLevel'>;
+
+// Grants a permission level on every diagram inside the folder and its subfolders
+export class FolderShare
+  extends Model<FolderShareAttributes, FolderShareCreationAttributes>
+  implements FolderShareAttributes
+{
+  public id!: string;
+  public folderId!: string;
+  public sharedWithUserId!: string;
+  public sharedByUserId!: string;
+  public permissionLevel!: PermissionLevel;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+FolderShare.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    folderId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'folders',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+    },
+    sharedWithUserId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+    },
+    sharedByUserId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+    },
+    permissionLevel: {
+      type: DataTypes.ENUM(...Object.values(PermissionLevel)),
+      allowNull: false,
+      defaultValue: PermissionLevel.VIEWER,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'folder_shares',
+    timestamps: true,
+    underscored: true,
+    indexes: [
+      {
+        unique: true,
+        fields: ['folder_id', 'shared_with_user_id'],
+        name: 'unique_folder_user',
+      },
+      {
+        fields: ['shared_with_user_id'],
+      },
+    ],
+  },
+);
+
+export default FolderShare;
@@ -0,0 +1,115 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import { sequelize } from '../config/database';
+
+interface SessionAttributes {
+  id: string;
+  userId: string;
+  // SHA-256 of the current refresh token and of the one it replaced; the tokens are never stored
+  refreshTokenHash: string;
+  previousTokenHash: string | null;
+  userAgent: string | null;
+  ipAddress: string | null;
+  expiresAt: Date;
+  lastUsedAt: Date;
+  revokedAt: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+type SessionCreationAttributes = Optional<
+  SessionAttributes,
+  'id' | 'previousTokenHash' | 'userAgent' | 'ipAddress' | 'lastUsedAt' | 'revokedAt'
+>;
+
+export class Session
+  extends Model<SessionAttributes, SessionCreationAttributes>
+  implements SessionAttributes
+{
+  public id!: string;
+  public userId!: string;
+  public refreshTokenHash!: string;
+  public previousTokenHash!: string | null;
+  public userAgent!: string | null;
+  public ipAddress!: string | null;
+  public expiresAt!: Date;
+  public lastUsedAt!: Date;
+  public revokedAt!: Date | null;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+
+  // Override toJSON to exclude the token hashes
+  toJSON(): Omit<SessionAttributes, 'refreshTokenHash' | 'previousTokenHash'> {
+    const values = { ...this.get() } as Partial<SessionAttributes>;
+    delete values.refreshTokenHash;
+    delete values.previousTokenHash;
+    return values as Omit<SessionAttributes, 'refreshTokenHash' | 'previousTokenHash'>;
+  }
+}
+
+Session.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    userId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+    },
+    refreshTokenHash: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+      unique: true,
+    },
+    previousTokenHash: {
+      type: DataTypes.STRING(64),
+      allowNull: true,
+    },
+    userAgent: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+    },
+    ipAddress: {
+      type: DataTypes.STRING(45),
+      allowNull: true,
+    },
+    expiresAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+    lastUsedAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    revokedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'sessions',
+    timestamps: true,
+    underscored: true,
+    indexes: [
+      {
+        fields: ['user_id'],
+        name: 'idx_sessions_user',
+      },
+      {
+        fields: ['previous_token_hash'],
+        name: 'idx_sessions_previous_token',
+      },
+    ],
+  },
+);
+
+export default Session;
@@ -1,12 +1,13 @@
 import { DataTypes, Model, Optional } from 'sequelize';
 import { sequelize } from '../config/database';
+import { ITemplateData } from '../interfaces/template-data';
 
 interface TemplateAttributes {
   id: string;
   userId: string | null;
   title: string;
   custom: boolean;
-  data: Record<string, unknown>;
+  data: ITemplateData;
   isPublic: boolean;
   createdAt?: Date;
   updatedAt?: Date;
@@ -23,7 +24,7 @@ export class Template
   public userId!: string | null;
   public title!: string;
   public custom!: boolean;
-  public data!: Record<string, unknown>;
+  public data!: ITemplateData;
   public isPublic!: boolean;
 
   public readonly createdAt!: Date;
@@ -9,12 +9,14 @@ interface UserAttributes {
   email: string;
   password: string;
   isActive: boolean;
+  emailVerified: boolean;
   lastLogin: Date | null;
   createdAt?: Date;
   updatedAt?: Date;
 }
 
-interface UserCreationAttributes extends Optional<UserAttributes, 'id' | 'isActive' | 'lastLogin'> {}
+interface UserCreationAttributes
+  extends Optional<UserAttributes, 'id' | 'isActive' | 'emailVerified' | 'lastLogin'> {}
 
 export class User extends Model<UserAttributes, UserCreationAttributes> implements UserAttributes {
   public id!: string;
@@ -22,6 +24,7 @@ export class User extends Model<UserAttributes, UserCreationAttributes> implemen
   public email!: string;
   public password!: string;
   public isActive!: boolean;
+  public emailVerified!: boolean;
   public lastLogin!: Date | null;
 
   public readonly createdAt!: Date;
@@ -91,6 +94,11 @@ User.init(
       type: DataTypes.BOOLEAN,
       defaultValue: true,
     },
+    emailVerified: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: false,
+    },
     lastLogin: {
       type: DataTypes.DATE,
       allowNull: true,
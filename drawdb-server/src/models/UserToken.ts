@@ -0,0 +1,96 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import { sequelize } from '../config/database';
+
+export enum UserTokenPurpose {
+  PASSWORD_RESET = 'password_reset',
+  EMAIL_VERIFICATION = 'email_verification',
+  EMAIL_CHANGE = 'email_change',
+}
+
+interface UserTokenAttributes {
+  id: string;
+  userId: string;
+  purpose: UserTokenPurpose;
+  // SHA-256 of the token sent by email; the token itself is never stored
+  tokenHash: string;
+  // New address of an email change, switched to once the token is used
+  email: string | null;
+  expiresAt: Date;
+  usedAt: Date | null;
+  createdAt?: Date;
+}
+
+type UserTokenCreationAttributes = Optional<UserTokenAttributes, 'id' | 'email' | 'usedAt'>;
+
+export class UserToken
+  extends Model<UserTokenAttributes, UserTokenCreationAttributes>
+  implements UserTokenAttributes
+{
+  public id!: string;
+  public userId!: string;
+  public purpose!: UserTokenPurpose;
+  public tokenHash!: string;
+  public email!: string | null;
+  public expiresAt!: Date;
+  public usedAt!: Date | null;
+
+  public readonly createdAt!: Date;
+}
+
+UserToken.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    userId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+    },
+    purpose: {
+      type: DataTypes.STRING(32),
+      allowNull: false,
+      validate: {
+        isIn: [Object.values(UserTokenPurpose)],
+      },
+    },
+    tokenHash: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+      unique: true,
+    },
+    email: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+    },
+    expiresAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+    usedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'user_tokens',
+    timestamps: true,
+    updatedAt: false,
+    underscored: true,
+    indexes: [
+      {
+        fields: ['user_id', 'purpose'],
+        name: 'idx_user_tokens_user_purpose',
+      },
+    ],
+  },
+);
+
+export default UserToken;
@@ -2,6 +2,15 @@ import User from './User';
 import Diagram from './Diagram';
 import DiagramShare from './DiagramShare';
 import Template from './Template';
+import DiagramRevision from './DiagramRevision';
+import DiagramDriftReport from './DiagramDriftReport';
+import DiagramThumbnail from './DiagramThumbnail';
+import DiagramImageLink from './DiagramImageLink';
+import DiagramPresence from './DiagramPresence';
+import Folder from './Folder';
+import FolderShare from './FolderShare';
+import Session from './Session';
+import UserToken from './UserToken';
 
 // Define associations
 User.hasMany(Diagram, {
@@ -29,6 +38,26 @@ Template.belongsTo(User, {
   as: 'owner',
 });
 
+User.hasMany(Session, {
+  foreignKey: 'userId',
+  as: 'sessions',
+});
+
+Session.belongsTo(User, {
+  foreignKey: 'userId',
+  as: 'user',
+});
+
+User.hasMany(UserToken, {
+  foreignKey: 'userId',
+  as: 'tokens',
+});
+
+UserToken.belongsTo(User, {
+  foreignKey: 'userId',
+  as: 'user',
+});
+
 // DiagramShare associations
 Diagram.hasMany(DiagramShare, {
   foreignKey: 'diagramId',
@@ -60,5 +89,145 @@ DiagramShare.belongsTo(User, {
   as: 'sharedBy',
 });
 
-export { User, Diagram, DiagramShare, Template };
+// DiagramRevision associations
+Diagram.hasMany(DiagramRevision, {
+  foreignKey: 'diagramId',
+  as: 'revisions',
+});
+
+DiagramRevision.belongsTo(Diagram, {
+  foreignKey: 'diagramId',
+  as: 'diagram',
+});
+
+DiagramRevision.belongsTo(User, {
+  foreignKey: 'lastModifiedBy',
+  as: 'author',
+});
+
+// DiagramDriftReport associations
+Diagram.hasMany(DiagramDriftReport, {
+  foreignKey: 'diagramId',
+  as: 'driftReports',
+});
+
+DiagramDriftReport.belongsTo(Diagram, {
+  foreignKey: 'diagramId',
+  as: 'diagram',
+});
+
+DiagramDriftReport.belongsTo(User, {
+  foreignKey: 'createdBy',
+  as: 'creator',
+});
+
+// DiagramThumbnail associations
+Diagram.hasOne(DiagramThumbnail, {
+  foreignKey: 'diagramId',
+  as: 'thumbnail',
+});
+
+DiagramThumbnail.belongsTo(Diagram, {
+  foreignKey: 'diagramId',
+  as: 'diagram',
+});
+
+// DiagramImageLink associations
+Diagram.hasMany(DiagramImageLink, {
+  foreignKey: 'diagramId',
+  as: 'imageLinks',
+});
+
+DiagramImageLink.belongsTo(Diagram, {
+  foreignKey: 'diagramId',
+  as: 'diagram',
+});
+
+DiagramImageLink.belongsTo(User, {
+  foreignKey: 'createdBy',
+  as: 'creator',
+});
+
+// DiagramPresence associations
+Diagram.hasMany(DiagramPresence, {
+  foreignKey: 'diagramId',
+  as: 'presence',
+});
+
+DiagramPresence.belongsTo(Diagram, {
+  foreignKey: 'diagramId',
+  as: 'diagram',
+});
+
+DiagramPresence.belongsTo(User, {
+  foreignKey: 'userId',
+  as: 'user',
+});
+
+// Folder associations
+User.hasMany(Folder, {
+  foreignKey: 'userId',
+  as: 'folders',
+});
+
+Folder.belongsTo(User, {
+  foreignKey: 'userId',
+  as: 'owner',
+});
+
+Folder.hasMany(Folder, {
+  foreignKey: 'parentId',
+  as: 'children',
+});
+
+Folder.belongsTo(Folder, {
+  foreignKey: 'parentId',
+  as: 'parent',
+});
+
+Folder.hasMany(Diagram, {
+  foreignKey: 'folderId',
+  as: 'diagrams',
+});
+
+Diagram.belongsTo(Folder, {
+  foreignKey: 'folderId',
+  as: 'folder',
+});
+
+Folder.hasMany(FolderShare, {
+  foreignKey: 'folderId',
+  as: 'shares',
+});
+
+FolderShare.belongsTo(Folder, {
+  foreignKey: 'folderId',
+  as: 'folder',
+});
+
+FolderShare.belongsTo(User, {
+  foreignKey: 'sharedWithUserId',
+  as: 'sharedWith',
+});
+
+FolderShare.belongsTo(User, {
+  foreignKey: 'sharedByUserId',
+  as: 'sharedBy',
+});
+
+export {
+  User,
+  Diagram,
+  DiagramShare,
+  Template,
+  DiagramRevision,
+  DiagramDriftReport,
+  DiagramThumbnail,
+  DiagramImageLink,
+  DiagramPresence,
+  Folder,
+  FolderShare,
+  Session,
+  UserToken,
+};
 
@@ -0,0 +1,435 @@
+import { IncomingMessage, Server } from 'http';
+import { Duplex } from 'stream';
+import { randomUUID } from 'crypto';
+import { RawData, WebSocket, WebSocketServer } from 'ws';
+import { config } from '../config';
+import { Diagram, User } from '../models';
+import { PermissionLevel } from '../models/DiagramShare';
+import { resolveToken } from '../middleware/auth';
+import { IDiagramEvent } from '../interfaces/diagram-event';
+import { IElementOperation } from '../interfaces/element-operation';
+import { DiagramAccessService } from '../services/diagram-access-service';
+import { DiagramEventService } from '../services/diagram-event-service';
+import { DiagramPatchService } from '../services/diagram-patch-service';
+import { PresenceService } from '../services/presence-service';
+import { ELEMENT_OPERATION_KINDS, toPatchOperations } from '../utils/element-operations';
+import { applyPatch } from '../utils/json-patch';
+import { HttpError } from '../utils/http-error';
+
+// ws://host/api/v1/diagrams/:id/live?token=<jwt>
+const LIVE_PATH = /^\/api\/v1\/diagrams\/([0-9a-f-]{36})\/live$/i;
+const HEARTBEAT_INTERVAL = 30000;
+
+interface Participant {
+  connectionId: string;
+  userId: string;
+  // Session the connection was opened with; it closes when the session ends
+  sessionId: string;
+  username: string;
+  permission: PermissionLevel;
+  socket: WebSocket;
+  alive: boolean;
+}
+
+// diagramId -> connectionId -> participant
+const rooms = new Map<string, Map<string, Participant>>();
+const unsubscribers = new Map<string, () => void>();
+
+function send(socket: WebSocket, message: Record<string, unknown>) {
+  if (socket.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+}
+
+function presenceError(error: unknown) {
+  console.error('Live presence error:', error);
+}
+
+function describe(participant: Participant) {
+  return {
+    connectionId: participant.connectionId,
+    userId: participant.userId,
+    username: participant.username,
+    permission: participant.permission,
+  };
+}
+
+function broadcast(
+  diagramId: string,
+  message: Record<string, unknown>,
+  exceptConnectionId?: string,
+) {
+  const room = rooms.get(diagramId);
+  if (!room) return;
+
+  for (const participant of room.values()) {
+    if (participant.connectionId !== exceptConnectionId) {
+      send(participant.socket, message);
+    }
+  }
+}
+
+// Forward saved versions to everyone in the room except the connection that produced them,
+// and presence, share and deletion changes to everyone
+function relay(event: IDiagramEvent) {
+  switch (event.type) {
+    case 'presence':
+      broadcast(event.diagramId, { type: 'presence', presence: event.presence });
+      return;
+    case 'presence_left':
+      broadcast(event.diagramId, { type: 'presence_left', userId: event.userId });
+      return;
+    case 'shares':
+      broadcast(event.diagramId, {
+        type: 'shares',
+        action: event.action,
+        userId: event.userId,
+        permissionLevel: event.permissionLevel,
+        ...(event.folderId && { folderId: event.folderId }),
+      });
+      applyShareChange(event.diagramId, event.userId).catch((error) =>
+        console.error('Live share change error:', error),
+      );
+      return;
+    case 'deleted':
+      broadcast(event.diagramId, {
+        type: 'deleted',
+        deletedBy: event.deletedBy,
+        permanent: event.permanent,
+      });
+      for (const participant of rooms.get(event.diagramId)?.values() ?? []) {
+        participant.socket.close(4004, 'Diagram deleted');
+      }
+      return;
+    case 'version':
+      broadcast(
+        event.diagramId,
+        event.operation
+          ? {
+              type: 'operation',
+              version: event.version,
+              userId: event.lastModifiedBy,
+              operation: event.operation,
+              merged: event.merged ?? false,
+            }
+          : {
+              type: 'version',
+              version: event.version,
+              lastModifiedBy: event.lastModifiedBy,
+              changes: event.changes,
+            },
+        event.origin,
+      );
+  }
+}
+
+// Keep connected participants in line with their current access. One share changing says
+// little on its own: the user may also own the diagram or reach it through another share.
+async function applyShareChange(diagramId: string, userId: string) {
+  const connected = () =>
+    [...(rooms.get(diagramId)?.values() ?? [])].filter(
+      (participant) => participant.userId === userId,
+    );
+  if (connected().length === 0) return;
+
+  const diagram = await Diagram.findByPk(diagramId);
+  const permission = diagram ? await DiagramAccessService.getPermission(diagram, userId) : null;
+
+  for (const participant of connected()) {
+    if (permission) {
+      participant.permission = permission;
+    } else {
+      participant.socket.close(4003, 'Access revoked');
+    }
+  }
+}
+
+// Logged out or revoked sessions lose their live connections on every diagram
+function endSessions(sessionIds: string[]) {
+  const ended = new Set(sessionIds);
+
+  for (const room of rooms.values()) {
+    for (const participant of room.values()) {
+      if (ended.has(participant.sessionId)) {
+        participant.socket.close(4001, 'Session ended');
+      }
+    }
+  }
+}
+
+function join(diagramId: string, participant: Participant) {
+  let room = rooms.get(diagramId);
+  if (!room) {
+    room = new Map();
+    rooms.set(diagramId, room);
+    unsubscribers.set(diagramId, DiagramEventService.subscribe(diagramId, relay));
+  }
+
+  room.set(participant.connectionId, participant);
+}
+
+function leave(diagramId: string, participant: Participant) {
+  const room = rooms.get(diagramId);
+  if (!room) return;
+
+  room.delete(participant.connectionId);
+  if (room.size === 0) {
+    rooms.delete(diagramId);
+    unsubscribers.get(diagramId)?.();
+    unsubscribers.delete(diagramId);
+  }
+}
+
+async function handleOperation(
+  diagramId: string,
+  participant: Participant,
+  message: { requestId?: string; baseVersion?: number; operation?: IElementOperation },
+) {
+  const { requestId, baseVersion, operation } = message;
+
+  if (!DiagramAccessService.canEdit(participant.permission)) {
+    send(participant.socket, {
+      type: 'error',
+      requestId,
+      status: 403,
+      error: 'Read-only access',
+      message: 'Viewers cannot edit this diagram',
+    });
+    return;
+  }
+
+  if (!operation || !ELEMENT_OPERATION_KINDS.includes(operation.kind)) {
+    send(participant.socket, {
+      type: 'error',
+      requestId,
+      status: 400,
+      error: 'Invalid operation',
+      message: `Operation kind must be one of: ${ELEMENT_OPERATION_KINDS.join(', ')}`,
+    });
+    return;
+  }
+
+  try {
+    if (operation.kind === 'patch') {
+      DiagramPatchService.checkPaths(operation.operations || []);
+    }
+
+    const { diagram, merged } = await DiagramPatchService.applyEdit({
+      diagramId,
+      userId: participant.userId,
+      expectedVersion: baseVersion,
+      edit: (document) => applyPatch(document, toPatchOperations(document, operation)),
+      operation,
+      origin: participant.connectionId,
+    });
+
+    send(participant.socket, { type: 'ack', requestId, version: diagram.version, merged });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      send(participant.socket, {
+        type: 'error',
+        requestId,
+        status: error.statusCode,
+        ...error.body,
+      });
+      return;
+    }
+
+    console.error('Live operation error:', error);
+    send(participant.socket, {
+      type: 'error',
+      requestId,
+      status: 500,
+      error: 'Failed to apply operation',
+      message: error instanceof Error ? error.message : 'An unexpected error occurred',
+    });
+  }
+}
+
+function handleConnection(
+  socket: WebSocket,
+  diagram: Diagram,
+  user: User,
+  sessionId: string,
+  permission: PermissionLevel,
+) {
+  const participant: Participant = {
+    connectionId: randomUUID(),
+    userId: user.id,
+    sessionId,
+    username: user.username,
+    permission,
+    socket,
+    alive: true,
+  };
+
+  join(diagram.id, participant);
+
+  // Presence is read once this user's entry is stored; without it the welcome still goes out
+  PresenceService.update(diagram.id, user)
+    .then(() => PresenceService.list(diagram.id))
+    .catch((error) => {
+      presenceError(error);
+      return [];
+    })
+    .then((presence) =>
+      send(socket, {
+        type: 'welcome',
+        connectionId: participant.connectionId,
+        diagramId: diagram.id,
+        version: diagram.version,
+        permission,
+        readOnly: !DiagramAccessService.canEdit(permission),
+        participants: [...(rooms.get(diagram.id)?.values() ?? [])].map(describe),
+        presence,
+      }),
+    );
+  broadcast(
+    diagram.id,
+    { type: 'join', participant: describe(participant) },
+    participant.connectionId,
+  );
+
+  socket.on('pong', () => {
+    participant.alive = true;
+    PresenceService.touch(diagram.id, user).catch(presenceError);
+  });
+
+  socket.on('message', (data: RawData) => {
+    let message;
+    try {
+      message = JSON.parse(data.toString());
+    } catch {
+      send(socket, {
+        type: 'error',
+        status: 400,
+        error: 'Invalid message',
+        message: 'Expected JSON',
+      });
+      return;
+    }
+
+    // Valid JSON such as `null` or `42` is still not a message
+    if (typeof message !== 'object' || message === null || typeof message.type !== 'string') {
+      send(socket, {
+        type: 'error',
+        status: 400,
+        error: 'Invalid message',
+        message: 'Expected an object with a string "type"',
+      });
+      return;
+    }
+
+    if (message.type === 'ping') {
+      PresenceService.touch(diagram.id, user).catch(presenceError);
+      send(socket, { type: 'pong' });
+    } else if (message.type === 'presence') {
+      PresenceService.update(diagram.id, user, {
+        selection: message.selection,
+        viewport: message.viewport,
+      }).catch(presenceError);
+    } else if (message.type === 'operation') {
+      handleOperation(diagram.id, participant, message);
+    } else {
+      send(socket, {
+        type: 'error',
+        requestId: message.requestId,
+        status: 400,
+        error: 'Invalid message',
+        message: `Unknown message type "${message.type}"`,
+      });
+    }
+  });
+
+  // Protocol errors such as oversized messages; ws closes the connection itself
+  socket.on('error', (error) => {
+    console.warn(`Live connection ${participant.connectionId} error:`, error.message);
+  });
+
+  socket.on('close', () => {
+    leave(diagram.id, participant);
+    broadcast(diagram.id, { type: 'leave', participant: describe(participant) });
+
+    // The user may still have the diagram open in another tab
+    const room = rooms.get(diagram.id);
+    if (![...(room?.values() ?? [])].some((other) => other.userId === user.id)) {
+      PresenceService.remove(diagram.id, user.id).catch(presenceError);
+    }
+  });
+}
+
+function rejectUpgrade(socket: Duplex, status: number, reason: string) {
+  socket.write(`HTTP/1.1 ${status} ${reason}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
+}
+
+// Accept live editing connections on the HTTP server; authentication and permission checks
+// mirror the REST API (JWT from the `token` query parameter, owner or DiagramShare access)
+export function attachCollaborationServer(server: Server): WebSocketServer {
+  const wss = new WebSocketServer({ noServer: true, maxPayload: config.server.bodyLimit });
+
+  server.on('upgrade', async (request: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const url = new URL(request.url || '/', 'http://localhost');
+    const match = LIVE_PATH.exec(url.pathname);
+
+    if (!match) {
+      rejectUpgrade(socket, 404, 'Not Found');
+      return;
+    }
+
+    try {
+      const token = url.searchParams.get('token');
+      const resolved = token ? await resolveToken(token).catch(() => null) : null;
+
+      if (!resolved) {
+        rejectUpgrade(socket, 401, 'Unauthorized');
+        return;
+      }
+
+      const { user, sessionId } = resolved;
+
+      const diagram = await Diagram.findByPk(match[1]);
+      if (!diagram) {
+        rejectUpgrade(socket, 404, 'Not Found');
+        return;
+      }
+
+      const permission = await DiagramAccessService.getPermission(diagram, user.id);
+      if (!permission) {
+        rejectUpgrade(socket, 403, 'Forbidden');
+        return;
+      }
+
+      wss.handleUpgrade(request, socket, head, (ws) => {
+        handleConnection(ws, diagram, user, sessionId, permission);
+      });
+    } catch (error) {
+      console.error('Live connection error:', error);
+      rejectUpgrade(socket, 500, 'Internal Server Error');
+    }
+  });
+
+  // Drop connections that stopped answering pings
+  const heartbeat = setInterval(() => {
+    for (const room of rooms.values()) {
+      for (const participant of room.values()) {
+        if (!participant.alive) {
+          participant.socket.terminate();
+          continue;
+        }
+        participant.alive = false;
+        participant.socket.ping();
+      }
+    }
+  }, HEARTBEAT_INTERVAL);
+  heartbeat.unref();
+
+  const unsubscribeSessions = DiagramEventService.subscribeSessionsEnded(endSessions);
+
+  wss.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribeSessions();
+  });
+
+  return wss;
+}
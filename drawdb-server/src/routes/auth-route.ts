@@ -1,9 +1,14 @@
 import { Router } from 'express';
+import { body, param } from 'express-validator';
 import AuthController from '../controllers/auth-controller';
 import { authenticate } from '../middleware/auth';
 import {
   validateRegistration,
   validateLogin,
+  validateEmailRequest,
+  validateEmailToken,
+  validateProfile,
+  validateResetPassword,
   checkValidation,
 } from '../middleware/validation';
 
@@ -19,13 +24,66 @@ router.post(
 
 router.post('/login', validateLogin, checkValidation, AuthController.login);
 
+router.post(
+  '/refresh',
+  body('refreshToken').isString().notEmpty().withMessage('Refresh token is required'),
+  checkValidation,
+  AuthController.refresh,
+);
+
+// Password reset by emailed link
+router.post(
+  '/forgot-password',
+  validateEmailRequest,
+  checkValidation,
+  AuthController.forgotPassword,
+);
+
+router.post(
+  '/reset-password',
+  validateResetPassword,
+  checkValidation,
+  AuthController.resetPassword,
+);
+
+// Email verification, and confirmation of a changed address, by emailed link
+router.post('/verify-email', validateEmailToken, checkValidation, AuthController.verifyEmail);
+
+router.post(
+  '/resend-verification',
+  validateEmailRequest,
+  checkValidation,
+  AuthController.resendVerification,
+);
+
+router.post('/confirm-email', validateEmailToken, checkValidation, AuthController.confirmEmail);
+
 // Protected routes
 router.get('/me', authenticate, AuthController.getCurrentUser);
 
-router.put('/profile', authenticate, AuthController.updateProfile);
+router.put(
+  '/profile',
+  authenticate,
+  validateProfile,
+  checkValidation,
+  AuthController.updateProfile,
+);
 
 router.put('/password', authenticate, AuthController.changePassword);
 
+// Sessions: one per signed-in device
+router.post('/logout', authenticate, AuthController.logout);
+
+router.get('/sessions', authenticate, AuthController.getSessions);
+
+router.delete(
+  '/sessions/:id',
+  authenticate,
+  param('id').isUUID().withMessage('Invalid session ID'),
+  checkValidation,
+  AuthController.revokeSession,
+);
+
 export const authRouter = router;
 export default authRouter;
 
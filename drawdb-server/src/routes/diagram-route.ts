@@ -1,16 +1,92 @@
 import { Router } from 'express';
 import { DiagramController } from '../controllers/diagram-controller';
-import { authenticate } from '../middleware/auth';
-import { body, param } from 'express-validator';
-import { validate } from '../middleware/validation';
+import { RevisionController } from '../controllers/revision-controller';
+import { PresenceController } from '../controllers/presence-controller';
+import { EventStreamController } from '../controllers/event-stream-controller';
+import { TrashController } from '../controllers/trash-controller';
+import { ExportController } from '../controllers/export-controller';
+import { ImageLinkController } from '../controllers/image-link-controller';
+import { ImportController } from '../controllers/import-controller';
+import { DriftController } from '../controllers/drift-controller';
+import { LintController } from '../controllers/lint-controller';
+import { TemplateController } from '../controllers/template-controller';
+import { acceptQueryToken, authenticate } from '../middleware/auth';
+import { body, param, query } from 'express-validator';
+import {
+  validate,
+  validateConnection,
+  validateDiagramDocument,
+  validateLintConfigBody,
+} from '../middleware/validation';
+import { acceptScriptUpload } from '../middleware/upload';
+import { LIST_SCOPES, LIST_SORT_FIELDS } from '../services/diagram-list-service';
+import { SQL_DIALECTS } from '../utils/export-sql';
 
 const router = Router();
 
+// Change feed (Server-Sent Events); registered first so the token may come from the query
+router.get(
+  '/:id/events',
+  acceptQueryToken,
+  authenticate,
+  param('id').isUUID().withMessage('Invalid diagram ID'),
+  validate,
+  EventStreamController.stream,
+);
+
+// Images for image links; the link's key takes the place of a session, so <img> tags work
+router.get(
+  '/:id/image.:format(svg|png)',
+  param('id').isUUID().withMessage('Invalid diagram ID'),
+  query('key').isString().withMessage('key is required').notEmpty().withMessage('key is required'),
+  query('scale')
+    .optional()
+    .isFloat({ min: 0.1, max: 4 })
+    .withMessage('scale must be between 0.1 and 4')
+    .toFloat(),
+  validate,
+  ExportController.linkedImage,
+);
+
 // All routes require authentication
 router.use(authenticate);
 
 // Diagram CRUD endpoints
-router.get('/', DiagramController.getAll);
+router.get(
+  '/',
+  query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('limit must be 1-100'),
+  query('cursor').optional().isString(),
+  query('sort').optional().isIn(LIST_SORT_FIELDS).withMessage('Invalid sort field'),
+  query('order').optional().isIn(['asc', 'desc']).withMessage('order must be asc or desc'),
+  query('scope').optional().isIn(LIST_SCOPES).withMessage('scope must be all, owned or shared'),
+  query('database').optional().isString().isLength({ max: 50 }),
+  query('ownerId').optional().isUUID().withMessage('Invalid owner ID'),
+  query('name').optional().isString().isLength({ max: 255 }),
+  query('folderId')
+    .optional()
+    .custom((value) => value === 'root' || /^[0-9a-f-]{36}$/i.test(value))
+    .withMessage('folderId must be a folder ID or "root"'),
+  query('loadedFromGistId').optional().isString().isLength({ max: 255 }),
+  validate,
+  DiagramController.getAll,
+);
+
+// Trash endpoints (before '/:id' so "trash" is not read as an id)
+router.get('/trash', TrashController.list);
+
+router.post(
+  '/:id/restore',
+  param('id').isUUID().withMessage('Invalid diagram ID'),
+  validate,
+  TrashController.restore,
+);
+
+router.delete(
+  '/:id/permanent',
+  param('id').isUUID().withMessage('Invalid diagram ID'),
+  validate,
+  TrashController.deletePermanently,
+);
 
 router.get(
   '/:id',
@@ -22,25 +98,83 @@ router.get(
 router.post(
   '/',
   body('name').optional().isString().trim().isLength({ min: 1, max: 255 }),
+  body('folderId').optional({ values: 'null' }).isUUID().withMessage('Invalid folder ID'),
   body('database').optional().isString().trim(),
-  body('tables').optional().isArray(),
-  body('references').optional().isArray(),
-  body('notes').optional().isArray(),
-  body('areas').optional().isArray(),
-  body('todos').optional().isArray(),
   validate,
+  validateDiagramDocument,
   DiagramController.create,
 );
 
+// Create a diagram from a DDL script, sent as JSON or as a multipart upload
+router.post(
+  '/import/sql',
+  acceptScriptUpload,
+  body('dialect')
+    .isIn(Object.keys(SQL_DIALECTS))
+    .withMessage(`dialect must be one of ${Object.keys(SQL_DIALECTS).join(', ')}`),
+  body('sql').optional().isString(),
+  body('name').optional().isString().trim().isLength({ min: 1, max: 255 }),
+  body('folderId').optional({ values: 'null' }).isUUID().withMessage('Invalid folder ID'),
+  body('generic').optional().isBoolean().toBoolean(),
+  validate,
+  ImportController.sql,
+);
+
+// Create a diagram from DBML, sent as JSON or as a multipart upload
+router.post(
+  '/import/dbml',
+  acceptScriptUpload,
+  body('dialect')
+    .optional()
+    .isIn(Object.keys(SQL_DIALECTS))
+    .withMessage(`dialect must be one of ${Object.keys(SQL_DIALECTS).join(', ')}`),
+  body('dbml').optional().isString(),
+  body('name').optional().isString().trim().isLength({ min: 1, max: 255 }),
+  body('folderId').optional({ values: 'null' }).isUUID().withMessage('Invalid folder ID'),
+  validate,
+  ImportController.dbml,
+);
+
+// Create a diagram from the schema of a live database
+router.post(
+  '/introspect',
+  validateConnection,
+  body('name').optional().isString().trim().isLength({ min: 1, max: 255 }),
+  body('folderId').optional({ values: 'null' }).isUUID().withMessage('Invalid folder ID'),
+  body('generic').optional().isBoolean().toBoolean(),
+  validate,
+  ImportController.introspect,
+);
+
 router.put(
   '/:id',
   param('id').isUUID().withMessage('Invalid diagram ID'),
   body('name').optional().isString().trim().isLength({ min: 1, max: 255 }),
   body('expectedVersion').optional().isInt(),
+  body('message').optional().isString().isLength({ max: 1000 }),
   validate,
+  validateDiagramDocument,
   DiagramController.update,
 );
 
+router.patch(
+  '/:id',
+  param('id').isUUID().withMessage('Invalid diagram ID'),
+  body('operations').isArray({ min: 1 }).withMessage('Operations must be a non-empty array'),
+  body('operations.*.op')
+    .isIn(['add', 'remove', 'replace', 'move', 'copy', 'test'])
+    .withMessage('Invalid patch operation'),
+  body('operations.*.path').isString().withMessage('Operation path must be a JSON pointer'),
+  body('operations.*.from')
+    .optional()
+    .isString()
+    .withMessage('Operation from must be a JSON pointer'),
+  body('expectedVersion').optional().isInt(),
+  body('message').optional().isString().isLength({ max: 1000 }),
+  validate,
+  DiagramController.patch,
+);
+
 router.delete(
   '/:id',
   param('id').isUUID().withMessage('Invalid diagram ID'),
@@ -51,10 +185,19 @@ router.delete(
 router.post(
   '/:id/duplicate',
   param('id').isUUID().withMessage('Invalid diagram ID'),
+  body('folderId').optional({ values: 'null' }).isUUID().withMessage('Invalid folder ID'),
   validate,
   DiagramController.duplicate,
 );
 
+router.put(
+  '/:id/folder',
+  param('id').isUUID().withMessage('Invalid diagram ID'),
+  body('folderId').optional({ values: 'null' }).isUUID().withMessage('Invalid folder ID'),
+  validate,
+  DiagramController.moveToFolder,
+);
+
 // Version control endpoints
 router.get(
   '/:id/version',
@@ -71,6 +214,218 @@ router.post(
   DiagramController.sync,
 );
 
+// Revision history endpoints
+router.get(
+  '/:id/revisions',
+  param('id').isUUID().withMessage('Invalid diagram ID'),
+  validate,
+  RevisionController.list,
+);
+
+router.get(
+  '/:id/revisions/:version',
+  param('id').isUUID().withMessage('Invalid diagram ID'),
+  param('version').isInt({ min: 1 }).withMessage('Invalid version'),
+  validate,
+  RevisionController.getByVersion,
+);
+
+router.post(
+  '/:id/revisions/:version/restore',
+  param('id').isUUID().withMessage('Invalid diagram ID'),
+  param('version').isInt({ min: 1 }).withMessage('Invalid version'),
+  body('message').optional().isString().isLength({ max: 1000 }),
+  validate,
+  RevisionController.restore,
+);
+
+router.get(
+  '/:id/diff',
+  param('id').isUUID().withMessage('Invalid diagram ID'),
+  query('from').isInt({ min: 1 }).withMessage('from must be a version number'),
+  query('to').optional().isInt({ min: 1 }).withMessage('to must be a version number'),
+  validate,
+  RevisionController.diff,
+);
+
+router.get(
+  '/:id/migration',
+  param('id').isUUID().withMessage('Invalid diagram ID'),
+  query('from').isInt({ min: 1 }).withMessage('from must be a version number'),
+  query('to').optional().isInt({ min: 1 }).withMessage('to must be a version number'),
+  query('dialect')
+    .optional()
+    .isIn(Object.keys(SQL_DIALECTS))
+    .withMessage(`dialect must be one of ${Object.keys(SQL_DIALECTS).join(', ')}`),
+  validate,
+  RevisionController.migration,
+);
+
+// Schema drift endpoints
+router.post(
+  '/:id/drift',
+  param('id').isUUID().withMessage('Invalid diagram ID'),
+  validateConnection,
+  body('store').optional().isBoolean().toBoolean(),
+  validate,
+  DriftController.check,
+);
+
+router.get(
+  '/:id/drift',
+  param('id').isUUID().withMessage('Invalid diagram ID'),
+  validate,
+  DriftController.list,
+);
+
+router.get(
+  '/:id/drift/:reportId',
+  param('id').isUUID().withMessage('Invalid diagram ID'),
+  param('reportId').isUUID().withMessage('Invalid report ID'),
+  validate,
+  DriftController.getById,
+);
+
+// Design lint endpoints
+router.get(
+  '/:id/lint',
+  param('id').isUUID().withMessage('Invalid diagram ID'),
+  validate,
+  LintController.lint,
+);
+
+router.get(
+  '/:id/lint/config',
+  param('id').isUUID().withMessage('Invalid diagram ID'),
+  validate,
+  LintController.getConfig,
+);
+
+router.put(
+  '/:id/lint/config',
+  param('id').isUUID().withMessage('Invalid diagram ID'),
+  validate,
+  validateLintConfigBody,
+  LintController.updateConfig,
+);
+
+// Copy of the diagram as a custom template
+router.post(
+  '/:id/save-as-template',
+  param('id').isUUID().withMessage('Invalid diagram ID'),
+  body('title').optional().isString().trim().isLength({ min: 1, max: 255 }),
+  body('description').optional().isString().isLength({ max: 1000 }),
+  body('isPublic').optional().isBoolean().withMessage('isPublic must be a boolean'),
+  validate,
+  TemplateController.saveDiagram,
+);
+
+// Export endpoints
+router.get(
+  '/:id/export/sql',
+  param('id').isUUID().withMessage('Invalid diagram ID'),
+  query('dialect')
+    .optional()
+    .isIn(Object.keys(SQL_DIALECTS))
+    .withMessage(`dialect must be one of ${Object.keys(SQL_DIALECTS).join(', ')}`),
+  validate,
+  ExportController.sql,
+);
+
+router.get(
+  '/:id/export/dbml',
+  param('id').isUUID().withMessage('Invalid diagram ID'),
+  validate,
+  ExportController.dbml,
+);
+
+router.get(
+  '/:id/export/docs',
+  param('id').isUUID().withMessage('Invalid diagram ID'),
+  query('format')
+    .optional()
+    .isIn(['markdown', 'html'])
+    .withMessage('format must be markdown or html'),
+  validate,
+  ExportController.docs,
+);
+
+router.get(
+  '/:id/render.:format(svg|png)',
+  param('id').isUUID().withMessage('Invalid diagram ID'),
+  query('scale')
+    .optional()
+    .isFloat({ min: 0.1, max: 4 })
+    .withMessage('scale must be between 0.1 and 4')
+    .toFloat(),
+  validate,
+  ExportController.image,
+);
+
+router.get(
+  '/:id/thumbnail.png',
+  param('id').isUUID().withMessage('Invalid diagram ID'),
+  validate,
+  ExportController.thumbnail,
+);
+
+// Image link endpoints: read-only keys for embedding the diagram's image elsewhere
+router.get(
+  '/:id/image-links',
+  param('id').isUUID().withMessage('Invalid diagram ID'),
+  validate,
+  ImageLinkController.list,
+);
+
+router.post(
+  '/:id/image-links',
+  param('id').isUUID().withMessage('Invalid diagram ID'),
+  body('label').optional({ values: 'null' }).isString().trim().isLength({ max: 255 }),
+  validate,
+  ImageLinkController.create,
+);
+
+router.delete(
+  '/:id/image-links/:linkId',
+  param('id').isUUID().withMessage('Invalid diagram ID'),
+  param('linkId').isUUID().withMessage('Invalid image link ID'),
+  validate,
+  ImageLinkController.revoke,
+);
+
+// Presence endpoints
+router.get(
+  '/:id/presence',
+  param('id').isUUID().withMessage('Invalid diagram ID'),
+  validate,
+  PresenceController.list,
+);
+
+router.put(
+  '/:id/presence',
+  param('id').isUUID().withMessage('Invalid diagram ID'),
+  body('selection').optional({ values: 'null' }).isObject(),
+  body('viewport').optional({ values: 'null' }).isObject(),
+  body('viewport.pan.x')
+    .if(body('viewport').exists({ values: 'null' }))
+    .isNumeric(),
+  body('viewport.pan.y')
+    .if(body('viewport').exists({ values: 'null' }))
+    .isNumeric(),
+  body('viewport.zoom')
+    .if(body('viewport').exists({ values: 'null' }))
+    .isFloat({ gt: 0 }),
+  validate,
+  PresenceController.heartbeat,
+);
+
+router.delete(
+  '/:id/presence',
+  param('id').isUUID().withMessage('Invalid diagram ID'),
+  validate,
+  PresenceController.leave,
+);
+
 // Collaboration endpoints
 router.post(
   '/:id/share',
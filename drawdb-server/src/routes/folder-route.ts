@@ -0,0 +1,100 @@
+import { Router } from 'express';
+import { FolderController } from '../controllers/folder-controller';
+import { LintController } from '../controllers/lint-controller';
+import { authenticate } from '../middleware/auth';
+import { body, param } from 'express-validator';
+import { validate, validateLintConfigBody } from '../middleware/validation';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Folder CRUD endpoints
+router.get('/', FolderController.getAll);
+
+router.post(
+  '/',
+  body('name').isString().trim().isLength({ min: 1, max: 255 }).withMessage('Invalid folder name'),
+  body('parentId').optional({ values: 'null' }).isUUID().withMessage('Invalid parent folder ID'),
+  validate,
+  FolderController.create,
+);
+
+router.put(
+  '/:id',
+  param('id').isUUID().withMessage('Invalid folder ID'),
+  body('name')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 255 })
+    .withMessage('Invalid folder name'),
+  body('parentId').optional({ values: 'null' }).isUUID().withMessage('Invalid parent folder ID'),
+  validate,
+  FolderController.update,
+);
+
+router.delete(
+  '/:id',
+  param('id').isUUID().withMessage('Invalid folder ID'),
+  validate,
+  FolderController.delete,
+);
+
+// Sharing endpoints
+router.post(
+  '/:id/share',
+  param('id').isUUID().withMessage('Invalid folder ID'),
+  body('userId').isUUID().withMessage('Invalid user ID'),
+  body('permissionLevel')
+    .isIn(['viewer', 'editor', 'owner'])
+    .withMessage('Invalid permission level'),
+  validate,
+  FolderController.shareFolder,
+);
+
+router.get(
+  '/:id/shares',
+  param('id').isUUID().withMessage('Invalid folder ID'),
+  validate,
+  FolderController.getShares,
+);
+
+router.put(
+  '/:id/shares/:userId',
+  param('id').isUUID().withMessage('Invalid folder ID'),
+  param('userId').isUUID().withMessage('Invalid user ID'),
+  body('permissionLevel')
+    .isIn(['viewer', 'editor', 'owner'])
+    .withMessage('Invalid permission level'),
+  validate,
+  FolderController.updateShare,
+);
+
+router.delete(
+  '/:id/shares/:userId',
+  param('id').isUUID().withMessage('Invalid folder ID'),
+  param('userId').isUUID().withMessage('Invalid user ID'),
+  validate,
+  FolderController.revokeShare,
+);
+
+// Design lint settings for every diagram in the folder and its subfolders
+router.get(
+  '/:id/lint/config',
+  param('id').isUUID().withMessage('Invalid folder ID'),
+  validate,
+  LintController.getFolderConfig,
+);
+
+router.put(
+  '/:id/lint/config',
+  param('id').isUUID().withMessage('Invalid folder ID'),
+  validate,
+  validateLintConfigBody,
+  LintController.updateFolderConfig,
+);
+
+export const folderRouter = router;
+export default folderRouter;
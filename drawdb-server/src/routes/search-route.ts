@@ -0,0 +1,33 @@
+import { Router } from 'express';
+import { SearchController } from '../controllers/search-controller';
+import { authenticate } from '../middleware/auth';
+import { query } from 'express-validator';
+import { validate } from '../middleware/validation';
+import { SearchKind } from '../interfaces/search-result';
+import { SEARCH_KINDS } from '../services/search-service';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+router.get(
+  '/',
+  query('q')
+    .isString()
+    .trim()
+    .isLength({ min: 2, max: 100 })
+    .withMessage('Search term must be between 2 and 100 characters'),
+  query('kind')
+    .optional()
+    .custom((value: string) =>
+      value.split(',').every((kind) => SEARCH_KINDS.includes(kind as SearchKind)),
+    )
+    .withMessage(`Kind must be a comma-separated list of: ${SEARCH_KINDS.join(', ')}`),
+  query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('limit must be 1-100'),
+  validate,
+  SearchController.search,
+);
+
+export const searchRouter = router;
+export default searchRouter;
@@ -0,0 +1,81 @@
+import { Router } from 'express';
+import { TemplateController } from '../controllers/template-controller';
+import { authenticate } from '../middleware/auth';
+import { body, param, query } from 'express-validator';
+import { validate, validateDiagramDocument } from '../middleware/validation';
+import { TEMPLATE_SCOPES } from '../services/template-service';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Template CRUD endpoints
+router.get(
+  '/',
+  query('scope')
+    .optional()
+    .isIn(TEMPLATE_SCOPES)
+    .withMessage('scope must be all, owned, public or system'),
+  validate,
+  TemplateController.getAll,
+);
+
+router.get(
+  '/:id',
+  param('id').isUUID().withMessage('Invalid template ID'),
+  validate,
+  TemplateController.getById,
+);
+
+router.post(
+  '/',
+  body('title')
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 255 })
+    .withMessage('Invalid template title'),
+  body('description').optional().isString().isLength({ max: 1000 }),
+  body('isPublic').optional().isBoolean().withMessage('isPublic must be a boolean'),
+  body('database').optional().isString().trim().isLength({ min: 1, max: 50 }),
+  validate,
+  validateDiagramDocument,
+  TemplateController.create,
+);
+
+router.put(
+  '/:id',
+  param('id').isUUID().withMessage('Invalid template ID'),
+  body('title')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 255 })
+    .withMessage('Invalid template title'),
+  body('description').optional().isString().isLength({ max: 1000 }),
+  body('isPublic').optional().isBoolean().withMessage('isPublic must be a boolean'),
+  body('database').optional().isString().trim().isLength({ min: 1, max: 50 }),
+  validate,
+  validateDiagramDocument,
+  TemplateController.update,
+);
+
+router.delete(
+  '/:id',
+  param('id').isUUID().withMessage('Invalid template ID'),
+  validate,
+  TemplateController.delete,
+);
+
+// New diagram from a template
+router.post(
+  '/:id/instantiate',
+  param('id').isUUID().withMessage('Invalid template ID'),
+  body('name').optional().isString().trim().isLength({ min: 1, max: 255 }),
+  body('folderId').optional({ values: 'null' }).isUUID().withMessage('Invalid folder ID'),
+  validate,
+  TemplateController.instantiate,
+);
+
+export const templateRouter = router;
+export default templateRouter;
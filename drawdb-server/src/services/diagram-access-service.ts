@@ -0,0 +1,33 @@
+import { Transaction } from 'sequelize';
+import { Diagram, DiagramShare } from '../models';
+import { PermissionLevel } from '../models/DiagramShare';
+import { highestPermission } from '../utils/permissions';
+import { FolderService } from './folder-service';
+
+export const DiagramAccessService = {
+  // Resolve the caller's permission on a diagram: owner, the strongest of its own share and
+  // shares on its folders, or null for no access
+  getPermission: async (
+    diagram: Diagram,
+    userId: string,
+    transaction?: Transaction,
+  ): Promise<PermissionLevel | null> => {
+    if (diagram.userId === userId) {
+      return PermissionLevel.OWNER;
+    }
+
+    const share = await DiagramShare.findOne({
+      where: { diagramId: diagram.id, sharedWithUserId: userId },
+      attributes: ['permissionLevel'],
+      transaction,
+    });
+    const folderPermission = diagram.folderId
+      ? await FolderService.inheritedPermission(diagram.folderId, userId, transaction)
+      : null;
+
+    return highestPermission(share?.permissionLevel, folderPermission);
+  },
+
+  canEdit: (permission: PermissionLevel | null): boolean =>
+    permission === PermissionLevel.EDITOR || permission === PermissionLevel.OWNER,
+};
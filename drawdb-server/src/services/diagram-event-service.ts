@@ -0,0 +1,175 @@
+import { randomUUID } from 'crypto';
+import { EventEmitter } from 'events';
+import { Client, Notification } from 'pg';
+import { config } from '../config';
+import { sequelize } from '../config/database';
+import { IDiagramEvent } from '../interfaces/diagram-event';
+
+// Events are emitted in-process and, once listening, shared with other server instances
+// through Postgres LISTEN/NOTIFY
+const CHANNEL = 'diagram_events';
+// NOTIFY payloads must stay below 8000 bytes
+const MAX_PAYLOAD_BYTES = 7900;
+const RECONNECT_DELAY = 5000;
+// Emitter key for ended sessions; diagram events are keyed by diagram id
+const SESSIONS_ENDED = 'sessions_ended';
+// Session ids per notification, well within the payload limit
+const SESSIONS_PER_NOTIFICATION = 100;
+
+const instanceId = randomUUID();
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0);
+
+let listener: Client | null = null;
+
+function serialize(event: IDiagramEvent): string | null {
+  let payload = JSON.stringify({ instanceId, event });
+
+  // Large live operations go out as plain version changes; remote clients reload instead
+  if (Buffer.byteLength(payload) > MAX_PAYLOAD_BYTES && event.type === 'version') {
+    payload = JSON.stringify({ instanceId, event: { ...event, operation: undefined } });
+  }
+
+  return Buffer.byteLength(payload) > MAX_PAYLOAD_BYTES ? null : payload;
+}
+
+function notify(event: IDiagramEvent) {
+  const payload = serialize(event);
+  if (!payload) {
+    console.warn(`Diagram event for ${event.diagramId} is too large to share between instances`);
+    return;
+  }
+
+  sequelize
+    .query('SELECT pg_notify(:channel, :payload)', { replacements: { channel: CHANNEL, payload } })
+    .catch((error) => console.error('Diagram event notify error:', error));
+}
+
+function notifySessionsEnded(sessionIds: string[]) {
+  for (let start = 0; start < sessionIds.length; start += SESSIONS_PER_NOTIFICATION) {
+    const payload = JSON.stringify({
+      instanceId,
+      endedSessions: sessionIds.slice(start, start + SESSIONS_PER_NOTIFICATION),
+    });
+
+    sequelize
+      .query('SELECT pg_notify(:channel, :payload)', {
+        replacements: { channel: CHANNEL, payload },
+      })
+      .catch((error) => console.error('Diagram event notify error:', error));
+  }
+}
+
+function receive(notification: Notification) {
+  if (notification.channel !== CHANNEL || !notification.payload) return;
+
+  try {
+    const message = JSON.parse(notification.payload) as {
+      instanceId: string;
+      event?: IDiagramEvent;
+      endedSessions?: string[];
+    };
+    if (message.instanceId === instanceId) return;
+
+    if (message.event) {
+      emitter.emit(message.event.diagramId, message.event);
+    } else if (message.endedSessions) {
+      emitter.emit(SESSIONS_ENDED, message.endedSessions);
+    }
+  } catch (error) {
+    console.error('Invalid diagram event notification:', error);
+  }
+}
+
+export const DiagramEventService = {
+  publish: (event: IDiagramEvent) => {
+    emitter.emit(event.diagramId, event);
+
+    if (listener) {
+      notify(event);
+    }
+  },
+
+  // Returns an unsubscribe function
+  subscribe: (diagramId: string, listener: (event: IDiagramEvent) => void) => {
+    emitter.on(diagramId, listener);
+    return () => {
+      emitter.off(diagramId, listener);
+    };
+  },
+
+  // Live connections opened with these sessions should close; they were logged out or revoked
+  publishSessionsEnded: (sessionIds: string[]) => {
+    if (sessionIds.length === 0) return;
+
+    emitter.emit(SESSIONS_ENDED, sessionIds);
+
+    if (listener) {
+      notifySessionsEnded(sessionIds);
+    }
+  },
+
+  // Returns an unsubscribe function
+  subscribeSessionsEnded: (listener: (sessionIds: string[]) => void) => {
+    emitter.on(SESSIONS_ENDED, listener);
+    return () => {
+      emitter.off(SESSIONS_ENDED, listener);
+    };
+  },
+
+  // Hold a dedicated connection for LISTEN, reconnecting when it drops.
+  // Returns a function that stops listening.
+  listen: async (): Promise<() => Promise<void>> => {
+    let stopped = false;
+    let retry: NodeJS.Timeout | null = null;
+
+    const scheduleReconnect = () => {
+      listener = null;
+      if (!stopped && !retry) {
+        retry = setTimeout(() => {
+          retry = null;
+          connect();
+        }, RECONNECT_DELAY);
+        retry.unref();
+      }
+    };
+
+    const connect = async () => {
+      const client = new Client({
+        host: config.database.host,
+        port: config.database.port,
+        database: config.database.name,
+        user: config.database.user,
+        password: config.database.password,
+      });
+
+      client.on('notification', receive);
+      client.on('error', (error) => {
+        console.error('Diagram event listener error:', error);
+        client.end().catch(() => undefined);
+        scheduleReconnect();
+      });
+
+      try {
+        await client.connect();
+        await client.query(`LISTEN ${CHANNEL}`);
+        listener = client;
+      } catch (error) {
+        console.error('Failed to listen for diagram events:', error);
+        client.end().catch(() => undefined);
+        scheduleReconnect();
+      }
+    };
+
+    await connect();
+
+    return async () => {
+      stopped = true;
+      if (retry) clearTimeout(retry);
+
+      const client = listener;
+      listener = null;
+      await client?.end();
+    };
+  },
+};
@@ -0,0 +1,202 @@
+import { Op, WhereOptions } from 'sequelize';
+import { sequelize } from '../config/database';
+import { Diagram, DiagramShare, User } from '../models';
+import { PermissionLevel } from '../models/DiagramShare';
+import { decodeCursor, encodeCursor } from '../utils/cursor';
+import { HttpError } from '../utils/http-error';
+import { highestPermission } from '../utils/permissions';
+import { escapeLike } from '../utils/sql';
+import { FolderService } from './folder-service';
+import { RenderService } from './render-service';
+
+export const LIST_SORT_FIELDS = ['name', 'lastModified', 'createdAt'] as const;
+export const LIST_SCOPES = ['all', 'owned', 'shared'] as const;
+
+type SortField = (typeof LIST_SORT_FIELDS)[number];
+
+export interface ListOptions {
+  limit: number;
+  cursor?: string;
+  sort: SortField;
+  order: 'asc' | 'desc';
+  scope: (typeof LIST_SCOPES)[number];
+  database?: string;
+  ownerId?: string;
+  name?: string;
+  folderId?: string | null;
+  loadedFromGistId?: string;
+}
+
+// Everything but the document itself; the JSONB collections are reduced to counts
+const SUMMARY_ATTRIBUTES = [
+  'id',
+  'userId',
+  'folderId',
+  'name',
+  'database',
+  'gistId',
+  'loadedFromGistId',
+  'lastModified',
+  'lastModifiedBy',
+  'version',
+  'isShared',
+  'createdAt',
+  'updatedAt',
+];
+
+const COUNT_ATTRIBUTES: Array<[string, string]> = [
+  ['tables', 'tableCount'],
+  ['references', 'relationshipCount'],
+  ['notes', 'noteCount'],
+];
+
+// Approximate size in bytes of the serialized document
+const DOCUMENT_SIZE =
+  'octet_length(concat("Diagram"."tables", "Diagram"."references", "Diagram"."notes", ' +
+  '"Diagram"."areas", "Diagram"."todos", "Diagram"."enums", "Diagram"."types"))';
+
+function accessWhere(userId: string, scope: ListOptions['scope']): WhereOptions {
+  const sharedWithUser = {
+    [Op.or]: [
+      {
+        id: {
+          [Op.in]: sequelize.literal(
+            `(SELECT diagram_id FROM diagram_shares WHERE shared_with_user_id = ${sequelize.escape(userId)})`,
+          ),
+        },
+      },
+      { folderId: { [Op.in]: sequelize.literal(FolderService.sharedFolderIdsQuery(userId)) } },
+    ],
+  };
+
+  if (scope === 'owned') return { userId };
+  if (scope === 'shared') return { userId: { [Op.ne]: userId }, ...sharedWithUser };
+  return { [Op.or]: [{ userId }, sharedWithUser] };
+}
+
+// Rows strictly after the cursor in (sort, id) order
+function cursorWhere(options: ListOptions): WhereOptions | null {
+  if (!options.cursor) return null;
+
+  const cursor = decodeCursor(options.cursor);
+  if (!cursor || cursor.sort !== options.sort || cursor.order !== options.order) {
+    throw new HttpError(400, {
+      error: 'Invalid cursor',
+      message: 'The cursor does not belong to this sort order',
+    });
+  }
+
+  const comparison = options.order === 'asc' ? Op.gt : Op.lt;
+  const value = options.sort === 'name' ? cursor.value : new Date(cursor.value);
+
+  return {
+    [Op.or]: [
+      { [options.sort]: { [comparison]: value } },
+      { [options.sort]: value, id: { [comparison]: cursor.id } },
+    ],
+  };
+}
+
+export const DiagramListService = {
+  // One page of the diagrams a user can see, as summaries with their permission level
+  list: async (userId: string, options: ListOptions) => {
+    const conditions: WhereOptions[] = [accessWhere(userId, options.scope)];
+
+    if (options.database) conditions.push({ database: options.database });
+    if (options.ownerId) conditions.push({ userId: options.ownerId });
+    if (options.name) conditions.push({ name: { [Op.iLike]: `${escapeLike(options.name)}%` } });
+    if (options.folderId !== undefined) conditions.push({ folderId: options.folderId });
+    if (options.loadedFromGistId) {
+      conditions.push({ loadedFromGistId: options.loadedFromGistId });
+    }
+
+    const after = cursorWhere(options);
+    if (after) conditions.push(after);
+
+    const rows = await Diagram.findAll({
+      where: { [Op.and]: conditions },
+      attributes: [
+        ...SUMMARY_ATTRIBUTES,
+        ...COUNT_ATTRIBUTES.map(
+          ([column, alias]): [ReturnType<typeof sequelize.literal>, string] => [
+            sequelize.literal(`jsonb_array_length("Diagram"."${column}")`),
+            alias,
+          ],
+        ),
+        [sequelize.literal(DOCUMENT_SIZE), 'documentSize'],
+      ],
+      include: [
+        {
+          model: User,
+          as: 'owner',
+          attributes: ['id', 'username', 'email'],
+        },
+      ],
+      order: [
+        [options.sort, options.order.toUpperCase()],
+        ['id', options.order.toUpperCase()],
+      ],
+      limit: options.limit + 1,
+    });
+
+    const page = rows.slice(0, options.limit);
+    const permissions = await DiagramListService.permissions(userId, page);
+    const thumbnails = await RenderService.thumbnails(page);
+
+    const last = page[page.length - 1];
+    const nextCursor =
+      rows.length > options.limit && last
+        ? encodeCursor({
+            sort: options.sort,
+            order: options.order,
+            value:
+              options.sort === 'name' ? last.name : (last.get(options.sort) as Date).toISOString(),
+            id: last.id,
+          })
+        : null;
+
+    return {
+      diagrams: page.map((diagram) => ({
+        ...diagram.toJSON(),
+        permissionLevel: permissions.get(diagram.id),
+        isSharedWithMe: diagram.userId !== userId,
+        thumbnail: thumbnails.get(diagram.id) ?? null,
+      })),
+      nextCursor,
+    };
+  },
+
+  // Permission levels for one page of diagrams, resolved in two queries
+  permissions: async (userId: string, diagrams: Diagram[]) => {
+    const permissions = new Map<string, PermissionLevel | null>();
+    const shared = diagrams.filter((diagram) => diagram.userId !== userId);
+
+    const shares = shared.length
+      ? await DiagramShare.findAll({
+          where: { sharedWithUserId: userId, diagramId: shared.map((diagram) => diagram.id) },
+          attributes: ['diagramId', 'permissionLevel'],
+        })
+      : [];
+    const folderPermissions = shared.some((diagram) => diagram.folderId)
+      ? await FolderService.sharedFolderPermissions(userId)
+      : new Map<string, PermissionLevel>();
+
+    for (const diagram of diagrams) {
+      if (diagram.userId === userId) {
+        permissions.set(diagram.id, PermissionLevel.OWNER);
+        continue;
+      }
+
+      const share = shares.find((s) => s.diagramId === diagram.id);
+      permissions.set(
+        diagram.id,
+        highestPermission(
+          share?.permissionLevel,
+          diagram.folderId ? folderPermissions.get(diagram.folderId) : null,
+        ),
+      );
+    }
+
+    return permissions;
+  },
+};
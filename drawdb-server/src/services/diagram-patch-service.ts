@@ -0,0 +1,245 @@
+import { Diagram } from '../models';
+import { sequelize } from '../config/database';
+import { IDiagramSnapshot } from '../interfaces/diagram-snapshot';
+import { IJsonPatchOperation } from '../interfaces/json-patch-operation';
+import { IValidationDetail } from '../interfaces/validation-detail';
+import { applyPatch, JsonPatchError, parsePointer } from '../utils/json-patch';
+import { HttpError } from '../utils/http-error';
+import { summarizeChanges } from '../utils/diagram-diff';
+import { isDeepEqual } from '../utils/deep-equal';
+import { validateDocument, validateReferences } from '../utils/diagram-schema';
+import { DiagramAccessService } from './diagram-access-service';
+import { RevisionService, SNAPSHOT_FIELDS } from './revision-service';
+import { MergeService } from './merge-service';
+import { DiagramEventService } from './diagram-event-service';
+import { LintService } from './lint-service';
+
+interface EditOptions {
+  diagramId: string;
+  userId: string;
+  expectedVersion?: number;
+  message?: string | null;
+  edit: (document: IDiagramSnapshot) => IDiagramSnapshot;
+  // Element operation and live connection the edit came from, passed on to subscribers
+  operation?: unknown;
+  origin?: string;
+}
+
+interface PatchOptions extends Omit<EditOptions, 'edit'> {
+  operations: IJsonPatchOperation[];
+}
+
+const ARRAY_FIELDS = ['tables', 'references', 'notes', 'areas', 'todos'];
+const NULLABLE_ARRAY_FIELDS = ['enums', 'types'];
+
+// Operations may only target the versioned document, never ids, ownership or version columns
+function checkPaths(operations: IJsonPatchOperation[]) {
+  const details: IValidationDetail[] = [];
+
+  operations.forEach((operation, index) => {
+    const pointers: Array<[string, string | undefined]> = [['path', operation.path]];
+    if (operation.op === 'move' || operation.op === 'copy') {
+      pointers.push(['from', operation.from]);
+    }
+
+    for (const [key, pointer] of pointers) {
+      let segments: string[];
+      try {
+        segments = parsePointer(pointer ?? '');
+      } catch (error) {
+        details.push({
+          field: `operations[${index}].${key}`,
+          message: error instanceof Error ? error.message : 'Invalid JSON pointer',
+        });
+        continue;
+      }
+
+      if (!(SNAPSHOT_FIELDS as readonly string[]).includes(segments[0])) {
+        details.push({
+          field: `operations[${index}].${key}`,
+          message: `Path must start with one of: ${SNAPSHOT_FIELDS.map((f) => `/${f}`).join(', ')}`,
+        });
+      }
+    }
+  });
+
+  if (details.length > 0) {
+    throw new HttpError(400, {
+      error: 'Validation error',
+      message: 'Invalid patch operations',
+      details,
+    });
+  }
+}
+
+// The edited document must still be a valid diagram. Only collections the edit changed are
+// checked against the schemas, so stored data predating validation does not block edits.
+function checkDocument(document: IDiagramSnapshot, before: IDiagramSnapshot) {
+  const details: IValidationDetail[] = [];
+  const values = document as unknown as Record<string, unknown>;
+
+  if (typeof document.name !== 'string' || document.name.trim().length === 0) {
+    details.push({ field: 'name', message: 'Diagram name must be a non-empty string' });
+  }
+  if (typeof document.database !== 'string') {
+    details.push({ field: 'database', message: 'Database type must be a string' });
+  }
+  for (const field of ARRAY_FIELDS) {
+    if (!Array.isArray(values[field])) {
+      details.push({ field, message: `${field} must be an array` });
+    }
+  }
+  for (const field of NULLABLE_ARRAY_FIELDS) {
+    if (values[field] !== null && !Array.isArray(values[field])) {
+      details.push({ field, message: `${field} must be an array or null` });
+    }
+  }
+
+  if (details.length === 0) {
+    const previous = before as unknown as Record<string, unknown>;
+    const changed = Object.fromEntries(
+      [...ARRAY_FIELDS, ...NULLABLE_ARRAY_FIELDS]
+        .filter((field) => !isDeepEqual(values[field], previous[field]))
+        .map((field) => [field, values[field]]),
+    );
+    details.push(...validateDocument(changed));
+
+    if (details.length === 0 && (changed.tables || changed.references)) {
+      details.push(...validateReferences(document.tables, document.references));
+    }
+  }
+
+  if (details.length > 0) {
+    throw new HttpError(422, {
+      error: 'Invalid patch result',
+      message: 'The patched diagram is not a valid document',
+      details,
+    });
+  }
+}
+
+export const DiagramPatchService = {
+  // Apply JSON Patch operations to the stored document inside a locked transaction
+  apply: async ({
+    operations,
+    ...options
+  }: PatchOptions): Promise<{ diagram: Diagram; merged: boolean }> => {
+    DiagramPatchService.checkPaths(operations);
+
+    return DiagramPatchService.applyEdit({
+      ...options,
+      edit: (document) => applyPatch(document, operations),
+    });
+  },
+
+  checkPaths,
+
+  // Run an edit against the version the client saw and store the result as a new version.
+  // Edits based on an older version are replayed on it and merged three-way.
+  applyEdit: async ({
+    diagramId,
+    userId,
+    expectedVersion,
+    message,
+    edit,
+    operation,
+    origin,
+  }: EditOptions): Promise<{ diagram: Diagram; merged: boolean }> => {
+    const result = await sequelize.transaction(async (transaction) => {
+      const diagram = await Diagram.findOne({
+        where: { id: diagramId },
+        lock: true,
+        transaction,
+      });
+
+      if (!diagram) {
+        throw new HttpError(404, { error: 'Diagram not found' });
+      }
+
+      const permission = await DiagramAccessService.getPermission(diagram, userId, transaction);
+      if (!DiagramAccessService.canEdit(permission)) {
+        throw new HttpError(403, { error: 'No edit permission' });
+      }
+
+      let document: IDiagramSnapshot;
+      let mergedFromVersion: number | null = null;
+      try {
+        if (expectedVersion && diagram.version !== expectedVersion) {
+          // Replay the operations on the version the client saw, then merge three-way
+          const result = await MergeService.rebase(diagram, expectedVersion, edit, transaction);
+
+          if (!result || result.conflicts.length > 0) {
+            throw new HttpError(409, {
+              error: 'Conflict detected',
+              message: result
+                ? 'Diagram was modified by another user and the changes overlap'
+                : 'Diagram was modified by another user',
+              currentVersion: {
+                version: diagram.version,
+                lastModified: diagram.lastModified,
+                lastModifiedBy: diagram.lastModifiedBy,
+              },
+              changes: await RevisionService.changesSince(diagram, expectedVersion, transaction),
+              conflicts: result ? result.conflicts : [],
+            });
+          }
+
+          document = result.merged;
+          mergedFromVersion = diagram.version;
+        } else {
+          document = edit(RevisionService.toSnapshot(diagram));
+        }
+      } catch (error) {
+        if (error instanceof JsonPatchError) {
+          throw new HttpError(422, {
+            error: 'Patch could not be applied',
+            message: error.message,
+            details: [{ field: `operations[${error.operationIndex}]`, message: error.message }],
+          });
+        }
+        throw error;
+      }
+
+      const before = RevisionService.toSnapshot(diagram);
+      checkDocument(document, before);
+      await LintService.checkSave(diagram, document, transaction);
+
+      await RevisionService.ensureRecorded(diagram, transaction);
+
+      await diagram.update(
+        {
+          ...document,
+          version: diagram.version + 1,
+          lastModifiedBy: userId,
+          lastModified: new Date(),
+        },
+        { transaction },
+      );
+
+      await RevisionService.record(
+        diagram,
+        message || (mergedFromVersion ? `Merged with version ${mergedFromVersion}` : null),
+        transaction,
+      );
+
+      return {
+        diagram,
+        merged: mergedFromVersion !== null,
+        changes: summarizeChanges(before, document),
+      };
+    });
+
+    DiagramEventService.publish({
+      type: 'version',
+      diagramId,
+      version: result.diagram.version,
+      lastModifiedBy: userId,
+      changes: result.changes,
+      merged: result.merged,
+      operation,
+      origin,
+    });
+
+    return { diagram: result.diagram, merged: result.merged };
+  },
+};
@@ -0,0 +1,128 @@
+import { QueryTypes, Transaction } from 'sequelize';
+import { sequelize } from '../config/database';
+import { Diagram, Folder } from '../models';
+import { PermissionLevel } from '../models/DiagramShare';
+import { HttpError } from '../utils/http-error';
+import { highestPermission } from '../utils/permissions';
+
+// Folders reachable through shares to :userId, with the shared permission level
+const SHARED_FOLDERS_CTE = `WITH RECURSIVE shared AS (
+  SELECT fs.folder_id AS id, fs.permission_level FROM folder_shares fs
+  WHERE fs.shared_with_user_id = :userId
+  UNION ALL
+  SELECT f.id, s.permission_level FROM folders f JOIN shared s ON f.parent_id = s.id
+)`;
+
+export const FolderService = {
+  // Permission a user inherits on a folder's contents from shares on it or any ancestor
+  inheritedPermission: async (
+    folderId: string,
+    userId: string,
+    transaction?: Transaction,
+  ): Promise<PermissionLevel | null> => {
+    const rows = await sequelize.query<{ permission_level: PermissionLevel }>(
+      `WITH RECURSIVE ancestors AS (
+         SELECT id, parent_id FROM folders WHERE id = :folderId
+         UNION ALL
+         SELECT f.id, f.parent_id FROM folders f JOIN ancestors a ON f.id = a.parent_id
+       )
+       SELECT fs.permission_level FROM folder_shares fs
+       JOIN ancestors a ON fs.folder_id = a.id
+       WHERE fs.shared_with_user_id = :userId`,
+      { replacements: { folderId, userId }, type: QueryTypes.SELECT, transaction },
+    );
+
+    return highestPermission(...rows.map((row) => row.permission_level));
+  },
+
+  // Every folder a user can reach through folder shares (shared folders and their subfolders)
+  sharedFolderPermissions: async (userId: string): Promise<Map<string, PermissionLevel>> => {
+    const rows = await sequelize.query<{ id: string; permission_level: PermissionLevel }>(
+      `${SHARED_FOLDERS_CTE} SELECT id, permission_level FROM shared`,
+      { replacements: { userId }, type: QueryTypes.SELECT },
+    );
+
+    const permissions = new Map<string, PermissionLevel>();
+    for (const row of rows) {
+      permissions.set(
+        row.id,
+        highestPermission(permissions.get(row.id), row.permission_level) as PermissionLevel,
+      );
+    }
+    return permissions;
+  },
+
+  // Subquery selecting the ids of folders shared with the user, for use inside other queries
+  sharedFolderIdsQuery: (userId: string): string =>
+    `(${SHARED_FOLDERS_CTE.replace(':userId', sequelize.escape(userId))} SELECT id FROM shared)`,
+
+  // The folder and all of its subfolders
+  subtreeIds: async (folderId: string, transaction?: Transaction): Promise<string[]> => {
+    const rows = await sequelize.query<{ id: string }>(
+      `WITH RECURSIVE tree AS (
+         SELECT id FROM folders WHERE id = :folderId
+         UNION ALL
+         SELECT f.id FROM folders f JOIN tree t ON f.parent_id = t.id
+       )
+       SELECT id FROM tree`,
+      { replacements: { folderId }, type: QueryTypes.SELECT, transaction },
+    );
+
+    return rows.map((row) => row.id);
+  },
+
+  // Diagrams directly inside any of the folders, with what share events need
+  diagramsIn: async (folderIds: string[], transaction?: Transaction): Promise<Diagram[]> => {
+    return Diagram.findAll({
+      where: { folderId: folderIds },
+      attributes: ['id', 'version'],
+      transaction,
+    });
+  },
+
+  // Diagrams anywhere under the folder, which its shares reach
+  diagramsUnder: async (folderId: string, transaction?: Transaction): Promise<Diagram[]> => {
+    return FolderService.diagramsIn(
+      await FolderService.subtreeIds(folderId, transaction),
+      transaction,
+    );
+  },
+
+  // Check that a folder can hold another folder's or diagram's contents for this owner
+  checkTarget: async (
+    folderId: string | null,
+    userId: string,
+    movingFolderId?: string,
+    transaction?: Transaction,
+  ): Promise<void> => {
+    if (!folderId) return;
+
+    const folder = await Folder.findOne({ where: { id: folderId, userId }, transaction });
+    if (!folder) {
+      throw new HttpError(404, { error: 'Target folder not found or access denied' });
+    }
+
+    if (movingFolderId) {
+      const subtree = await FolderService.subtreeIds(movingFolderId, transaction);
+      if (subtree.includes(folderId)) {
+        throw new HttpError(400, {
+          error: 'Invalid folder move',
+          message: 'A folder cannot be moved into itself or one of its subfolders',
+        });
+      }
+    }
+  },
+
+  // Delete a folder with its subfolders; diagrams inside move up to the folder's parent
+  remove: async (folder: Folder): Promise<void> => {
+    await sequelize.transaction(async (transaction) => {
+      const subtree = await FolderService.subtreeIds(folder.id, transaction);
+
+      await Diagram.update(
+        { folderId: folder.parentId },
+        { where: { folderId: subtree }, paranoid: false, transaction },
+      );
+      await folder.destroy({ transaction });
+    });
+  },
+};
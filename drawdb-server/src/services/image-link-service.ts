@@ -0,0 +1,27 @@
+import { Diagram, DiagramImageLink } from '../models';
+import { generateToken, hashToken } from '../utils/token';
+
+export const ImageLinkService = {
+  // A new image link with its key; only the hash is stored, so the key cannot be shown again
+  create: async (diagramId: string, userId: string, label: string | null) => {
+    const key = generateToken();
+    const link = await DiagramImageLink.create({
+      diagramId,
+      keyHash: hashToken(key),
+      label,
+      createdBy: userId,
+    });
+
+    return { link, key };
+  },
+
+  // The diagram an image key renders; null for unknown or revoked keys and trashed diagrams
+  findDiagram: async (diagramId: string, key: string) => {
+    const link = await DiagramImageLink.findOne({
+      where: { diagramId, keyHash: hashToken(key) },
+      attributes: ['id'],
+    });
+
+    return link ? Diagram.findByPk(diagramId) : null;
+  },
+};
@@ -0,0 +1,230 @@
+import { lookup } from 'dns/promises';
+import { realpath } from 'fs/promises';
+import { BlockList } from 'net';
+import path from 'path';
+import { Options, QueryTypes, Sequelize } from 'sequelize';
+import { OPEN_READONLY } from 'sqlite3';
+import { config } from '../config';
+import { SqlDatabase } from '../utils/export-sql';
+import { HttpError } from '../utils/http-error';
+import { ISqlImportResult } from '../utils/import-sql';
+import { introspect, MetadataQuery } from '../utils/introspection';
+
+// Connection string schemes and the dialect of the database each names
+const SCHEMES: Record<string, SqlDatabase> = {
+  'postgres:': SqlDatabase.POSTGRES,
+  'postgresql:': SqlDatabase.POSTGRES,
+  'mysql:': SqlDatabase.MYSQL,
+  'mariadb:': SqlDatabase.MARIADB,
+  'sqlite:': SqlDatabase.SQLITE,
+};
+
+export interface IntrospectionResult extends ISqlImportResult {
+  source: SqlDatabase;
+  // Name of the database read, or of its file for SQLite
+  databaseName: string;
+}
+
+// Loopback, private, link-local and other non-public ranges, reachable only through hosts
+// listed in INTROSPECT_ALLOWED_HOSTS. IPv4-mapped IPv6 addresses are checked as IPv4.
+const INTERNAL_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3],
+] as const) {
+  INTERNAL_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 127],
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  INTERNAL_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+interface Connection {
+  source: SqlDatabase;
+  databaseName: string;
+  options: Options;
+  // Secrets to keep out of error messages
+  secrets: string[];
+}
+
+function invalidConnection(message: string): HttpError {
+  return new HttpError(400, { error: 'Invalid connection', message });
+}
+
+// TLS is requested as in libpq connection strings, or with ssl=true
+function wantsSsl(url: URL): boolean {
+  const mode = url.searchParams.get('sslmode');
+  return (
+    url.searchParams.get('ssl') === 'true' ||
+    (!!mode && !['disable', 'allow', 'prefer'].includes(mode))
+  );
+}
+
+// SQLite files are only read from the configured directory, and never written
+async function sqliteConnection(url: URL): Promise<Connection> {
+  if (!config.introspection.sqliteDir) {
+    throw invalidConnection('SQLite introspection is not enabled on this server');
+  }
+
+  const dir = await realpath(config.introspection.sqliteDir);
+  const file = decodeURIComponent(url.hostname + url.pathname);
+  let storage: string;
+  try {
+    storage = await realpath(path.resolve(dir, file));
+  } catch {
+    throw invalidConnection(`SQLite database ${file} does not exist`);
+  }
+
+  const relative = path.relative(dir, storage);
+  if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) {
+    throw invalidConnection('SQLite databases must be inside the introspection directory');
+  }
+
+  return {
+    source: SqlDatabase.SQLITE,
+    databaseName: path.basename(storage).replace(/\.\w+$/, ''),
+    options: { dialect: 'sqlite', storage, dialectOptions: { mode: OPEN_READONLY } },
+    secrets: [],
+  };
+}
+
+// The address to connect to. Hosts that are not allowlisted must resolve to public addresses
+// only, and the checked address is used so a second DNS answer cannot point elsewhere.
+async function resolveHost(host: string): Promise<string> {
+  const { allowedHosts } = config.introspection;
+  const notAllowed = invalidConnection(`Introspecting databases on ${host} is not allowed`);
+
+  if (allowedHosts.length > 0 && !allowedHosts.includes(host)) throw notAllowed;
+
+  let addresses: { address: string; family: number }[];
+  try {
+    addresses = await lookup(host, { all: true });
+  } catch {
+    throw invalidConnection(`Host ${host} could not be resolved`);
+  }
+
+  if (
+    !allowedHosts.includes(host) &&
+    addresses.some(({ address, family }) =>
+      INTERNAL_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4'),
+    )
+  ) {
+    throw notAllowed;
+  }
+
+  return addresses[0].address;
+}
+
+// Sequelize options for a server connection string. MariaDB is reached through the MySQL driver.
+async function serverConnection(url: URL, source: SqlDatabase): Promise<Connection> {
+  const { timeout } = config.introspection;
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  const databaseName = decodeURIComponent(url.pathname.replace(/^\//, ''));
+
+  if (!host) throw invalidConnection('The connection string names no host');
+  if (!databaseName) throw invalidConnection('The connection string names no database');
+
+  const address = await resolveHost(host);
+
+  const password = decodeURIComponent(url.password);
+  const ssl = wantsSsl(url);
+  const isPostgres = source === SqlDatabase.POSTGRES;
+
+  return {
+    source,
+    databaseName,
+    options: {
+      dialect: isPostgres ? 'postgres' : 'mysql',
+      host: address,
+      port: url.port ? parseInt(url.port) : undefined,
+      database: databaseName,
+      username: decodeURIComponent(url.username),
+      password,
+      dialectOptions: isPostgres
+        ? {
+            // Certificates are checked against the host name, not the resolved address
+            ssl: ssl && { servername: host },
+            connectionTimeoutMillis: timeout,
+            statement_timeout: timeout,
+            options: '-c default_transaction_read_only=on',
+          }
+        : { ssl: ssl ? {} : undefined, connectTimeout: timeout },
+    },
+    secrets: [password, url.password].filter(Boolean),
+  };
+}
+
+async function parseConnection(connection: string): Promise<Connection> {
+  let url: URL;
+  try {
+    url = new URL(connection);
+  } catch {
+    throw invalidConnection('The connection string is not a valid URL');
+  }
+
+  const source = SCHEMES[url.protocol];
+  if (!source) {
+    throw invalidConnection(
+      `Connection strings must start with one of ${Object.keys(SCHEMES).join(' ')}//`,
+    );
+  }
+
+  return source === SqlDatabase.SQLITE ? sqliteConnection(url) : serverConnection(url, source);
+}
+
+function redact(message: string, secrets: string[]): string {
+  return secrets.reduce((text, secret) => text.split(secret).join('***'), message);
+}
+
+export const IntrospectionService = {
+  // Read the schema of the live database a connection string names into diagram collections,
+  // typed for `database`: the source dialect unless given, or generic. The connection lives for
+  // this call only: it is not pooled, stored or logged, and errors never carry its credentials.
+  read: async (
+    connection: string,
+    { database, schema }: { database?: SqlDatabase; schema?: string } = {},
+  ): Promise<IntrospectionResult> => {
+    const { source, databaseName, options, secrets } = await parseConnection(connection);
+    if (database && database !== SqlDatabase.GENERIC && database !== source) {
+      throw invalidConnection(`A ${source} database cannot be read as ${database}`);
+    }
+
+    const sequelize = new Sequelize({
+      ...options,
+      logging: false,
+      pool: { max: 1, min: 0, acquire: config.introspection.timeout, idle: 1000 },
+    });
+
+    const query: MetadataQuery = (sql, replacements) =>
+      sequelize.query(sql, { replacements, type: QueryTypes.SELECT });
+
+    try {
+      await sequelize.authenticate();
+      const result = await introspect(query, source, database ?? source, schema);
+      return { ...result, source, databaseName };
+    } catch (error) {
+      throw new HttpError(422, {
+        error: 'Introspection failed',
+        message: redact(error instanceof Error ? error.message : 'The database could not be read', [
+          connection,
+          ...secrets,
+        ]),
+      });
+    } finally {
+      await sequelize.close().catch(() => undefined);
+    }
+  },
+};
@@ -0,0 +1,74 @@
+import { QueryTypes, Transaction } from 'sequelize';
+import { sequelize } from '../config/database';
+import { Diagram } from '../models';
+import { ILintConfig, ILintIssue, IResolvedLintConfig } from '../interfaces/lint';
+import { HttpError } from '../utils/http-error';
+import { lintDiagram, LintDocument, resolveLintConfig } from '../utils/lint';
+
+type LintedDiagram = Pick<Diagram, 'folderId' | 'lintConfig'>;
+
+export const LintService = {
+  // Lint settings of a folder and its ancestors, outermost first
+  folderConfigs: async (
+    folderId: string,
+    transaction?: Transaction,
+  ): Promise<Array<ILintConfig | null>> => {
+    const rows = await sequelize.query<{ lint_config: ILintConfig | null }>(
+      `WITH RECURSIVE ancestors AS (
+         SELECT id, parent_id, lint_config, 0 AS depth FROM folders WHERE id = :folderId
+         UNION ALL
+         SELECT f.id, f.parent_id, f.lint_config, a.depth + 1
+         FROM folders f JOIN ancestors a ON f.id = a.parent_id
+       )
+       SELECT lint_config FROM ancestors ORDER BY depth DESC`,
+      { replacements: { folderId }, type: QueryTypes.SELECT, transaction },
+    );
+
+    return rows.map((row) => row.lint_config);
+  },
+
+  // Settings a diagram is linted with: the defaults, then its folders' from the outermost in,
+  // then its own
+  configFor: async (
+    diagram: LintedDiagram,
+    transaction?: Transaction,
+  ): Promise<IResolvedLintConfig> => {
+    const folders = diagram.folderId
+      ? await LintService.folderConfigs(diagram.folderId, transaction)
+      : [];
+    return resolveLintConfig(...folders, diagram.lintConfig);
+  },
+
+  // Error-level issues of a document about to be saved to the diagram, when its settings refuse
+  // such saves; empty otherwise
+  blockingIssues: async (
+    diagram: LintedDiagram,
+    document: LintDocument,
+    transaction?: Transaction,
+  ): Promise<ILintIssue[]> => {
+    const config = await LintService.configFor(diagram, transaction);
+    if (!config.rejectOnError) return [];
+
+    return lintDiagram(document, config).filter((issue) => issue.severity === 'error');
+  },
+
+  // Refuses the save with the blocking issues, if there are any
+  checkSave: async (
+    diagram: LintedDiagram,
+    document: LintDocument,
+    transaction?: Transaction,
+  ): Promise<void> => {
+    const issues = await LintService.blockingIssues(diagram, document, transaction);
+
+    if (issues.length > 0) {
+      throw new HttpError(422, LintService.rejection(issues));
+    }
+  },
+
+  // Response body for a refused save
+  rejection: (issues: ILintIssue[]) => ({
+    error: 'Lint errors',
+    message: 'The diagram has error-level lint issues, which its lint settings do not allow',
+    details: issues,
+  }),
+};
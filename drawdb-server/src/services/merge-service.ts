@@ -0,0 +1,32 @@
+import { Transaction } from 'sequelize';
+import { Diagram } from '../models';
+import { IDiagramSnapshot } from '../interfaces/diagram-snapshot';
+import { IMergeResult, mergeDiagrams } from '../utils/diagram-merge';
+import { RevisionService, SNAPSHOT_FIELDS } from './revision-service';
+
+export const MergeService = {
+  // Pick the versioned document columns out of a request body
+  pickDocument: (data: Record<string, unknown>): Partial<IDiagramSnapshot> =>
+    Object.fromEntries(
+      SNAPSHOT_FIELDS.filter((field) => data[field] !== undefined).map((field) => [
+        field,
+        data[field],
+      ]),
+    ),
+
+  // Merge an edit made against `baseVersion` into the diagram's current state. Returns null
+  // when the base revision is not stored, in which case the caller falls back to a plain 409.
+  rebase: async (
+    diagram: Diagram,
+    baseVersion: number,
+    buildOurs: (base: IDiagramSnapshot) => IDiagramSnapshot,
+    transaction?: Transaction,
+  ): Promise<IMergeResult | null> => {
+    const base = await RevisionService.resolveSnapshot(diagram, baseVersion, transaction);
+    if (!base) {
+      return null;
+    }
+
+    return mergeDiagrams(base, RevisionService.toSnapshot(diagram), buildOurs(base));
+  },
+};
@@ -0,0 +1,135 @@
+import { Op, WhereOptions } from 'sequelize';
+import { config } from '../config';
+import {
+  IDiagramPresence,
+  IPresenceSelection,
+  IPresenceViewport,
+} from '../interfaces/diagram-presence';
+import { DiagramPresence } from '../models';
+import { DiagramEventService } from './diagram-event-service';
+
+interface PresenceUpdate {
+  selection?: unknown;
+  viewport?: unknown;
+}
+
+function isElementId(value: unknown): value is string | number {
+  return typeof value === 'string' || typeof value === 'number';
+}
+
+// Keep only the known selection/viewport properties of client input; live messages are not
+// passed through the route validators
+function toSelection(value: unknown): IPresenceSelection | null | undefined {
+  if (value === undefined || value === null) return value;
+  if (typeof value !== 'object') return undefined;
+
+  const { tableId, fieldId } = value as Record<string, unknown>;
+  return {
+    tableId: isElementId(tableId) ? tableId : null,
+    fieldId: isElementId(fieldId) ? fieldId : null,
+  };
+}
+
+function toViewport(value: unknown): IPresenceViewport | null | undefined {
+  if (value === undefined || value === null) return value;
+  if (typeof value !== 'object') return undefined;
+
+  const { pan, zoom } = value as { pan?: { x?: unknown; y?: unknown }; zoom?: unknown };
+  const x = Number(pan?.x);
+  const y = Number(pan?.y);
+  const scale = Number(zoom);
+  if (!Number.isFinite(x) || !Number.isFinite(y) || !Number.isFinite(scale) || scale <= 0) {
+    return undefined;
+  }
+  return { pan: { x, y }, zoom: scale };
+}
+
+function toPresence(row: DiagramPresence): IDiagramPresence {
+  return {
+    userId: row.userId,
+    username: row.username,
+    selection: row.selection,
+    viewport: row.viewport,
+    lastSeen: row.lastSeen,
+  };
+}
+
+function cutoff(): Date {
+  return new Date(Date.now() - config.presence.timeout);
+}
+
+// Drop entries whose heartbeat timed out, announcing each one this instance removes
+async function expire(where: WhereOptions = {}): Promise<void> {
+  const expired = await DiagramPresence.findAll({
+    where: { ...where, lastSeen: { [Op.lt]: cutoff() } },
+    attributes: ['diagramId', 'userId'],
+  });
+
+  for (const entry of expired) {
+    await PresenceService.remove(entry.diagramId, entry.userId);
+  }
+}
+
+// Presence lives in Postgres so every server instance sees the same users; changes reach the
+// clients of other instances as relayed diagram events
+export const PresenceService = {
+  // Record a heartbeat; selection and viewport are only replaced when given
+  update: async (
+    diagramId: string,
+    user: { id: string; username: string },
+    { selection, viewport }: PresenceUpdate = {},
+  ): Promise<IDiagramPresence> => {
+    const previous = await DiagramPresence.findOne({ where: { diagramId, userId: user.id } });
+    const nextSelection = toSelection(selection);
+    const nextViewport = toViewport(viewport);
+    const entry: IDiagramPresence = {
+      userId: user.id,
+      username: user.username,
+      selection: nextSelection !== undefined ? nextSelection : (previous?.selection ?? null),
+      viewport: nextViewport !== undefined ? nextViewport : (previous?.viewport ?? null),
+      lastSeen: new Date(),
+    };
+    await DiagramPresence.upsert({ diagramId, ...entry });
+
+    DiagramEventService.publish({ type: 'presence', diagramId, presence: entry });
+    return entry;
+  },
+
+  // Refresh the heartbeat without notifying anyone. An entry that is gone, because it expired or
+  // the user closed the diagram on another instance, is stored and announced again.
+  touch: async (diagramId: string, user: { id: string; username: string }): Promise<void> => {
+    const [touched] = await DiagramPresence.update(
+      { lastSeen: new Date() },
+      { where: { diagramId, userId: user.id } },
+    );
+    if (touched === 0) {
+      await PresenceService.update(diagramId, user);
+    }
+  },
+
+  remove: async (diagramId: string, userId: string): Promise<void> => {
+    const removed = await DiagramPresence.destroy({ where: { diagramId, userId } });
+    if (removed === 0) return;
+
+    DiagramEventService.publish({ type: 'presence_left', diagramId, userId });
+  },
+
+  list: async (diagramId: string): Promise<IDiagramPresence[]> => {
+    await expire({ diagramId });
+    const entries = await DiagramPresence.findAll({ where: { diagramId } });
+    return entries.map(toPresence);
+  },
+
+  // Periodically drop users whose heartbeat timed out; returns a function that stops the sweep
+  startExpiry: (): (() => void) => {
+    const timer = setInterval(
+      () => {
+        expire().catch((error) => console.error('Presence expiry error:', error));
+      },
+      Math.max(1000, Math.floor(config.presence.timeout / 2)),
+    );
+    timer.unref();
+
+    return () => clearInterval(timer);
+  },
+};
@@ -0,0 +1,97 @@
+import { Op } from 'sequelize';
+import { config } from '../config';
+import { sequelize } from '../config/database';
+import { Diagram, DiagramThumbnail } from '../models';
+import { ImageTooLargeError, IRenderInput, renderPng, renderSvg } from '../utils/render';
+
+// Thumbnails fit list views; the full image is one request away
+const THUMBNAIL_WIDTH = 320;
+
+// Diagrams without a thumbnail of their current version
+const STALE_THUMBNAILS =
+  '(SELECT d.id FROM diagrams d LEFT JOIN diagram_thumbnails t ON t.diagram_id = d.id ' +
+  'WHERE t.version IS DISTINCT FROM d.version)';
+
+export const RenderService = {
+  input: (diagram: Diagram): IRenderInput => ({
+    tables: diagram.tables,
+    references: diagram.references,
+    areas: diagram.areas ?? [],
+    notes: diagram.notes ?? [],
+  }),
+
+  // Thumbnail paths for a page of diagrams, from the cache only; nothing is drawn on the list
+  // request. A diagram shows its last thumbnail until the background job redraws it, and the
+  // version in the path keeps browsers from showing the older one after that.
+  thumbnails: async (diagrams: Array<Pick<Diagram, 'id'>>): Promise<Map<string, string>> => {
+    if (diagrams.length === 0) return new Map();
+
+    const cached = await DiagramThumbnail.findAll({
+      where: { diagramId: diagrams.map((diagram) => diagram.id), image: { [Op.ne]: null } },
+      attributes: ['diagramId', 'version'],
+    });
+
+    return new Map(
+      cached.map((thumbnail) => [
+        thumbnail.diagramId,
+        `/api/v1/diagrams/${thumbnail.diagramId}/thumbnail.png?version=${thumbnail.version}`,
+      ]),
+    );
+  },
+
+  // The cached thumbnail of a diagram as PNG, or null when there is none yet
+  thumbnail: async (diagramId: string): Promise<Buffer | null> => {
+    const thumbnail = await DiagramThumbnail.findByPk(diagramId);
+    return thumbnail?.image ?? null;
+  },
+
+  // Draw thumbnails for the most recently changed diagrams whose thumbnail is missing or shows an
+  // older version; returns how many were drawn. A diagram that fails to draw, or would be too
+  // large an image even at thumbnail width, is stored without an image so it is not tried again
+  // until it changes.
+  refreshThumbnails: async (limit: number): Promise<number> => {
+    const diagrams = await Diagram.findAll({
+      where: { id: { [Op.in]: sequelize.literal(STALE_THUMBNAILS) } },
+      attributes: ['id', 'version', 'tables', 'references', 'areas', 'notes'],
+      order: [['lastModified', 'DESC']],
+      limit,
+    });
+
+    for (const diagram of diagrams) {
+      let image: Buffer | null = null;
+      try {
+        image = renderPng(renderSvg(RenderService.input(diagram)), THUMBNAIL_WIDTH);
+      } catch (error) {
+        if (!(error instanceof ImageTooLargeError)) {
+          console.error(`Thumbnail of diagram ${diagram.id} failed:`, error);
+        }
+      }
+      await DiagramThumbnail.upsert({ diagramId: diagram.id, version: diagram.version, image });
+    }
+
+    return diagrams.length;
+  },
+
+  // Returns a function that stops redrawing
+  startThumbnails: (): (() => void) => {
+    let running = false;
+
+    // A batch still drawing when the next is due is left to finish
+    const refresh = () => {
+      if (running) return;
+      running = true;
+
+      RenderService.refreshThumbnails(config.thumbnails.batchSize)
+        .catch((error) => console.error('Thumbnail refresh error:', error))
+        .finally(() => {
+          running = false;
+        });
+    };
+
+    refresh();
+    const timer = setInterval(refresh, config.thumbnails.interval);
+    timer.unref();
+
+    return () => clearInterval(timer);
+  },
+};
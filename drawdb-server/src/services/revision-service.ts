@@ -0,0 +1,99 @@
+import { Transaction } from 'sequelize';
+import { Diagram, DiagramRevision } from '../models';
+import { IDiagramSnapshot } from '../interfaces/diagram-snapshot';
+import { IDiagramChangeSet } from '../interfaces/diagram-change-set';
+import { diffDiagrams } from '../utils/diagram-diff';
+
+// Columns that make up the diagram document; pan/zoom are view state and are not versioned
+export const SNAPSHOT_FIELDS = [
+  'name',
+  'database',
+  'tables',
+  'references',
+  'notes',
+  'areas',
+  'todos',
+  'enums',
+  'types',
+] as const;
+
+export const RevisionService = {
+  toSnapshot: (diagram: Diagram): IDiagramSnapshot => ({
+    name: diagram.name,
+    database: diagram.database,
+    tables: diagram.tables,
+    references: diagram.references,
+    notes: diagram.notes,
+    areas: diagram.areas,
+    todos: diagram.todos,
+    enums: diagram.enums,
+    types: diagram.types,
+  }),
+
+  // Store the diagram's current state as the revision for its current version
+  record: async (diagram: Diagram, message: string | null, transaction?: Transaction) => {
+    return DiagramRevision.create(
+      {
+        diagramId: diagram.id,
+        version: diagram.version,
+        snapshot: RevisionService.toSnapshot(diagram),
+        lastModifiedBy: diagram.lastModifiedBy,
+        message,
+      },
+      { transaction },
+    );
+  },
+
+  // Diagrams saved before revisions existed have no row for their current version yet;
+  // capture it before it gets overwritten
+  ensureRecorded: async (diagram: Diagram, transaction?: Transaction) => {
+    const [revision] = await DiagramRevision.findOrCreate({
+      where: { diagramId: diagram.id, version: diagram.version },
+      defaults: {
+        diagramId: diagram.id,
+        version: diagram.version,
+        snapshot: RevisionService.toSnapshot(diagram),
+        lastModifiedBy: diagram.lastModifiedBy,
+        message: null,
+      },
+      transaction,
+    });
+
+    return revision;
+  },
+
+  // Snapshot for any version of the diagram; the live row stands in for the current version
+  resolveSnapshot: async (
+    diagram: Diagram,
+    version: number,
+    transaction?: Transaction,
+  ): Promise<IDiagramSnapshot | null> => {
+    if (version === diagram.version) {
+      return RevisionService.toSnapshot(diagram);
+    }
+
+    const revision = await RevisionService.find(diagram.id, version, transaction);
+    return revision ? revision.snapshot : null;
+  },
+
+  // Change set from an earlier version to the diagram's current state, if that version is known
+  changesSince: async (
+    diagram: Diagram,
+    version: number,
+    transaction?: Transaction,
+  ): Promise<IDiagramChangeSet | null> => {
+    const base = await RevisionService.resolveSnapshot(diagram, version, transaction);
+    if (!base) {
+      return null;
+    }
+
+    return diffDiagrams(base, RevisionService.toSnapshot(diagram), version, diagram.version);
+  },
+
+  find: async (diagramId: string, version: number, transaction?: Transaction) => {
+    return DiagramRevision.findOne({
+      where: { diagramId, version },
+      transaction,
+    });
+  },
+};
@@ -0,0 +1,116 @@
+import { QueryTypes } from 'sequelize';
+import { sequelize } from '../config/database';
+import { ElementId } from '../interfaces/diagram-document';
+import { ISearchResult, SearchKind } from '../interfaces/search-result';
+import { escapeLike } from '../utils/sql';
+import { FolderService } from './folder-service';
+
+export const SEARCH_KINDS: SearchKind[] = ['diagram', 'table', 'field', 'enum', 'note'];
+
+export interface SearchOptions {
+  limit: number;
+  kinds?: SearchKind[];
+}
+
+// Diagrams the user owns or has through a diagram or folder share whose indexed text contains
+// the term. The WHERE expression must match idx_diagrams_search_trgm for the index to apply.
+function accessibleQuery(userId: string): string {
+  const user = sequelize.escape(userId);
+  return `SELECT d.id, d.name, d.tables, d.notes, d.enums FROM diagrams d
+    WHERE d.deleted_at IS NULL
+      AND (d.user_id = ${user}
+        OR d.id IN (SELECT diagram_id FROM diagram_shares WHERE shared_with_user_id = ${user})
+        OR d.folder_id IN ${FolderService.sharedFolderIdsQuery(userId)})
+      AND diagram_search_text(d.name, d.tables, d.notes, d.enums) ILIKE :pattern`;
+}
+
+// Every searchable element of the candidate diagrams, one row per matchable text
+const ELEMENTS_QUERY = `
+  SELECT a.id AS diagram_id, a.name AS diagram_name, 'diagram' AS kind, 'name' AS matched_on,
+    NULL::jsonb AS table_id, NULL AS table_name, NULL::jsonb AS field_id, NULL AS field_name,
+    NULL::jsonb AS element_id, a.name::text AS text
+  FROM accessible a
+  UNION ALL
+  SELECT a.id, a.name, 'table', m.matched_on, t->'id', t->>'name', NULL, NULL, NULL, m.text
+  FROM accessible a
+  CROSS JOIN jsonb_array_elements(diagram_search_array(a.tables)) t
+  CROSS JOIN LATERAL (VALUES ('name', t->>'name'), ('comment', t->>'comment')) m(matched_on, text)
+  UNION ALL
+  SELECT a.id, a.name, 'field', m.matched_on, t->'id', t->>'name', f->'id', f->>'name', NULL, m.text
+  FROM accessible a
+  CROSS JOIN jsonb_array_elements(diagram_search_array(a.tables)) t
+  CROSS JOIN jsonb_array_elements(diagram_search_array(t->'fields')) f
+  CROSS JOIN LATERAL (VALUES ('name', f->>'name'), ('comment', f->>'comment')) m(matched_on, text)
+  UNION ALL
+  SELECT a.id, a.name, 'enum', 'name', NULL, NULL, NULL, NULL, e->'id', e->>'name'
+  FROM accessible a
+  CROSS JOIN jsonb_array_elements(diagram_search_array(a.enums)) e
+  UNION ALL
+  SELECT a.id, a.name, 'enum', 'value', NULL, NULL, NULL, NULL, e->'id', v
+  FROM accessible a
+  CROSS JOIN jsonb_array_elements(diagram_search_array(a.enums)) e
+  CROSS JOIN jsonb_array_elements_text(diagram_search_array(e->'values')) v
+  UNION ALL
+  SELECT a.id, a.name, 'note', m.matched_on, NULL, NULL, NULL, NULL, n->'id', m.text
+  FROM accessible a
+  CROSS JOIN jsonb_array_elements(diagram_search_array(a.notes)) n
+  CROSS JOIN LATERAL (VALUES ('title', n->>'title'), ('content', n->>'content')) m(matched_on, text)`;
+
+interface SearchRow {
+  diagram_id: string;
+  diagram_name: string;
+  kind: SearchKind;
+  matched_on: ISearchResult['matchedOn'];
+  table_id: ElementId | null;
+  table_name: string | null;
+  field_id: ElementId | null;
+  field_name: string | null;
+  element_id: ElementId | null;
+  text: string;
+}
+
+export const SearchService = {
+  // Elements matching the term across the user's diagrams; exact matches, then prefixes first
+  search: async (userId: string, query: string, options: SearchOptions) => {
+    const term = escapeLike(query);
+    const kindFilter = options.kinds?.length ? 'AND kind IN (:kinds)' : '';
+
+    const rows = await sequelize.query<SearchRow>(
+      `WITH accessible AS (${accessibleQuery(userId)}),
+       elements AS (${ELEMENTS_QUERY})
+       SELECT * FROM elements
+       WHERE text ILIKE :pattern ${kindFilter}
+       ORDER BY lower(text) = lower(:query) DESC, text ILIKE :prefix DESC,
+         diagram_name, diagram_id, kind, text
+       LIMIT :limit`,
+      {
+        replacements: {
+          query,
+          pattern: `%${term}%`,
+          prefix: `${term}%`,
+          kinds: options.kinds ?? [],
+          limit: options.limit + 1,
+        },
+        type: QueryTypes.SELECT,
+      },
+    );
+
+    return {
+      results: rows.slice(0, options.limit).map(
+        (row): ISearchResult => ({
+          diagramId: row.diagram_id,
+          diagramName: row.diagram_name,
+          kind: row.kind,
+          matchedOn: row.matched_on,
+          tableId: row.table_id,
+          tableName: row.table_name,
+          fieldId: row.field_id,
+          fieldName: row.field_name,
+          elementId: row.element_id,
+          text: row.text,
+        }),
+      ),
+      truncated: rows.length > options.limit,
+    };
+  },
+};
@@ -0,0 +1,169 @@
+import jwt, { Secret, SignOptions } from 'jsonwebtoken';
+import { Op } from 'sequelize';
+import { config } from '../config';
+import { Session, User } from '../models';
+import { DiagramEventService } from './diagram-event-service';
+import { HttpError } from '../utils/http-error';
+import { generateToken, hashToken } from '../utils/token';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// The device a session was started or last refreshed from
+export interface SessionClient {
+  userAgent: string | null;
+  ipAddress: string | null;
+}
+
+export interface SessionTokens {
+  session: Session;
+  token: string;
+  refreshToken: string;
+}
+
+function expiresAt(): Date {
+  return new Date(Date.now() + config.session.refreshTokenDays * DAY);
+}
+
+function accessToken(session: Session): string {
+  return jwt.sign(
+    { userId: session.userId, sessionId: session.id },
+    config.jwt.secret as Secret,
+    { expiresIn: config.jwt.expiresIn } as SignOptions,
+  );
+}
+
+function invalidRefreshToken(): HttpError {
+  return new HttpError(401, {
+    error: 'Authentication failed',
+    message: 'Invalid or expired refresh token',
+  });
+}
+
+export const SessionService = {
+  // Sign a user in on a new device: a session with its first refresh token and an access token
+  start: async (user: User, client: SessionClient): Promise<SessionTokens> => {
+    const refreshToken = generateToken();
+    const session = await Session.create({
+      userId: user.id,
+      refreshTokenHash: hashToken(refreshToken),
+      userAgent: client.userAgent,
+      ipAddress: client.ipAddress,
+      expiresAt: expiresAt(),
+    });
+
+    return { session, token: accessToken(session), refreshToken };
+  },
+
+  // Exchange a refresh token for a new one and a new access token. A token that was already
+  // exchanged means someone else holds its successor, so its session is ended.
+  refresh: async (refreshToken: string, client: SessionClient): Promise<SessionTokens> => {
+    const hash = hashToken(refreshToken);
+    const session = await Session.findOne({ where: { refreshTokenHash: hash } });
+
+    if (!session) {
+      const [, replayed] = await Session.update(
+        { revokedAt: new Date() },
+        { where: { previousTokenHash: hash, revokedAt: null }, returning: true },
+      );
+      DiagramEventService.publishSessionsEnded(replayed.map((ended) => ended.id));
+      throw invalidRefreshToken();
+    }
+
+    if (session.revokedAt || session.expiresAt <= new Date()) {
+      throw invalidRefreshToken();
+    }
+
+    const user = await User.findByPk(session.userId);
+    if (!user || !user.isActive) {
+      throw invalidRefreshToken();
+    }
+
+    // Rotate only if no concurrent refresh got there first
+    const next = generateToken();
+    const [rotated] = await Session.update(
+      {
+        refreshTokenHash: hashToken(next),
+        previousTokenHash: hash,
+        userAgent: client.userAgent,
+        ipAddress: client.ipAddress,
+        lastUsedAt: new Date(),
+        expiresAt: expiresAt(),
+      },
+      { where: { id: session.id, refreshTokenHash: hash } },
+    );
+
+    if (rotated === 0) {
+      throw invalidRefreshToken();
+    }
+
+    await session.reload();
+    return { session, token: accessToken(session), refreshToken: next };
+  },
+
+  // The session an access token was issued for, while it is neither revoked nor expired
+  findActive: async (sessionId: string, userId: string) => {
+    return Session.findOne({
+      where: { id: sessionId, userId, revokedAt: null, expiresAt: { [Op.gt]: new Date() } },
+    });
+  },
+
+  // Signed-in devices, most recently used first
+  listActive: async (userId: string) => {
+    return Session.findAll({
+      where: { userId, revokedAt: null, expiresAt: { [Op.gt]: new Date() } },
+      order: [['lastUsedAt', 'DESC']],
+    });
+  },
+
+  // End one session; live connections opened with it are closed
+  revoke: async (session: Session): Promise<void> => {
+    await session.update({ revokedAt: new Date() });
+    DiagramEventService.publishSessionsEnded([session.id]);
+  },
+
+  // End every active session of a user, optionally keeping one; returns how many were ended
+  revokeAll: async (userId: string, exceptId?: string): Promise<number> => {
+    const [count, ended] = await Session.update(
+      { revokedAt: new Date() },
+      {
+        where: {
+          userId,
+          revokedAt: null,
+          ...(exceptId && { id: { [Op.ne]: exceptId } }),
+        },
+        returning: true,
+      },
+    );
+
+    DiagramEventService.publishSessionsEnded(ended.map((session) => session.id));
+    return count;
+  },
+
+  // Remove sessions that can no longer be used
+  purgeExpired: async (): Promise<number> => {
+    return Session.destroy({
+      where: {
+        [Op.or]: [{ expiresAt: { [Op.lt]: new Date() } }, { revokedAt: { [Op.ne]: null } }],
+      },
+    });
+  },
+
+  // Returns a function that stops the purge
+  startPurge: (): (() => void) => {
+    const purge = () => {
+      SessionService.purgeExpired()
+        .then((count) => {
+          if (count > 0) {
+            console.log(`✓ Purged ${count} ended session(s)`);
+          }
+        })
+        .catch((error) => console.error('Session purge error:', error));
+    };
+
+    purge();
+    const timer = setInterval(purge, config.session.purgeInterval);
+    timer.unref();
+
+    return () => clearInterval(timer);
+  },
+};
@@ -0,0 +1,133 @@
+import { Op, WhereOptions } from 'sequelize';
+import { sequelize } from '../config/database';
+import { Diagram, Template, User } from '../models';
+import { IDiagramSnapshot } from '../interfaces/diagram-snapshot';
+import { ITemplateData } from '../interfaces/template-data';
+import { HttpError } from '../utils/http-error';
+import { FolderService } from './folder-service';
+import { LintService } from './lint-service';
+import { RevisionService } from './revision-service';
+
+export const TEMPLATE_SCOPES = ['all', 'owned', 'public', 'system'] as const;
+
+export type TemplateScope = (typeof TEMPLATE_SCOPES)[number];
+
+// Gallery entries leave the document out; the description is read from it
+const SUMMARY_ATTRIBUTES = [
+  'id',
+  'userId',
+  'title',
+  'custom',
+  'isPublic',
+  'createdAt',
+  'updatedAt',
+];
+
+function scopeWhere(userId: string, scope: TemplateScope): WhereOptions {
+  if (scope === 'owned') return { userId };
+  if (scope === 'system') return { userId: null };
+  if (scope === 'public') return { userId: { [Op.ne]: null }, isPublic: true };
+  return { [Op.or]: [{ userId }, { userId: null }, { isPublic: true }] };
+}
+
+export const TemplateService = {
+  // Templates a user can pick from, system ones first, as summaries without their documents
+  list: async (userId: string, scope: TemplateScope) => {
+    return Template.findAll({
+      where: scopeWhere(userId, scope),
+      attributes: [
+        ...SUMMARY_ATTRIBUTES,
+        [sequelize.literal(`"Template"."data"->>'description'`), 'description'],
+      ],
+      include: [
+        {
+          model: User,
+          as: 'owner',
+          attributes: ['id', 'username'],
+        },
+      ],
+      order: [
+        [sequelize.literal('"Template"."user_id" IS NOT NULL'), 'ASC'],
+        ['title', 'ASC'],
+        ['id', 'ASC'],
+      ],
+    });
+  },
+
+  // A template the user owns or that is shared with everyone; 404 otherwise
+  findVisible: async (id: string, userId: string) => {
+    const template = await Template.findOne({
+      where: { [Op.and]: [{ id }, scopeWhere(userId, 'all')] },
+    });
+
+    if (!template) {
+      throw new HttpError(404, { error: 'Template not found' });
+    }
+
+    return template;
+  },
+
+  // A template the user may change: system templates are read-only and only owners edit theirs
+  findEditable: async (id: string, userId: string) => {
+    const template = await TemplateService.findVisible(id, userId);
+
+    if (template.userId === null) {
+      throw new HttpError(403, { error: 'System templates are read-only' });
+    }
+    if (template.userId !== userId) {
+      throw new HttpError(403, { error: 'Only the template owner can change it' });
+    }
+
+    return template;
+  },
+
+  // Template document from a diagram snapshot or a request body; absent collections are empty
+  toData: (document: Partial<IDiagramSnapshot>, description: string): ITemplateData => ({
+    description,
+    database: document.database ?? 'generic',
+    tables: document.tables ?? [],
+    references: document.references ?? [],
+    notes: document.notes ?? [],
+    areas: document.areas ?? [],
+    enums: document.enums ?? null,
+    types: document.types ?? null,
+  }),
+
+  // New diagram holding a copy of the template, with its first revision recorded
+  instantiate: async (
+    template: Template,
+    userId: string,
+    options: { name?: string; folderId: string | null },
+  ) => {
+    await FolderService.checkTarget(options.folderId, userId);
+
+    const { database, tables, references, notes, areas, enums, types } = template.data;
+
+    return sequelize.transaction(async (transaction) => {
+      const created = await Diagram.create(
+        {
+          name: options.name ?? template.title,
+          database,
+          tables,
+          references,
+          notes,
+          areas,
+          enums,
+          types,
+          folderId: options.folderId,
+          userId,
+          lastModifiedBy: userId,
+          version: 1,
+        },
+        { transaction },
+      );
+      await LintService.checkSave(created, RevisionService.toSnapshot(created), transaction);
+      await RevisionService.record(
+        created,
+        `Created from template "${template.title}"`,
+        transaction,
+      );
+      return created;
+    });
+  },
+};
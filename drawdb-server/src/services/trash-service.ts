@@ -0,0 +1,41 @@
+import { Op } from 'sequelize';
+import { config } from '../config';
+import { Diagram } from '../models';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export const TrashService = {
+  // When a diagram deleted at the given time will be purged
+  purgeAt: (deletedAt: Date): Date =>
+    new Date(deletedAt.getTime() + config.trash.retentionDays * DAY),
+
+  // Permanently remove diagrams whose retention period has passed; shares and revisions
+  // are removed by their foreign keys
+  purgeExpired: async (): Promise<number> => {
+    const cutoff = new Date(Date.now() - config.trash.retentionDays * DAY);
+
+    return Diagram.destroy({
+      where: { deletedAt: { [Op.lt]: cutoff } },
+      force: true,
+    });
+  },
+
+  // Returns a function that stops the purge
+  startPurge: (): (() => void) => {
+    const purge = () => {
+      TrashService.purgeExpired()
+        .then((count) => {
+          if (count > 0) {
+            console.log(`✓ Purged ${count} diagram(s) from the trash`);
+          }
+        })
+        .catch((error) => console.error('Trash purge error:', error));
+    };
+
+    purge();
+    const timer = setInterval(purge, config.trash.purgeInterval);
+    timer.unref();
+
+    return () => clearInterval(timer);
+  },
+};
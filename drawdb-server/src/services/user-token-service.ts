@@ -0,0 +1,56 @@
+import { Op, Transaction } from 'sequelize';
+import { UserToken, UserTokenPurpose } from '../models/UserToken';
+import { HttpError } from '../utils/http-error';
+import { generateToken, hashToken } from '../utils/token';
+
+// Same answer for unknown, used and expired tokens, and for tokens that no longer apply
+export function invalidTokenError(): HttpError {
+  return new HttpError(400, {
+    error: 'Invalid token',
+    message: 'The link is invalid or has expired',
+  });
+}
+
+export const UserTokenService = {
+  // New single-use token for a user; earlier tokens for the same purpose stop working
+  issue: async (
+    userId: string,
+    purpose: UserTokenPurpose,
+    lifetimeMs: number,
+    email: string | null = null,
+  ) => {
+    const token = generateToken();
+
+    await UserToken.destroy({ where: { userId, purpose } });
+    await UserToken.create({
+      userId,
+      purpose,
+      tokenHash: hashToken(token),
+      email,
+      expiresAt: new Date(Date.now() + lifetimeMs),
+    });
+
+    return token;
+  },
+
+  // Mark a token used and return it; 400 when it is unknown, used or expired
+  consume: async (token: string, purpose: UserTokenPurpose, transaction?: Transaction) => {
+    const userToken = await UserToken.findOne({
+      where: {
+        tokenHash: hashToken(token),
+        purpose,
+        usedAt: null,
+        expiresAt: { [Op.gt]: new Date() },
+      },
+      lock: transaction ? true : undefined,
+      transaction,
+    });
+
+    if (!userToken) {
+      throw invalidTokenError();
+    }
+
+    await userToken.update({ usedAt: new Date() }, { transaction });
+    return userToken;
+  },
+};
@@ -0,0 +1,6 @@
+// oracle-sql-parser ships without typings
+declare module 'oracle-sql-parser' {
+  export class Parser {
+    parse(sql: string): unknown[];
+  }
+}
@@ -0,0 +1,43 @@
+import { emailStyles } from '../styles/email-styles';
+
+export interface IAccountEmail {
+  subject: string;
+  html: string;
+}
+
+function layout(body: string): string {
+  return `<html><head>${emailStyles}</head><body>${body}</body></html>`;
+}
+
+export function passwordResetEmail(username: string, link: string, minutes: number): IAccountEmail {
+  return {
+    subject: 'Reset your DrawDB password',
+    html: layout(`<h1 class="editor-heading-h1">Reset your password</h1>
+<p class="editor-paragraph">Hi ${username},</p>
+<p class="editor-paragraph">We received a request to reset the password of your DrawDB account. Open the link below to choose a new one. It works once and expires in ${minutes} minutes.</p>
+<p class="editor-paragraph"><a class="editor-link" href="${link}">${link}</a></p>
+<p class="editor-paragraph">Resetting your password signs you out on every device. If you did not ask for this, you can ignore this email; your password stays the same.</p>`),
+  };
+}
+
+export function verificationEmail(username: string, link: string, hours: number): IAccountEmail {
+  return {
+    subject: 'Verify your DrawDB email address',
+    html: layout(`<h1 class="editor-heading-h1">Verify your email address</h1>
+<p class="editor-paragraph">Hi ${username},</p>
+<p class="editor-paragraph">Welcome to DrawDB. Open the link below to confirm that this address belongs to you. It expires in ${hours} hours.</p>
+<p class="editor-paragraph"><a class="editor-link" href="${link}">${link}</a></p>
+<p class="editor-paragraph">If you did not create a DrawDB account, you can ignore this email.</p>`),
+  };
+}
+
+export function emailChangeEmail(username: string, link: string, hours: number): IAccountEmail {
+  return {
+    subject: 'Confirm your new DrawDB email address',
+    html: layout(`<h1 class="editor-heading-h1">Confirm your new email address</h1>
+<p class="editor-paragraph">Hi ${username},</p>
+<p class="editor-paragraph">You asked to use this address for your DrawDB account. Open the link below to confirm it; your account keeps its current address until you do. The link expires in ${hours} hours.</p>
+<p class="editor-paragraph"><a class="editor-link" href="${link}">${link}</a></p>
+<p class="editor-paragraph">If you did not ask for this, you can ignore this email.</p>`),
+  };
+}
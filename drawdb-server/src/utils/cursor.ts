@@ -0,0 +1,30 @@
+// Opaque keyset pagination cursors: the sort value and id of the last item of a page
+
+export interface ICursor {
+  sort: string;
+  order: 'asc' | 'desc';
+  value: string;
+  id: string;
+}
+
+export function encodeCursor(cursor: ICursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+// Returns null for anything that is not a cursor produced by encodeCursor
+export function decodeCursor(value: string): ICursor | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (
+      typeof cursor?.sort === 'string' &&
+      (cursor.order === 'asc' || cursor.order === 'desc') &&
+      typeof cursor.value === 'string' &&
+      typeof cursor.id === 'string'
+    ) {
+      return cursor;
+    }
+  } catch {
+    // fall through
+  }
+  return null;
+}
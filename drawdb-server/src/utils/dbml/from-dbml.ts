@@ -0,0 +1,232 @@
+import { randomUUID } from 'crypto';
+import { Parser } from '@dbml/core';
+import {
+  IDiagramArea,
+  IDiagramEnum,
+  IDiagramNote,
+  IDiagramRelationship,
+  IDiagramTable,
+} from '../../interfaces/diagram-document';
+import { IImportWarning } from '../../interfaces/import-warning';
+import { arrangeBands, arrangeTables, tableHeight } from '../diagram-layout';
+import { actionName, newField, newTable } from '../import-sql/shared';
+
+// The diagram collections a DBML import produces, and what it could not take in
+export interface IDbmlImportResult {
+  tables: IDiagramTable[];
+  relationships: IDiagramRelationship[];
+  enums: IDiagramEnum[];
+  areas: IDiagramArea[];
+  notes: IDiagramNote[];
+  warnings: IImportWarning[];
+}
+
+interface CompilerDiagnostic {
+  message: string;
+  location?: { start: { line: number; column: number } };
+}
+
+// Thrown when the source does not compile, with the compiler's diagnostics
+export class DbmlSyntaxError extends Error {
+  public readonly diagnostics: IImportWarning[];
+
+  constructor(diagnostics: IImportWarning[]) {
+    super(diagnostics[0]?.message ?? 'Invalid DBML');
+    this.name = 'DbmlSyntaxError';
+    this.diagnostics = diagnostics;
+  }
+}
+
+type DbmlDatabase = ReturnType<Parser['parse']>;
+type DbmlSchema = DbmlDatabase['schemas'][number];
+type DbmlTable = DbmlSchema['tables'][number];
+type DbmlRef = DbmlSchema['refs'][number];
+
+// Defaults from drawdb/src/data/constants.js
+const AREA_COLOR = '#175e7a';
+const NOTE_COLOR = '#fcf7ac';
+const NOTE_WIDTH = 180;
+const NOTE_HEIGHT = 88;
+const NOTE_GAP = 40;
+
+const parser = new Parser();
+
+function parse(src: string): DbmlDatabase {
+  try {
+    return parser.parse(src, 'dbmlv2');
+  } catch (error) {
+    const diags = (error as { diags?: CompilerDiagnostic[] }).diags;
+    if (!Array.isArray(diags)) throw error;
+
+    throw new DbmlSyntaxError(
+      diags.map((diag) => ({
+        line: diag.location?.start.line ?? 1,
+        message: diag.location
+          ? `${diag.message} at column ${diag.location.start.column}`
+          : diag.message,
+      })),
+    );
+  }
+}
+
+// Type names carry their arguments, as in varchar(20); the diagram keeps those as the size
+function toTable(table: DbmlTable, enums: IDiagramEnum[]): IDiagramTable {
+  const parsed = newTable(table.name);
+  parsed.comment = table.note ?? '';
+  if (table.headerColor) parsed.color = table.headerColor;
+
+  for (const column of table.fields) {
+    const typeName = column.type.type_name.replace(/\(.*\)$/, '');
+    const isEnum = enums.some((e) => e.name === typeName);
+    const field = newField(column.name, isEnum ? typeName : typeName.toUpperCase());
+
+    if (column.type.args) field.size = column.type.args;
+    if (column.dbdefault) field.default = String(column.dbdefault.value);
+    field.primary = Boolean(column.pk);
+    field.unique = Boolean(column.unique);
+    field.notNull = Boolean(column.not_null);
+    field.increment = Boolean(column.increment);
+    field.comment = column.note ?? '';
+
+    parsed.fields.push(field);
+  }
+
+  for (const index of table.indexes) {
+    const fields = index.columns.map((column) => String(column.value));
+
+    // A composite key is declared as an index; the diagram marks its columns instead
+    if (index.pk) {
+      parsed.fields.forEach((field) => {
+        if (fields.includes(field.name)) field.primary = true;
+      });
+      continue;
+    }
+
+    const id = parsed.indices.length;
+    parsed.indices.push({
+      id,
+      name: index.name ?? `${parsed.name}_index_${id}`,
+      unique: Boolean(index.unique),
+      fields,
+    });
+  }
+
+  return parsed;
+}
+
+function cardinality(ref: DbmlRef): string | null {
+  const [start, end] = ref.endpoints.map((endpoint) => endpoint.relation);
+
+  if (start === '*' && end === '1') return 'many_to_one';
+  if (start === '1' && end === '*') return 'one_to_many';
+  if (start === '1' && end === '1') return 'one_to_one';
+  return null;
+}
+
+function toRelationship(
+  ref: DbmlRef,
+  tables: IDiagramTable[],
+  warnings: IImportWarning[],
+): IDiagramRelationship | null {
+  const [start, end] = ref.endpoints;
+  const label = `Ref ${start.tableName}.${start.fieldNames.join(',')} - ${end.tableName}.${end.fieldNames.join(',')}`;
+  const warn = (message: string) => warnings.push({ line: ref.token.start.line, message });
+
+  const relationCardinality = cardinality(ref);
+  if (!relationCardinality) {
+    warn(`${label} is many-to-many, which diagrams cannot hold, and was skipped`);
+    return null;
+  }
+  if (start.fieldNames.length > 1) {
+    warn(`Composite ${label} was imported on its first columns only`);
+  }
+
+  const startTable = tables.find((table) => table.name === start.tableName);
+  const endTable = tables.find((table) => table.name === end.tableName);
+  const startField = startTable?.fields.find((f) => f.name === start.fieldNames[0]);
+  const endField = endTable?.fields.find((f) => f.name === end.fieldNames[0]);
+  if (!startTable || !endTable || !startField || !endField) {
+    warn(`${label} references a column that does not exist and was skipped`);
+    return null;
+  }
+
+  return {
+    id: randomUUID(),
+    name: ref.name || `fk_${start.tableName}_${start.fieldNames[0]}_${end.tableName}`,
+    startTableId: startTable.id,
+    startFieldId: startField.id,
+    endTableId: endTable.id,
+    endFieldId: endField.id,
+    cardinality: relationCardinality,
+    updateConstraint: ref.onUpdate ? actionName(ref.onUpdate) : 'No action',
+    deleteConstraint: ref.onDelete ? actionName(ref.onDelete) : 'No action',
+  };
+}
+
+// Table groups become areas framing their tables, each group in a row of its own with the
+// ungrouped tables in a last row; without groups the tables are laid out as the editor does
+function arrange(schemas: DbmlSchema[], tables: IDiagramTable[]): IDiagramArea[] {
+  const groups = schemas.flatMap((schema) => schema.tableGroups);
+  if (groups.length === 0) {
+    arrangeTables(tables);
+    return [];
+  }
+
+  const grouped = new Set<IDiagramTable>();
+  const bands = groups.map((group) =>
+    group.tables.flatMap((member) => {
+      const table = tables.find((t) => t.name === member.name && !grouped.has(t));
+      if (!table) return [];
+      grouped.add(table);
+      return [table];
+    }),
+  );
+  const ungrouped = tables.filter((table) => !grouped.has(table));
+  const rects = arrangeBands(ungrouped.length ? [...bands, ungrouped] : bands);
+
+  return groups.map((group, id) => ({
+    id,
+    name: group.name,
+    ...rects[id],
+    color: group.color ?? AREA_COLOR,
+  }));
+}
+
+// Sticky notes go in a row under the tables
+function toNotes(database: DbmlDatabase, tables: IDiagramTable[]): IDiagramNote[] {
+  const y = Math.max(0, ...tables.map((table) => table.y + tableHeight(table))) + NOTE_GAP;
+
+  return database.notes.map((note, id) => ({
+    id,
+    x: NOTE_GAP + id * (NOTE_WIDTH + NOTE_GAP),
+    y,
+    title: note.name,
+    content: note.content,
+    color: note.headerColor ?? NOTE_COLOR,
+    height: NOTE_HEIGHT,
+  }));
+}
+
+// Build diagram collections from DBML, as the editor's "Import from DBML" does, keeping table
+// groups as areas and sticky notes as notes. Throws DbmlSyntaxError when the source does not
+// compile.
+export function fromDBML(src: string): IDbmlImportResult {
+  const database = parse(src);
+  const warnings: IImportWarning[] = [];
+
+  const enums = database.schemas.flatMap((schema) =>
+    schema.enums.map((e) => ({ name: e.name, values: e.values.map((value) => value.name) })),
+  );
+  const tables = database.schemas.flatMap((schema) =>
+    schema.tables.map((table) => toTable(table, enums)),
+  );
+  const relationships = database.schemas
+    .flatMap((schema) => schema.refs)
+    .map((ref) => toRelationship(ref, tables, warnings))
+    .filter((relationship) => relationship !== null);
+
+  const areas = arrange(database.schemas, tables);
+  const notes = toNotes(database, tables);
+
+  return { tables, relationships, enums, areas, notes, warnings };
+}
@@ -0,0 +1,2 @@
+export { DbmlSyntaxError, fromDBML, IDbmlImportResult } from './from-dbml';
+export { IDbmlExportInput, toDBML } from './to-dbml';
@@ -0,0 +1,233 @@
+import {
+  IDiagramArea,
+  IDiagramEnum,
+  IDiagramField,
+  IDiagramNote,
+  IDiagramRelationship,
+  IDiagramTable,
+} from '../../interfaces/diagram-document';
+import { isInsideRect, tableRect } from '../diagram-layout';
+import { typeTraits } from '../export-sql/data-types';
+import { isFunction, isKeyword, relationshipEnds } from '../export-sql/shared';
+
+// What the DBML export reads from a diagram
+export interface IDbmlExportInput {
+  database: string;
+  tables: IDiagramTable[];
+  references: IDiagramRelationship[];
+  enums: IDiagramEnum[];
+  areas: IDiagramArea[];
+  notes: IDiagramNote[];
+}
+
+const IDENT_SAFE_RE = /^[A-Za-z_][A-Za-z0-9_]*$/;
+// Defaults DBML takes without quotes
+const LITERAL_RE = /^(-?\d+(\.\d+)?|true|false|null)$/i;
+
+function escapeIdentifier(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+}
+
+// DBML strings escape quotes with a backslash, not by doubling them as SQL does
+function escapeString(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/'/g, "\\'");
+}
+
+function quoteIdentifier(name: string): string {
+  return IDENT_SAFE_RE.test(name) ? name : `"${escapeIdentifier(name)}"`;
+}
+
+function parseDefault(field: IDiagramField, database: string) {
+  if (isFunction(field.default)) {
+    return `\`${field.default}\``;
+  }
+
+  const value = String(field.default);
+  if (LITERAL_RE.test(value) && (isKeyword(value) || !typeTraits(database, field.type).hasQuotes)) {
+    return value;
+  }
+  if (isKeyword(value)) {
+    return `\`${value}\``;
+  }
+
+  return `'${escapeString(value)}'`;
+}
+
+function columnDefault(field: IDiagramField, database: string): string {
+  if (!field.default) {
+    return '';
+  }
+
+  if (typeof field.default === 'string' && !field.default.trim()) {
+    return '';
+  }
+
+  return `default: ${parseDefault(field, database)}`;
+}
+
+function processComment(comment: string): string {
+  if (comment.includes('\n')) {
+    return `'''${comment}'''`;
+  }
+
+  return `'${escapeString(comment)}'`;
+}
+
+function columnComment(field: IDiagramField): string {
+  if (!field.comment || field.comment.trim() === '') {
+    return '';
+  }
+
+  return `note: ${processComment(field.comment)}`;
+}
+
+function columnSettings(field: IDiagramField, database: string): string {
+  const constraints = [
+    field.primary && 'pk',
+    field.increment && 'increment',
+    field.notNull && 'not null',
+    field.unique && 'unique',
+    columnDefault(field, database),
+    columnComment(field),
+  ].filter((constraint) => Boolean(constraint));
+
+  if (!constraints.length) {
+    return '';
+  }
+
+  return ` [ ${constraints.join(', ')} ]`;
+}
+
+function cardinality(relationship: IDiagramRelationship): string {
+  switch (relationship.cardinality) {
+    case 'one_to_one':
+      return '-';
+    case 'one_to_many':
+      return '<';
+    default:
+      return '>';
+  }
+}
+
+function fieldSize(field: IDiagramField, database: string): string {
+  const traits = typeTraits(database, field.type);
+
+  if ((traits.isSized || traits.hasPrecision) && field.size) return `(${field.size})`;
+
+  return '';
+}
+
+function isValueList(field: IDiagramField): boolean {
+  return (field.type === 'ENUM' || field.type === 'SET') && Array.isArray(field.values);
+}
+
+// DBML has no inline ENUM/SET columns, so each gets an enum of its own
+function valueListName(field: IDiagramField): string {
+  return `${field.name}_${(field.values ?? []).join('_')}_t`;
+}
+
+function processType(field: IDiagramField, enums: IDiagramEnum[]): string {
+  if (isValueList(field)) {
+    return quoteIdentifier(valueListName(field));
+  }
+  if (enums.some((e) => e.name === field.type)) {
+    return quoteIdentifier(field.type);
+  }
+  // Older diagrams may store the long Postgres name, which is not a single DBML type word
+  if (field.type.toUpperCase() === 'TIMESTAMP WITH TIME ZONE') {
+    return 'timestamptz';
+  }
+
+  return field.type.toLowerCase();
+}
+
+function enumBlock(name: string, values: string[]): string {
+  return `enum ${quoteIdentifier(name)} {\n${values.map((v) => `\t${quoteIdentifier(v)}`).join('\n')}\n}\n\n`;
+}
+
+function tableBlock(table: IDiagramTable, input: IDbmlExportInput): string {
+  const fields = table.fields
+    .map(
+      (field) =>
+        `\t${quoteIdentifier(field.name)} ${processType(field, input.enums)}${fieldSize(
+          field,
+          input.database,
+        )}${columnSettings(field, input.database)}`,
+    )
+    .join('\n');
+
+  const indices =
+    table.indices.length > 0
+      ? '\n\n\tindexes {\n' +
+        table.indices
+          .map(
+            (index) =>
+              `\t\t(${index.fields.map((f) => quoteIdentifier(f)).join(', ')}) [ name: '${
+                index.name
+              }'${index.unique ? ', unique' : ''} ]`,
+          )
+          .join('\n') +
+        '\n\t}'
+      : '';
+
+  const note =
+    table.comment && table.comment.trim() !== ''
+      ? `\n\n\tNote: ${processComment(table.comment)}`
+      : '';
+
+  return `Table ${quoteIdentifier(table.name)} [headercolor: ${table.color}] {\n${fields}${indices}${note}\n}`;
+}
+
+function refBlock(relationship: IDiagramRelationship, tables: IDiagramTable[]): string | null {
+  const ends = relationshipEnds(relationship, tables);
+  if (!ends) return null;
+
+  const start = `${quoteIdentifier(ends.startTable.name)}.${quoteIdentifier(ends.startField.name)}`;
+  const end = `${quoteIdentifier(ends.endTable.name)}.${quoteIdentifier(ends.endField.name)}`;
+
+  return `Ref ${quoteIdentifier(relationship.name)} {\n\t${start} ${cardinality(relationship)} ${end} [ delete: ${relationship.deleteConstraint.toLowerCase()}, update: ${relationship.updateConstraint.toLowerCase()} ]\n}`;
+}
+
+// Areas become table groups of the tables lying inside them; a table joins its first area only
+function tableGroupBlocks(input: IDbmlExportInput): string[] {
+  const grouped = new Set<IDiagramTable['id']>();
+
+  return input.areas.flatMap((area) => {
+    const tables = input.tables.filter(
+      (table) => !grouped.has(table.id) && isInsideRect(tableRect(table), area),
+    );
+    if (tables.length === 0) return [];
+
+    tables.forEach((table) => grouped.add(table.id));
+    return [
+      `TableGroup ${quoteIdentifier(area.name)} [color: ${area.color}] {\n${tables
+        .map((table) => `\t${quoteIdentifier(table.name)}`)
+        .join('\n')}\n}`,
+    ];
+  });
+}
+
+// DBML sticky notes take no settings, so the note's color is not carried over
+function stickyNoteBlock(note: IDiagramNote): string {
+  const content = note.content.replace(/'''/g, "\\'''");
+  return `Note ${quoteIdentifier(note.title)} {\n\t'''${content}'''\n}`;
+}
+
+// The diagram as DBML, as the editor's "Export as DBML" writes it, followed by its areas as
+// table groups and its notes as sticky notes
+export function toDBML(input: IDbmlExportInput): string {
+  const enums = input.enums.map((e) => enumBlock(e.name, e.values)).join('\n\n');
+  const valueLists = input.tables
+    .flatMap((table) => table.fields.filter(isValueList))
+    .map((field) => enumBlock(valueListName(field), field.values ?? []))
+    .join('');
+  const tables = input.tables.map((table) => tableBlock(table, input)).join('\n\n');
+  const refs = input.references
+    .map((relationship) => refBlock(relationship, input.tables))
+    .filter((ref) => ref !== null)
+    .join('\n\n');
+
+  const extras = [...tableGroupBlocks(input), ...input.notes.map(stickyNoteBlock)];
+
+  return `${enums}${valueLists}${tables}\n\n${refs}${extras.map((block) => `\n\n${block}`).join('')}`;
+}
@@ -0,0 +1,240 @@
+import {
+  ElementId,
+  IDiagramArea,
+  IDiagramEnum,
+  IDiagramField,
+  IDiagramIndex,
+  IDiagramNote,
+  IDiagramRelationship,
+  IDiagramTable,
+  IDiagramType,
+} from '../interfaces/diagram-document';
+import {
+  IChangeCounts,
+  ICollectionChangeSet,
+  IDiagramChangeSet,
+  IDiagramChangeSummary,
+  IElementRef,
+  IPropertyChanges,
+  ITableChange,
+  ITableRename,
+} from '../interfaces/diagram-change-set';
+import { IDiagramSnapshot } from '../interfaces/diagram-snapshot';
+import { isDeepEqual } from './deep-equal';
+
+const TABLE_PROPERTIES = ['comment', 'color', 'inherits'];
+const FIELD_PROPERTIES = [
+  'name',
+  'type',
+  'size',
+  'values',
+  'default',
+  'check',
+  'primary',
+  'unique',
+  'notNull',
+  'increment',
+  'comment',
+];
+const INDEX_PROPERTIES = ['name', 'unique', 'fields'];
+const RELATIONSHIP_PROPERTIES = [
+  'name',
+  'startTableId',
+  'startFieldId',
+  'endTableId',
+  'endFieldId',
+  'cardinality',
+  'updateConstraint',
+  'deleteConstraint',
+];
+const ENUM_PROPERTIES = ['name', 'values'];
+const TYPE_PROPERTIES = ['name', 'comment', 'fields'];
+const AREA_PROPERTIES = ['name', 'color', 'x', 'y', 'width', 'height'];
+const NOTE_PROPERTIES = ['title', 'content', 'color'];
+
+// Element identity: explicit id where the editor assigns one, otherwise the name
+export function elementKey(element: { id?: ElementId; name?: string }): string {
+  return element.id !== undefined && element.id !== null
+    ? `id:${element.id}`
+    : `name:${element.name}`;
+}
+
+export function diffProperties(
+  before: object,
+  after: object,
+  properties: string[],
+): IPropertyChanges {
+  const changes: IPropertyChanges = {};
+  const from = before as Record<string, unknown>;
+  const to = after as Record<string, unknown>;
+
+  for (const property of properties) {
+    if (!isDeepEqual(from[property], to[property])) {
+      changes[property] = { from: from[property], to: to[property] };
+    }
+  }
+
+  return changes;
+}
+
+function toRef(element: { id?: ElementId; name?: string; title?: string }): IElementRef {
+  return {
+    id: element.id ?? (element.name as string),
+    name: element.name ?? element.title ?? '',
+  };
+}
+
+function diffCollection<T extends { id?: ElementId; name?: string }>(
+  before: T[],
+  after: T[],
+  properties: string[],
+): ICollectionChangeSet {
+  const beforeByKey = new Map(before.map((element) => [elementKey(element), element]));
+  const afterByKey = new Map(after.map((element) => [elementKey(element), element]));
+  const result: ICollectionChangeSet = { added: [], removed: [], altered: [] };
+
+  for (const [key, element] of beforeByKey) {
+    const next = afterByKey.get(key);
+    if (!next) {
+      result.removed.push(toRef(element));
+      continue;
+    }
+
+    const changes = diffProperties(element, next, properties);
+    if (Object.keys(changes).length > 0) {
+      result.altered.push({ ...toRef(next), changes });
+    }
+  }
+
+  for (const [key, element] of afterByKey) {
+    if (!beforeByKey.has(key)) {
+      result.added.push(toRef(element));
+    }
+  }
+
+  return result;
+}
+
+function isEmptyCollection(changes: ICollectionChangeSet): boolean {
+  return changes.added.length === 0 && changes.removed.length === 0 && changes.altered.length === 0;
+}
+
+function diffTables(before: IDiagramTable[], after: IDiagramTable[]) {
+  const afterById = new Map(after.map((table) => [elementKey(table), table]));
+  const beforeById = new Map(before.map((table) => [elementKey(table), table]));
+  const added: IElementRef[] = [];
+  const removed: IElementRef[] = [];
+  const renamed: ITableRename[] = [];
+  const altered: ITableChange[] = [];
+
+  for (const [key, table] of beforeById) {
+    const next = afterById.get(key);
+    if (!next) {
+      removed.push(toRef(table));
+      continue;
+    }
+
+    if (table.name !== next.name) {
+      renamed.push({ id: table.id, from: table.name, to: next.name });
+    }
+
+    const changes = diffProperties(table, next, TABLE_PROPERTIES);
+    const fields = diffCollection<IDiagramField>(
+      table.fields || [],
+      next.fields || [],
+      FIELD_PROPERTIES,
+    );
+    const indices = diffCollection<IDiagramIndex>(
+      table.indices || [],
+      next.indices || [],
+      INDEX_PROPERTIES,
+    );
+
+    if (
+      Object.keys(changes).length > 0 ||
+      !isEmptyCollection(fields) ||
+      !isEmptyCollection(indices)
+    ) {
+      altered.push({ ...toRef(next), changes, fields, indices });
+    }
+  }
+
+  for (const [key, table] of afterById) {
+    if (!beforeById.has(key)) {
+      added.push(toRef(table));
+    }
+  }
+
+  return { added, removed, renamed, altered };
+}
+
+// Structural diff between two diagram documents; layout-only changes (table positions) are ignored
+export function diffDiagrams(
+  before: IDiagramSnapshot,
+  after: IDiagramSnapshot,
+  fromVersion: number,
+  toVersion: number,
+): IDiagramChangeSet {
+  return {
+    from: fromVersion,
+    to: toVersion,
+    tables: diffTables(
+      (before.tables || []) as IDiagramTable[],
+      (after.tables || []) as IDiagramTable[],
+    ),
+    relationships: diffCollection(
+      (before.references || []) as IDiagramRelationship[],
+      (after.references || []) as IDiagramRelationship[],
+      RELATIONSHIP_PROPERTIES,
+    ),
+    enums: diffCollection(
+      (before.enums || []) as IDiagramEnum[],
+      (after.enums || []) as IDiagramEnum[],
+      ENUM_PROPERTIES,
+    ),
+    types: diffCollection(
+      (before.types || []) as IDiagramType[],
+      (after.types || []) as IDiagramType[],
+      TYPE_PROPERTIES,
+    ),
+    areas: diffCollection(
+      (before.areas || []) as IDiagramArea[],
+      (after.areas || []) as IDiagramArea[],
+      AREA_PROPERTIES,
+    ),
+    notes: diffCollection(
+      (before.notes || []) as IDiagramNote[],
+      (after.notes || []) as IDiagramNote[],
+      NOTE_PROPERTIES,
+    ),
+  };
+}
+
+function countChanges(changes: ICollectionChangeSet): IChangeCounts {
+  return {
+    added: changes.added.length,
+    removed: changes.removed.length,
+    altered: changes.altered.length,
+  };
+}
+
+export function summarizeChanges(
+  before: IDiagramSnapshot,
+  after: IDiagramSnapshot,
+): IDiagramChangeSummary {
+  const changes = diffDiagrams(before, after, 0, 0);
+
+  return {
+    tables: {
+      added: changes.tables.added.length,
+      removed: changes.tables.removed.length,
+      renamed: changes.tables.renamed.length,
+      altered: changes.tables.altered.length,
+    },
+    relationships: countChanges(changes.relationships),
+    enums: countChanges(changes.enums),
+    types: countChanges(changes.types),
+    areas: countChanges(changes.areas),
+    notes: countChanges(changes.notes),
+  };
+}
@@ -0,0 +1,83 @@
+import { IDiagramNote, IDiagramTable } from '../interfaces/diagram-document';
+
+// Canvas dimensions from drawdb/src/data/constants.js
+export const TABLE_WIDTH = 200;
+export const TABLE_HEADER_HEIGHT = 50;
+export const TABLE_FIELD_HEIGHT = 36;
+const TABLE_COLOR_STRIP_HEIGHT = 7;
+export const NOTE_WIDTH = 180;
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export function tableHeight(table: IDiagramTable): number {
+  return table.fields.length * TABLE_FIELD_HEIGHT + TABLE_HEADER_HEIGHT + TABLE_COLOR_STRIP_HEIGHT;
+}
+
+export function tableRect(table: IDiagramTable): Rect {
+  return { x: table.x, y: table.y, width: TABLE_WIDTH, height: tableHeight(table) };
+}
+
+export function noteRect(note: IDiagramNote): Rect {
+  return { x: note.x, y: note.y, width: NOTE_WIDTH, height: note.height };
+}
+
+// Whether `inner` lies strictly within `outer`, as the editor's bulk selection decides
+export function isInsideRect(inner: Rect, outer: Rect): boolean {
+  return (
+    inner.x > outer.x &&
+    inner.x + inner.width < outer.x + outer.width &&
+    inner.y > outer.y &&
+    inner.y + inner.height < outer.y + outer.height
+  );
+}
+
+// Lay imported tables out in two rows, as drawdb/src/utils/arrangeTables.js does
+export function arrangeTables(tables: IDiagramTable[]): void {
+  const gapX = 54;
+  const gapY = 40;
+  let maxHeight = -1;
+
+  tables.forEach((table, i) => {
+    if (i < tables.length / 2) {
+      table.x = i * TABLE_WIDTH + (i + 1) * gapX;
+      table.y = gapY;
+      maxHeight = Math.max(tableHeight(table), maxHeight);
+    } else {
+      const index = tables.length - i - 1;
+      table.x = index * TABLE_WIDTH + (index + 1) * gapX;
+      table.y = maxHeight + 2 * gapY;
+    }
+  });
+}
+
+const BAND_GAP_X = 54;
+const BAND_GAP_Y = 40;
+const BAND_PADDING = 30;
+
+// Lay each band of tables out in a row of its own, one row under another, and return the
+// rect framing each band with room to spare, so an area drawn on it holds its tables
+export function arrangeBands(bands: IDiagramTable[][]): Rect[] {
+  let y = BAND_GAP_Y;
+
+  return bands.map((tables) => {
+    const rect: Rect = {
+      x: BAND_GAP_X,
+      y,
+      width: tables.length * TABLE_WIDTH + (tables.length - 1) * BAND_GAP_X + 2 * BAND_PADDING,
+      height: Math.max(0, ...tables.map(tableHeight)) + 2 * BAND_PADDING,
+    };
+
+    tables.forEach((table, i) => {
+      table.x = rect.x + BAND_PADDING + i * (TABLE_WIDTH + BAND_GAP_X);
+      table.y = rect.y + BAND_PADDING;
+    });
+
+    y += rect.height + BAND_GAP_Y;
+    return rect;
+  });
+}
@@ -0,0 +1,381 @@
+import { ElementId, IDiagramRelationship } from '../interfaces/diagram-document';
+import { IDiagramSnapshot } from '../interfaces/diagram-snapshot';
+import { IMergeConflict } from '../interfaces/merge-conflict';
+import { isDeepEqual } from './deep-equal';
+import { elementKey } from './diagram-diff';
+
+type Element = Record<string, unknown> & { id?: ElementId; name?: string };
+type CollectionKey = Exclude<keyof IDiagramSnapshot, 'name' | 'database'>;
+
+interface MergeScope {
+  path: string;
+  element: string;
+  id?: ElementId;
+  tableId?: ElementId;
+}
+
+type ElementMerger = (
+  base: Element,
+  theirs: Element,
+  ours: Element,
+  scope: MergeScope,
+  conflicts: IMergeConflict[],
+) => Element;
+
+export interface IMergeResult {
+  merged: IDiagramSnapshot;
+  conflicts: IMergeConflict[];
+}
+
+function mergeValue(
+  base: unknown,
+  theirs: unknown,
+  ours: unknown,
+  scope: MergeScope,
+  property: string | undefined,
+  conflicts: IMergeConflict[],
+): unknown {
+  if (isDeepEqual(ours, theirs) || isDeepEqual(ours, base)) return theirs;
+  if (isDeepEqual(theirs, base)) return ours;
+
+  conflicts.push({
+    ...scope,
+    path: property ? `${scope.path}/${property}` : scope.path,
+    property,
+    reason: 'both_modified',
+    base,
+    ours,
+    theirs,
+  });
+  return theirs;
+}
+
+// Property-by-property merge; nested collections get their own keyed merge
+function mergeProperties(nested: Record<string, ElementMerger>): ElementMerger {
+  return (base, theirs, ours, scope, conflicts) => {
+    const keys = new Set([...Object.keys(theirs), ...Object.keys(ours)]);
+    const result: Element = {};
+
+    for (const key of keys) {
+      const value = nested[key]
+        ? mergeCollection(
+            base[key] as Element[],
+            theirs[key] as Element[],
+            ours[key] as Element[],
+            { ...scope, path: `${scope.path}/${key}` },
+            nested[key],
+            conflicts,
+          )
+        : mergeValue(base[key], theirs[key], ours[key], scope, key, conflicts);
+
+      if (value !== undefined) {
+        result[key] = value;
+      }
+    }
+
+    return result;
+  };
+}
+
+function isKeyed(items: unknown[]): items is Element[] {
+  return items.every(
+    (item) =>
+      typeof item === 'object' &&
+      item !== null &&
+      (((item as Element).id !== undefined && (item as Element).id !== null) ||
+        typeof (item as Element).name === 'string'),
+  );
+}
+
+const CHILD_ELEMENT: Record<string, string> = {
+  fields: 'field',
+  indices: 'index',
+};
+
+function mergeCollection(
+  base: Element[] | null | undefined,
+  theirs: Element[] | null | undefined,
+  ours: Element[] | null | undefined,
+  scope: MergeScope,
+  mergeElement: ElementMerger,
+  conflicts: IMergeConflict[],
+): Element[] {
+  const baseItems = base || [];
+  const theirItems = theirs || [];
+  const ourItems = ours || [];
+
+  // Collections without stable keys (e.g. todos) can only be merged as a whole
+  if (![baseItems, theirItems, ourItems].every(isKeyed)) {
+    return mergeValue(baseItems, theirItems, ourItems, scope, undefined, conflicts) as Element[];
+  }
+
+  const baseByKey = new Map(baseItems.map((item) => [elementKey(item), item]));
+  const theirsByKey = new Map(theirItems.map((item) => [elementKey(item), item]));
+  const oursByKey = new Map(ourItems.map((item) => [elementKey(item), item]));
+  const keys = new Set([...theirsByKey.keys(), ...oursByKey.keys(), ...baseByKey.keys()]);
+
+  const segment = scope.path.split('/').pop() as string;
+  const element = CHILD_ELEMENT[segment] ?? scope.element;
+  const result: Element[] = [];
+
+  for (const key of keys) {
+    const b = baseByKey.get(key);
+    const t = theirsByKey.get(key);
+    const o = oursByKey.get(key);
+    const sample = (t ?? o ?? b) as Element;
+    const id = sample.id ?? sample.name;
+    const elementScope: MergeScope = {
+      path: `${scope.path}/${id}`,
+      element,
+      id,
+      ...(element !== scope.element && { tableId: scope.id }),
+    };
+
+    if (!b) {
+      if (t && o && !isDeepEqual(t, o)) {
+        conflicts.push({ ...elementScope, reason: 'added_twice', base: null, ours: o, theirs: t });
+      }
+      result.push((t ?? o) as Element);
+      continue;
+    }
+
+    if (!t && !o) continue;
+
+    if (!t || !o) {
+      const survivor = (t ?? o) as Element;
+      if (!isDeepEqual(survivor, b)) {
+        conflicts.push({
+          ...elementScope,
+          reason: 'modified_and_deleted',
+          base: b,
+          ours: o ?? null,
+          theirs: t ?? null,
+        });
+        result.push(survivor);
+      }
+      continue;
+    }
+
+    result.push(mergeElement(b, t, o, elementScope, conflicts));
+  }
+
+  return result;
+}
+
+const mergeFlat = mergeProperties({});
+const mergeTable = mergeProperties({ fields: mergeFlat, indices: mergeFlat });
+
+type Matcher = (a: Element, b: Element) => boolean;
+
+function withoutId(element: Element): Element {
+  return Object.fromEntries(Object.entries(element).filter(([key]) => key !== 'id'));
+}
+
+const sameContent: Matcher = (a, b) => isDeepEqual(withoutId(a), withoutId(b));
+const sameProperty =
+  (property: string): Matcher =>
+  (a, b) =>
+    a[property] === b[property];
+const samePosition: Matcher = (a, b) => a.x === b.x && a.y === b.y;
+
+// The element of `side` each base element became, or undefined where it was deleted. Unchanged
+// elements are paired first, then by each hint in turn; what is left over on `side` was added.
+function matchToBase(base: Element[], side: Element[], hints: Matcher[]) {
+  const matches: (Element | undefined)[] = base.map(() => undefined);
+  const free = new Set(side.keys());
+
+  for (const same of [sameContent, ...hints]) {
+    base.forEach((element, i) => {
+      if (matches[i]) return;
+      const match = [...free].find((j) => same(element, side[j]));
+      if (match !== undefined) {
+        matches[i] = side[match];
+        free.delete(match);
+      }
+    });
+  }
+
+  return { matches, added: side.filter((_, j) => free.has(j)) };
+}
+
+// Notes and areas take their id from their place in the list: ids shift when one is deleted and
+// elements added on both sides get the same id. They are matched to the base by content instead
+// and numbered again in the merged order, which is theirs followed by what only ours kept or added.
+function mergeByContent(
+  base: Element[] | null | undefined,
+  theirs: Element[] | null | undefined,
+  ours: Element[] | null | undefined,
+  scope: MergeScope,
+  hints: Matcher[],
+  conflicts: IMergeConflict[],
+): Element[] {
+  const baseItems = base || [];
+  const theirItems = theirs || [];
+  const ourItems = ours || [];
+  const theirMatch = matchToBase(baseItems, theirItems, hints);
+  const ourMatch = matchToBase(baseItems, ourItems, hints);
+
+  const entries: { b?: Element; t?: Element; o?: Element }[] = [
+    ...theirItems.map((t) => {
+      const i = theirMatch.matches.indexOf(t);
+      return i === -1 ? { t } : { b: baseItems[i], t, o: ourMatch.matches[i] };
+    }),
+    ...baseItems
+      .map((b, i) => ({ b, o: ourMatch.matches[i] }))
+      .filter((_, i) => !theirMatch.matches[i]),
+    // The same element added on both sides is kept once
+    ...ourMatch.added
+      .filter((o) => !theirMatch.added.some((t) => sameContent(t, o)))
+      .map((o) => ({ o })),
+  ];
+
+  const result: Element[] = [];
+
+  for (const { b, t, o } of entries) {
+    const id = result.length;
+    const elementScope: MergeScope = { path: `${scope.path}/${id}`, element: scope.element, id };
+
+    if (!b) {
+      result.push({ id, ...withoutId((t ?? o) as Element) });
+      continue;
+    }
+
+    if (!t && !o) continue;
+
+    if (!t || !o) {
+      const survivor = (t ?? o) as Element;
+      if (!sameContent(survivor, b)) {
+        conflicts.push({
+          ...elementScope,
+          reason: 'modified_and_deleted',
+          base: b,
+          ours: o ?? null,
+          theirs: t ?? null,
+        });
+        result.push({ id, ...withoutId(survivor) });
+      }
+      continue;
+    }
+
+    result.push({
+      id,
+      ...mergeFlat(withoutId(b), withoutId(t), withoutId(o), elementScope, conflicts),
+    });
+  }
+
+  return result;
+}
+
+function fieldsByTable(snapshot: IDiagramSnapshot): Map<ElementId, Set<ElementId>> {
+  return new Map(
+    (snapshot.tables || []).map((table) => [
+      table.id,
+      new Set((table.fields || []).map((field) => field.id)),
+    ]),
+  );
+}
+
+function hasEndpoints(
+  tables: Map<ElementId, Set<ElementId>>,
+  relationship: IDiagramRelationship,
+): boolean {
+  return (
+    !!tables.get(relationship.startTableId)?.has(relationship.startFieldId) &&
+    !!tables.get(relationship.endTableId)?.has(relationship.endFieldId)
+  );
+}
+
+// Relationships that survived the merge but point at a table or field the other side removed
+function checkReferences(
+  merged: IDiagramSnapshot,
+  theirs: IDiagramSnapshot,
+  ours: IDiagramSnapshot,
+  conflicts: IMergeConflict[],
+) {
+  const mergedTables = fieldsByTable(merged);
+  const theirTables = fieldsByTable(theirs);
+  const ourTables = fieldsByTable(ours);
+
+  for (const relationship of merged.references) {
+    if (hasEndpoints(mergedTables, relationship)) continue;
+
+    const validForOurs = hasEndpoints(ourTables, relationship);
+    const validForTheirs = hasEndpoints(theirTables, relationship);
+    if (!validForOurs && !validForTheirs) continue;
+
+    conflicts.push({
+      path: `references/${relationship.id}`,
+      element: 'relationship',
+      id: relationship.id,
+      reason: 'modified_and_deleted',
+      base: null,
+      ours: validForOurs ? relationship : null,
+      theirs: validForTheirs ? relationship : null,
+    });
+  }
+}
+
+// Three-way merge of two edits made against the same base snapshot. "theirs" is the state
+// already stored on the server, "ours" the incoming save.
+export function mergeDiagrams(
+  base: IDiagramSnapshot,
+  theirs: IDiagramSnapshot,
+  ours: IDiagramSnapshot,
+): IMergeResult {
+  const conflicts: IMergeConflict[] = [];
+  // Collections are merged as generic elements and keep their document type
+  const collection = <K extends CollectionKey>(key: K, element: string, merger: ElementMerger) =>
+    mergeCollection(
+      base[key] as unknown as Element[],
+      theirs[key] as unknown as Element[],
+      ours[key] as unknown as Element[],
+      { path: key, element },
+      merger,
+      conflicts,
+    ) as unknown as NonNullable<IDiagramSnapshot[K]>;
+  const contentCollection = <K extends 'notes' | 'areas'>(
+    key: K,
+    element: string,
+    hints: Matcher[],
+  ) =>
+    mergeByContent(
+      base[key] as unknown as Element[],
+      theirs[key] as unknown as Element[],
+      ours[key] as unknown as Element[],
+      { path: key, element },
+      hints,
+      conflicts,
+    ) as unknown as IDiagramSnapshot[K];
+  const nullableCollection = <K extends 'enums' | 'types'>(key: K, element: string) =>
+    theirs[key] === null && ours[key] === null ? null : collection(key, element, mergeFlat);
+
+  const merged: IDiagramSnapshot = {
+    name: mergeValue(
+      base.name,
+      theirs.name,
+      ours.name,
+      { path: 'name', element: 'diagram' },
+      undefined,
+      conflicts,
+    ) as string,
+    database: mergeValue(
+      base.database,
+      theirs.database,
+      ours.database,
+      { path: 'database', element: 'diagram' },
+      undefined,
+      conflicts,
+    ) as string,
+    tables: collection('tables', 'table', mergeTable),
+    references: collection('references', 'relationship', mergeFlat),
+    notes: contentCollection('notes', 'note', [sameProperty('title'), samePosition]),
+    areas: contentCollection('areas', 'area', [sameProperty('name'), samePosition]),
+    todos: collection('todos', 'todo', mergeFlat),
+    enums: nullableCollection('enums', 'enum'),
+    types: nullableCollection('types', 'type'),
+  };
+
+  checkReferences(merged, theirs, ours, conflicts);
+
+  return { merged, conflicts };
+}
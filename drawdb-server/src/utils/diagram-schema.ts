@@ -0,0 +1,227 @@
+import { IDiagramRelationship, IDiagramTable } from '../interfaces/diagram-document';
+import { IValidationDetail } from '../interfaces/validation-detail';
+import { IJsonSchema, validateSchema } from './json-schema';
+
+// Mirrors of the editor's schemas in drawdb/src/data/schemas.js; keep the two in step
+
+const colorSchema: IJsonSchema = { type: 'string', pattern: '^#[0-9a-fA-F]{6}$' };
+
+export const tableSchema: IJsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: ['integer', 'string'] },
+    name: { type: 'string' },
+    x: { type: 'number' },
+    y: { type: 'number' },
+    fields: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: ['integer', 'string'] },
+          name: { type: 'string' },
+          type: { type: 'string' },
+          default: { type: ['string', 'number', 'boolean'] },
+          check: { type: 'string' },
+          primary: { type: 'boolean' },
+          unique: { type: 'boolean' },
+          notNull: { type: 'boolean' },
+          increment: { type: 'boolean' },
+          comment: { type: 'string' },
+          size: { type: ['string', 'number'] },
+          values: { type: 'array', items: { type: 'string' } },
+        },
+        required: [
+          'id',
+          'name',
+          'type',
+          'default',
+          'check',
+          'primary',
+          'unique',
+          'notNull',
+          'increment',
+          'comment',
+        ],
+      },
+    },
+    comment: { type: 'string' },
+    locked: { type: 'boolean' },
+    hidden: { type: 'boolean' },
+    indices: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          unique: { type: 'boolean' },
+          fields: { type: 'array', items: { type: 'string' } },
+        },
+        required: ['name', 'unique', 'fields'],
+      },
+    },
+    color: colorSchema,
+    inherits: { type: 'array', items: { type: 'string' } },
+  },
+  required: ['id', 'name', 'x', 'y', 'fields', 'comment', 'indices', 'color'],
+};
+
+export const relationshipSchema: IJsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: ['integer', 'string'] },
+    name: { type: 'string' },
+    startTableId: { type: ['integer', 'string'] },
+    startFieldId: { type: ['integer', 'string'] },
+    endTableId: { type: ['integer', 'string'] },
+    endFieldId: { type: ['integer', 'string'] },
+    cardinality: { type: 'string' },
+    updateConstraint: { type: 'string' },
+    deleteConstraint: { type: 'string' },
+  },
+  required: [
+    'startTableId',
+    'startFieldId',
+    'endTableId',
+    'endFieldId',
+    'name',
+    'cardinality',
+    'updateConstraint',
+    'deleteConstraint',
+    'id',
+  ],
+};
+
+export const areaSchema: IJsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'integer' },
+    name: { type: 'string' },
+    x: { type: 'number' },
+    y: { type: 'number' },
+    width: { type: 'number' },
+    height: { type: 'number' },
+    locked: { type: 'boolean' },
+    color: colorSchema,
+  },
+  required: ['id', 'name', 'x', 'y', 'width', 'height', 'color'],
+};
+
+export const noteSchema: IJsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'integer' },
+    x: { type: 'number' },
+    y: { type: 'number' },
+    title: { type: 'string' },
+    content: { type: 'string' },
+    color: colorSchema,
+    height: { type: 'number' },
+    locked: { type: 'boolean' },
+  },
+  required: ['id', 'x', 'y', 'title', 'content', 'color', 'height'],
+};
+
+export const typeSchema: IJsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    name: { type: 'string' },
+    fields: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          name: { type: 'string' },
+          type: { type: 'string' },
+          values: { type: 'array', items: { type: 'string' } },
+        },
+        required: ['name', 'type'],
+      },
+    },
+    comment: { type: 'string' },
+  },
+  required: ['name', 'fields', 'comment'],
+};
+
+export const enumSchema: IJsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: ['integer', 'string'] },
+    name: { type: 'string' },
+    values: { type: 'array', items: { type: 'string' } },
+  },
+  required: ['name', 'values'],
+};
+
+// Tasks from the editor's todo side sheet
+export const todoSchema: IJsonSchema = {
+  type: 'object',
+  properties: {
+    title: { type: 'string' },
+    details: { type: 'string' },
+    complete: { type: 'boolean' },
+    priority: { type: 'integer' },
+    order: { type: 'integer' },
+  },
+  required: ['title', 'details', 'complete', 'priority'],
+};
+
+const COLLECTION_SCHEMAS: Record<string, IJsonSchema> = {
+  tables: tableSchema,
+  references: relationshipSchema,
+  notes: noteSchema,
+  areas: areaSchema,
+  todos: todoSchema,
+  enums: enumSchema,
+  types: typeSchema,
+};
+
+const NULLABLE_COLLECTIONS = ['enums', 'types'];
+
+// Shape errors for the document collections present in the input; absent ones are not checked
+export function validateDocument(document: Record<string, unknown>): IValidationDetail[] {
+  const details: IValidationDetail[] = [];
+
+  for (const [collection, schema] of Object.entries(COLLECTION_SCHEMAS)) {
+    const value = document[collection];
+    if (value === undefined) continue;
+    if (value === null && NULLABLE_COLLECTIONS.includes(collection)) continue;
+
+    validateSchema(value, { type: 'array', items: schema }, collection, details);
+  }
+
+  return details;
+}
+
+// Relationships whose endpoints name a table or field that does not exist
+export function validateReferences(
+  tables: IDiagramTable[],
+  relationships: IDiagramRelationship[],
+): IValidationDetail[] {
+  const details: IValidationDetail[] = [];
+  const tablesById = new Map(tables.map((table) => [table.id, table]));
+
+  relationships.forEach((relationship, index) => {
+    for (const end of ['start', 'end'] as const) {
+      const tableId = relationship[`${end}TableId`];
+      const fieldId = relationship[`${end}FieldId`];
+      const table = tablesById.get(tableId);
+
+      if (!table) {
+        details.push({
+          field: `references[${index}].${end}TableId`,
+          message: `Table ${tableId} does not exist`,
+        });
+      } else if (!(table.fields ?? []).some((field) => field.id === fieldId)) {
+        details.push({
+          field: `references[${index}].${end}FieldId`,
+          message: `Field ${fieldId} does not exist in table ${table.name}`,
+        });
+      }
+    }
+  });
+
+  return details;
+}
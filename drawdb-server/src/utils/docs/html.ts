@@ -0,0 +1,208 @@
+import { IDiagramNote } from '../../interfaces/diagram-document';
+import { DataDictionary, DocsColumnRef, DocsRelationship, DocsTable } from './model';
+
+const STYLE = `body { font-family: system-ui, sans-serif; margin: 2rem auto; max-width: 72rem; padding: 0 1rem; color: #1f2328; }
+nav { margin-bottom: 1.5rem; }
+table { border-collapse: collapse; margin: 0.5rem 0 1.5rem; }
+th, td { border: 1px solid #d0d7de; padding: 0.35rem 0.6rem; text-align: left; vertical-align: top; }
+th { background: #f6f8fa; }
+code { background: #f6f8fa; border-radius: 4px; padding: 0.1rem 0.3rem; }
+.comment, .note { white-space: pre-wrap; }
+.note { border-left: 4px solid #d4a72c; background: #fff8c5; padding: 0.5rem 1rem; }
+`;
+
+function escape(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function code(value: string): string {
+  return value === '' ? '' : `<code>${escape(value)}</code>`;
+}
+
+// Cells are HTML already; callers escape what they put in them
+function grid(header: string[], rows: string[][]): string {
+  const head = header.map((name) => `<th>${escape(name)}</th>`).join('');
+  const body = rows
+    .map((cells) => `<tr>${cells.map((cell) => `<td>${cell}</td>`).join('')}</tr>`)
+    .join('\n');
+  return `<table>\n<thead><tr>${head}</tr></thead>\n<tbody>\n${body}\n</tbody>\n</table>`;
+}
+
+function page(title: string, root: string, body: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escape(title)}</title>
+<link rel="stylesheet" href="${root}style.css">
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
+
+function tableHref(slug: string, root: string): string {
+  return `${root}tables/${slug}.html`;
+}
+
+function columnLink(ref: DocsColumnRef, root: string): string {
+  return `<a href="${tableHref(ref.slug, root)}">${escape(ref.table)}</a>.${escape(ref.field)}`;
+}
+
+function relationshipGrid(relationships: DocsRelationship[]): string {
+  return grid(
+    ['Name', 'From', 'To', 'Cardinality', 'On update', 'On delete'],
+    relationships.map((relationship) => [
+      escape(relationship.name),
+      columnLink(relationship.from, '../'),
+      columnLink(relationship.to, '../'),
+      escape(relationship.cardinality),
+      escape(relationship.onUpdate),
+      escape(relationship.onDelete),
+    ]),
+  );
+}
+
+function noteBlock(note: IDiagramNote, heading: string): string {
+  return `<${heading}>${escape(note.title)}</${heading}>\n<div class="note">${escape(note.content)}</div>`;
+}
+
+function tablePage(table: DocsTable, dictionary: DataDictionary): string {
+  const parts = [
+    `<nav><a href="../index.html">${escape(dictionary.title)}</a></nav>`,
+    `<h1>${escape(table.name)}</h1>`,
+  ];
+
+  if (table.comment) parts.push(`<p class="comment">${escape(table.comment)}</p>`);
+  if (table.area) parts.push(`<p>Subject area: ${escape(table.area)}</p>`);
+
+  parts.push(
+    '<h2>Columns</h2>',
+    grid(
+      ['Name', 'Type', 'Constraints', 'Default', 'Comment'],
+      table.fields.map((field) => [
+        `<strong>${escape(field.name)}</strong>`,
+        code(field.type) + (field.values.length > 0 ? ` (${escape(field.values.join(', '))})` : ''),
+        escape(field.constraints.join(', ')),
+        code(field.default),
+        `<span class="comment">${escape(field.comment)}</span>`,
+      ]),
+    ),
+  );
+
+  if (table.indices.length > 0) {
+    parts.push(
+      '<h2>Indices</h2>',
+      grid(
+        ['Name', 'Unique', 'Columns'],
+        table.indices.map((index) => [
+          escape(index.name),
+          index.unique ? 'Yes' : 'No',
+          escape(index.fields.join(', ')),
+        ]),
+      ),
+    );
+  }
+  if (table.outgoing.length > 0) {
+    parts.push('<h2>References</h2>', relationshipGrid(table.outgoing));
+  }
+  if (table.incoming.length > 0) {
+    parts.push('<h2>Referenced by</h2>', relationshipGrid(table.incoming));
+  }
+
+  return page(`${table.name} · ${dictionary.title}`, '../', parts.join('\n'));
+}
+
+function indexPage(dictionary: DataDictionary): string {
+  const parts = [
+    `<h1>${escape(dictionary.title)}</h1>`,
+    `<p><strong>Database:</strong> ${escape(dictionary.database)}</p>`,
+    '<h2>Tables</h2>',
+    grid(
+      ['Table', 'Columns', 'Subject area', 'Comment'],
+      dictionary.tables.map((table) => [
+        `<a href="${tableHref(table.slug, '')}">${escape(table.name)}</a>`,
+        String(table.fields.length),
+        escape(table.area ?? ''),
+        `<span class="comment">${escape(table.comment)}</span>`,
+      ]),
+    ),
+  ];
+
+  if (dictionary.enums.length > 0) {
+    parts.push(
+      '<h2>Enums</h2>',
+      ...dictionary.enums.map(
+        (e) =>
+          `<h3>${escape(e.name)}</h3>\n<ul>${e.values
+            .map((value) => `<li>${escape(value)}</li>`)
+            .join('')}</ul>`,
+      ),
+    );
+  }
+
+  if (dictionary.types.length > 0) {
+    parts.push(
+      '<h2>Types</h2>',
+      ...dictionary.types.map((type) =>
+        [
+          `<h3>${escape(type.name)}</h3>`,
+          type.comment && `<p class="comment">${escape(type.comment)}</p>`,
+          grid(
+            ['Field', 'Type'],
+            type.fields.map((field) => [
+              escape(field.name),
+              code(`${field.type}${field.size ? `(${field.size})` : ''}`),
+            ]),
+          ),
+        ]
+          .filter(Boolean)
+          .join('\n'),
+      ),
+    );
+  }
+
+  if (dictionary.areas.length > 0) {
+    parts.push(
+      '<h2>Subject areas</h2>',
+      ...dictionary.areas.map((area) =>
+        [
+          `<h3>${escape(area.name)}</h3>`,
+          area.tables.length > 0 &&
+            `<p>Tables: ${area.tables
+              .map((table) => `<a href="${tableHref(table.slug, '')}">${escape(table.name)}</a>`)
+              .join(', ')}</p>`,
+          ...area.notes.map((note) => noteBlock(note, 'h4')),
+        ]
+          .filter(Boolean)
+          .join('\n'),
+      ),
+    );
+  }
+
+  if (dictionary.notes.length > 0) {
+    parts.push('<h2>Notes</h2>', ...dictionary.notes.map((note) => noteBlock(note, 'h3')));
+  }
+
+  return page(dictionary.title, '', parts.join('\n'));
+}
+
+// The data dictionary as a static site: an index page, a page per table and a stylesheet,
+// keyed by their paths in the bundle
+export function toHtmlPages(dictionary: DataDictionary): Record<string, string> {
+  return {
+    'index.html': indexPage(dictionary),
+    'style.css': STYLE,
+    ...Object.fromEntries(
+      dictionary.tables.map((table) => [`tables/${table.slug}.html`, tablePage(table, dictionary)]),
+    ),
+  };
+}
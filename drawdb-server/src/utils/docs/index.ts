@@ -0,0 +1,19 @@
+import JSZip from 'jszip';
+import { toHtmlPages } from './html';
+import { DataDictionary } from './model';
+
+export { toHtmlPages } from './html';
+export { toMarkdown } from './markdown';
+export { buildDataDictionary, DataDictionary, IDocsInput } from './model';
+
+// The HTML pages zipped under a folder named after the diagram, ready to unpack onto a wiki
+export function toHtmlBundle(dictionary: DataDictionary, folder: string): Promise<Buffer> {
+  const zip = new JSZip();
+  const root = zip.folder(folder) as JSZip;
+
+  for (const [path, content] of Object.entries(toHtmlPages(dictionary))) {
+    root.file(path, content);
+  }
+
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+}
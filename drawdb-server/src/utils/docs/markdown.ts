@@ -0,0 +1,162 @@
+import { IDiagramNote } from '../../interfaces/diagram-document';
+import { DataDictionary, DocsRelationship, DocsTable } from './model';
+
+// Names, comments and notes are shown as written, not read as HTML
+function text(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+// Table cells hold one line and no unescaped pipes
+function cell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+}
+
+function row(values: string[]): string {
+  return `| ${values.map(cell).join(' | ')} |`;
+}
+
+function grid(header: string[], rows: string[][]): string {
+  return [row(header), row(header.map(() => '---')), ...rows.map(row)].join('\n');
+}
+
+function code(value: string): string {
+  return value === '' ? '' : `\`${value}\``;
+}
+
+function columnLink(ref: DocsRelationship['from']): string {
+  return `[${text(ref.table)}](#${ref.slug}).${text(ref.field)}`;
+}
+
+function relationshipGrid(relationships: DocsRelationship[]): string {
+  return grid(
+    ['Name', 'From', 'To', 'Cardinality', 'On update', 'On delete'],
+    relationships.map((relationship) => [
+      text(relationship.name),
+      columnLink(relationship.from),
+      columnLink(relationship.to),
+      relationship.cardinality,
+      relationship.onUpdate,
+      relationship.onDelete,
+    ]),
+  );
+}
+
+function tableSection(table: DocsTable): string {
+  const parts = [`<a id="${table.slug}"></a>\n\n### ${text(table.name)}`];
+
+  if (table.comment) parts.push(text(table.comment));
+  if (table.area) parts.push(`Subject area: ${text(table.area)}`);
+
+  parts.push(
+    grid(
+      ['Name', 'Type', 'Constraints', 'Default', 'Comment'],
+      table.fields.map((field) => [
+        `**${text(field.name)}**`,
+        code(field.type) + (field.values.length > 0 ? ` (${text(field.values.join(', '))})` : ''),
+        text(field.constraints.join(', ')),
+        code(field.default),
+        text(field.comment),
+      ]),
+    ),
+  );
+
+  if (table.indices.length > 0) {
+    parts.push(
+      `#### Indices\n\n${grid(
+        ['Name', 'Unique', 'Columns'],
+        table.indices.map((index) => [
+          text(index.name),
+          index.unique ? 'Yes' : 'No',
+          text(index.fields.join(', ')),
+        ]),
+      )}`,
+    );
+  }
+  if (table.outgoing.length > 0) {
+    parts.push(`#### References\n\n${relationshipGrid(table.outgoing)}`);
+  }
+  if (table.incoming.length > 0) {
+    parts.push(`#### Referenced by\n\n${relationshipGrid(table.incoming)}`);
+  }
+
+  return parts.join('\n\n');
+}
+
+function noteSection(note: IDiagramNote, level: string): string {
+  return `${level} ${text(note.title)}\n\n${text(note.content)}`;
+}
+
+// The data dictionary as a single Markdown document
+export function toMarkdown(dictionary: DataDictionary): string {
+  const contents = [
+    '- [Tables](#tables)',
+    ...dictionary.tables.map((table) => `  - [${text(table.name)}](#${table.slug})`),
+  ];
+  const sections = [`## Tables\n\n${dictionary.tables.map(tableSection).join('\n\n')}`];
+
+  if (dictionary.enums.length > 0) {
+    contents.push('- [Enums](#enums)');
+    sections.push(
+      `## Enums\n\n${dictionary.enums
+        .map(
+          (e) => `### ${text(e.name)}\n\n${e.values.map((value) => `- ${text(value)}`).join('\n')}`,
+        )
+        .join('\n\n')}`,
+    );
+  }
+
+  if (dictionary.types.length > 0) {
+    contents.push('- [Types](#types)');
+    sections.push(
+      `## Types\n\n${dictionary.types
+        .map((type) =>
+          [
+            `### ${text(type.name)}`,
+            text(type.comment),
+            grid(
+              ['Field', 'Type'],
+              type.fields.map((field) => [
+                text(field.name),
+                code(`${field.type}${field.size ? `(${field.size})` : ''}`),
+              ]),
+            ),
+          ]
+            .filter(Boolean)
+            .join('\n\n'),
+        )
+        .join('\n\n')}`,
+    );
+  }
+
+  if (dictionary.areas.length > 0) {
+    contents.push('- [Subject areas](#subject-areas)');
+    sections.push(
+      `## Subject areas\n\n${dictionary.areas
+        .map((area) =>
+          [
+            `### ${text(area.name)}`,
+            area.tables.length > 0 &&
+              `Tables: ${area.tables.map((table) => `[${text(table.name)}](#${table.slug})`).join(', ')}`,
+            ...area.notes.map((note) => noteSection(note, '####')),
+          ]
+            .filter(Boolean)
+            .join('\n\n'),
+        )
+        .join('\n\n')}`,
+    );
+  }
+
+  if (dictionary.notes.length > 0) {
+    contents.push('- [Notes](#notes)');
+    sections.push(
+      `## Notes\n\n${dictionary.notes.map((note) => noteSection(note, '###')).join('\n\n')}`,
+    );
+  }
+
+  return `${[
+    `# ${text(dictionary.title)}`,
+    `**Database:** ${text(dictionary.database)}`,
+    `## Contents\n\n${contents.join('\n')}`,
+    ...sections,
+  ].join('\n\n')}\n`;
+}
@@ -0,0 +1,207 @@
+import {
+  IDiagramArea,
+  IDiagramEnum,
+  IDiagramField,
+  IDiagramIndex,
+  IDiagramNote,
+  IDiagramRelationship,
+  IDiagramTable,
+  IDiagramType,
+} from '../../interfaces/diagram-document';
+import { isInsideRect, noteRect, Rect, tableRect } from '../diagram-layout';
+import { SqlDatabase, typeTraits } from '../export-sql/data-types';
+import { relationshipEnds } from '../export-sql/shared';
+
+// What the documentation export reads from a diagram
+export interface IDocsInput {
+  name: string;
+  database: string;
+  tables: IDiagramTable[];
+  references: IDiagramRelationship[];
+  enums: IDiagramEnum[];
+  types: IDiagramType[];
+  areas: IDiagramArea[];
+  notes: IDiagramNote[];
+}
+
+export interface DocsField {
+  name: string;
+  type: string;
+  constraints: string[];
+  default: string;
+  comment: string;
+  values: string[];
+}
+
+export interface DocsColumnRef {
+  table: string;
+  slug: string;
+  field: string;
+}
+
+export interface DocsRelationship {
+  name: string;
+  from: DocsColumnRef;
+  to: DocsColumnRef;
+  cardinality: string;
+  onUpdate: string;
+  onDelete: string;
+}
+
+export interface DocsTable {
+  name: string;
+  // Anchor in the Markdown document and page name in the HTML bundle, unique in the diagram
+  slug: string;
+  comment: string;
+  area: string | null;
+  fields: DocsField[];
+  indices: IDiagramIndex[];
+  outgoing: DocsRelationship[];
+  incoming: DocsRelationship[];
+}
+
+export interface DocsArea {
+  name: string;
+  tables: DocsTable[];
+  notes: IDiagramNote[];
+}
+
+// The diagram as a data dictionary, ready for either renderer
+export interface DataDictionary {
+  title: string;
+  database: string;
+  tables: DocsTable[];
+  enums: IDiagramEnum[];
+  types: IDiagramType[];
+  areas: DocsArea[];
+  // Notes lying outside every subject area
+  notes: IDiagramNote[];
+}
+
+// Display names from drawdb/src/data/databases.js
+const DATABASE_NAMES: Record<string, string> = {
+  [SqlDatabase.MYSQL]: 'MySQL',
+  [SqlDatabase.POSTGRES]: 'PostgreSQL',
+  [SqlDatabase.SQLITE]: 'SQLite',
+  [SqlDatabase.MARIADB]: 'MariaDB',
+  [SqlDatabase.MSSQL]: 'MSSQL',
+  [SqlDatabase.ORACLESQL]: 'Oracle SQL',
+  [SqlDatabase.GENERIC]: 'Generic',
+};
+
+function fieldType(field: IDiagramField, database: string): string {
+  const traits = typeTraits(database, field.type);
+  const sized = (traits.isSized || traits.hasPrecision) && field.size !== undefined;
+  const size = sized && String(field.size) !== '' ? `(${field.size})` : '';
+  return `${field.type}${size}${field.isArray ? '[]' : ''}`;
+}
+
+function fieldConstraints(field: IDiagramField): string[] {
+  return [
+    field.primary && 'PRIMARY KEY',
+    field.notNull ? 'NOT NULL' : 'NULL',
+    field.unique && 'UNIQUE',
+    field.increment && 'AUTOINCREMENT',
+    field.unsigned && 'UNSIGNED',
+    field.check && `CHECK (${field.check})`,
+  ].filter((constraint): constraint is string => Boolean(constraint));
+}
+
+function docsField(field: IDiagramField, database: string): DocsField {
+  return {
+    name: field.name,
+    type: fieldType(field, database),
+    constraints: fieldConstraints(field),
+    default: field.default === '' || field.default === undefined ? '' : String(field.default),
+    comment: field.comment ?? '',
+    values: field.values ?? [],
+  };
+}
+
+// URL- and file-safe slugs, numbered when two names slug alike
+function slugger(): (name: string) => string {
+  const used = new Set<string>();
+
+  return (name) => {
+    const base =
+      name
+        .toLowerCase()
+        .replace(/[^a-z0-9_-]+/g, '-')
+        .replace(/^-+|-+$/g, '') || 'table';
+    let slug = base;
+    for (let n = 2; used.has(slug); n++) slug = `${base}-${n}`;
+    used.add(slug);
+    return slug;
+  };
+}
+
+// The first area drawn around each table and note, as the DBML export groups tables
+function areaOf<T>(areas: IDiagramArea[], rect: (item: T) => Rect) {
+  return (item: T): IDiagramArea | null =>
+    areas.find((area) => isInsideRect(rect(item), area)) ?? null;
+}
+
+export function buildDataDictionary(input: IDocsInput): DataDictionary {
+  const slug = slugger();
+  const slugs = new Map(input.tables.map((table) => [table.id, slug(table.name)]));
+  const tableArea = areaOf(input.areas, tableRect);
+  const noteArea = areaOf(input.areas, noteRect);
+
+  const relationships = input.references.flatMap((relationship) => {
+    const ends = relationshipEnds(relationship, input.tables);
+    if (!ends) return [];
+
+    const docs: DocsRelationship = {
+      name: relationship.name,
+      from: {
+        table: ends.startTable.name,
+        slug: slugs.get(ends.startTable.id) as string,
+        field: ends.startField.name,
+      },
+      to: {
+        table: ends.endTable.name,
+        slug: slugs.get(ends.endTable.id) as string,
+        field: ends.endField.name,
+      },
+      cardinality: relationship.cardinality.replace(/_/g, ' '),
+      onUpdate: relationship.updateConstraint,
+      onDelete: relationship.deleteConstraint,
+    };
+    return [{ relationship, docs }];
+  });
+
+  const tables = input.tables.map(
+    (table): DocsTable => ({
+      name: table.name,
+      slug: slugs.get(table.id) as string,
+      comment: table.comment ?? '',
+      area: tableArea(table)?.name ?? null,
+      fields: table.fields.map((field) => docsField(field, input.database)),
+      indices: table.indices,
+      outgoing: relationships
+        .filter(({ relationship }) => relationship.startTableId === table.id)
+        .map(({ docs }) => docs),
+      incoming: relationships
+        .filter(({ relationship }) => relationship.endTableId === table.id)
+        .map(({ docs }) => docs),
+    }),
+  );
+
+  const areas = input.areas.map(
+    (area): DocsArea => ({
+      name: area.name,
+      tables: tables.filter((_, i) => tableArea(input.tables[i]) === area),
+      notes: input.notes.filter((note) => noteArea(note) === area),
+    }),
+  );
+
+  return {
+    title: input.name,
+    database: DATABASE_NAMES[input.database] ?? input.database,
+    tables,
+    enums: input.enums,
+    types: input.types,
+    areas: areas.filter((area) => area.tables.length > 0 || area.notes.length > 0),
+    notes: input.notes.filter((note) => noteArea(note) === null),
+  };
+}
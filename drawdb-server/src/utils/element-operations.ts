@@ -0,0 +1,127 @@
+import { ElementId, IDiagramRelationship, IDiagramTable } from '../interfaces/diagram-document';
+import { IDiagramSnapshot } from '../interfaces/diagram-snapshot';
+import { IElementOperation } from '../interfaces/element-operation';
+import { IJsonPatchOperation } from '../interfaces/json-patch-operation';
+import { JsonPatchError } from './json-patch';
+
+export const ELEMENT_OPERATION_KINDS = [
+  'move_table',
+  'add_table',
+  'edit_table',
+  'delete_table',
+  'add_field',
+  'edit_field',
+  'delete_field',
+  'add_relationship',
+  'edit_relationship',
+  'delete_relationship',
+  'patch',
+];
+
+// Properties an edit_* operation may not overwrite
+const PROTECTED_PROPERTIES = ['id', 'fields', 'indices'];
+
+function indexOf(items: Array<{ id: ElementId }>, id: ElementId, label: string): number {
+  const index = items.findIndex((item) => item.id === id);
+  if (index === -1) {
+    throw new JsonPatchError(0, `${label} ${id} not found`);
+  }
+  return index;
+}
+
+function replaceProperties(path: string, changes: object): IJsonPatchOperation[] {
+  return Object.entries(changes)
+    .filter(([key]) => !PROTECTED_PROPERTIES.includes(key))
+    .map(([key, value]) => ({ op: 'add', path: `${path}/${key}`, value }));
+}
+
+// Removal of the relationships matching `attached`, highest index first so earlier paths stay valid
+function removeRelationships(
+  relationships: IDiagramRelationship[],
+  attached: (relationship: IDiagramRelationship) => boolean,
+): IJsonPatchOperation[] {
+  return relationships
+    .map((relationship, index) => ({ relationship, index }))
+    .filter(({ relationship }) => attached(relationship))
+    .reverse()
+    .map(({ index }) => ({ op: 'remove', path: `/references/${index}` }));
+}
+
+// Translate an id-addressed element operation into JSON Patch against the given document.
+// Element ids stay stable across versions, so the same operation can be replayed on any base.
+export function toPatchOperations(
+  document: IDiagramSnapshot,
+  operation: IElementOperation,
+): IJsonPatchOperation[] {
+  const tables = document.tables as IDiagramTable[];
+  const relationships = document.references as IDiagramRelationship[];
+
+  switch (operation.kind) {
+    case 'move_table': {
+      const t = indexOf(tables, operation.tableId, 'Table');
+      return [
+        { op: 'replace', path: `/tables/${t}/x`, value: operation.x },
+        { op: 'replace', path: `/tables/${t}/y`, value: operation.y },
+      ];
+    }
+    case 'add_table':
+      return [{ op: 'add', path: '/tables/-', value: operation.table }];
+    case 'edit_table':
+      return replaceProperties(
+        `/tables/${indexOf(tables, operation.tableId, 'Table')}`,
+        operation.changes,
+      );
+    case 'delete_table': {
+      const t = indexOf(tables, operation.tableId, 'Table');
+      // Relationships attached to the table go with it
+      const attached = removeRelationships(
+        relationships,
+        (relationship) =>
+          relationship.startTableId === operation.tableId ||
+          relationship.endTableId === operation.tableId,
+      );
+      return [...attached, { op: 'remove', path: `/tables/${t}` }];
+    }
+    case 'add_field': {
+      const t = indexOf(tables, operation.tableId, 'Table');
+      return [{ op: 'add', path: `/tables/${t}/fields/-`, value: operation.field }];
+    }
+    case 'edit_field': {
+      const t = indexOf(tables, operation.tableId, 'Table');
+      const f = indexOf(tables[t].fields, operation.fieldId, 'Field');
+      return replaceProperties(`/tables/${t}/fields/${f}`, operation.changes);
+    }
+    case 'delete_field': {
+      const t = indexOf(tables, operation.tableId, 'Table');
+      const f = indexOf(tables[t].fields, operation.fieldId, 'Field');
+      // As in the editor, relationships using the field are deleted with it
+      const attached = removeRelationships(
+        relationships,
+        (relationship) =>
+          (relationship.startTableId === operation.tableId &&
+            relationship.startFieldId === operation.fieldId) ||
+          (relationship.endTableId === operation.tableId &&
+            relationship.endFieldId === operation.fieldId),
+      );
+      return [...attached, { op: 'remove', path: `/tables/${t}/fields/${f}` }];
+    }
+    case 'add_relationship':
+      return [{ op: 'add', path: '/references/-', value: operation.relationship }];
+    case 'edit_relationship':
+      return replaceProperties(
+        `/references/${indexOf(relationships, operation.relationshipId, 'Relationship')}`,
+        operation.changes,
+      );
+    case 'delete_relationship':
+      return [
+        {
+          op: 'remove',
+          path: `/references/${indexOf(relationships, operation.relationshipId, 'Relationship')}`,
+        },
+      ];
+    case 'patch':
+      return operation.operations;
+    default:
+      throw new JsonPatchError(0, `Unknown operation "${(operation as { kind: string }).kind}"`);
+  }
+}
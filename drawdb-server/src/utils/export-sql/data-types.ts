@@ -0,0 +1,524 @@
+// Per-dialect type names and type traits, taken from drawdb/src/data/datatypes.js
+
+export enum SqlDatabase {
+  MYSQL = 'mysql',
+  POSTGRES = 'postgresql',
+  MSSQL = 'transactsql',
+  SQLITE = 'sqlite',
+  MARIADB = 'mariadb',
+  ORACLESQL = 'oraclesql',
+  GENERIC = 'generic',
+}
+
+export interface ITypeTraits {
+  hasQuotes?: boolean;
+  hasCheck?: boolean;
+  isSized?: boolean;
+  hasPrecision?: boolean;
+  signed?: boolean;
+}
+
+type TraitLists = Partial<Record<keyof ITypeTraits, string[]>>;
+
+function traits(lists: TraitLists): Map<string, ITypeTraits> {
+  const types = new Map<string, ITypeTraits>();
+  for (const [trait, names] of Object.entries(lists) as Array<[keyof ITypeTraits, string[]]>) {
+    for (const name of names) {
+      types.set(name, { ...types.get(name), [trait]: true });
+    }
+  }
+  return types;
+}
+
+// Built-in types of generic diagrams; any other field type names a custom type
+export const GENERIC_TYPES = [
+  'INT',
+  'SMALLINT',
+  'BIGINT',
+  'DECIMAL',
+  'NUMERIC',
+  'NUMBER',
+  'FLOAT',
+  'DOUBLE',
+  'REAL',
+  'CHAR',
+  'VARCHAR',
+  'VARCHAR2',
+  'TEXT',
+  'TIME',
+  'TIMESTAMP',
+  'DATE',
+  'DATETIME',
+  'BOOLEAN',
+  'BINARY',
+  'VARBINARY',
+  'BLOB',
+  'CLOB',
+  'NCLOB',
+  'JSON',
+  'UUID',
+  'ENUM',
+  'SET',
+];
+
+// Every built-in type of each dialect, in the editor's order
+const TYPE_NAMES: Record<SqlDatabase, string[]> = {
+  [SqlDatabase.GENERIC]: GENERIC_TYPES,
+  [SqlDatabase.MYSQL]: [
+    'TINYINT',
+    'SMALLINT',
+    'MEDIUMINT',
+    'INTEGER',
+    'BIGINT',
+    'DECIMAL',
+    'NUMERIC',
+    'FLOAT',
+    'DOUBLE',
+    'BIT',
+    'BOOLEAN',
+    'TIME',
+    'TIMESTAMP',
+    'DATE',
+    'DATETIME',
+    'YEAR',
+    'CHAR',
+    'VARCHAR',
+    'BINARY',
+    'VARBINARY',
+    'TINYBLOB',
+    'BLOB',
+    'MEDIUMBLOB',
+    'LONGBLOB',
+    'TINYTEXT',
+    'TEXT',
+    'MEDIUMTEXT',
+    'LONGTEXT',
+    'ENUM',
+    'SET',
+    'GEOMETRY',
+    'POINT',
+    'LINESTRING',
+    'POLYGON',
+    'MULTIPOINT',
+    'MULTILINESTRING',
+    'MULTIPOLYGON',
+    'GEOMETRYCOLLECTION',
+    'JSON',
+  ],
+  [SqlDatabase.POSTGRES]: [
+    'SMALLINT',
+    'INTEGER',
+    'BIGINT',
+    'DECIMAL',
+    'NUMERIC',
+    'REAL',
+    'DOUBLE PRECISION',
+    'SMALLSERIAL',
+    'SERIAL',
+    'BIGSERIAL',
+    'MONEY',
+    'CHAR',
+    'VARCHAR',
+    'TEXT',
+    'BYTEA',
+    'DATE',
+    'TIME',
+    'TIMETZ',
+    'TIMESTAMP',
+    'TIMESTAMPTZ',
+    'INTERVAL',
+    'BOOLEAN',
+    'POINT',
+    'LINE',
+    'LSEG',
+    'BOX',
+    'PATH',
+    'POLYGON',
+    'CIRCLE',
+    'CIDR',
+    'INET',
+    'MACADDR',
+    'MACADDR8',
+    'BIT',
+    'VARBIT',
+    'VECTOR',
+    'HALFVEC',
+    'SPARSEVEC',
+    'TSVECTOR',
+    'TSQUERY',
+    'JSON',
+    'JSONB',
+    'UUID',
+    'XML',
+  ],
+  [SqlDatabase.SQLITE]: [
+    'INTEGER',
+    'REAL',
+    'NUMERIC',
+    'BOOLEAN',
+    'VARCHAR',
+    'TEXT',
+    'BLOB',
+    'TIME',
+    'TIMESTAMP',
+    'DATE',
+    'DATETIME',
+  ],
+  [SqlDatabase.MSSQL]: [
+    'TINYINT',
+    'SMALLINT',
+    'INTEGER',
+    'BIGINT',
+    'BIT',
+    'DECIMAL',
+    'NUMERIC',
+    'FLOAT',
+    'DOUBLE',
+    'REAL',
+    'MONEY',
+    'SMALLMONEY',
+    'DATE',
+    'DATETIME',
+    'DATETIME2',
+    'DATETIMEOFFSET',
+    'SMALLDATETIME',
+    'TIME',
+    'TIMESTAMP',
+    'CHAR',
+    'VARCHAR',
+    'TEXT',
+    'NCHAR',
+    'NVARCHAR',
+    'NTEXT',
+    'BINARY',
+    'VARBINARY',
+    'IMAGE',
+    'UNIQUEIDENTIFIER',
+    'XML',
+    'CURSOR',
+    'SQL_VARIANT',
+    'JSON',
+  ],
+  [SqlDatabase.MARIADB]: [
+    'TINYINT',
+    'SMALLINT',
+    'MEDIUMINT',
+    'INTEGER',
+    'BIGINT',
+    'DECIMAL',
+    'NUMERIC',
+    'FLOAT',
+    'DOUBLE',
+    'BIT',
+    'BOOLEAN',
+    'TIME',
+    'TIMESTAMP',
+    'DATE',
+    'DATETIME',
+    'YEAR',
+    'CHAR',
+    'VARCHAR',
+    'BINARY',
+    'VARBINARY',
+    'TINYBLOB',
+    'BLOB',
+    'MEDIUMBLOB',
+    'LONGBLOB',
+    'TINYTEXT',
+    'TEXT',
+    'MEDIUMTEXT',
+    'LONGTEXT',
+    'ENUM',
+    'SET',
+    'GEOMETRY',
+    'POINT',
+    'LINESTRING',
+    'POLYGON',
+    'MULTIPOINT',
+    'MULTILINESTRING',
+    'MULTIPOLYGON',
+    'GEOMETRYCOLLECTION',
+    'JSON',
+    'UUID',
+    'INET4',
+    'INET6',
+  ],
+  [SqlDatabase.ORACLESQL]: [
+    'INTEGER',
+    'NUMBER',
+    'FLOAT',
+    'LONG',
+    'VARCHAR2',
+    'NVARCHAR2',
+    'CHAR',
+    'NCHAR',
+    'CLOB',
+    'NCLOB',
+    'BLOB',
+    'BFILE',
+    'JSON',
+    'VECTOR',
+    'DATE',
+    'TIMESTAMP',
+    'INTERVAL',
+    'BOOLEAN',
+    'RAW',
+  ],
+};
+
+const TYPE_TRAITS: Record<SqlDatabase, Map<string, ITypeTraits>> = {
+  [SqlDatabase.GENERIC]: traits({
+    hasQuotes: [
+      'CHAR',
+      'VARCHAR',
+      'VARCHAR2',
+      'TEXT',
+      'TIME',
+      'TIMESTAMP',
+      'DATE',
+      'DATETIME',
+      'BINARY',
+      'VARBINARY',
+      'ENUM',
+    ],
+    hasCheck: [
+      'INT',
+      'SMALLINT',
+      'BIGINT',
+      'DECIMAL',
+      'NUMERIC',
+      'NUMBER',
+      'FLOAT',
+      'DOUBLE',
+      'REAL',
+      'CHAR',
+      'VARCHAR',
+      'VARCHAR2',
+    ],
+    isSized: ['CHAR', 'VARCHAR', 'VARCHAR2', 'TEXT', 'BINARY', 'VARBINARY'],
+    hasPrecision: ['DECIMAL', 'NUMERIC', 'NUMBER', 'FLOAT', 'DOUBLE'],
+  }),
+  [SqlDatabase.MYSQL]: traits({
+    hasQuotes: [
+      'TIME',
+      'TIMESTAMP',
+      'DATE',
+      'DATETIME',
+      'CHAR',
+      'VARCHAR',
+      'BINARY',
+      'VARBINARY',
+      'TINYTEXT',
+      'TEXT',
+      'MEDIUMTEXT',
+      'LONGTEXT',
+      'ENUM',
+    ],
+    hasCheck: [
+      'TINYINT',
+      'SMALLINT',
+      'MEDIUMINT',
+      'INTEGER',
+      'BIGINT',
+      'DECIMAL',
+      'NUMERIC',
+      'FLOAT',
+      'DOUBLE',
+      'BIT',
+      'CHAR',
+      'VARCHAR',
+      'TINYTEXT',
+      'TEXT',
+      'MEDIUMTEXT',
+      'LONGTEXT',
+    ],
+    isSized: [
+      'CHAR',
+      'VARCHAR',
+      'BINARY',
+      'VARBINARY',
+      'TINYTEXT',
+      'TEXT',
+      'MEDIUMTEXT',
+      'LONGTEXT',
+    ],
+    hasPrecision: ['DECIMAL', 'NUMERIC', 'FLOAT', 'DOUBLE', 'BIT'],
+    signed: ['TINYINT', 'SMALLINT', 'MEDIUMINT', 'INTEGER', 'BIGINT'],
+  }),
+  [SqlDatabase.POSTGRES]: traits({
+    hasQuotes: [
+      'CHAR',
+      'VARCHAR',
+      'TEXT',
+      'BYTEA',
+      'DATE',
+      'TIME',
+      'TIMETZ',
+      'TIMESTAMP',
+      'TIMESTAMPTZ',
+      'INTERVAL',
+      'BOX',
+      'PATH',
+      'POLYGON',
+      'CIRCLE',
+      'CIDR',
+      'INET',
+      'MACADDR',
+      'MACADDR8',
+      'VECTOR',
+      'HALFVEC',
+      'SPARSEVEC',
+      'JSON',
+      'JSONB',
+      'UUID',
+      'XML',
+    ],
+    hasCheck: [
+      'SMALLINT',
+      'INTEGER',
+      'BIGINT',
+      'DECIMAL',
+      'NUMERIC',
+      'REAL',
+      'DOUBLE PRECISION',
+      'SMALLSERIAL',
+      'SERIAL',
+      'BIGSERIAL',
+      'MONEY',
+      'CHAR',
+      'VARCHAR',
+      'TEXT',
+      'BIT',
+      'VARBIT',
+      'VECTOR',
+      'HALFVEC',
+      'SPARSEVEC',
+    ],
+    isSized: ['CHAR', 'VARCHAR', 'BIT', 'VARBIT', 'VECTOR', 'HALFVEC', 'SPARSEVEC'],
+    hasPrecision: ['DECIMAL', 'NUMERIC', 'REAL', 'DOUBLE PRECISION', 'MONEY'],
+  }),
+  [SqlDatabase.SQLITE]: traits({
+    hasQuotes: ['VARCHAR', 'TEXT', 'TIME', 'TIMESTAMP', 'DATE', 'DATETIME'],
+    hasCheck: ['INTEGER', 'REAL', 'NUMERIC', 'VARCHAR', 'TEXT'],
+    isSized: ['VARCHAR', 'TEXT'],
+    hasPrecision: ['REAL', 'NUMERIC'],
+  }),
+  [SqlDatabase.MSSQL]: traits({
+    hasQuotes: [
+      'DATE',
+      'DATETIME',
+      'DATETIME2',
+      'DATETIMEOFFSET',
+      'SMALLDATETIME',
+      'TIME',
+      'TIMESTAMP',
+      'CHAR',
+      'VARCHAR',
+      'TEXT',
+      'NCHAR',
+      'NVARCHAR',
+      'NTEXT',
+      'BINARY',
+      'VARBINARY',
+      'IMAGE',
+      'XML',
+      'JSON',
+    ],
+    hasCheck: [
+      'TINYINT',
+      'SMALLINT',
+      'INTEGER',
+      'BIGINT',
+      'BIT',
+      'DECIMAL',
+      'NUMERIC',
+      'FLOAT',
+      'DOUBLE',
+      'REAL',
+      'MONEY',
+      'SMALLMONEY',
+      'CHAR',
+      'VARCHAR',
+      'NCHAR',
+      'NVARCHAR',
+    ],
+    isSized: ['CHAR', 'VARCHAR', 'TEXT', 'NCHAR', 'NVARCHAR', 'NTEXT', 'BINARY', 'VARBINARY'],
+    hasPrecision: [
+      'BIT',
+      'DECIMAL',
+      'NUMERIC',
+      'FLOAT',
+      'DOUBLE',
+      'MONEY',
+      'SMALLMONEY',
+      'DATETIME2',
+      'DATETIMEOFFSET',
+    ],
+  }),
+  [SqlDatabase.MARIADB]: traits({
+    hasQuotes: [
+      'TIME',
+      'TIMESTAMP',
+      'DATE',
+      'DATETIME',
+      'CHAR',
+      'VARCHAR',
+      'BINARY',
+      'VARBINARY',
+      'TINYTEXT',
+      'TEXT',
+      'MEDIUMTEXT',
+      'LONGTEXT',
+      'ENUM',
+    ],
+    hasCheck: [
+      'TINYINT',
+      'SMALLINT',
+      'MEDIUMINT',
+      'INTEGER',
+      'BIGINT',
+      'DECIMAL',
+      'NUMERIC',
+      'FLOAT',
+      'DOUBLE',
+      'BIT',
+      'CHAR',
+      'VARCHAR',
+      'TINYTEXT',
+      'TEXT',
+      'MEDIUMTEXT',
+      'LONGTEXT',
+      'UUID',
+      'INET4',
+      'INET6',
+    ],
+    isSized: [
+      'CHAR',
+      'VARCHAR',
+      'BINARY',
+      'VARBINARY',
+      'TINYTEXT',
+      'TEXT',
+      'MEDIUMTEXT',
+      'LONGTEXT',
+    ],
+    hasPrecision: ['DECIMAL', 'NUMERIC', 'FLOAT', 'DOUBLE', 'BIT'],
+    signed: ['TINYINT', 'SMALLINT', 'MEDIUMINT', 'INTEGER', 'BIGINT'],
+  }),
+  [SqlDatabase.ORACLESQL]: traits({
+    hasQuotes: ['VARCHAR2', 'NVARCHAR2', 'CHAR', 'NCHAR', 'DATE', 'TIMESTAMP', 'INTERVAL'],
+    hasCheck: ['INTEGER', 'NUMBER', 'FLOAT', 'LONG', 'VARCHAR2', 'NVARCHAR2', 'CHAR', 'NCHAR'],
+    isSized: ['VARCHAR2', 'NVARCHAR2', 'CHAR', 'NCHAR', 'RAW'],
+    hasPrecision: ['NUMBER', 'FLOAT', 'TIMESTAMP'],
+  }),
+};
+
+// Traits of a type in a dialect; unknown types (enums, custom types) have none
+export function typeTraits(database: string, type: string): ITypeTraits {
+  return TYPE_TRAITS[database as SqlDatabase]?.get(type) ?? {};
+}
+
+// Whether the dialect has a built-in type of this name
+export function isBuiltInType(database: string, type: string): boolean {
+  return TYPE_NAMES[database as SqlDatabase]?.includes(type) ?? false;
+}
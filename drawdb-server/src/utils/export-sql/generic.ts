@@ -0,0 +1,554 @@
+import {
+  IDiagramField,
+  IDiagramRelationship,
+  IDiagramTypeField,
+} from '../../interfaces/diagram-document';
+import { GENERIC_TYPES, SqlDatabase, typeTraits } from './data-types';
+import {
+  escapeQuotes,
+  getInlineFK,
+  hasCheck,
+  hasDefault,
+  ISqlExportInput,
+  parseDefault,
+  primaryKeyNames,
+  referentialActions,
+  relationshipEnds,
+} from './shared';
+
+// Generic diagrams are not tied to a dialect and can be exported to any of them. Types are
+// translated per dialect; custom types become JSON columns, composite types or domains.
+
+type TypedField = Pick<IDiagramField, 'name' | 'type'> &
+  Partial<Pick<IDiagramField, 'size' | 'values' | 'increment'>>;
+
+function isCustomType(field: TypedField): boolean {
+  return !GENERIC_TYPES.includes(field.type);
+}
+
+function getJsonType(field: IDiagramTypeField): string {
+  if (isCustomType(field)) {
+    return '{ "type" : "object", additionalProperties : true }';
+  }
+  switch (field.type) {
+    case 'INT':
+    case 'SMALLINT':
+    case 'BIGINT':
+    case 'DECIMAL':
+    case 'NUMERIC':
+    case 'REAL':
+    case 'FLOAT':
+      return '{ "type" : "number" }';
+    case 'BOOLEAN':
+      return '{ "type" : "boolean" }';
+    case 'JSON':
+      return '{ "type" : "object", "additionalProperties" : true }';
+    case 'ENUM':
+      return `{\n\t\t\t\t\t"type" : "string",\n\t\t\t\t\t"enum" : [${(field.values ?? [])
+        .map((v) => `"${v}"`)
+        .join(', ')}]\n\t\t\t\t}`;
+    case 'SET':
+      return `{\n\t\t\t\t\t"type": "array",\n\t\t\t\t\t"items": {\n\t\t\t\t\t\t"type": "string",\n\t\t\t\t\t\t"enum": [${(
+        field.values ?? []
+      )
+        .map((v) => `"${v}"`)
+        .join(', ')}]\n\t\t\t\t\t}\n\t\t\t\t}`;
+    default:
+      return '{ "type" : "string"}';
+  }
+}
+
+// JSON Schema of a custom type, used to CHECK JSON columns in MySQL and MariaDB
+function generateSchema(fields: IDiagramTypeField[]): string {
+  return `{\n\t\t\t"$schema": "http://json-schema.org/draft-04/schema#",\n\t\t\t"type": "object",\n\t\t\t"properties": {\n\t\t\t\t${fields
+    .map((f) => `"${f.name}" : ${getJsonType(f)}`)
+    .join(',\n\t\t\t\t')}\n\t\t\t},\n\t\t\t"additionalProperties": false\n\t\t}`;
+}
+
+// CHECK clause for a MySQL/MariaDB column: the field's own check, or schema validation of
+// custom-typed JSON columns
+function mysqlCheck(field: IDiagramField, input: ISqlExportInput, quote: '"' | "'"): string {
+  if (hasCheck(field, input.database)) {
+    return ` CHECK(${field.check})`;
+  }
+  if (!isCustomType(field)) {
+    return '';
+  }
+
+  const type = input.types.find((t) => t.name === field.type.toLowerCase());
+  return ` CHECK(\n\t\tJSON_SCHEMA_VALID(${quote}${generateSchema(type?.fields ?? [])}${quote}, \`${field.name}\`))`;
+}
+
+function enumValues(field: TypedField): string {
+  return (field.values ?? []).map((v) => `'${v}'`).join(', ');
+}
+
+export function getTypeString(
+  field: TypedField,
+  currentDb: string,
+  dbms: SqlDatabase = SqlDatabase.MYSQL,
+  baseType = false,
+): string {
+  const traits = typeTraits(currentDb, field.type);
+
+  if (dbms === SqlDatabase.MYSQL) {
+    if (field.type === 'UUID') {
+      return `VARCHAR(36)`;
+    }
+    if (traits.isSized || traits.hasPrecision) {
+      return `${field.type}${field.size ? `(${field.size})` : ''}`;
+    }
+    if (field.type === 'SET' || field.type === 'ENUM') {
+      return `${field.type}(${(field.values ?? []).map((v) => `"${v}"`).join(', ')})`;
+    }
+    if (isCustomType(field)) {
+      return 'JSON';
+    }
+    return field.type;
+  }
+
+  if (dbms === SqlDatabase.POSTGRES) {
+    if (field.type === 'SMALLINT' && field.increment) {
+      return 'smallserial';
+    }
+    if (field.type === 'INT' && field.increment) {
+      return 'serial';
+    }
+    if (field.type === 'BIGINT' && field.increment) {
+      return 'bigserial';
+    }
+    if (field.type === 'ENUM') {
+      return `${field.name}_t`;
+    }
+    if (field.type === 'SET') {
+      return `${field.name}_t[]`;
+    }
+    if (field.type === 'TIMESTAMP') {
+      return 'TIMESTAMPTZ';
+    }
+    if (field.type === 'DATETIME') {
+      return `timestamp`;
+    }
+    if (traits.isSized && field.size) {
+      const type =
+        field.type === 'BINARY'
+          ? 'bit'
+          : field.type === 'VARBINARY'
+            ? 'bit varying'
+            : field.type.toLowerCase();
+      return `${type}(${field.size})`;
+    }
+    if (traits.hasPrecision && field.size && String(field.size).trim() !== '') {
+      return `${field.type.toLowerCase()}(${field.size})`;
+    }
+    return field.type.toLowerCase();
+  }
+
+  if (dbms === SqlDatabase.MSSQL) {
+    let type = field.type;
+    switch (field.type) {
+      case 'ENUM':
+        return baseType
+          ? 'NVARCHAR(255)'
+          : `NVARCHAR(255) CHECK([${field.name}] in (${enumValues(field)}))`;
+      case 'VARCHAR':
+        type = `NVARCHAR`;
+        break;
+      case 'UUID':
+        type = 'UNIQUEIDENTIFIER';
+        break;
+      case 'DOUBLE':
+        type = 'FLOAT';
+        break;
+      case 'BOOLEAN':
+        return 'BIT';
+      case 'SET':
+        return 'NVARCHAR(255)';
+      case 'BLOB':
+        return 'VARBINARY(MAX)';
+      case 'JSON':
+        return 'NVARCHAR(MAX)';
+      case 'TEXT':
+        return 'TEXT';
+    }
+    if (traits.isSized && field.size) {
+      return `${type}(${field.size})`;
+    }
+    return type;
+  }
+
+  if (dbms === SqlDatabase.ORACLESQL) {
+    let oracleType: string;
+    switch (field.type) {
+      case 'BIGINT':
+        oracleType = 'NUMBER';
+        break;
+      case 'VARCHAR':
+        oracleType = 'VARCHAR2';
+        break;
+      case 'TEXT':
+        oracleType = 'CLOB';
+        break;
+      case 'TIME':
+      case 'DATETIME':
+        oracleType = 'TIMESTAMP';
+        break;
+      case 'BINARY':
+      case 'VARBINARY':
+        oracleType = 'RAW';
+        break;
+      case 'UUID':
+        oracleType = 'RAW(16)';
+        break;
+      case 'SET':
+      case 'ENUM':
+        oracleType = field.name + '_t';
+        break;
+      default:
+        oracleType = field.type;
+        break;
+    }
+    const oracleTraits = typeTraits(currentDb, oracleType);
+    if (oracleTraits.isSized || oracleTraits.hasPrecision) {
+      if (oracleType === 'NUMBER') {
+        return `${oracleType}${field.size ? `(${field.size})` : '(38,0)'}`;
+      }
+      return `${oracleType}${field.size ? `(${field.size})` : ''}`;
+    }
+    return oracleType;
+  }
+
+  return field.type;
+}
+
+export function getSQLiteType(field: IDiagramField): string {
+  switch (field.type) {
+    case 'INT':
+    case 'SMALLINT':
+    case 'BIGINT':
+    case 'BOOLEAN':
+      return 'INTEGER';
+    case 'DECIMAL':
+    case 'NUMERIC':
+    case 'FLOAT':
+    case 'DOUBLE':
+    case 'REAL':
+      return 'REAL';
+    case 'CHAR':
+    case 'VARCHAR':
+    case 'UUID':
+    case 'TEXT':
+    case 'DATE':
+    case 'TIME':
+    case 'TIMESTAMP':
+    case 'DATETIME':
+    case 'BINARY':
+    case 'VARBINARY':
+      return 'TEXT';
+    case 'ENUM':
+      return `TEXT CHECK("${field.name}" in (${enumValues(field)}))`;
+    default:
+      return 'BLOB';
+  }
+}
+
+function foreignKeys(
+  input: ISqlExportInput,
+  statement: (
+    ends: NonNullable<ReturnType<typeof relationshipEnds>>,
+    relationship: IDiagramRelationship,
+  ) => string,
+): string {
+  return input.references
+    .map((r) => {
+      const ends = relationshipEnds(r, input.tables);
+      return ends ? statement(ends, r) : '';
+    })
+    .filter(Boolean)
+    .join('\n');
+}
+
+function isEnumLike(field: TypedField): boolean {
+  return field.type === 'ENUM' || field.type === 'SET';
+}
+
+function jsonToMySQLFamily(input: ISqlExportInput, dialect: SqlDatabase): string {
+  const isMariaDB = dialect === SqlDatabase.MARIADB;
+
+  const tables = input.tables
+    .map((table) => {
+      const fields = table.fields
+        .map(
+          (field) =>
+            `\t\`${field.name}\` ${getTypeString(field, input.database, SqlDatabase.MYSQL)}${
+              field.notNull ? ' NOT NULL' : ''
+            }${field.increment ? ' AUTO_INCREMENT' : ''}${field.unique ? ' UNIQUE' : ''}${
+              hasDefault(field) ? ` DEFAULT ${parseDefault(field, input.database)}` : ''
+            }${mysqlCheck(field, input, isMariaDB ? "'" : '"')}${
+              field.comment ? ` COMMENT '${escapeQuotes(field.comment)}'` : ''
+            }`,
+        )
+        .join(',\n');
+
+      const primaryKeys = primaryKeyNames(table);
+      const primaryKey = primaryKeys.length
+        ? `,\n\tPRIMARY KEY(${primaryKeys.map((name) => `\`${name}\``).join(', ')})`
+        : '';
+
+      const indices = table.indices
+        .map(
+          (i) =>
+            `CREATE ${i.unique ? 'UNIQUE ' : ''}INDEX \`${i.name}\`\nON \`${table.name}\` (${i.fields
+              .map((f) => `\`${f}\``)
+              .join(', ')});`,
+        )
+        .join('\n');
+
+      return `${isMariaDB ? 'CREATE OR REPLACE TABLE' : 'CREATE TABLE IF NOT EXISTS'} \`${table.name}\` (\n${fields}${primaryKey}\n)${
+        table.comment ? ` COMMENT='${escapeQuotes(table.comment)}'` : ''
+      };${isMariaDB ? '' : '\n'}\n${indices}`;
+    })
+    .join('\n');
+
+  return `${tables}\n${foreignKeys(
+    input,
+    ({ startTable, startField, endTable, endField }, r) =>
+      `ALTER TABLE \`${startTable.name}\`\nADD FOREIGN KEY(\`${startField.name}\`) REFERENCES \`${endTable.name}\`(\`${endField.name}\`)\n${referentialActions(r)};`,
+  )}`;
+}
+
+export function jsonToMySQL(input: ISqlExportInput): string {
+  return jsonToMySQLFamily(input, SqlDatabase.MYSQL);
+}
+
+export function jsonToMariaDB(input: ISqlExportInput): string {
+  return jsonToMySQLFamily(input, SqlDatabase.MARIADB);
+}
+
+export function jsonToPostgreSQL(input: ISqlExportInput): string {
+  const enumType = (field: TypedField) =>
+    `CREATE TYPE "${field.name}_t" AS ENUM (${enumValues(field)});`;
+  const typeFields = (fields: IDiagramTypeField[], separator: string) =>
+    fields
+      .map((f) => `\t${f.name} ${getTypeString(f, input.database, SqlDatabase.POSTGRES)}`)
+      .join(separator);
+
+  const types = input.types
+    .map((type) => {
+      const enumStatements = type.fields.filter(isEnumLike).map(enumType).join('\n');
+
+      if (enumStatements.length > 0) {
+        return `${enumStatements}\n${
+          type.comment ? `/**\n${type.comment}\n*/\n` : ''
+        }CREATE TYPE ${type.name} AS (\n${typeFields(type.fields, '\n')}\n);`;
+      }
+
+      return `CREATE TYPE ${type.name} AS (\n${typeFields(type.fields, ',\n')}\n);\n${
+        type.comment?.trim()
+          ? `\nCOMMENT ON TYPE ${type.name} IS '${escapeQuotes(type.comment)}';\n`
+          : ''
+      }`;
+    })
+    .join('\n');
+
+  const tables = input.tables
+    .map((table) => {
+      const enumFields = table.fields.filter(isEnumLike);
+      const enumStatements = enumFields.length
+        ? `${enumFields.map((f) => `${enumType(f)}\n`).join('\n')}\n`
+        : '';
+
+      const fields = table.fields
+        .map(
+          (field) =>
+            `${field.comment ? `\t-- ${field.comment}\n` : ''}\t"${field.name}" ${getTypeString(
+              field,
+              input.database,
+              SqlDatabase.POSTGRES,
+            )}${field.notNull ? ' NOT NULL' : ''}${field.unique ? ' UNIQUE' : ''}${
+              hasDefault(field) ? ` DEFAULT ${parseDefault(field)}` : ''
+            }${hasCheck(field, input.database) ? ` CHECK(${field.check})` : ''}`,
+        )
+        .join(',\n');
+
+      const primaryKeys = primaryKeyNames(table);
+      const primaryKey = primaryKeys.length
+        ? `,\n\tPRIMARY KEY(${primaryKeys.map((name) => `"${name}"`).join(', ')})`
+        : '';
+
+      const tableComment = table.comment
+        ? `\nCOMMENT ON TABLE ${table.name} IS '${escapeQuotes(table.comment)}';\n`
+        : '';
+      const columnComments = table.fields
+        .map((field) =>
+          field.comment?.trim()
+            ? `COMMENT ON COLUMN ${table.name}.${field.name} IS '${escapeQuotes(field.comment)}';\n`
+            : '',
+        )
+        .join('');
+
+      const indices = table.indices
+        .map(
+          (i) =>
+            `CREATE ${i.unique ? 'UNIQUE ' : ''}INDEX "${i.name}"\nON "${table.name}" (${i.fields
+              .map((f) => `"${f}"`)
+              .join(', ')});`,
+        )
+        .join('\n');
+
+      return `${enumStatements}CREATE TABLE IF NOT EXISTS "${table.name}" (\n${fields}${primaryKey}\n);\n${tableComment}${columnComments}\n${indices}`;
+    })
+    .join('\n');
+
+  return `${types}\n${tables}\n${foreignKeys(
+    input,
+    ({ startTable, startField, endTable, endField }, r) =>
+      `ALTER TABLE "${startTable.name}"\nADD FOREIGN KEY("${startField.name}") REFERENCES "${endTable.name}"("${endField.name}")\n${referentialActions(r)};`,
+  )}`;
+}
+
+export function jsonToSQLite(input: ISqlExportInput): string {
+  return input.tables
+    .map((table) => {
+      const inlineFK = getInlineFK(table, input);
+
+      const fields = table.fields
+        .map(
+          (field) =>
+            `${field.comment ? `\t-- ${field.comment}\n` : ''}\t"${field.name}" ${getSQLiteType(
+              field,
+            )}${field.notNull ? ' NOT NULL' : ''}${field.unique ? ' UNIQUE' : ''}${
+              hasDefault(field) ? ` DEFAULT ${parseDefault(field, input.database)}` : ''
+            }${hasCheck(field, input.database) ? ` CHECK(${field.check})` : ''}`,
+        )
+        .join(',\n');
+
+      const primaryKeys = primaryKeyNames(table);
+      const constraints = [
+        primaryKeys.length
+          ? `\tPRIMARY KEY(${primaryKeys.map((name) => `"${name}"`).join(', ')})`
+          : '',
+        inlineFK,
+      ]
+        .filter(Boolean)
+        .map((constraint) => `,\n${constraint}`)
+        .join('');
+
+      const indices = table.indices
+        .map(
+          (i) =>
+            `\nCREATE ${i.unique ? 'UNIQUE ' : ''}INDEX IF NOT EXISTS "${i.name}"\nON "${table.name}" (${i.fields
+              .map((f) => `"${f}"`)
+              .join(', ')});`,
+        )
+        .join('\n');
+
+      return `${table.comment ? `/* ${table.comment} */\n` : ''}CREATE TABLE IF NOT EXISTS "${table.name}" (\n${fields}${constraints}\n);\n${indices}`;
+    })
+    .join('\n');
+}
+
+export function jsonToSQLServer(input: ISqlExportInput): string {
+  const types = input.types
+    .map(
+      (type) =>
+        `${type.comment ? `/**\n${type.comment}\n*/\n` : ''}CREATE TYPE [${type.name}] FROM ${
+          type.fields.length
+            ? getTypeString(type.fields[0], input.database, SqlDatabase.MSSQL, true)
+            : ''
+        };\nGO\n`,
+    )
+    .join('\n');
+
+  const tables = input.tables
+    .map((table) => {
+      const fields = table.fields
+        .map(
+          (field) =>
+            `${field.comment ? `\t-- ${field.comment}\n` : ''}\t[${field.name}] ${getTypeString(
+              field,
+              input.database,
+              SqlDatabase.MSSQL,
+            )}${field.notNull ? ' NOT NULL' : ''}${field.increment ? ' IDENTITY' : ''}${
+              field.unique ? ' UNIQUE' : ''
+            }${hasDefault(field) ? ` DEFAULT ${parseDefault(field, input.database)}` : ''}${
+              hasCheck(field, input.database) ? ` CHECK(${field.check})` : ''
+            }`,
+        )
+        .join(',\n');
+
+      const primaryKeys = primaryKeyNames(table);
+      const primaryKey = primaryKeys.length
+        ? `,\n\tPRIMARY KEY(${primaryKeys.map((name) => `[${name}]`).join(', ')})`
+        : '';
+
+      const indices = table.indices
+        .map(
+          (i) =>
+            `\nCREATE ${i.unique ? 'UNIQUE ' : ''}INDEX [${i.name}]\nON [${table.name}] (${i.fields
+              .map((f) => `[${f}]`)
+              .join(', ')});\nGO\n`,
+        )
+        .join('');
+
+      return `${table.comment ? `/**\n${table.comment}\n*/\n` : ''}CREATE TABLE [${table.name}] (\n${fields}${primaryKey}\n);\nGO\n${indices}`;
+    })
+    .join('\n');
+
+  return `${types}\n${tables}\n${foreignKeys(
+    input,
+    ({ startTable, startField, endTable, endField }, r) =>
+      `ALTER TABLE [${startTable.name}]\nADD FOREIGN KEY([${startField.name}]) REFERENCES [${endTable.name}]([${endField.name}])\n${referentialActions(r)};\nGO`,
+  )}`;
+}
+
+export function jsonToOracleSQL(input: ISqlExportInput): string {
+  const tables = input.tables
+    .map((table) => {
+      const enumFields = table.fields.filter(isEnumLike);
+      const domains = enumFields.length
+        ? `${enumFields
+            .map((f) => `CREATE DOMAIN "${f.name}_t" AS ENUM (${enumValues(f)});\n`)
+            .join('\n')}\n`
+        : '';
+
+      const fields = table.fields
+        .map(
+          (field) =>
+            `${field.comment ? `  -- ${field.comment}\n` : ''}  "${field.name}" ${getTypeString(
+              field,
+              input.database,
+              SqlDatabase.ORACLESQL,
+            )}${field.notNull ? ' NOT NULL' : ''}${
+              field.increment ? ' GENERATED ALWAYS AS IDENTITY' : ''
+            }${field.unique ? ' UNIQUE' : ''}${
+              hasDefault(field) ? ` DEFAULT ${parseDefault(field, input.database)}` : ''
+            }${hasCheck(field, input.database) ? ` CHECK (${field.check})` : ''}`,
+        )
+        .join(',\n');
+
+      const primaryKeys = primaryKeyNames(table);
+      const primaryKey = primaryKeys.length
+        ? `,\n  PRIMARY KEY (${primaryKeys.map((name) => `"${name}"`).join(', ')})`
+        : '';
+
+      const indices = table.indices
+        .map(
+          (i) =>
+            `\nCREATE ${i.unique ? 'UNIQUE ' : ''}INDEX "${i.name}"\n  ON "${table.name}" (${i.fields
+              .map((f) => `"${f}"`)
+              .join(', ')});`,
+        )
+        .join('\n');
+
+      return `${domains}${table.comment ? `/* ${table.comment} */\n` : ''}CREATE TABLE "${table.name}" (\n${fields}${primaryKey}\n);\n${indices}`;
+    })
+    .join('\n\n');
+
+  // Oracle has no ON UPDATE action, so none of the referential actions are written
+  return `${tables}\n${foreignKeys(
+    input,
+    ({ startTable, startField, endTable, endField }, r) =>
+      `ALTER TABLE "${startTable.name}"\nADD CONSTRAINT "${r.name}" FOREIGN KEY ("${startField.name}") REFERENCES "${endTable.name}"("${endField.name}");`,
+  )}`;
+}
@@ -0,0 +1,60 @@
+import { SqlDatabase } from './data-types';
+import {
+  jsonToMariaDB,
+  jsonToMySQL,
+  jsonToOracleSQL,
+  jsonToPostgreSQL,
+  jsonToSQLite,
+  jsonToSQLServer,
+} from './generic';
+import { toMariaDB } from './mariadb';
+import { toMSSQL } from './mssql';
+import { toMySQL } from './mysql';
+import { toOracleSQL } from './oraclesql';
+import { toPostgres } from './postgres';
+import { ISqlExportInput } from './shared';
+import { toSqlite } from './sqlite';
+
+export { SqlDatabase } from './data-types';
+export { ISqlExportInput } from './shared';
+
+// Dialect names accepted by the API and the diagram database they correspond to
+export const SQL_DIALECTS: Record<string, SqlDatabase> = {
+  postgres: SqlDatabase.POSTGRES,
+  mysql: SqlDatabase.MYSQL,
+  mariadb: SqlDatabase.MARIADB,
+  sqlite: SqlDatabase.SQLITE,
+  mssql: SqlDatabase.MSSQL,
+  oraclesql: SqlDatabase.ORACLESQL,
+};
+
+const EXPORTERS: Record<string, (input: ISqlExportInput) => string> = {
+  [SqlDatabase.SQLITE]: toSqlite,
+  [SqlDatabase.MYSQL]: toMySQL,
+  [SqlDatabase.POSTGRES]: toPostgres,
+  [SqlDatabase.MARIADB]: toMariaDB,
+  [SqlDatabase.MSSQL]: toMSSQL,
+  [SqlDatabase.ORACLESQL]: toOracleSQL,
+};
+
+const GENERIC_EXPORTERS: Record<string, (input: ISqlExportInput) => string> = {
+  [SqlDatabase.SQLITE]: jsonToSQLite,
+  [SqlDatabase.MYSQL]: jsonToMySQL,
+  [SqlDatabase.POSTGRES]: jsonToPostgreSQL,
+  [SqlDatabase.MARIADB]: jsonToMariaDB,
+  [SqlDatabase.MSSQL]: jsonToSQLServer,
+  [SqlDatabase.ORACLESQL]: jsonToOracleSQL,
+};
+
+// DDL for a diagram in the target database, as the editor's "Export source" produces it.
+// Diagrams for a specific database export to that database; generic ones to any.
+// Returns null when the diagram cannot be exported to the target.
+export function exportSQL(input: ISqlExportInput, target: SqlDatabase): string | null {
+  if (input.database === SqlDatabase.GENERIC) {
+    return GENERIC_EXPORTERS[target]?.(input) ?? null;
+  }
+  if (input.database !== target) {
+    return null;
+  }
+  return EXPORTERS[target]?.(input) ?? null;
+}
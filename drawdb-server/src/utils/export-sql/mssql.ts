@@ -0,0 +1,102 @@
+import { SqlDatabase, typeTraits } from './data-types';
+import {
+  escapeQuotes,
+  hasCheck,
+  hasDefault,
+  ISqlExportInput,
+  parseDefault,
+  primaryKeyNames,
+  referentialActions,
+  relationshipEnds,
+} from './shared';
+
+// Comments are stored as MS_Description extended properties on the table or column
+function generateAddExtendedPropertySQL(
+  value: string | undefined,
+  level1name: string,
+  level2name: string | null = null,
+): string {
+  if (!value || value.trim() === '') {
+    return '';
+  }
+  const escapedValue = escapeQuotes(value.replace(/\n/g, ' '));
+  const escapedTableName = escapeQuotes(level1name);
+
+  if (level2name) {
+    const escapedColumnName = escapeQuotes(level2name);
+    return `
+EXEC sys.sp_addextendedproperty
+    @name=N'MS_Description', @value=N'${escapedValue}',
+    @level0type=N'SCHEMA',@level0name=N'dbo',
+    @level1type=N'TABLE',@level1name=N'${escapedTableName}',
+    @level2type=N'COLUMN',@level2name=N'${escapedColumnName}';
+GO
+`;
+  }
+
+  return `
+EXEC sys.sp_addextendedproperty
+    @name=N'MS_Description', @value=N'${escapedValue}',
+    @level0type=N'SCHEMA',@level0name=N'dbo',
+    @level1type=N'TABLE',@level1name=N'${escapedTableName}';
+GO
+`;
+}
+
+export function toMSSQL(diagram: ISqlExportInput): string {
+  const tablesSql = diagram.tables
+    .map((table) => {
+      const fieldsSql = table.fields
+        .map((field) => {
+          const traits = typeTraits(SqlDatabase.MSSQL, field.type.toUpperCase());
+          const isSized = traits.isSized || traits.hasPrecision;
+
+          return `\t[${field.name}] ${field.type}${field.size && isSized ? `(${field.size})` : ''}${
+            field.notNull ? ' NOT NULL' : ''
+          }${field.increment ? ' IDENTITY' : ''}${field.unique ? ' UNIQUE' : ''}${
+            hasDefault(field) ? ` DEFAULT ${parseDefault(field, diagram.database)}` : ''
+          }${hasCheck(field, diagram.database) ? ` CHECK(${field.check})` : ''}`;
+        })
+        .join(',\n');
+
+      const primaryKeys = primaryKeyNames(table);
+      const primaryKeySql = primaryKeys.length
+        ? `,\n\tPRIMARY KEY(${primaryKeys.map((name) => `[${name}]`).join(', ')})`
+        : '';
+
+      const createTableSql = `CREATE TABLE [${table.name}] (\n${fieldsSql}${primaryKeySql}\n);\nGO\n`;
+
+      const tableCommentSql = generateAddExtendedPropertySQL(table.comment, table.name);
+
+      const columnCommentsSql = table.fields
+        .map((field) => generateAddExtendedPropertySQL(field.comment, table.name, field.name))
+        .join('');
+
+      const indicesSql = table.indices
+        .map(
+          (i) =>
+            `\nCREATE ${i.unique ? 'UNIQUE ' : ''}INDEX [${i.name}]\nON [${table.name}] (${i.fields
+              .map((f) => `[${f}]`)
+              .join(', ')});\nGO\n`,
+        )
+        .join('');
+
+      return `${createTableSql}${tableCommentSql}${columnCommentsSql}${indicesSql}`;
+    })
+    .join('\n');
+
+  const referencesSql = diagram.references
+    .map((r) => {
+      const ends = relationshipEnds(r, diagram.tables);
+      if (!ends) return '';
+
+      return `\nALTER TABLE [${ends.startTable.name}]
+ADD FOREIGN KEY([${ends.startField.name}])
+REFERENCES [${ends.endTable.name}]([${ends.endField.name}])
+${referentialActions(r)};
+GO`;
+    })
+    .join('');
+
+  return `${tablesSql}\n${referencesSql}`;
+}
@@ -0,0 +1,76 @@
+import { IDiagramField } from '../../interfaces/diagram-document';
+import { SqlDatabase, typeTraits } from './data-types';
+import {
+  escapeQuotes,
+  hasCheck,
+  hasDefault,
+  ISqlExportInput,
+  parseDefault,
+  primaryKeyNames,
+  referentialActions,
+  relationshipEnds,
+} from './shared';
+
+export function parseType(field: IDiagramField): string {
+  let res = field.type;
+
+  if (field.type === 'SET' || field.type === 'ENUM') {
+    res += field.values ? `(${field.values.map((value) => `'${value}'`).join(', ')})` : '';
+  }
+
+  const traits = typeTraits(SqlDatabase.MYSQL, field.type);
+  if (traits.isSized || traits.hasPrecision) {
+    res += field.size ? `(${field.size})` : '';
+  }
+
+  return res;
+}
+
+export function toMySQL(diagram: ISqlExportInput): string {
+  const tables = diagram.tables
+    .map((table) => {
+      const fields = table.fields
+        .map(
+          (field) =>
+            `\t\`${field.name}\` ${parseType(field)}${
+              typeTraits(SqlDatabase.MYSQL, field.type).signed && field.unsigned ? ' UNSIGNED' : ''
+            }${field.notNull ? ' NOT NULL' : ''}${field.increment ? ' AUTO_INCREMENT' : ''}${
+              field.unique ? ' UNIQUE' : ''
+            }${hasDefault(field) ? ` DEFAULT ${parseDefault(field, diagram.database)}` : ''}${
+              hasCheck(field, diagram.database) ? ` CHECK(${field.check})` : ''
+            }${field.comment ? ` COMMENT '${escapeQuotes(field.comment)}'` : ''}`,
+        )
+        .join(',\n');
+
+      const primaryKeys = primaryKeyNames(table);
+      const primaryKey = primaryKeys.length
+        ? `,\n\tPRIMARY KEY(${primaryKeys.map((name) => `\`${name}\``).join(', ')})`
+        : '';
+
+      const indices = table.indices
+        .map(
+          (i) =>
+            `\nCREATE ${i.unique ? 'UNIQUE ' : ''}INDEX \`${i.name}\`\nON \`${table.name}\` (${i.fields
+              .map((f) => `\`${f}\``)
+              .join(', ')});`,
+        )
+        .join('');
+
+      return `CREATE TABLE IF NOT EXISTS \`${table.name}\` (\n${fields}${primaryKey}\n)${
+        table.comment ? ` COMMENT='${escapeQuotes(table.comment)}'` : ''
+      };\n\n${indices}`;
+    })
+    .join('\n');
+
+  const foreignKeys = diagram.references
+    .map((r) => {
+      const ends = relationshipEnds(r, diagram.tables);
+      if (!ends) return '';
+
+      return `ALTER TABLE \`${ends.startTable.name}\`\nADD FOREIGN KEY(\`${ends.startField.name}\`) REFERENCES \`${ends.endTable.name}\`(\`${ends.endField.name}\`)\n${referentialActions(r)};`;
+    })
+    .filter(Boolean)
+    .join('\n');
+
+  return `${tables}\n${foreignKeys}`;
+}
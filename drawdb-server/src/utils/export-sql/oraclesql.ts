@@ -0,0 +1,60 @@
+import {
+  hasCheck,
+  hasDefault,
+  ISqlExportInput,
+  parseDefault,
+  primaryKeyNames,
+  referentialActions,
+  relationshipEnds,
+} from './shared';
+
+export function toOracleSQL(diagram: ISqlExportInput): string {
+  const tables = diagram.tables
+    .map((table) => {
+      const fields = table.fields
+        .map(
+          (field) =>
+            `${field.comment ? `\t-- ${field.comment}\n` : ''}\t"${field.name}" ${field.type}${
+              field.size !== undefined && field.size !== '' ? `(${field.size})` : ''
+            }${field.notNull ? ' NOT NULL' : ''}${
+              field.increment ? ' GENERATED ALWAYS AS IDENTITY' : ''
+            }${field.unique ? ' UNIQUE' : ''}${
+              hasDefault(field) ? ` DEFAULT ${parseDefault(field, diagram.database)}` : ''
+            }${hasCheck(field, diagram.database) ? ` CHECK(${field.check})` : ''}${
+              field.comment ? ` -- ${field.comment}` : ''
+            }`,
+        )
+        .join(',\n');
+
+      const primaryKeys = primaryKeyNames(table);
+      const primaryKey = primaryKeys.length
+        ? `,\n\tPRIMARY KEY(${primaryKeys.map((name) => `"${name}"`).join(', ')})`
+        : '';
+
+      const indices = table.indices
+        .map(
+          (i) =>
+            `\nCREATE ${i.unique ? 'UNIQUE ' : ''}INDEX "${i.name}"\nON "${table.name}" (${i.fields
+              .map((f) => `"${f}"`)
+              .join(', ')});`,
+        )
+        .join('');
+
+      return `${table.comment ? `/* ${table.comment} */\n` : ''}CREATE TABLE "${table.name}" (\n${fields}${primaryKey}\n)${
+        table.comment ? ` -- ${table.comment}` : ''
+      };\n\n${indices}`;
+    })
+    .join('\n');
+
+  const foreignKeys = diagram.references
+    .map((r) => {
+      const ends = relationshipEnds(r, diagram.tables);
+      if (!ends) return '';
+
+      return `ALTER TABLE "${ends.startTable.name}"\nADD CONSTRAINT "${r.name}" FOREIGN KEY ("${ends.startField.name}") REFERENCES "${ends.endTable.name}" ("${ends.endField.name}")\n${referentialActions(r)};`;
+    })
+    .filter(Boolean)
+    .join('\n');
+
+  return `${tables}\n${foreignKeys}`;
+}
@@ -0,0 +1,105 @@
+import {
+  IDiagramEnum,
+  IDiagramField,
+  IDiagramRelationship,
+  IDiagramTable,
+  IDiagramType,
+} from '../../interfaces/diagram-document';
+import { SqlDatabase, typeTraits } from './data-types';
+
+// What the exporters read from a diagram
+export interface ISqlExportInput {
+  database: string;
+  tables: IDiagramTable[];
+  references: IDiagramRelationship[];
+  types: IDiagramType[];
+  enums: IDiagramEnum[];
+}
+
+const KEYWORDS = [
+  'NULL',
+  'TRUE',
+  'FALSE',
+  'CURRENT_DATE',
+  'CURRENT_TIME',
+  'CURRENT_TIMESTAMP',
+  'LOCALTIME',
+  'LOCALTIMESTAMP',
+];
+
+export function isKeyword(value: unknown): boolean {
+  return typeof value === 'string' && KEYWORDS.includes(value.toUpperCase());
+}
+
+export function isFunction(value: unknown): boolean {
+  return /\w+\([^)]*\)$/.test(String(value));
+}
+
+export function escapeQuotes(value: string): string {
+  return value.replace(/[']/g, "'$&");
+}
+
+// Default values of quoted types are written as string literals; functions and keywords as-is
+export function parseDefault(field: IDiagramField, database: string = SqlDatabase.GENERIC) {
+  if (
+    isFunction(field.default) ||
+    isKeyword(field.default) ||
+    !typeTraits(database, field.type).hasQuotes
+  ) {
+    return field.default;
+  }
+
+  return `'${escapeQuotes(String(field.default))}'`;
+}
+
+export function exportFieldComment(comment: string): string {
+  if (!comment) {
+    return '';
+  }
+
+  return comment
+    .split('\n')
+    .map((commentLine) => `\t-- ${commentLine}\n`)
+    .join('');
+}
+
+export function hasDefault(field: IDiagramField): boolean {
+  return String(field.default ?? '').trim() !== '';
+}
+
+export function hasCheck(field: IDiagramField, database: string): boolean {
+  return !!field.check && !!typeTraits(database, field.type).hasCheck;
+}
+
+export function primaryKeyNames(table: IDiagramTable): string[] {
+  return table.fields.filter((field) => field.primary).map((field) => field.name);
+}
+
+// Both ends of a relationship, or null when it points at a missing table or field
+export function relationshipEnds(relationship: IDiagramRelationship, tables: IDiagramTable[]) {
+  const startTable = tables.find((table) => table.id === relationship.startTableId);
+  const endTable = tables.find((table) => table.id === relationship.endTableId);
+  const startField = startTable?.fields.find((field) => field.id === relationship.startFieldId);
+  const endField = endTable?.fields.find((field) => field.id === relationship.endFieldId);
+
+  if (!startTable || !endTable || !startField || !endField) return null;
+  return { startTable, endTable, startField, endField };
+}
+
+export function referentialActions(relationship: IDiagramRelationship): string {
+  return `ON UPDATE ${relationship.updateConstraint.toUpperCase()} ON DELETE ${relationship.deleteConstraint.toUpperCase()}`;
+}
+
+// FOREIGN KEY clauses for the relationships starting at a table (SQLite has no ALTER TABLE ADD FK)
+export function getInlineFK(table: IDiagramTable, input: ISqlExportInput): string {
+  return input.references
+    .filter((relationship) => relationship.startTableId === table.id)
+    .map((relationship) => {
+      const ends = relationshipEnds(relationship, input.tables);
+      if (!ends) return '';
+
+      return `\tFOREIGN KEY ("${ends.startField.name}") REFERENCES "${ends.endTable.name}"("${ends.endField.name}")\n\t${referentialActions(relationship)}`;
+    })
+    .filter(Boolean)
+    .join(',\n');
+}
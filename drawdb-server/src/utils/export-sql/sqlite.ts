@@ -0,0 +1,50 @@
+import {
+  exportFieldComment,
+  getInlineFK,
+  hasCheck,
+  hasDefault,
+  ISqlExportInput,
+  parseDefault,
+  primaryKeyNames,
+} from './shared';
+
+export function toSqlite(diagram: ISqlExportInput): string {
+  return diagram.tables
+    .map((table) => {
+      const inlineFK = getInlineFK(table, diagram);
+
+      const fields = table.fields
+        .map(
+          (field) =>
+            `${exportFieldComment(field.comment)}\t"${field.name}" ${field.type}${
+              field.notNull ? ' NOT NULL' : ''
+            }${field.unique ? ' UNIQUE' : ''}${
+              hasDefault(field) ? ` DEFAULT ${parseDefault(field, diagram.database)}` : ''
+            }${hasCheck(field, diagram.database) ? ` CHECK(${field.check})` : ''}`,
+        )
+        .join(',\n');
+
+      const primaryKeys = primaryKeyNames(table);
+      const constraints = [
+        primaryKeys.length
+          ? `\tPRIMARY KEY(${primaryKeys.map((name) => `"${name}"`).join(', ')})`
+          : '',
+        inlineFK,
+      ]
+        .filter(Boolean)
+        .map((constraint) => `,\n${constraint}`)
+        .join('');
+
+      const indices = table.indices
+        .map(
+          (i) =>
+            `\nCREATE ${i.unique ? 'UNIQUE ' : ''}INDEX IF NOT EXISTS "${i.name}"\nON "${table.name}" (${i.fields
+              .map((f) => `"${f}"`)
+              .join(', ')});`,
+        )
+        .join('\n');
+
+      return `${table.comment ? `/* ${table.comment} */\n` : ''}CREATE TABLE IF NOT EXISTS "${table.name}" (\n${fields}${constraints}\n);\n${indices}`;
+    })
+    .join('\n');
+}
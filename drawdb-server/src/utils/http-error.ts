@@ -0,0 +1,12 @@
+// Error carrying an HTTP status and the JSON body to respond with, thrown from services
+export class HttpError extends Error {
+  public readonly statusCode: number;
+  public readonly body: { error: string; [key: string]: unknown };
+
+  constructor(statusCode: number, body: { error: string; [key: string]: unknown }) {
+    super(typeof body.message === 'string' ? body.message : body.error);
+    this.name = 'HttpError';
+    this.statusCode = statusCode;
+    this.body = body;
+  }
+}
@@ -0,0 +1,83 @@
+import { Parser } from 'node-sql-parser';
+import { Parser as OracleParser } from 'oracle-sql-parser';
+import { arrangeTables } from '../diagram-layout';
+import { SqlDatabase } from '../export-sql/data-types';
+import { importStatement, NodeSqlStatement } from './node-sql';
+import { importOracleStatement, OracleStatement } from './oraclesql';
+import { createContext, ISqlImportResult, warn } from './shared';
+import { ISqlStatement, splitStatements } from './statements';
+
+export { ISqlImportResult } from './shared';
+
+interface ParseError {
+  found?: string | null;
+  location?: { start: { line: number; column: number } };
+}
+
+const parser = new Parser();
+
+function parse(statement: ISqlStatement, source: SqlDatabase): unknown[] {
+  if (source === SqlDatabase.ORACLESQL) {
+    return new OracleParser().parse(`${statement.text};`);
+  }
+  const ast = parser.astify(statement.text, { database: source });
+  return Array.isArray(ast) ? ast : [ast];
+}
+
+// Where in the script a statement failed to parse, and on what
+function syntaxWarning(statement: ISqlStatement, error: unknown) {
+  const { found, location } = error as ParseError;
+
+  if (!location) {
+    return {
+      line: statement.line,
+      message: error instanceof Error ? error.message : 'Parse error',
+    };
+  }
+
+  const near = found ? `unexpected "${found}"` : 'unexpected end of statement';
+  return {
+    line: statement.line + location.start.line - 1,
+    message: `Could not parse statement: ${near} at column ${location.start.column}`,
+  };
+}
+
+// Build diagram collections from a DDL script written for the source dialect, as the editor's
+// "Import from source" does. The diagram is for the source dialect or generic. Statements are
+// parsed one at a time so a bad one is reported and skipped instead of failing the script.
+export function importSQL(
+  sql: string,
+  source: SqlDatabase,
+  database: SqlDatabase = source,
+): ISqlImportResult {
+  const context = createContext(source, database);
+
+  for (const statement of splitStatements(sql)) {
+    context.line = statement.line;
+
+    let nodes: unknown[];
+    try {
+      nodes = parse(statement, source);
+    } catch (error) {
+      context.warnings.push(syntaxWarning(statement, error));
+      continue;
+    }
+
+    for (const node of nodes) {
+      try {
+        if (source === SqlDatabase.ORACLESQL) {
+          importOracleStatement(context, node as OracleStatement);
+        } else {
+          importStatement(context, node as NodeSqlStatement);
+        }
+      } catch (error) {
+        warn(context, `Statement could not be imported: ${(error as Error).message}`);
+      }
+    }
+  }
+
+  arrangeTables(context.tables);
+
+  const { tables, relationships, enums, types, warnings } = context;
+  return { tables, relationships, enums, types, warnings };
+}
@@ -0,0 +1,410 @@
+import { Parser } from 'node-sql-parser';
+import { IDiagramField, IDiagramTable, IDiagramTypeField } from '../../interfaces/diagram-document';
+import { SqlDatabase } from '../export-sql/data-types';
+import {
+  actionName,
+  addRelationship,
+  findTable,
+  ImportContext,
+  newField,
+  newTable,
+  resolveType,
+  warn,
+} from './shared';
+
+// The parts of node-sql-parser's DDL AST the importer reads. The package's own typings leave
+// most of it as `any`, so these are narrowed by hand from its output.
+
+interface ColumnRef {
+  column: string | { expr: { value: string } };
+}
+
+interface TableRef {
+  table: string;
+}
+
+interface Expression {
+  type: string;
+  value?: unknown;
+}
+
+interface DataType {
+  dataType: string;
+  length?: number | string;
+  scale?: number;
+  suffix?: string[] | null;
+  expr?: { type: string; value: Expression[] };
+}
+
+interface ReferenceDefinition {
+  table: TableRef[];
+  definition: ColumnRef[];
+  on_action?: Array<{ type: string; value: { value: string } }>;
+}
+
+interface ColumnDefinition {
+  resource: 'column';
+  column: ColumnRef;
+  definition: DataType;
+  comment?: { value: { value: string } };
+  unique?: string;
+  primary_key?: string;
+  auto_increment?: unknown;
+  nullable?: { type: string } | null;
+  default_val?: { value: Expression & { over?: unknown } };
+  check?: { definition: Expression[] };
+  reference_definition?: ReferenceDefinition;
+}
+
+interface ConstraintDefinition {
+  resource: 'constraint';
+  constraint?: string | null;
+  constraint_type: string;
+  definition: ColumnRef[];
+  reference_definition?: ReferenceDefinition;
+}
+
+interface IndexDefinition {
+  resource: 'index';
+  index?: string | null;
+  definition: ColumnRef[];
+}
+
+type CreateDefinition = ColumnDefinition | ConstraintDefinition | IndexDefinition;
+
+interface CreateTable {
+  table: TableRef[];
+  create_definitions?: CreateDefinition[] | null;
+  table_options?: Array<{ keyword: string; value: unknown }> | null;
+}
+
+// SQLite gives quoted index columns as bare strings rather than column references
+type IndexColumn = ColumnRef | { value: string };
+
+interface CreateIndex {
+  index: string | { name: string };
+  index_type?: string | null;
+  table: TableRef | TableRef[];
+  index_columns: IndexColumn[];
+}
+
+interface CreateType {
+  name: { name: string };
+  resource?: string;
+  create_definitions: { value: Expression[] } | ColumnDefinition[];
+}
+
+interface AlterTable {
+  table: TableRef[];
+  expr: Array<{ action: string; resource: string; create_definitions?: CreateDefinition }>;
+}
+
+interface CommentOn {
+  target: { type: string; name: { table: string; column?: ColumnRef['column'] } };
+  expr: { expr: { value: string } };
+}
+
+export interface NodeSqlStatement {
+  type: string;
+  keyword?: string;
+}
+
+const parser = new Parser();
+
+function columnName(column: ColumnRef['column']): string {
+  return typeof column === 'string' ? column : column.expr.value;
+}
+
+function tableName(table: TableRef | TableRef[]): string {
+  return (Array.isArray(table) ? table[0] : table).table;
+}
+
+function expressionSQL(context: ImportContext, expression: Expression): string {
+  return parser.exprToSQL(expression, { database: context.source });
+}
+
+// Literals keep their bare value, as the editor stores them; anything else becomes SQL text
+function defaultValue(context: ImportContext, expression: Expression & { over?: unknown }): string {
+  if (expression.type === 'null') return 'NULL';
+  if (['number', 'bool', 'single_quote_string', 'double_quote_string'].includes(expression.type)) {
+    return String(expression.value);
+  }
+  // MySQL's ON UPDATE clause rides on the default; it has no place in the diagram
+  return expressionSQL(context, { ...expression, over: null } as Expression);
+}
+
+function fieldSize(definition: DataType): string | number | undefined {
+  if (definition.length === undefined || definition.length === null) return undefined;
+  return definition.scale !== undefined && definition.scale !== null
+    ? `${definition.length},${definition.scale}`
+    : definition.length;
+}
+
+function referentialActions(reference: ReferenceDefinition) {
+  let updateConstraint = 'No action';
+  let deleteConstraint = 'No action';
+
+  for (const action of reference.on_action ?? []) {
+    if (action.type === 'on update') updateConstraint = actionName(action.value.value);
+    if (action.type === 'on delete') deleteConstraint = actionName(action.value.value);
+  }
+
+  return { updateConstraint, deleteConstraint };
+}
+
+function addForeignKey(
+  context: ImportContext,
+  table: IDiagramTable,
+  columns: ColumnRef[],
+  reference: ReferenceDefinition,
+  name?: string | null,
+): void {
+  if (columns.length > 1) {
+    warn(context, `Composite foreign key on ${table.name} was imported on its first column only`);
+  }
+
+  addRelationship(context, {
+    name,
+    startTable: table,
+    startFieldName: columnName(columns[0].column),
+    endTableName: tableName(reference.table),
+    endFieldName: columnName(reference.definition[0].column),
+    ...referentialActions(reference),
+  });
+}
+
+function toField(context: ImportContext, table: IDiagramTable, column: ColumnDefinition) {
+  const name = columnName(column.column.column);
+  const definition = column.definition;
+  const isArray = definition.dataType.endsWith('[]');
+  const dataType = isArray ? definition.dataType.slice(0, -2) : definition.dataType;
+  const field: IDiagramField = newField(
+    name,
+    resolveType(context, dataType, `${table.name}.${name}`),
+  );
+
+  if (isArray) field.isArray = true;
+  if (definition.suffix?.includes('UNSIGNED')) field.unsigned = true;
+  if (definition.expr?.type === 'expr_list') {
+    field.values = definition.expr.value.map((value) => String(value.value));
+  }
+
+  const size = fieldSize(definition);
+  if (size !== undefined) field.size = size;
+
+  field.comment = column.comment?.value.value ?? '';
+  field.unique = Boolean(column.unique);
+  field.primary = Boolean(column.primary_key);
+  field.increment = Boolean(column.auto_increment);
+  field.notNull = column.nullable?.type === 'not null';
+  if (column.default_val) field.default = defaultValue(context, column.default_val.value);
+  if (column.check) field.check = expressionSQL(context, column.check.definition[0]);
+
+  return field;
+}
+
+// Apply a table constraint (or ALTER TABLE ... ADD CONSTRAINT) to a table
+function addConstraint(
+  context: ImportContext,
+  table: IDiagramTable,
+  constraint: ConstraintDefinition,
+) {
+  const type = constraint.constraint_type.toLowerCase();
+  const columns = constraint.definition.map((column) => columnName(column.column));
+
+  if (type === 'primary key') {
+    table.fields.forEach((field) => {
+      if (columns.includes(field.name)) field.primary = true;
+    });
+  } else if (type === 'foreign key' && constraint.reference_definition) {
+    addForeignKey(
+      context,
+      table,
+      constraint.definition,
+      constraint.reference_definition,
+      constraint.constraint,
+    );
+  } else if (type.startsWith('unique') && columns.length === 1) {
+    const field = table.fields.find((f) => f.name === columns[0]);
+    if (field) field.unique = true;
+  } else if (type.startsWith('unique')) {
+    addIndex(
+      table,
+      constraint.constraint ?? `${table.name}_${columns.join('_')}_key`,
+      true,
+      columns,
+    );
+  } else {
+    warn(context, `${constraint.constraint_type} constraint on ${table.name} was not imported`);
+  }
+}
+
+function addIndex(table: IDiagramTable, name: string, unique: boolean, fields: string[]) {
+  table.indices.push({ id: table.indices.length, name, unique, fields });
+}
+
+function createTable(context: ImportContext, statement: CreateTable): void {
+  const table = newTable(tableName(statement.table));
+  const references: Array<[string, ReferenceDefinition]> = [];
+
+  if (findTable(context, table.name)) {
+    warn(
+      context,
+      `Table ${table.name} is defined more than once; the later definition was skipped`,
+    );
+    return;
+  }
+
+  // Inline REFERENCES may point at this table, so they wait until it is in the diagram
+  for (const definition of statement.create_definitions ?? []) {
+    if (definition.resource === 'column') {
+      table.fields.push(toField(context, table, definition));
+      if (definition.reference_definition) {
+        references.push([columnName(definition.column.column), definition.reference_definition]);
+      }
+    } else if (definition.resource === 'index') {
+      const fields = definition.definition.map((column) => columnName(column.column));
+      addIndex(table, definition.index ?? `${table.name}_${fields.join('_')}_index`, false, fields);
+    }
+  }
+
+  const comment = statement.table_options?.find((option) => option.keyword === 'comment');
+  if (comment) table.comment = String(comment.value).replace(/^["']|["']$/g, '');
+
+  context.tables.push(table);
+
+  for (const definition of statement.create_definitions ?? []) {
+    if (definition.resource === 'constraint') addConstraint(context, table, definition);
+  }
+  for (const [column, reference] of references) {
+    addForeignKey(context, table, [{ column }], reference);
+  }
+}
+
+function createIndex(context: ImportContext, statement: CreateIndex): void {
+  const name = typeof statement.index === 'string' ? statement.index : statement.index.name;
+  const table = findTable(context, tableName(statement.table));
+
+  if (!table) {
+    warn(context, `Index ${name} is on unknown table ${tableName(statement.table)}`);
+    return;
+  }
+
+  addIndex(
+    table,
+    name,
+    statement.index_type === 'unique',
+    statement.index_columns.map((column) =>
+      'column' in column ? columnName(column.column) : column.value,
+    ),
+  );
+}
+
+function createType(context: ImportContext, statement: CreateType): void {
+  const name = statement.name.name;
+
+  if (![SqlDatabase.POSTGRES, SqlDatabase.GENERIC].includes(context.database)) {
+    warn(context, `Type ${name} was not imported; ${context.database} diagrams have no types`);
+    return;
+  }
+
+  if (!Array.isArray(statement.create_definitions)) {
+    if (statement.resource === 'enum') {
+      context.enums.push({
+        name,
+        values: statement.create_definitions.value.map((value) => String(value.value)),
+      });
+    } else {
+      warn(context, `Type ${name} is neither an enum nor a composite type and was not imported`);
+    }
+    return;
+  }
+
+  context.types.push({
+    name,
+    comment: '',
+    fields: statement.create_definitions.map((column): IDiagramTypeField => {
+      const fieldName = columnName(column.column.column);
+      const field: IDiagramTypeField = {
+        name: fieldName,
+        type: resolveType(context, column.definition.dataType, `${name}.${fieldName}`),
+      };
+      const size = fieldSize(column.definition);
+      if (size !== undefined) field.size = size;
+      return field;
+    }),
+  });
+}
+
+function alterTable(context: ImportContext, statement: AlterTable): void {
+  const table = findTable(context, tableName(statement.table));
+
+  if (!table) {
+    warn(context, `ALTER TABLE on unknown table ${tableName(statement.table)} was skipped`);
+    return;
+  }
+
+  for (const expression of statement.expr) {
+    const definition = expression.create_definitions;
+
+    if (expression.action === 'add' && definition?.resource === 'constraint') {
+      addConstraint(context, table, definition);
+    } else if (expression.action === 'add' && definition?.resource === 'column') {
+      table.fields.push(toField(context, table, definition));
+      if (definition.reference_definition) {
+        addForeignKey(context, table, [definition.column], definition.reference_definition);
+      }
+    } else {
+      warn(context, `ALTER TABLE ${table.name} ${expression.action} was not imported`);
+    }
+  }
+}
+
+function commentOn(context: ImportContext, statement: CommentOn): void {
+  const { target } = statement;
+  const table = findTable(context, target.name.table);
+  const comment = statement.expr.expr.value;
+
+  if (!table) {
+    warn(context, `Comment on unknown table ${target.name.table} was skipped`);
+  } else if (target.type === 'table') {
+    table.comment = comment;
+  } else if (target.type === 'column' && target.name.column) {
+    const column = columnName(target.name.column);
+    const field = table.fields.find((f) => f.name === column);
+    if (field) {
+      field.comment = comment;
+    } else {
+      warn(context, `Comment on unknown column ${table.name}.${column} was skipped`);
+    }
+  }
+}
+
+// Fold one parsed statement into the diagram; statements that do not describe the schema are
+// reported and skipped
+export function importStatement(context: ImportContext, statement: NodeSqlStatement): void {
+  const kind = [statement.type, statement.keyword].filter(Boolean).join(' ');
+
+  switch (kind) {
+    case 'create table':
+      createTable(context, statement as unknown as CreateTable);
+      break;
+    case 'create index':
+      createIndex(context, statement as unknown as CreateIndex);
+      break;
+    case 'create type':
+      createType(context, statement as unknown as CreateType);
+      break;
+    // MySQL and MariaDB leave the keyword out of ALTER TABLE
+    case 'alter':
+    case 'alter table':
+      alterTable(context, statement as unknown as AlterTable);
+      break;
+    default:
+      if (statement.type === 'comment') {
+        commentOn(context, statement as unknown as CommentOn);
+      } else {
+        warn(context, `${kind.toUpperCase()} statement was skipped`);
+      }
+  }
+}
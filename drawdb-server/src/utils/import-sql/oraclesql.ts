@@ -0,0 +1,136 @@
+import { IDiagramTable } from '../../interfaces/diagram-document';
+import {
+  actionName,
+  addRelationship,
+  findTable,
+  ImportContext,
+  newField,
+  newTable,
+  resolveType,
+  warn,
+} from './shared';
+
+// The parts of oracle-sql-parser's AST the importer reads
+
+interface OracleConstraint {
+  primary_key?: string;
+  not_null?: string;
+  unique?: string;
+  columns?: string[];
+  reference?: {
+    object: { name: string };
+    columns: string[];
+    on_delete?: string | null;
+  };
+}
+
+interface OracleColumn {
+  resource: 'column';
+  name: string;
+  type: { type: string; size?: number; precision?: number; scale?: number };
+  constraints: Array<{ constraint: OracleConstraint }>;
+  identity?: unknown;
+  default?: { expr: unknown } | null;
+}
+
+interface OracleTableConstraint {
+  resource: 'constraint';
+  name?: string | null;
+  constraint: OracleConstraint;
+}
+
+interface OracleCreateTable {
+  name: { name: string };
+  table: { relational_properties: Array<OracleColumn | OracleTableConstraint> };
+}
+
+export interface OracleStatement {
+  operation: string;
+  object?: string;
+}
+
+function toField(context: ImportContext, table: IDiagramTable, column: OracleColumn) {
+  const type = column.type;
+  const field = newField(
+    column.name,
+    resolveType(context, type.type.toUpperCase(), `${table.name}.${column.name}`),
+  );
+
+  if (type.scale && type.precision) {
+    field.size = `${type.precision},${type.scale}`;
+  } else if (type.size || type.precision) {
+    field.size = type.size || type.precision;
+  }
+
+  for (const { constraint } of column.constraints) {
+    if (constraint.primary_key) field.primary = true;
+    if (constraint.not_null) field.notNull = true;
+    if (constraint.unique) field.unique = true;
+  }
+
+  field.increment = Boolean(column.identity);
+
+  // The parser does not rebuild default expressions yet, so anything but a literal is kept raw
+  const value = column.default?.expr;
+  if (value !== undefined && value !== null) {
+    field.default = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+
+  return field;
+}
+
+function createTable(context: ImportContext, statement: OracleCreateTable): void {
+  const table = newTable(statement.name.name);
+
+  if (findTable(context, table.name)) {
+    warn(
+      context,
+      `Table ${table.name} is defined more than once; the later definition was skipped`,
+    );
+    return;
+  }
+
+  const constraints: OracleTableConstraint[] = [];
+  for (const property of statement.table.relational_properties) {
+    if (property.resource === 'column') {
+      table.fields.push(toField(context, table, property));
+    } else {
+      constraints.push(property);
+    }
+  }
+
+  context.tables.push(table);
+
+  for (const { name, constraint } of constraints) {
+    const columns = constraint.columns ?? [];
+
+    if (constraint.reference) {
+      const onDelete = constraint.reference.on_delete?.trim();
+      addRelationship(context, {
+        name: name?.trim() || null,
+        startTable: table,
+        startFieldName: columns[0],
+        endTableName: constraint.reference.object.name,
+        endFieldName: constraint.reference.columns[0],
+        updateConstraint: 'No action',
+        deleteConstraint: onDelete ? actionName(onDelete) : 'No action',
+      });
+    } else if (constraint.primary_key) {
+      table.fields.forEach((field) => {
+        if (columns.includes(field.name)) field.primary = true;
+      });
+    } else {
+      warn(context, `Constraint ${name || '(unnamed)'} on ${table.name} was not imported`);
+    }
+  }
+}
+
+// Fold one statement parsed by oracle-sql-parser into the diagram
+export function importOracleStatement(context: ImportContext, statement: OracleStatement): void {
+  if (statement.operation === 'create' && statement.object === 'table') {
+    createTable(context, statement as unknown as OracleCreateTable);
+  } else {
+    const kind = [statement.operation, statement.object].filter(Boolean).join(' ');
+    warn(context, `${kind.toUpperCase()} statement was skipped`);
+  }
+}
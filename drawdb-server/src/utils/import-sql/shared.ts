@@ -0,0 +1,233 @@
+import { randomUUID } from 'crypto';
+import {
+  IDiagramEnum,
+  IDiagramField,
+  IDiagramRelationship,
+  IDiagramTable,
+  IDiagramType,
+} from '../../interfaces/diagram-document';
+import { IImportWarning } from '../../interfaces/import-warning';
+import { isBuiltInType, SqlDatabase } from '../export-sql/data-types';
+
+// The diagram collections an import produces, and what it could not take in
+export interface ISqlImportResult {
+  tables: IDiagramTable[];
+  relationships: IDiagramRelationship[];
+  enums: IDiagramEnum[];
+  types: IDiagramType[];
+  warnings: IImportWarning[];
+}
+
+export interface ImportContext extends ISqlImportResult {
+  // Dialect of the script
+  source: SqlDatabase;
+  // Database of the diagram being built; the source dialect or generic
+  database: SqlDatabase;
+  // Line of the statement being imported, for warnings
+  line: number;
+}
+
+interface Affinity {
+  // Types the dialect accepts under another name in diagrams of that dialect
+  native: Record<string, string>;
+  // The same for generic diagrams
+  generic: Record<string, string>;
+  // Type for anything else
+  fallback: string;
+}
+
+// Mirrors of the affinity tables in drawdb/src/utils/importSQL/*
+const AFFINITY: Record<string, Affinity> = {
+  [SqlDatabase.POSTGRES]: {
+    native: { INT: 'INTEGER' },
+    generic: { INTEGER: 'INT', MEDIUMINT: 'INT', BIT: 'BOOLEAN', 'CHARACTER VARYING': 'VARCHAR' },
+    fallback: 'BLOB',
+  },
+  [SqlDatabase.MYSQL]: {
+    native: { INT: 'INTEGER' },
+    generic: { INTEGER: 'INT', TINYINT: 'SMALLINT', MEDIUMINT: 'INT', BIT: 'BOOLEAN', YEAR: 'INT' },
+    fallback: 'BLOB',
+  },
+  [SqlDatabase.MARIADB]: {
+    native: { INT: 'INTEGER' },
+    generic: { INTEGER: 'INT', TINYINT: 'SMALLINT', MEDIUMINT: 'INT', BIT: 'BOOLEAN', YEAR: 'INT' },
+    fallback: 'BLOB',
+  },
+  [SqlDatabase.SQLITE]: {
+    native: {
+      INT: 'INTEGER',
+      TINYINT: 'INTEGER',
+      SMALLINT: 'INTEGER',
+      MEDIUMINT: 'INTEGER',
+      BIGINT: 'INTEGER',
+      'UNSIGNED BIG INT': 'INTEGER',
+      INT2: 'INTEGER',
+      INT8: 'INTEGER',
+      CHARACTER: 'TEXT',
+      NCHARACTER: 'TEXT',
+      NVARCHAR: 'VARCHAR',
+      DOUBLE: 'REAL',
+      FLOAT: 'REAL',
+    },
+    generic: {
+      INTEGER: 'INT',
+      TINYINT: 'SMALLINT',
+      MEDIUMINT: 'INT',
+      INT2: 'SMALLINT',
+      INT8: 'BIGINT',
+      CHARACTER: 'TEXT',
+      NCHARACTER: 'TEXT',
+      NVARCHAR: 'VARCHAR',
+    },
+    fallback: 'BLOB',
+  },
+  [SqlDatabase.MSSQL]: {
+    native: { INT: 'INTEGER' },
+    generic: {
+      INTEGER: 'INT',
+      TINYINT: 'SMALLINT',
+      MEDIUMINT: 'INT',
+      BIT: 'BOOLEAN',
+      DATETIME2: 'DATETIME',
+      MONEY: 'NUMERIC',
+      SMALLMONEY: 'NUMERIC',
+      NCHAR: 'CHAR',
+      NVARCHAR: 'VARCHAR',
+      NTEXT: 'TEXT',
+      IMAGE: 'BLOB',
+      XML: 'BLOB',
+      DATETIMEOFFSET: 'TEXT',
+      SQL_VARIANT: 'TEXT',
+      UNIQUEIDENTIFIER: 'UUID',
+      SMALLDATETIME: 'DATETIME',
+      CURSOR: 'BLOB',
+    },
+    fallback: 'TEXT',
+  },
+  [SqlDatabase.ORACLESQL]: {
+    native: { INT: 'INTEGER', NUMERIC: 'NUMBER', DECIMAL: 'NUMBER', CHARACTER: 'CHAR' },
+    generic: { INTEGER: 'INT', MEDIUMINT: 'INT' },
+    fallback: 'BLOB',
+  },
+};
+
+const TABLE_COLOR = '#175e7a';
+
+export function createContext(source: SqlDatabase, database: SqlDatabase): ImportContext {
+  return {
+    source,
+    database,
+    line: 1,
+    tables: [],
+    relationships: [],
+    enums: [],
+    types: [],
+    warnings: [],
+  };
+}
+
+export function warn(context: ImportContext, message: string): void {
+  context.warnings.push({ line: context.line, message });
+}
+
+export function newTable(name: string): IDiagramTable {
+  return {
+    id: randomUUID(),
+    name,
+    x: 0,
+    y: 0,
+    fields: [],
+    comment: '',
+    indices: [],
+    color: TABLE_COLOR,
+  };
+}
+
+export function newField(name: string, type: string): IDiagramField {
+  return {
+    id: randomUUID(),
+    name,
+    type,
+    default: '',
+    check: '',
+    primary: false,
+    unique: false,
+    notNull: false,
+    increment: false,
+    comment: '',
+  };
+}
+
+export function findTable(context: ImportContext, name: string): IDiagramTable | undefined {
+  return context.tables.find((table) => table.name === name);
+}
+
+// The diagram type for a column's data type: a custom type or enum of the script, a built-in
+// type of the diagram's database, or its closest equivalent there
+export function resolveType(context: ImportContext, dataType: string, column: string): string {
+  const custom = [...context.types, ...context.enums].find((type) =>
+    [type.name, `"${type.name}"`].includes(dataType),
+  );
+  if (custom) return custom.name;
+
+  const type = dataType.toUpperCase();
+  if (isBuiltInType(context.database, type)) return type;
+
+  const affinity = AFFINITY[context.source];
+  const mapped =
+    context.database === SqlDatabase.GENERIC ? affinity.generic[type] : affinity.native[type];
+  if (mapped) return mapped;
+
+  warn(context, `Unknown type ${dataType} of ${column} was imported as ${affinity.fallback}`);
+  return affinity.fallback;
+}
+
+// "set null" -> "Set null", as the editor names referential actions
+export function actionName(action: string): string {
+  const lower = action.toLowerCase();
+  return lower[0].toUpperCase() + lower.substring(1);
+}
+
+export interface ForeignKey {
+  name?: string | null;
+  startTable: IDiagramTable;
+  startFieldName: string;
+  endTableName: string;
+  endFieldName: string;
+  updateConstraint: string;
+  deleteConstraint: string;
+}
+
+// Add a relationship for a foreign key, or a warning when it references something unknown
+export function addRelationship(context: ImportContext, key: ForeignKey): void {
+  const label = `Foreign key ${key.startTable.name}(${key.startFieldName})`;
+  const startField = key.startTable.fields.find((field) => field.name === key.startFieldName);
+  if (!startField) {
+    warn(context, `${label} names a column that does not exist`);
+    return;
+  }
+
+  const endTable = findTable(context, key.endTableName);
+  if (!endTable) {
+    warn(context, `${label} references unknown table ${key.endTableName}`);
+    return;
+  }
+
+  const endField = endTable.fields.find((field) => field.name === key.endFieldName);
+  if (!endField) {
+    warn(context, `${label} references unknown column ${key.endTableName}(${key.endFieldName})`);
+    return;
+  }
+
+  context.relationships.push({
+    id: randomUUID(),
+    name: key.name || `fk_${key.startTable.name}_${key.startFieldName}_${key.endTableName}`,
+    startTableId: key.startTable.id,
+    startFieldId: startField.id,
+    endTableId: endTable.id,
+    endFieldId: endField.id,
+    cardinality: startField.unique ? 'one_to_one' : 'many_to_one',
+    updateConstraint: key.updateConstraint,
+    deleteConstraint: key.deleteConstraint,
+  });
+}
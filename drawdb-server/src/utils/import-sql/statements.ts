@@ -0,0 +1,105 @@
+export interface ISqlStatement {
+  text: string;
+  // 1-based line of the script the statement starts on
+  line: number;
+}
+
+const GO_LINE = /[ \t]*GO[ \t]*(\r?\n|$)/iy;
+const DOLLAR_TAG = /\$(?:[A-Za-z_]\w*)?\$/y;
+
+function matchAt(pattern: RegExp, text: string, index: number): string | null {
+  pattern.lastIndex = index;
+  return pattern.exec(text)?.[0] ?? null;
+}
+
+// End of the quoted string or identifier opened at `index`; doubled quotes and, in strings,
+// backslashes escape the next character
+function closingQuote(sql: string, index: number): number {
+  const quote = sql[index];
+  const close = quote === '[' ? ']' : quote;
+
+  for (let i = index + 1; i < sql.length; i++) {
+    if (sql[i] === '\\' && quote === "'") {
+      i++;
+    } else if (sql[i] === close) {
+      if (sql[i + 1] !== close || close === ']') return i + 1;
+      i++;
+    }
+  }
+  return sql.length;
+}
+
+// Split a script into statements at semicolons and T-SQL GO lines, ignoring separators inside
+// quotes, comments and dollar-quoted bodies. Comments between statements are dropped.
+export function splitStatements(sql: string): ISqlStatement[] {
+  const statements: ISqlStatement[] = [];
+  let start = -1;
+  let startLine = 1;
+  let line = 1;
+  let i = 0;
+
+  const advanceTo = (index: number) => {
+    for (; i < index; i++) {
+      if (sql[i] === '\n') line++;
+    }
+  };
+
+  const endStatement = (index: number) => {
+    if (start !== -1) {
+      statements.push({ text: sql.slice(start, index).trim(), line: startLine });
+    }
+    start = -1;
+  };
+
+  while (i < sql.length) {
+    const char = sql[i];
+
+    const go = i === 0 || sql[i - 1] === '\n' ? matchAt(GO_LINE, sql, i) : null;
+    if (go) {
+      endStatement(i);
+      advanceTo(i + go.length);
+      continue;
+    }
+
+    if (char === ';') {
+      endStatement(i);
+      advanceTo(i + 1);
+      continue;
+    }
+
+    if (/\s/.test(char)) {
+      advanceTo(i + 1);
+      continue;
+    }
+
+    if (sql.startsWith('--', i)) {
+      const newline = sql.indexOf('\n', i);
+      advanceTo(newline === -1 ? sql.length : newline);
+      continue;
+    }
+
+    if (sql.startsWith('/*', i)) {
+      const close = sql.indexOf('*/', i + 2);
+      advanceTo(close === -1 ? sql.length : close + 2);
+      continue;
+    }
+
+    if (start === -1) {
+      start = i;
+      startLine = line;
+    }
+
+    const tag = char === '$' ? matchAt(DOLLAR_TAG, sql, i) : null;
+    if (tag) {
+      const close = sql.indexOf(tag, i + tag.length);
+      advanceTo(close === -1 ? sql.length : close + tag.length);
+    } else if (char === "'" || char === '"' || char === '`' || char === '[') {
+      advanceTo(closingQuote(sql, i));
+    } else {
+      advanceTo(i + 1);
+    }
+  }
+
+  endStatement(sql.length);
+  return statements;
+}
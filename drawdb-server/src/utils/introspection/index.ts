@@ -0,0 +1,33 @@
+import { arrangeTables } from '../diagram-layout';
+import { SqlDatabase } from '../export-sql/data-types';
+import { createContext, ISqlImportResult } from '../import-sql/shared';
+import { readMySQL } from './mysql';
+import { readPostgres } from './postgres';
+import { MetadataQuery } from './shared';
+import { readSQLite } from './sqlite';
+
+export { MetadataQuery } from './shared';
+
+// Build diagram collections from the catalogs of a live database, as the SQL import does from a
+// script. Only `schema` is read on PostgreSQL; MySQL and MariaDB read the connected database.
+export async function introspect(
+  query: MetadataQuery,
+  source: SqlDatabase,
+  database: SqlDatabase = source,
+  schema = 'public',
+): Promise<ISqlImportResult> {
+  const context = createContext(source, database);
+
+  if (source === SqlDatabase.POSTGRES) {
+    await readPostgres(context, query, schema);
+  } else if (source === SqlDatabase.SQLITE) {
+    await readSQLite(context, query);
+  } else {
+    await readMySQL(context, query);
+  }
+
+  arrangeTables(context.tables);
+
+  const { tables, relationships, enums, types, warnings } = context;
+  return { tables, relationships, enums, types, warnings };
+}
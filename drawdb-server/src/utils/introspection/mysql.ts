@@ -0,0 +1,137 @@
+import { findTable, ImportContext, newField, newTable, resolveType } from '../import-sql/shared';
+import {
+  addForeignKey,
+  addIndex,
+  defaultValue,
+  ForeignKeyColumn,
+  groupForeignKeys,
+  markPrimaryKey,
+  MetadataQuery,
+} from './shared';
+
+interface TableRow {
+  name: string;
+  comment: string;
+}
+
+interface ColumnRow {
+  table: string;
+  name: string;
+  dataType: string;
+  columnType: string;
+  nullable: string;
+  default: string | null;
+  extra: string;
+  comment: string;
+}
+
+interface IndexRow {
+  table: string;
+  name: string;
+  nonUnique: number | string;
+  column: string | null;
+}
+
+// The arguments of a column type: 10,2 in decimal(10,2) unsigned
+const TYPE_ARGUMENTS_RE = /^\w+\((.*)\)/;
+
+function readField(context: ImportContext, row: ColumnRow) {
+  const field = newField(
+    row.name,
+    resolveType(context, row.dataType.toUpperCase(), `${row.table}.${row.name}`),
+  );
+  const args = TYPE_ARGUMENTS_RE.exec(row.columnType)?.[1];
+
+  if (field.type === 'ENUM' || field.type === 'SET') {
+    field.values = (args ?? '')
+      .split(/,(?=')/)
+      .map((value) => value.replace(/^'|'$/g, '').replace(/''/g, "'"));
+  } else if (args) {
+    field.size = /^\d+$/.test(args) ? Number(args) : args;
+  }
+
+  if (/\bunsigned\b/i.test(row.columnType)) field.unsigned = true;
+
+  field.notNull = row.nullable === 'NO';
+  field.increment = /auto_increment/i.test(row.extra);
+  field.comment = row.comment ?? '';
+
+  // MariaDB quotes literal defaults and reports no default as NULL
+  if (row.default !== null && row.default !== 'NULL') {
+    field.default = defaultValue(row.default);
+  }
+
+  return field;
+}
+
+// Read a MySQL or MariaDB database from information_schema
+export async function readMySQL(context: ImportContext, query: MetadataQuery): Promise<void> {
+  const tables = await query<TableRow>(
+    `SELECT TABLE_NAME AS name, TABLE_COMMENT AS comment
+     FROM information_schema.TABLES
+     WHERE TABLE_SCHEMA = DATABASE() AND TABLE_TYPE = 'BASE TABLE'
+     ORDER BY TABLE_NAME`,
+  );
+  for (const row of tables) {
+    const table = newTable(row.name);
+    table.comment = row.comment ?? '';
+    context.tables.push(table);
+  }
+
+  const columns = await query<ColumnRow>(
+    `SELECT TABLE_NAME AS \`table\`, COLUMN_NAME AS name, DATA_TYPE AS dataType,
+       COLUMN_TYPE AS columnType, IS_NULLABLE AS nullable, COLUMN_DEFAULT AS \`default\`,
+       EXTRA AS extra, COLUMN_COMMENT AS comment
+     FROM information_schema.COLUMNS
+     WHERE TABLE_SCHEMA = DATABASE()
+     ORDER BY TABLE_NAME, ORDINAL_POSITION`,
+  );
+  for (const row of columns) {
+    findTable(context, row.table)?.fields.push(readField(context, row));
+  }
+
+  const foreignKeys = groupForeignKeys(
+    await query<ForeignKeyColumn>(
+      `SELECT k.CONSTRAINT_NAME AS name, k.TABLE_NAME AS \`table\`, k.COLUMN_NAME AS \`column\`,
+         k.REFERENCED_TABLE_NAME AS foreignTable, k.REFERENCED_COLUMN_NAME AS foreignColumn,
+         r.UPDATE_RULE AS onUpdate, r.DELETE_RULE AS onDelete
+       FROM information_schema.KEY_COLUMN_USAGE k
+       JOIN information_schema.REFERENTIAL_CONSTRAINTS r
+         ON r.CONSTRAINT_SCHEMA = k.CONSTRAINT_SCHEMA
+         AND r.CONSTRAINT_NAME = k.CONSTRAINT_NAME
+         AND r.TABLE_NAME = k.TABLE_NAME
+       WHERE k.TABLE_SCHEMA = DATABASE() AND k.REFERENCED_TABLE_NAME IS NOT NULL
+       ORDER BY k.TABLE_NAME, k.CONSTRAINT_NAME, k.ORDINAL_POSITION`,
+    ),
+  );
+
+  // One row per indexed column; foreign keys get an index of their own name, which is left out
+  const indexColumns = await query<IndexRow>(
+    `SELECT TABLE_NAME AS \`table\`, INDEX_NAME AS name, NON_UNIQUE AS nonUnique,
+       COLUMN_NAME AS \`column\`
+     FROM information_schema.STATISTICS
+     WHERE TABLE_SCHEMA = DATABASE()
+     ORDER BY TABLE_NAME, INDEX_NAME, SEQ_IN_INDEX`,
+  );
+  const indices = new Map<string, IndexRow & { columns: string[] }>();
+  for (const row of indexColumns) {
+    const id = `${row.table}.${row.name}`;
+    const index = indices.get(id) ?? { ...row, columns: [] };
+    // Functional key parts have no column
+    if (row.column) index.columns.push(row.column);
+    indices.set(id, index);
+  }
+
+  for (const index of indices.values()) {
+    const table = findTable(context, index.table);
+    if (!table || index.columns.length === 0) continue;
+
+    if (index.name === 'PRIMARY') {
+      markPrimaryKey(table, index.columns);
+    } else if (!foreignKeys.some((key) => key.table === index.table && key.name === index.name)) {
+      addIndex(table, index.name, Number(index.nonUnique) === 0, index.columns);
+    }
+  }
+
+  foreignKeys.forEach((key) => addForeignKey(context, key));
+}
@@ -0,0 +1,228 @@
+import { findTable, ImportContext, newField, newTable, resolveType } from '../import-sql/shared';
+import {
+  addForeignKey,
+  addIndex,
+  defaultValue,
+  ForeignKey,
+  markPrimaryKey,
+  MetadataQuery,
+} from './shared';
+
+interface TableRow {
+  name: string;
+  comment: string | null;
+}
+
+interface ColumnRow {
+  table: string;
+  name: string;
+  udtName: string;
+  dataType: string;
+  length: number | null;
+  precision: number | null;
+  scale: number | null;
+  nullable: string;
+  default: string | null;
+  identity: string;
+  comment: string | null;
+}
+
+interface ConstraintRow {
+  name: string;
+  type: 'p' | 'u' | 'c';
+  table: string;
+  columns: string[];
+  definition: string;
+}
+
+interface IndexRow {
+  name: string;
+  table: string;
+  unique: boolean;
+  columns: string[];
+}
+
+interface EnumRow {
+  name: string;
+  values: string[];
+}
+
+// Catalog names of the built-in types whose SQL names differ
+const UDT_NAMES: Record<string, string> = {
+  int2: 'SMALLINT',
+  int4: 'INTEGER',
+  int8: 'BIGINT',
+  float4: 'REAL',
+  float8: 'DOUBLE PRECISION',
+  bool: 'BOOLEAN',
+  bpchar: 'CHAR',
+};
+
+// pg_constraint's one-letter referential actions
+const ACTIONS: Record<string, string> = {
+  a: 'no action',
+  r: 'restrict',
+  c: 'cascade',
+  n: 'set null',
+  d: 'set default',
+};
+
+const SIZED_TYPES = ['VARCHAR', 'CHAR', 'BIT', 'VARBIT'];
+const PRECISION_TYPES = ['NUMERIC', 'DECIMAL'];
+
+// Columns of the constraint or index, in key order
+const keyColumns = (keys: string, relation: string) => `ARRAY(
+  SELECT a.attname::text FROM unnest(${keys}) WITH ORDINALITY AS k(attnum, position)
+  JOIN pg_attribute a ON a.attrelid = ${relation} AND a.attnum = k.attnum
+  ORDER BY k.position)`;
+
+function readType(context: ImportContext, row: ColumnRow) {
+  const isArray = row.dataType === 'ARRAY';
+  const udt = isArray ? row.udtName.replace(/^_/, '') : row.udtName;
+  const type = row.dataType === 'USER-DEFINED' ? udt : (UDT_NAMES[udt] ?? udt.toUpperCase());
+
+  const field = newField(row.name, resolveType(context, type, `${row.table}.${row.name}`));
+  if (isArray) field.isArray = true;
+
+  if (SIZED_TYPES.includes(field.type) && row.length) {
+    field.size = row.length;
+  } else if (PRECISION_TYPES.includes(field.type) && row.precision) {
+    field.size = row.scale ? `${row.precision},${row.scale}` : row.precision;
+  }
+
+  return field;
+}
+
+// Read a PostgreSQL schema from pg_catalog and information_schema
+export async function readPostgres(
+  context: ImportContext,
+  query: MetadataQuery,
+  schema: string,
+): Promise<void> {
+  const enums = await query<EnumRow>(
+    `SELECT t.typname AS name, array_agg(e.enumlabel::text ORDER BY e.enumsortorder) AS "values"
+     FROM pg_type t
+     JOIN pg_enum e ON e.enumtypid = t.oid
+     JOIN pg_namespace n ON n.oid = t.typnamespace
+     WHERE n.nspname = :schema
+     GROUP BY t.typname
+     ORDER BY t.typname`,
+    { schema },
+  );
+  context.enums.push(...enums.map(({ name, values }) => ({ name, values })));
+
+  const tables = await query<TableRow>(
+    `SELECT c.relname AS name, obj_description(c.oid, 'pg_class') AS comment
+     FROM pg_class c
+     JOIN pg_namespace n ON n.oid = c.relnamespace
+     WHERE n.nspname = :schema AND c.relkind IN ('r', 'p') AND NOT c.relispartition
+     ORDER BY c.relname`,
+    { schema },
+  );
+  for (const row of tables) {
+    const table = newTable(row.name);
+    table.comment = row.comment ?? '';
+    context.tables.push(table);
+  }
+
+  const columns = await query<ColumnRow>(
+    `SELECT c.table_name AS "table", c.column_name AS name, c.udt_name AS "udtName",
+       c.data_type AS "dataType", c.character_maximum_length AS length,
+       c.numeric_precision AS precision, c.numeric_scale AS scale, c.is_nullable AS nullable,
+       c.column_default AS "default", c.is_identity AS identity,
+       col_description(format('%I.%I', c.table_schema, c.table_name)::regclass, c.ordinal_position)
+         AS comment
+     FROM information_schema.columns c
+     WHERE c.table_schema = :schema
+     ORDER BY c.table_name, c.ordinal_position`,
+    { schema },
+  );
+  for (const row of columns) {
+    const table = findTable(context, row.table);
+    if (!table) continue;
+
+    const field = readType(context, row);
+    field.notNull = row.nullable === 'NO';
+    field.comment = row.comment ?? '';
+
+    // Serial columns default to their sequence
+    if (row.identity === 'YES' || row.default?.startsWith('nextval(')) {
+      field.increment = true;
+    } else {
+      field.default = defaultValue(row.default);
+    }
+
+    table.fields.push(field);
+  }
+
+  const constraints = await query<ConstraintRow>(
+    `SELECT con.conname AS name, con.contype AS type, rel.relname AS "table",
+       ${keyColumns('con.conkey', 'con.conrelid')} AS columns,
+       pg_get_constraintdef(con.oid) AS definition
+     FROM pg_constraint con
+     JOIN pg_class rel ON rel.oid = con.conrelid
+     JOIN pg_namespace n ON n.oid = rel.relnamespace
+     WHERE n.nspname = :schema AND con.contype IN ('p', 'u', 'c')
+     ORDER BY rel.relname, con.conname`,
+    { schema },
+  );
+  for (const row of constraints) {
+    const table = findTable(context, row.table);
+    if (!table) continue;
+
+    if (row.type === 'p') {
+      markPrimaryKey(table, row.columns);
+    } else if (row.type === 'u') {
+      addIndex(table, row.name, true, row.columns);
+    } else if (row.columns.length === 1) {
+      // Column checks keep their expression without the CHECK ( ... ) around it
+      const field = table.fields.find((f) => f.name === row.columns[0]);
+      if (field) field.check = row.definition.replace(/^CHECK \(([\s\S]*)\)$/, '$1');
+    }
+  }
+
+  const indices = await query<IndexRow>(
+    `SELECT i.relname AS name, t.relname AS "table", ix.indisunique AS "unique",
+       ${keyColumns('ix.indkey::int2[]', 't.oid')} AS columns
+     FROM pg_index ix
+     JOIN pg_class i ON i.oid = ix.indexrelid
+     JOIN pg_class t ON t.oid = ix.indrelid
+     JOIN pg_namespace n ON n.oid = t.relnamespace
+     WHERE n.nspname = :schema AND NOT ix.indisprimary
+       AND NOT EXISTS (SELECT 1 FROM pg_constraint c WHERE c.conindid = ix.indexrelid)
+     ORDER BY t.relname, i.relname`,
+    { schema },
+  );
+  for (const row of indices) {
+    const table = findTable(context, row.table);
+    if (table && row.columns.length > 0) {
+      table.indices.push({
+        id: table.indices.length,
+        name: row.name,
+        unique: row.unique,
+        fields: row.columns,
+      });
+    }
+  }
+
+  const foreignKeys = await query<ForeignKey>(
+    `SELECT con.conname AS name, rel.relname AS "table", frel.relname AS "foreignTable",
+       ${keyColumns('con.conkey', 'con.conrelid')} AS columns,
+       ${keyColumns('con.confkey', 'con.confrelid')} AS "foreignColumns",
+       con.confupdtype AS "onUpdate", con.confdeltype AS "onDelete"
+     FROM pg_constraint con
+     JOIN pg_class rel ON rel.oid = con.conrelid
+     JOIN pg_class frel ON frel.oid = con.confrelid
+     JOIN pg_namespace n ON n.oid = rel.relnamespace
+     WHERE n.nspname = :schema AND con.contype = 'f'
+     ORDER BY rel.relname, con.conname`,
+    { schema },
+  );
+  for (const key of foreignKeys) {
+    addForeignKey(context, {
+      ...key,
+      onUpdate: ACTIONS[key.onUpdate] ?? 'no action',
+      onDelete: ACTIONS[key.onDelete] ?? 'no action',
+    });
+  }
+}
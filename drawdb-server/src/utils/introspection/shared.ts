@@ -0,0 +1,101 @@
+import { IDiagramTable } from '../../interfaces/diagram-document';
+import { actionName, addRelationship, findTable, ImportContext, warn } from '../import-sql/shared';
+
+// Runs a read-only metadata query on the live database and returns its rows
+export type MetadataQuery = <T extends object>(
+  sql: string,
+  replacements?: Record<string, unknown>,
+) => Promise<T[]>;
+
+// A foreign key read from the catalogs, with its referential actions as SQL words
+export interface ForeignKey {
+  name: string;
+  table: string;
+  columns: string[];
+  foreignTable: string;
+  foreignColumns: string[];
+  onUpdate: string;
+  onDelete: string;
+}
+
+// Catalogs that list foreign keys one row per column
+export interface ForeignKeyColumn extends Omit<ForeignKey, 'columns' | 'foreignColumns'> {
+  column: string;
+  foreignColumn: string;
+}
+
+// A quoted literal with an optional cast, as catalogs report column defaults: 'ok'::mood
+const QUOTED_DEFAULT_RE = /^'((?:[^']|'')*)'(?:::[\w\s".[\]()]+)?$/;
+
+// Catalogs keep defaults as SQL; the diagram keeps literals bare, as the editor stores them
+export function defaultValue(raw: string | null | undefined): string {
+  if (raw === null || raw === undefined) return '';
+
+  const quoted = QUOTED_DEFAULT_RE.exec(raw.trim());
+  if (quoted) return quoted[1].replace(/''/g, "'");
+
+  return raw.trim();
+}
+
+export function markPrimaryKey(table: IDiagramTable, columns: string[]): void {
+  table.fields.forEach((field) => {
+    if (columns.includes(field.name)) field.primary = true;
+  });
+}
+
+// Unique constraints on a single column become the field's flag, as the SQL import does; wider
+// ones and plain indices become indices
+export function addIndex(
+  table: IDiagramTable,
+  name: string,
+  unique: boolean,
+  columns: string[],
+): void {
+  if (unique && columns.length === 1) {
+    const field = table.fields.find((f) => f.name === columns[0]);
+    if (field) {
+      field.unique = true;
+      return;
+    }
+  }
+
+  table.indices.push({ id: table.indices.length, name, unique, fields: columns });
+}
+
+// Gather per-column rows into keys, in the order the catalog lists them
+export function groupForeignKeys(rows: ForeignKeyColumn[]): ForeignKey[] {
+  const keys = new Map<string, ForeignKey>();
+
+  for (const { column, foreignColumn, ...row } of rows) {
+    const id = `${row.table}.${row.name}`;
+    const key = keys.get(id) ?? { ...row, columns: [], foreignColumns: [] };
+    key.columns.push(column);
+    key.foreignColumns.push(foreignColumn);
+    keys.set(id, key);
+  }
+
+  return [...keys.values()];
+}
+
+// Add a relationship for a foreign key; composite keys are imported on their first column
+export function addForeignKey(context: ImportContext, key: ForeignKey): void {
+  const table = findTable(context, key.table);
+  if (!table) return;
+
+  if (key.columns.length > 1) {
+    warn(
+      context,
+      `Composite foreign key ${key.name} on ${key.table} was imported on its first column only`,
+    );
+  }
+
+  addRelationship(context, {
+    name: key.name,
+    startTable: table,
+    startFieldName: key.columns[0],
+    endTableName: key.foreignTable,
+    endFieldName: key.foreignColumns[0],
+    updateConstraint: actionName(key.onUpdate),
+    deleteConstraint: actionName(key.onDelete),
+  });
+}
@@ -0,0 +1,131 @@
+import { findTable, ImportContext, newField, newTable, resolveType } from '../import-sql/shared';
+import {
+  addForeignKey,
+  addIndex,
+  defaultValue,
+  ForeignKeyColumn,
+  groupForeignKeys,
+  markPrimaryKey,
+  MetadataQuery,
+} from './shared';
+
+interface TableRow {
+  name: string;
+  sql: string;
+}
+
+interface ColumnRow {
+  name: string;
+  type: string;
+  notnull: number;
+  dflt_value: string | null;
+  pk: number;
+}
+
+interface IndexRow {
+  name: string;
+  unique: number;
+  origin: 'c' | 'u' | 'pk';
+}
+
+interface IndexColumnRow {
+  name: string | null;
+}
+
+interface ForeignKeyRow {
+  id: number;
+  table: string;
+  from: string;
+  to: string | null;
+  on_update: string;
+  on_delete: string;
+}
+
+// A declared type with its arguments, as in VARCHAR(20) or NUMERIC(10, 2)
+const DECLARED_TYPE_RE = /^([^(]*?)\s*(?:\((.*)\))?$/;
+
+// PRAGMA functions take their table as a string argument
+function literal(name: string): string {
+  return `'${name.replace(/'/g, "''")}'`;
+}
+
+function readField(context: ImportContext, table: string, row: ColumnRow) {
+  const [, type = '', args] = DECLARED_TYPE_RE.exec(row.type.trim()) ?? [];
+  const field = newField(
+    row.name,
+    resolveType(context, type.toUpperCase() || 'BLOB', `${table}.${row.name}`),
+  );
+
+  if (args) field.size = /^\d+$/.test(args) ? Number(args) : args.replace(/\s+/g, '');
+  field.notNull = row.notnull === 1;
+  field.default = defaultValue(row.dflt_value);
+
+  return field;
+}
+
+// Read a SQLite database from sqlite_master and its table PRAGMAs. SQLite keeps no comments.
+export async function readSQLite(context: ImportContext, query: MetadataQuery): Promise<void> {
+  const tables = await query<TableRow>(
+    `SELECT name, sql FROM sqlite_master
+     WHERE type = 'table' AND name NOT LIKE 'sqlite_%'
+     ORDER BY name`,
+  );
+
+  const foreignKeyColumns: ForeignKeyColumn[] = [];
+
+  for (const row of tables) {
+    const table = newTable(row.name);
+    context.tables.push(table);
+
+    const columns = await query<ColumnRow>(`SELECT * FROM pragma_table_info(${literal(row.name)})`);
+    table.fields.push(...columns.map((column) => readField(context, row.name, column)));
+
+    const key = columns.filter((column) => column.pk > 0).sort((a, b) => a.pk - b.pk);
+    markPrimaryKey(
+      table,
+      key.map((column) => column.name),
+    );
+
+    // Only a lone INTEGER PRIMARY KEY is an alias of the rowid, which AUTOINCREMENT applies to
+    if (key.length === 1 && /\bAUTOINCREMENT\b/i.test(row.sql)) {
+      const field = table.fields.find((f) => f.name === key[0].name);
+      if (field) field.increment = true;
+    }
+
+    const indices = await query<IndexRow>(`SELECT * FROM pragma_index_list(${literal(row.name)})`);
+    for (const index of indices.filter((i) => i.origin !== 'pk')) {
+      const indexColumns = await query<IndexColumnRow>(
+        `SELECT name FROM pragma_index_info(${literal(index.name)})`,
+      );
+      const names = indexColumns.flatMap((column) => (column.name ? [column.name] : []));
+      if (names.length === 0) continue;
+
+      // Unique constraints are backed by indices SQLite names itself, with a reserved prefix
+      const name = index.origin === 'u' ? `${row.name}_${names.join('_')}_key` : index.name;
+      addIndex(table, name, index.unique === 1, names);
+    }
+
+    const foreignKeys = await query<ForeignKeyRow>(
+      `SELECT * FROM pragma_foreign_key_list(${literal(row.name)}) ORDER BY id, seq`,
+    );
+    for (const foreignKey of foreignKeys) {
+      foreignKeyColumns.push({
+        name: `fk_${row.name}_${foreignKey.id}`,
+        table: row.name,
+        column: foreignKey.from,
+        foreignTable: foreignKey.table,
+        foreignColumn: foreignKey.to ?? '',
+        onUpdate: foreignKey.on_update,
+        onDelete: foreignKey.on_delete,
+      });
+    }
+  }
+
+  // A key on the referenced table's primary key may leave its column out
+  for (const column of foreignKeyColumns.filter((c) => !c.foreignColumn)) {
+    const primary = findTable(context, column.foreignTable)?.fields.find((f) => f.primary);
+    column.foreignColumn = primary?.name ?? '';
+  }
+
+  groupForeignKeys(foreignKeyColumns).forEach((key) => addForeignKey(context, key));
+}
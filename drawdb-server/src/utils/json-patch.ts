@@ -0,0 +1,187 @@
+import { IJsonPatchOperation } from '../interfaces/json-patch-operation';
+import { isDeepEqual } from './deep-equal';
+
+export class JsonPatchError extends Error {
+  public readonly operationIndex: number;
+
+  constructor(operationIndex: number, message: string) {
+    super(message);
+    this.name = 'JsonPatchError';
+    this.operationIndex = operationIndex;
+  }
+}
+
+type Container = Record<string, unknown> | unknown[];
+
+const FORBIDDEN_SEGMENTS = ['__proto__', 'constructor', 'prototype'];
+
+// RFC 6901 JSON Pointer → path segments
+export function parsePointer(pointer: string): string[] {
+  if (pointer === '') return [];
+  if (!pointer.startsWith('/')) {
+    throw new Error(`Invalid JSON pointer "${pointer}"`);
+  }
+
+  const segments = pointer
+    .substring(1)
+    .split('/')
+    .map((segment) => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+
+  if (segments.some((segment) => FORBIDDEN_SEGMENTS.includes(segment))) {
+    throw new Error(`Invalid JSON pointer "${pointer}"`);
+  }
+  return segments;
+}
+
+function isContainer(value: unknown): value is Container {
+  return typeof value === 'object' && value !== null;
+}
+
+function arrayIndex(array: unknown[], segment: string, allowEnd: boolean): number {
+  if (segment === '-' && allowEnd) return array.length;
+  if (!/^(0|[1-9][0-9]*)$/.test(segment)) {
+    throw new Error(`Invalid array index "${segment}"`);
+  }
+
+  const index = parseInt(segment, 10);
+  const max = allowEnd ? array.length : array.length - 1;
+  if (index > max) {
+    throw new Error(`Array index ${index} is out of bounds`);
+  }
+  return index;
+}
+
+// Walk to the parent of the pointer's target
+function resolveParent(document: unknown, segments: string[]): Container {
+  let current = document;
+
+  for (const segment of segments.slice(0, -1)) {
+    if (Array.isArray(current)) {
+      current = current[arrayIndex(current, segment, false)];
+    } else if (isContainer(current) && Object.prototype.hasOwnProperty.call(current, segment)) {
+      current = (current as Record<string, unknown>)[segment];
+    } else {
+      throw new Error(`Path segment "${segment}" does not exist`);
+    }
+  }
+
+  if (!isContainer(current)) {
+    throw new Error('Parent of the target location is not an object or array');
+  }
+  return current;
+}
+
+function getValue(document: unknown, segments: string[]): unknown {
+  if (segments.length === 0) return document;
+
+  const parent = resolveParent(document, segments);
+  const key = segments[segments.length - 1];
+
+  if (Array.isArray(parent)) {
+    return parent[arrayIndex(parent, key, false)];
+  }
+  if (!Object.prototype.hasOwnProperty.call(parent, key)) {
+    throw new Error(`Path segment "${key}" does not exist`);
+  }
+  return parent[key];
+}
+
+function addValue(document: unknown, segments: string[], value: unknown): unknown {
+  if (segments.length === 0) return value;
+
+  const parent = resolveParent(document, segments);
+  const key = segments[segments.length - 1];
+
+  if (Array.isArray(parent)) {
+    parent.splice(arrayIndex(parent, key, true), 0, value);
+  } else {
+    parent[key] = value;
+  }
+  return document;
+}
+
+function removeValue(document: unknown, segments: string[]): unknown {
+  if (segments.length === 0) {
+    throw new Error('Cannot remove the document root');
+  }
+
+  const parent = resolveParent(document, segments);
+  const key = segments[segments.length - 1];
+
+  if (Array.isArray(parent)) {
+    const [removed] = parent.splice(arrayIndex(parent, key, false), 1);
+    return removed;
+  }
+  if (!Object.prototype.hasOwnProperty.call(parent, key)) {
+    throw new Error(`Path segment "${key}" does not exist`);
+  }
+
+  const removed = parent[key];
+  delete parent[key];
+  return removed;
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+function applyOperation(document: unknown, operation: IJsonPatchOperation): unknown {
+  const path = parsePointer(operation.path);
+
+  switch (operation.op) {
+    case 'add':
+      return addValue(document, path, clone(operation.value));
+    case 'remove':
+      removeValue(document, path);
+      return document;
+    case 'replace': {
+      if (path.length === 0) return clone(operation.value);
+      getValue(document, path);
+      const parent = resolveParent(document, path);
+      const key = path[path.length - 1];
+      if (Array.isArray(parent)) {
+        parent[arrayIndex(parent, key, false)] = clone(operation.value);
+      } else {
+        parent[key] = clone(operation.value);
+      }
+      return document;
+    }
+    case 'move': {
+      const from = parsePointer(operation.from as string);
+      if (path.length > from.length && from.every((segment, i) => path[i] === segment)) {
+        throw new Error('Cannot move a value into one of its children');
+      }
+      const value = removeValue(document, from);
+      return addValue(document, path, value);
+    }
+    case 'copy': {
+      const value = getValue(document, parsePointer(operation.from as string));
+      return addValue(document, path, clone(value));
+    }
+    case 'test':
+      if (!isDeepEqual(getValue(document, path), operation.value)) {
+        throw new Error(`Test failed at "${operation.path}"`);
+      }
+      return document;
+    default:
+      throw new Error(`Unsupported operation "${(operation as { op: string }).op}"`);
+  }
+}
+
+// Apply RFC 6902 operations atomically: the input is left untouched and the patched copy returned
+export function applyPatch<T>(document: T, operations: IJsonPatchOperation[]): T {
+  let result: unknown = clone(document);
+
+  operations.forEach((operation, index) => {
+    try {
+      result = applyOperation(result, operation);
+    } catch (error) {
+      throw new JsonPatchError(
+        index,
+        error instanceof Error ? error.message : 'Operation could not be applied',
+      );
+    }
+  });
+
+  return result as T;
+}
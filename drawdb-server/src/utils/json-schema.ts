@@ -0,0 +1,73 @@
+import { IValidationDetail } from '../interfaces/validation-detail';
+
+type JsonType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array';
+
+// The subset of JSON Schema the editor's document schemas use
+export interface IJsonSchema {
+  type: JsonType | JsonType[];
+  properties?: Record<string, IJsonSchema>;
+  required?: string[];
+  items?: IJsonSchema;
+  pattern?: string;
+}
+
+function typeOf(value: unknown): JsonType | 'null' {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value as JsonType;
+}
+
+function matchesType(value: unknown, types: JsonType[]): boolean {
+  const actual = typeOf(value);
+  return types.some((type) => type === actual || (type === 'number' && actual === 'integer'));
+}
+
+function describe(types: JsonType[]): string {
+  const names = types.map((type) => (/^[aeiou]/.test(type) ? `an ${type}` : `a ${type}`));
+  return names.length > 1
+    ? `${names.slice(0, -1).join(', ')} or ${names[names.length - 1]}`
+    : names[0];
+}
+
+// Validate a value against a schema, collecting every violation with its path (e.g. "tables[0].name")
+export function validateSchema(
+  value: unknown,
+  schema: IJsonSchema,
+  path: string,
+  details: IValidationDetail[] = [],
+): IValidationDetail[] {
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+
+  if (!matchesType(value, types)) {
+    details.push({ field: path, message: `${path} must be ${describe(types)}` });
+    return details;
+  }
+
+  if (typeof value === 'string' && schema.pattern && !new RegExp(schema.pattern).test(value)) {
+    details.push({ field: path, message: `${path} must match ${schema.pattern}` });
+  }
+
+  const items = schema.items;
+  if (Array.isArray(value) && items) {
+    value.forEach((item, index) => validateSchema(item, items, `${path}[${index}]`, details));
+  }
+
+  if (typeOf(value) === 'object') {
+    const object = value as Record<string, unknown>;
+
+    for (const key of schema.required ?? []) {
+      if (object[key] === undefined) {
+        details.push({ field: `${path}.${key}`, message: `${path}.${key} is required` });
+      }
+    }
+
+    for (const [key, propertySchema] of Object.entries(schema.properties ?? {})) {
+      if (object[key] !== undefined) {
+        validateSchema(object[key], propertySchema, `${path}.${key}`, details);
+      }
+    }
+  }
+
+  return details;
+}
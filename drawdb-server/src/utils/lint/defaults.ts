@@ -0,0 +1,83 @@
+import { IDiagramField } from '../../interfaces/diagram-document';
+import { isFunction } from '../export-sql/shared';
+
+const INT_RE = /^-?\d*$/;
+const DOUBLE_RE = /^-?\d*\.?\d+$/;
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_RE = /^(?:[01]?\d|2[0-3]):[0-5]?\d:[0-5]?\d(?:\.\d+)?(?:[+-]\d{2}:\d{2})?$/;
+const DATETIME_RE = /^\d{4}-\d{2}-\d{2}[ T]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:[+-]\d{2}:\d{2})?$/;
+
+// PostgreSQL's special date and time input values
+const SPECIAL_DATES = ['epoch', 'infinity', '-infinity', 'now', 'today', 'tomorrow', 'yesterday'];
+
+const INTEGER_TYPES = [
+  'INT',
+  'INTEGER',
+  'TINYINT',
+  'SMALLINT',
+  'MEDIUMINT',
+  'BIGINT',
+  'SERIAL',
+  'SMALLSERIAL',
+  'BIGSERIAL',
+];
+const DECIMAL_TYPES = [
+  'DECIMAL',
+  'NUMERIC',
+  'NUMBER',
+  'FLOAT',
+  'DOUBLE',
+  'DOUBLE PRECISION',
+  'REAL',
+  'MONEY',
+  'SMALLMONEY',
+];
+const STRING_TYPES = ['CHAR', 'VARCHAR', 'NCHAR', 'NVARCHAR', 'VARCHAR2', 'NVARCHAR2', 'CHARACTER'];
+const DATETIME_TYPES = [
+  'TIMESTAMP',
+  'TIMESTAMPTZ',
+  'DATETIME',
+  'DATETIME2',
+  'SMALLDATETIME',
+  'DATETIMEOFFSET',
+];
+const BOOLEAN_VALUES = ['true', 'false', '0', '1'];
+
+function unquote(value: string): string {
+  return /^'.*'$/.test(value) ? value.slice(1, -1) : value;
+}
+
+// Whether a field's default fits its type, after the editor's checkDefault for the common types
+// of drawdb/src/data/datatypes.js. Functions, keywords and types it knows nothing of pass.
+export function isValidDefault(field: IDiagramField): boolean {
+  const value = String(field.default ?? '').trim();
+  if (value === '' || isFunction(value)) return true;
+  if (!field.notNull && value.toLowerCase() === 'null') return true;
+
+  const type = field.type.toUpperCase();
+  const literal = unquote(value);
+  const lower = literal.toLowerCase();
+
+  if (INTEGER_TYPES.includes(type)) return INT_RE.test(literal);
+  if (DECIMAL_TYPES.includes(type)) return DOUBLE_RE.test(literal);
+  if (STRING_TYPES.includes(type)) {
+    return !field.size || !/^\d+$/.test(String(field.size)) || literal.length <= Number(field.size);
+  }
+  if (type === 'BOOLEAN' || type === 'BOOL') return BOOLEAN_VALUES.includes(lower);
+  if (type === 'BIT') return /^[01]+$/.test(literal);
+  if (type === 'DATE') {
+    return DATE_RE.test(literal) || [...SPECIAL_DATES, 'current_date'].includes(lower);
+  }
+  if (type === 'TIME' || type === 'TIMETZ') {
+    return TIME_RE.test(literal) || ['now', 'allballs', 'current_time'].includes(lower);
+  }
+  if (DATETIME_TYPES.includes(type)) {
+    return DATETIME_RE.test(literal) || [...SPECIAL_DATES, 'current_timestamp'].includes(lower);
+  }
+  if (type === 'ENUM') return (field.values ?? []).includes(literal);
+  if (type === 'SET') {
+    return literal.split(',').every((item) => (field.values ?? []).includes(item.trim()));
+  }
+
+  return true;
+}
@@ -0,0 +1,146 @@
+import {
+  ILintConfig,
+  ILintIssue,
+  IResolvedLintConfig,
+  LintRuleId,
+  LintSeverity,
+} from '../../interfaces/lint';
+import { IValidationDetail } from '../../interfaces/validation-detail';
+import { LINT_RULES, LintDocument, namingPattern } from './rules';
+
+export { LINT_RULES, LintDocument, NAMING_PRESETS } from './rules';
+
+export const LINT_SEVERITIES: LintSeverity[] = ['error', 'warning', 'info'];
+
+const NAMING_KINDS = ['table', 'column', 'index', 'relationship', 'enum', 'type'];
+// Patterns run on every save of every diagram they apply to, so they are kept short
+const MAX_PATTERN_LENGTH = 200;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Layer lint configs from the outermost folder to the diagram over the rule defaults; later
+// configs override a rule's settings and naming patterns one by one
+export function resolveLintConfig(
+  ...configs: Array<ILintConfig | null | undefined>
+): IResolvedLintConfig {
+  const resolved: IResolvedLintConfig = {
+    rules: Object.fromEntries(
+      LINT_RULES.map((rule) => [rule.id, { enabled: true, severity: rule.severity }]),
+    ) as IResolvedLintConfig['rules'],
+    naming: {},
+    rejectOnError: false,
+  };
+
+  for (const config of configs) {
+    if (!config) continue;
+
+    for (const [id, setting] of Object.entries(config.rules ?? {})) {
+      const rule = resolved.rules[id as LintRuleId];
+      if (rule && setting) Object.assign(rule, setting);
+    }
+    Object.assign(resolved.naming, config.naming);
+    if (config.rejectOnError !== undefined) resolved.rejectOnError = config.rejectOnError;
+  }
+
+  return resolved;
+}
+
+// Run the enabled rules over a diagram, as the editor's issue panel does
+export function lintDiagram(document: LintDocument, config: IResolvedLintConfig): ILintIssue[] {
+  const issues: ILintIssue[] = [];
+
+  for (const rule of LINT_RULES) {
+    const { enabled, severity } = config.rules[rule.id];
+    if (!enabled) continue;
+
+    rule.check({
+      document,
+      naming: config.naming,
+      report: (element, tableId, elementId, message) =>
+        issues.push({ rule: rule.id, severity, message, element, tableId, elementId }),
+    });
+  }
+
+  return issues;
+}
+
+export function summarizeIssues(issues: ILintIssue[]): Record<LintSeverity, number> {
+  const count = (severity: LintSeverity) =>
+    issues.filter((issue) => issue.severity === severity).length;
+  return { error: count('error'), warning: count('warning'), info: count('info') };
+}
+
+// Problems with a lint config sent by a client: unknown rules, bad severities, naming patterns
+// that are neither a preset nor a valid regular expression
+export function validateLintConfig(config: unknown): IValidationDetail[] {
+  const details: IValidationDetail[] = [];
+
+  if (!isObject(config)) {
+    return [{ field: 'lintConfig', message: 'Lint config must be an object' }];
+  }
+
+  const { rules, naming, rejectOnError } = config;
+
+  if (rules !== undefined) {
+    if (!isObject(rules)) {
+      details.push({ field: 'rules', message: 'rules must be an object keyed by rule id' });
+    } else {
+      for (const [id, setting] of Object.entries(rules)) {
+        if (!LINT_RULES.some((rule) => rule.id === id)) {
+          details.push({ field: `rules.${id}`, message: `Unknown lint rule ${id}` });
+        } else if (!isObject(setting)) {
+          details.push({ field: `rules.${id}`, message: 'Rule settings must be an object' });
+        } else {
+          if (setting.enabled !== undefined && typeof setting.enabled !== 'boolean') {
+            details.push({ field: `rules.${id}.enabled`, message: 'enabled must be a boolean' });
+          }
+          if (
+            setting.severity !== undefined &&
+            !LINT_SEVERITIES.includes(setting.severity as LintSeverity)
+          ) {
+            details.push({
+              field: `rules.${id}.severity`,
+              message: `severity must be one of ${LINT_SEVERITIES.join(', ')}`,
+            });
+          }
+        }
+      }
+    }
+  }
+
+  if (naming !== undefined) {
+    if (!isObject(naming)) {
+      details.push({ field: 'naming', message: 'naming must be an object' });
+    } else {
+      for (const [kind, pattern] of Object.entries(naming)) {
+        if (!NAMING_KINDS.includes(kind)) {
+          details.push({
+            field: `naming.${kind}`,
+            message: `Naming applies to ${NAMING_KINDS.join(', ')}`,
+          });
+          continue;
+        }
+        if (typeof pattern !== 'string' || pattern === '' || pattern.length > MAX_PATTERN_LENGTH) {
+          details.push({
+            field: `naming.${kind}`,
+            message: `Pattern must be a string of 1 to ${MAX_PATTERN_LENGTH} characters`,
+          });
+          continue;
+        }
+        try {
+          namingPattern(pattern);
+        } catch {
+          details.push({ field: `naming.${kind}`, message: `Invalid pattern ${pattern}` });
+        }
+      }
+    }
+  }
+
+  if (rejectOnError !== undefined && typeof rejectOnError !== 'boolean') {
+    details.push({ field: 'rejectOnError', message: 'rejectOnError must be a boolean' });
+  }
+
+  return details;
+}
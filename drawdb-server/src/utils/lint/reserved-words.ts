@@ -0,0 +1,463 @@
+import { SqlDatabase } from '../export-sql/data-types';
+
+// Reserved in standard SQL and by every dialect
+const STANDARD = [
+  'ALL',
+  'ALTER',
+  'AND',
+  'ANY',
+  'AS',
+  'BETWEEN',
+  'BY',
+  'CASE',
+  'CAST',
+  'CHECK',
+  'COLUMN',
+  'CONSTRAINT',
+  'CREATE',
+  'CROSS',
+  'CURRENT_DATE',
+  'CURRENT_TIME',
+  'CURRENT_TIMESTAMP',
+  'CURRENT_USER',
+  'DEFAULT',
+  'DELETE',
+  'DISTINCT',
+  'DROP',
+  'ELSE',
+  'END',
+  'EXISTS',
+  'FALSE',
+  'FOR',
+  'FOREIGN',
+  'FROM',
+  'FULL',
+  'GRANT',
+  'GROUP',
+  'HAVING',
+  'IN',
+  'INNER',
+  'INSERT',
+  'INTERSECT',
+  'INTO',
+  'IS',
+  'JOIN',
+  'LEFT',
+  'LIKE',
+  'NOT',
+  'NULL',
+  'ON',
+  'OR',
+  'ORDER',
+  'OUTER',
+  'PRIMARY',
+  'REFERENCES',
+  'RIGHT',
+  'SELECT',
+  'TABLE',
+  'THEN',
+  'TO',
+  'TRUE',
+  'UNION',
+  'UNIQUE',
+  'UPDATE',
+  'USER',
+  'USING',
+  'VALUES',
+  'WHEN',
+  'WHERE',
+  'WITH',
+];
+
+const MYSQL = [
+  'ACCESSIBLE',
+  'ADD',
+  'ANALYZE',
+  'ASC',
+  'BEFORE',
+  'BIGINT',
+  'BINARY',
+  'BLOB',
+  'BOTH',
+  'CALL',
+  'CASCADE',
+  'CHANGE',
+  'CHAR',
+  'CHARACTER',
+  'CONDITION',
+  'CONTINUE',
+  'CONVERT',
+  'CURSOR',
+  'DATABASE',
+  'DATABASES',
+  'DEC',
+  'DECIMAL',
+  'DECLARE',
+  'DELAYED',
+  'DESC',
+  'DESCRIBE',
+  'DIV',
+  'DOUBLE',
+  'DUAL',
+  'EACH',
+  'ELSEIF',
+  'ENCLOSED',
+  'ESCAPED',
+  'EXCEPT',
+  'EXIT',
+  'EXPLAIN',
+  'FETCH',
+  'FLOAT',
+  'FORCE',
+  'FULLTEXT',
+  'GENERATED',
+  'GROUPS',
+  'IF',
+  'IGNORE',
+  'INDEX',
+  'INFILE',
+  'INOUT',
+  'INT',
+  'INTEGER',
+  'INTERVAL',
+  'ITERATE',
+  'KEY',
+  'KEYS',
+  'KILL',
+  'LEADING',
+  'LEAVE',
+  'LIMIT',
+  'LINES',
+  'LOAD',
+  'LOCK',
+  'LONG',
+  'LOOP',
+  'MATCH',
+  'MOD',
+  'NATURAL',
+  'NUMERIC',
+  'OPTIMIZE',
+  'OPTION',
+  'OUT',
+  'OUTFILE',
+  'PARTITION',
+  'PRECISION',
+  'PROCEDURE',
+  'PURGE',
+  'RANGE',
+  'RANK',
+  'READ',
+  'REAL',
+  'RECURSIVE',
+  'REGEXP',
+  'RELEASE',
+  'RENAME',
+  'REPEAT',
+  'REPLACE',
+  'REQUIRE',
+  'RESIGNAL',
+  'RESTRICT',
+  'RETURN',
+  'REVOKE',
+  'RLIKE',
+  'ROW',
+  'ROWS',
+  'SCHEMA',
+  'SCHEMAS',
+  'SEPARATOR',
+  'SET',
+  'SHOW',
+  'SIGNAL',
+  'SMALLINT',
+  'SPATIAL',
+  'SQL',
+  'SSL',
+  'STARTING',
+  'STORED',
+  'TERMINATED',
+  'TINYINT',
+  'TRAILING',
+  'TRIGGER',
+  'UNDO',
+  'UNLOCK',
+  'UNSIGNED',
+  'USAGE',
+  'USE',
+  'VARCHAR',
+  'VARYING',
+  'VIRTUAL',
+  'WHILE',
+  'WINDOW',
+  'WRITE',
+  'XOR',
+  'ZEROFILL',
+];
+
+const POSTGRES = [
+  'ANALYSE',
+  'ANALYZE',
+  'ARRAY',
+  'ASC',
+  'ASYMMETRIC',
+  'AUTHORIZATION',
+  'BINARY',
+  'BOTH',
+  'COLLATE',
+  'CONCURRENTLY',
+  'CURRENT_CATALOG',
+  'CURRENT_ROLE',
+  'CURRENT_SCHEMA',
+  'DEFERRABLE',
+  'DESC',
+  'DO',
+  'EXCEPT',
+  'FETCH',
+  'FREEZE',
+  'ILIKE',
+  'INITIALLY',
+  'ISNULL',
+  'LATERAL',
+  'LEADING',
+  'LIMIT',
+  'LOCALTIME',
+  'LOCALTIMESTAMP',
+  'NATURAL',
+  'NOTNULL',
+  'OFFSET',
+  'ONLY',
+  'OVERLAPS',
+  'PLACING',
+  'RETURNING',
+  'SESSION_USER',
+  'SIMILAR',
+  'SOME',
+  'SYMMETRIC',
+  'TABLESAMPLE',
+  'TRAILING',
+  'VARIADIC',
+  'VERBOSE',
+  'WINDOW',
+];
+
+const SQLITE = [
+  'ADD',
+  'AUTOINCREMENT',
+  'COLLATE',
+  'COMMIT',
+  'DEFERRABLE',
+  'ESCAPE',
+  'EXCEPT',
+  'GLOB',
+  'INDEX',
+  'INDEXED',
+  'ISNULL',
+  'LIMIT',
+  'NATURAL',
+  'NOTHING',
+  'NOTNULL',
+  'OFFSET',
+  'RAISE',
+  'REGEXP',
+  'RETURNING',
+  'TRANSACTION',
+  'VACUUM',
+];
+
+const MSSQL = [
+  'ADD',
+  'AUTHORIZATION',
+  'BACKUP',
+  'BEGIN',
+  'BREAK',
+  'BROWSE',
+  'BULK',
+  'CASCADE',
+  'CHECKPOINT',
+  'CLOSE',
+  'CLUSTERED',
+  'COALESCE',
+  'COLLATE',
+  'COMMIT',
+  'COMPUTE',
+  'CONTAINS',
+  'CONTAINSTABLE',
+  'CONTINUE',
+  'CONVERT',
+  'CURSOR',
+  'DATABASE',
+  'DBCC',
+  'DEALLOCATE',
+  'DECLARE',
+  'DENY',
+  'DESC',
+  'DISK',
+  'DISTRIBUTED',
+  'DOUBLE',
+  'DUMP',
+  'ERRLVL',
+  'ESCAPE',
+  'EXCEPT',
+  'EXEC',
+  'EXECUTE',
+  'EXIT',
+  'EXTERNAL',
+  'FETCH',
+  'FILE',
+  'FILLFACTOR',
+  'FREETEXT',
+  'FUNCTION',
+  'GOTO',
+  'HOLDLOCK',
+  'IDENTITY',
+  'IDENTITYCOL',
+  'IF',
+  'INDEX',
+  'KEY',
+  'KILL',
+  'LINENO',
+  'LOAD',
+  'MERGE',
+  'NATIONAL',
+  'NOCHECK',
+  'NONCLUSTERED',
+  'NULLIF',
+  'OF',
+  'OFF',
+  'OFFSETS',
+  'OPEN',
+  'OPENQUERY',
+  'OPENROWSET',
+  'OPENXML',
+  'OPTION',
+  'OVER',
+  'PERCENT',
+  'PIVOT',
+  'PLAN',
+  'PRECISION',
+  'PRINT',
+  'PROC',
+  'PROCEDURE',
+  'PUBLIC',
+  'RAISERROR',
+  'READ',
+  'READTEXT',
+  'RECONFIGURE',
+  'REPLICATION',
+  'RESTORE',
+  'RESTRICT',
+  'RETURN',
+  'REVERT',
+  'REVOKE',
+  'ROLLBACK',
+  'ROWCOUNT',
+  'ROWGUIDCOL',
+  'RULE',
+  'SAVE',
+  'SCHEMA',
+  'SESSION_USER',
+  'SET',
+  'SETUSER',
+  'SHUTDOWN',
+  'SOME',
+  'STATISTICS',
+  'SYSTEM_USER',
+  'TABLESAMPLE',
+  'TEXTSIZE',
+  'TOP',
+  'TRAN',
+  'TRANSACTION',
+  'TRIGGER',
+  'TRUNCATE',
+  'TSEQUAL',
+  'UNPIVOT',
+  'UPDATETEXT',
+  'USE',
+  'VARYING',
+  'VIEW',
+  'WAITFOR',
+  'WHILE',
+  'WITHIN',
+  'WRITETEXT',
+];
+
+const ORACLE = [
+  'ACCESS',
+  'ADD',
+  'AUDIT',
+  'CLUSTER',
+  'COMMENT',
+  'COMPRESS',
+  'CONNECT',
+  'CURRENT',
+  'DATE',
+  'DECIMAL',
+  'DESC',
+  'EXCLUSIVE',
+  'FILE',
+  'FLOAT',
+  'IDENTIFIED',
+  'IMMEDIATE',
+  'INCREMENT',
+  'INDEX',
+  'INITIAL',
+  'INTEGER',
+  'LEVEL',
+  'LOCK',
+  'LONG',
+  'MAXEXTENTS',
+  'MINUS',
+  'MLSLABEL',
+  'MODE',
+  'MODIFY',
+  'NOAUDIT',
+  'NOCOMPRESS',
+  'NOWAIT',
+  'NUMBER',
+  'OF',
+  'OFFLINE',
+  'ONLINE',
+  'OPTION',
+  'PCTFREE',
+  'PRIOR',
+  'PUBLIC',
+  'RAW',
+  'RENAME',
+  'RESOURCE',
+  'REVOKE',
+  'ROW',
+  'ROWID',
+  'ROWNUM',
+  'ROWS',
+  'SESSION',
+  'SET',
+  'SHARE',
+  'SIZE',
+  'SMALLINT',
+  'START',
+  'SUCCESSFUL',
+  'SYNONYM',
+  'SYSDATE',
+  'TRIGGER',
+  'UID',
+  'VALIDATE',
+  'VARCHAR',
+  'VARCHAR2',
+  'VIEW',
+  'WHENEVER',
+];
+
+const RESERVED: Record<string, Set<string>> = {
+  [SqlDatabase.GENERIC]: new Set(STANDARD),
+  [SqlDatabase.MYSQL]: new Set([...STANDARD, ...MYSQL]),
+  [SqlDatabase.MARIADB]: new Set([...STANDARD, ...MYSQL]),
+  [SqlDatabase.POSTGRES]: new Set([...STANDARD, ...POSTGRES]),
+  [SqlDatabase.SQLITE]: new Set([...STANDARD, ...SQLITE]),
+  [SqlDatabase.MSSQL]: new Set([...STANDARD, ...MSSQL]),
+  [SqlDatabase.ORACLESQL]: new Set([...STANDARD, ...ORACLE]),
+};
+
+// Whether a name is a reserved word of the diagram's database, and so needs quoting wherever it
+// is used
+export function isReservedWord(database: string, name: string): boolean {
+  return (RESERVED[database] ?? RESERVED[SqlDatabase.GENERIC]).has(name.toUpperCase());
+}
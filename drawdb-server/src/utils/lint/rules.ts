@@ -0,0 +1,473 @@
+import {
+  ElementId,
+  IDiagramEnum,
+  IDiagramField,
+  IDiagramRelationship,
+  IDiagramTable,
+  IDiagramType,
+} from '../../interfaces/diagram-document';
+import { ILintNaming, LintElement, LintRuleId, LintSeverity } from '../../interfaces/lint';
+import { relationshipEnds } from '../export-sql/shared';
+import { isValidDefault } from './defaults';
+import { isReservedWord } from './reserved-words';
+
+// The parts of a diagram the rules read
+export interface LintDocument {
+  database: string;
+  tables: IDiagramTable[];
+  references: IDiagramRelationship[];
+  enums: IDiagramEnum[] | null;
+  types: IDiagramType[] | null;
+}
+
+export interface LintContext {
+  document: LintDocument;
+  naming: ILintNaming;
+  report: (
+    element: LintElement,
+    tableId: ElementId | null,
+    elementId: ElementId | null,
+    message: string,
+  ) => void;
+}
+
+export interface LintRule {
+  id: LintRuleId;
+  severity: LintSeverity;
+  description: string;
+  check: (context: LintContext) => void;
+}
+
+// Names each kind of element must match when a preset is named instead of a pattern
+export const NAMING_PRESETS: Record<string, RegExp> = {
+  snake_case: /^[a-z][a-z0-9]*(?:_[a-z0-9]+)*$/,
+  camelCase: /^[a-z][a-zA-Z0-9]*$/,
+  PascalCase: /^[A-Z][a-zA-Z0-9]*$/,
+  UPPER_SNAKE_CASE: /^[A-Z][A-Z0-9]*(?:_[A-Z0-9]+)*$/,
+  'kebab-case': /^[a-z][a-z0-9]*(?:-[a-z0-9]+)*$/,
+};
+
+export function namingPattern(pattern: string): RegExp {
+  return NAMING_PRESETS[pattern] ?? new RegExp(pattern);
+}
+
+// Every name that appears more than once, in the order it first repeats
+function duplicates<T>(elements: T[], name: (element: T) => string): T[] {
+  const seen = new Set<string>();
+  return elements.filter((element) => {
+    const key = name(element);
+    if (seen.has(key)) return true;
+    seen.add(key);
+    return false;
+  });
+}
+
+function isEnumLike(type: string): boolean {
+  return type === 'ENUM' || type === 'SET';
+}
+
+// Types are compared as written, and sizes only when both ends have one
+function sameType(a: IDiagramField, b: IDiagramField): boolean {
+  if (a.type.toUpperCase() !== b.type.toUpperCase()) return false;
+  if (a.size === undefined || a.size === '' || b.size === undefined || b.size === '') return true;
+  return String(a.size) === String(b.size);
+}
+
+// Columns that lead an index or key, which lookups on the column can use
+function leadingColumns(table: IDiagramTable): Set<string> {
+  const leading = new Set<string>();
+  const primary = table.fields.filter((field) => field.primary);
+
+  if (primary.length > 0) leading.add(primary[0].name);
+  table.fields.filter((field) => field.unique).forEach((field) => leading.add(field.name));
+  table.indices.forEach((index) => {
+    if (index.fields.length > 0) leading.add(index.fields[0]);
+  });
+
+  return leading;
+}
+
+export const LINT_RULES: LintRule[] = [
+  {
+    id: 'empty_name',
+    severity: 'error',
+    description: 'Tables, fields, indices, enums and types must have a name',
+    check: ({ document, report }) => {
+      for (const table of document.tables) {
+        if (table.name === '') report('table', table.id, table.id, 'Declared a table with no name');
+        table.fields
+          .filter((field) => field.name === '')
+          .forEach((field) =>
+            report('field', table.id, field.id, `Empty field \`name\` in table '${table.name}'`),
+          );
+        table.indices
+          .filter((index) => index.name.trim() === '')
+          .forEach((index) =>
+            report(
+              'index',
+              table.id,
+              index.id ?? null,
+              `Declared an index with no name in table '${table.name}'`,
+            ),
+          );
+      }
+
+      for (const type of document.types ?? []) {
+        if (type.name === '') report('type', null, type.id ?? null, 'Declared a type with no name');
+        type.fields
+          .filter((field) => field.name === '')
+          .forEach(() =>
+            report('type', null, type.id ?? null, `Empty field \`name\` in type '${type.name}'`),
+          );
+      }
+
+      (document.enums ?? [])
+        .filter((e) => e.name === '')
+        .forEach((e) => report('enum', null, e.id ?? null, 'Found enum with no name'));
+    },
+  },
+  {
+    id: 'duplicate_name',
+    severity: 'error',
+    description:
+      'Names must be unique among tables, fields of a table, indices of a table, ' +
+      'types, enums and relationships',
+    check: ({ document, report }) => {
+      duplicates(document.tables, (table) => table.name).forEach((table) =>
+        report('table', table.id, table.id, `Duplicate table by the name '${table.name}'`),
+      );
+
+      for (const table of document.tables) {
+        duplicates(table.fields, (field) => field.name).forEach((field) =>
+          report(
+            'field',
+            table.id,
+            field.id,
+            `Duplicate table fields by name '${field.name}' in table '${table.name}'`,
+          ),
+        );
+        duplicates(table.indices, (index) => index.name).forEach((index) =>
+          report(
+            'index',
+            table.id,
+            index.id ?? null,
+            `Duplicate index by name '${index.name}' in table '${table.name}'`,
+          ),
+        );
+      }
+
+      const types = document.types ?? [];
+      duplicates(types, (type) => type.name).forEach((type) =>
+        report('type', null, type.id ?? null, `Duplicate types by the name '${type.name}'`),
+      );
+      for (const type of types) {
+        duplicates(type.fields, (field) => field.name).forEach((field) =>
+          report(
+            'type',
+            null,
+            type.id ?? null,
+            `Duplicate type fields by name '${field.name}' in type '${type.name}'`,
+          ),
+        );
+      }
+
+      duplicates(document.enums ?? [], (e) => e.name).forEach((e) =>
+        report('enum', null, e.id ?? null, `Duplicate enums with the name '${e.name}'`),
+      );
+      duplicates(document.references, (relationship) => relationship.name).forEach((relationship) =>
+        report(
+          'relationship',
+          relationship.startTableId,
+          relationship.id,
+          `Duplicate reference by the name '${relationship.name}'`,
+        ),
+      );
+    },
+  },
+  {
+    id: 'missing_type',
+    severity: 'error',
+    description: 'Fields of tables and types must have a type',
+    check: ({ document, report }) => {
+      for (const table of document.tables) {
+        table.fields
+          .filter((field) => field.type === '')
+          .forEach((field) =>
+            report('field', table.id, field.id, `Empty field \`type\` in table '${table.name}'`),
+          );
+      }
+      for (const type of document.types ?? []) {
+        type.fields
+          .filter((field) => field.type === '')
+          .forEach(() =>
+            report('type', null, type.id ?? null, `Empty field \`type\` in type '${type.name}'`),
+          );
+      }
+    },
+  },
+  {
+    id: 'missing_values',
+    severity: 'error',
+    description: 'ENUM and SET fields and enums must list their values, and types their fields',
+    check: ({ document, report }) => {
+      for (const table of document.tables) {
+        table.fields
+          .filter((field) => isEnumLike(field.type) && !field.values?.length)
+          .forEach((field) =>
+            report(
+              'field',
+              table.id,
+              field.id,
+              `'${field.name}' field of table '${table.name}' is of type \`${field.type}\` but no values have been specified`,
+            ),
+          );
+      }
+
+      for (const type of document.types ?? []) {
+        if (type.fields.length === 0) {
+          report(
+            'type',
+            null,
+            type.id ?? null,
+            `Declared an empty type '${type.name}' with no fields`,
+          );
+        }
+        type.fields
+          .filter((field) => isEnumLike(field.type) && !field.values?.length)
+          .forEach((field) =>
+            report(
+              'type',
+              null,
+              type.id ?? null,
+              `'${field.name}' field of type '${type.name}' is of type \`${field.type}\` but no values have been specified`,
+            ),
+          );
+      }
+
+      (document.enums ?? [])
+        .filter((e) => e.values.length === 0)
+        .forEach((e) =>
+          report('enum', null, e.id ?? null, `Found enum '${e.name}' with no values`),
+        );
+    },
+  },
+  {
+    id: 'invalid_default',
+    severity: 'error',
+    description:
+      'Default values must fit the field type, and NOT NULL fields cannot default to NULL',
+    check: ({ document, report }) => {
+      for (const table of document.tables) {
+        for (const field of table.fields) {
+          const isNullDefault =
+            typeof field.default === 'string' && field.default.toLowerCase() === 'null';
+
+          if (field.notNull && isNullDefault) {
+            report(
+              'field',
+              table.id,
+              field.id,
+              `'${field.name}' field of table '${table.name}' is NOT NULL but has default NULL`,
+            );
+          } else if (!isValidDefault(field)) {
+            report(
+              'field',
+              table.id,
+              field.id,
+              `Default value for field '${field.name}' in table '${table.name}' does not match its type`,
+            );
+          }
+        }
+      }
+    },
+  },
+  {
+    id: 'empty_index',
+    severity: 'error',
+    description: 'Indices must cover at least one column',
+    check: ({ document, report }) => {
+      for (const table of document.tables) {
+        table.indices
+          .filter((index) => index.fields.length === 0)
+          .forEach((index) =>
+            report(
+              'index',
+              table.id,
+              index.id ?? null,
+              `Index in table '${table.name}' indexes no columns`,
+            ),
+          );
+      }
+    },
+  },
+  {
+    id: 'inherited_column',
+    severity: 'warning',
+    description: 'Columns that redeclare a column of an inherited table are merged into it',
+    check: ({ document, report }) => {
+      for (const table of document.tables) {
+        const inherited = (table.inherits ?? []).flatMap(
+          (parentName) =>
+            document.tables.find((t) => t.name === parentName)?.fields.map((f) => f.name) ?? [],
+        );
+        table.fields
+          .filter((field) => inherited.includes(field.name))
+          .forEach((field) =>
+            report(
+              'field',
+              table.id,
+              field.id,
+              `Column '${field.name}' in table '${table.name}' with inherited definition will be merged`,
+            ),
+          );
+      }
+    },
+  },
+  {
+    id: 'circular_dependency',
+    severity: 'warning',
+    description: 'Foreign keys should not form a cycle between tables',
+    check: ({ document, report }) => {
+      const visited = new Set<ElementId>();
+      const reported = new Set<ElementId>();
+
+      const visit = (tableId: ElementId, path: ElementId[]) => {
+        if (path.includes(tableId)) {
+          if (!reported.has(tableId)) {
+            reported.add(tableId);
+            const name = document.tables.find((t) => t.id === tableId)?.name;
+            report('table', tableId, tableId, `Circular dependency involving table '${name}'`);
+          }
+          return;
+        }
+
+        visited.add(tableId);
+        document.references
+          .filter((r) => r.startTableId === tableId && r.startTableId !== r.endTableId)
+          .forEach((r) => visit(r.endTableId, [...path, tableId]));
+      };
+
+      document.tables.filter((table) => !visited.has(table.id)).forEach((t) => visit(t.id, []));
+    },
+  },
+  {
+    id: 'missing_primary_key',
+    severity: 'warning',
+    description: 'Tables should have a primary key',
+    check: ({ document, report }) => {
+      document.tables
+        .filter((table) => !table.fields.some((field) => field.primary))
+        .forEach((table) =>
+          report('table', table.id, table.id, `Table '${table.name}' has no primary key`),
+        );
+    },
+  },
+  {
+    id: 'relationship_type_mismatch',
+    severity: 'error',
+    description: 'Both ends of a relationship must have the same type',
+    check: ({ document, report }) => {
+      for (const relationship of document.references) {
+        const ends = relationshipEnds(relationship, document.tables);
+        if (!ends || sameType(ends.startField, ends.endField)) continue;
+
+        const { startTable, startField, endTable, endField } = ends;
+        report(
+          'relationship',
+          startTable.id,
+          relationship.id,
+          `Relationship '${relationship.name}' joins ${startTable.name}.${startField.name} ` +
+            `(${startField.type}) to ${endTable.name}.${endField.name} (${endField.type})`,
+        );
+      }
+    },
+  },
+  {
+    id: 'unindexed_foreign_key',
+    severity: 'warning',
+    description: 'Foreign key columns should lead an index, so joins and cascades can use it',
+    check: ({ document, report }) => {
+      for (const relationship of document.references) {
+        const ends = relationshipEnds(relationship, document.tables);
+        if (!ends || leadingColumns(ends.startTable).has(ends.startField.name)) continue;
+
+        report(
+          'relationship',
+          ends.startTable.id,
+          relationship.id,
+          `Foreign key column '${ends.startField.name}' of table '${ends.startTable.name}' has no index`,
+        );
+      }
+    },
+  },
+  {
+    id: 'reserved_word',
+    severity: 'warning',
+    description: "Names should not be reserved words of the diagram's database",
+    check: ({ document, report }) => {
+      const { database } = document;
+
+      for (const table of document.tables) {
+        if (isReservedWord(database, table.name)) {
+          report(
+            'table',
+            table.id,
+            table.id,
+            `Table name '${table.name}' is a reserved word in ${database}`,
+          );
+        }
+        table.fields
+          .filter((field) => isReservedWord(database, field.name))
+          .forEach((field) =>
+            report(
+              'field',
+              table.id,
+              field.id,
+              `Column name '${field.name}' of table '${table.name}' is a reserved word in ${database}`,
+            ),
+          );
+      }
+    },
+  },
+  {
+    id: 'naming_convention',
+    severity: 'warning',
+    description: 'Names must match the naming patterns configured for their kind of element',
+    check: ({ document, naming, report }) => {
+      const check = (
+        kind: keyof ILintNaming,
+        element: LintElement,
+        tableId: ElementId | null,
+        elementId: ElementId | null,
+        name: string,
+      ) => {
+        const pattern = naming[kind];
+        if (pattern && name !== '' && !namingPattern(pattern).test(name)) {
+          const label = kind.charAt(0).toUpperCase() + kind.slice(1);
+          report(element, tableId, elementId, `${label} name '${name}' does not match ${pattern}`);
+        }
+      };
+
+      for (const table of document.tables) {
+        check('table', 'table', table.id, table.id, table.name);
+        table.fields.forEach((field) => check('column', 'field', table.id, field.id, field.name));
+        table.indices.forEach((index) =>
+          check('index', 'index', table.id, index.id ?? null, index.name),
+        );
+      }
+      document.references.forEach((relationship) =>
+        check(
+          'relationship',
+          'relationship',
+          relationship.startTableId,
+          relationship.id,
+          relationship.name,
+        ),
+      );
+      (document.enums ?? []).forEach((e) => check('enum', 'enum', null, e.id ?? null, e.name));
+      (document.types ?? []).forEach((type) =>
+        check('type', 'type', null, type.id ?? null, type.name),
+      );
+    },
+  },
+];
@@ -0,0 +1,277 @@
+import { IDiagramField, IDiagramTable } from '../../interfaces/diagram-document';
+import { IDiagramSnapshot } from '../../interfaces/diagram-snapshot';
+import { IMigrationScript } from '../../interfaces/migration';
+import { isDeepEqual } from '../deep-equal';
+import { diffProperties, elementKey } from '../diagram-diff';
+import { SqlDatabase } from '../export-sql/data-types';
+import { hasCheck, relationshipEnds } from '../export-sql/shared';
+import {
+  addCheck,
+  addColumn,
+  addEnumValue,
+  addForeignKey,
+  addPrimaryKey,
+  addUnique,
+  alterColumn,
+  createContext,
+  createEnum,
+  createIndex,
+  createSQLiteTable,
+  createTable,
+  dropCheck,
+  dropColumn,
+  dropEnum,
+  dropForeignKey,
+  dropIndex,
+  dropPrimaryKey,
+  dropTable,
+  dropUnique,
+  MigrationContext,
+  renameColumn,
+  renameTable,
+  warn,
+} from './statements';
+
+const COLUMN_PROPERTIES = [
+  'type',
+  'size',
+  'values',
+  'isArray',
+  'unsigned',
+  'notNull',
+  'default',
+  'increment',
+];
+const INDEX_PROPERTIES = ['name', 'unique', 'fields'];
+const RELATIONSHIP_PROPERTIES = [
+  'startTableId',
+  'startFieldId',
+  'endTableId',
+  'endFieldId',
+  'name',
+  'updateConstraint',
+  'deleteConstraint',
+];
+
+function byKey<T extends { id?: IDiagramTable['id']; name?: string }>(elements: T[]) {
+  return new Map(elements.map((element) => [elementKey(element), element]));
+}
+
+function isAltered(before: object, after: object | undefined, properties: string[]): boolean {
+  return !after || Object.keys(diffProperties(before, after, properties)).length > 0;
+}
+
+function primaryKey(table: IDiagramTable): IDiagramField[] {
+  return table.fields.filter((field) => field.primary);
+}
+
+// Column changes of a table present in both versions: renames first so that later statements
+// name the columns as they are now, constraints dropped before and added after the columns
+function alterColumns(context: MigrationContext, before: IDiagramTable, after: IDiagramTable) {
+  const table = after.name;
+  const afterFields = byKey(after.fields);
+  const beforeFields = byKey(before.fields);
+  const kept = before.fields
+    .filter((field) => afterFields.has(elementKey(field)))
+    .map((field) => [field, afterFields.get(elementKey(field)) as IDiagramField] as const);
+  const added = after.fields.filter((field) => !beforeFields.has(elementKey(field)));
+  const removed = before.fields.filter((field) => !afterFields.has(elementKey(field)));
+  const keyChanged = !isDeepEqual(
+    primaryKey(before).map(elementKey),
+    primaryKey(after).map(elementKey),
+  );
+
+  for (const [from, to] of kept) {
+    if (from.name !== to.name) renameColumn(context, table, from.name, to.name);
+  }
+
+  if (keyChanged && primaryKey(before).length > 0) dropPrimaryKey(context, table, before.name);
+
+  for (const [from, to] of kept) {
+    if (from.unique && !to.unique) dropUnique(context, table, to.name, [before.name, from.name]);
+    if (from.check !== to.check && hasCheck(from, context.database)) {
+      dropCheck(context, table, to.name, [before.name, from.name]);
+    }
+  }
+
+  added.forEach((field) => addColumn(context, table, field));
+
+  const columnProperties = [
+    ...COLUMN_PROPERTIES,
+    // MySQL rewrites the whole column, comment included
+    ...(context.dialect === SqlDatabase.MYSQL || context.dialect === SqlDatabase.MARIADB
+      ? ['comment']
+      : []),
+  ];
+  for (const [from, to] of kept) {
+    const changed = Object.keys(diffProperties(from, to, columnProperties));
+    if (changed.length > 0) alterColumn(context, table, from, to, changed);
+  }
+
+  removed.forEach((field) => dropColumn(context, table, field.name));
+
+  if (keyChanged && primaryKey(after).length > 0) {
+    addPrimaryKey(
+      context,
+      table,
+      primaryKey(after).map((field) => field.name),
+    );
+  }
+
+  for (const [from, to] of kept) {
+    if (!from.unique && to.unique) addUnique(context, table, to.name);
+    if (from.check !== to.check) addCheck(context, table, to);
+  }
+}
+
+// Enums exist as types of their own in PostgreSQL only; elsewhere their values live in the columns
+function createEnums(context: MigrationContext, before: IDiagramSnapshot, after: IDiagramSnapshot) {
+  const beforeEnums = byKey(before.enums ?? []);
+
+  for (const e of after.enums ?? []) {
+    const previous = beforeEnums.get(elementKey(e));
+    if (!previous) {
+      createEnum(context, e);
+      continue;
+    }
+
+    e.values
+      .filter((value) => !previous.values.includes(value))
+      .forEach((value) => addEnumValue(context, e.name, value));
+    previous.values
+      .filter((value) => !e.values.includes(value))
+      .forEach((value) =>
+        warn(
+          context,
+          `PostgreSQL cannot drop value '${value}' from enum ${e.name}; it was left in place`,
+        ),
+      );
+  }
+}
+
+function dropEnums(context: MigrationContext, before: IDiagramSnapshot, after: IDiagramSnapshot) {
+  const afterEnums = byKey(after.enums ?? []);
+
+  for (const e of before.enums ?? []) {
+    if (!afterEnums.has(elementKey(e))) dropEnum(context, e.name);
+  }
+}
+
+// Statements taking the schema of `before` to that of `after`. Everything that could depend on
+// what changes is dropped first, and recreated once the tables and columns are in place.
+function planMigration(
+  context: MigrationContext,
+  before: IDiagramSnapshot,
+  after: IDiagramSnapshot,
+) {
+  const isPostgres = context.dialect === SqlDatabase.POSTGRES;
+  const beforeTables = before.tables ?? [];
+  const afterTables = after.tables ?? [];
+  const beforeByKey = byKey(beforeTables);
+  const afterByKey = byKey(afterTables);
+
+  const created = afterTables.filter((table) => !beforeByKey.has(elementKey(table)));
+  const dropped = beforeTables.filter((table) => !afterByKey.has(elementKey(table)));
+  const kept = beforeTables
+    .filter((table) => afterByKey.has(elementKey(table)))
+    .map((table) => [table, afterByKey.get(elementKey(table)) as IDiagramTable] as const);
+
+  const beforeReferences = byKey(before.references ?? []);
+  const afterReferences = byKey(after.references ?? []);
+  const droppedReferences = (before.references ?? []).filter((relationship) =>
+    isAltered(relationship, afterReferences.get(elementKey(relationship)), RELATIONSHIP_PROPERTIES),
+  );
+  const addedReferences = (after.references ?? []).filter((relationship) => {
+    const previous = beforeReferences.get(elementKey(relationship));
+    return !previous || isAltered(previous, relationship, RELATIONSHIP_PROPERTIES);
+  });
+
+  // Keys on a table being dropped go with it
+  for (const relationship of droppedReferences) {
+    const ends = relationshipEnds(relationship, beforeTables);
+    if (ends && afterByKey.has(elementKey(ends.startTable))) {
+      dropForeignKey(context, relationship, ends.startTable.name);
+    }
+  }
+
+  for (const [from, to] of kept) {
+    const indices = byKey(to.indices);
+    from.indices
+      .filter((index) => isAltered(index, indices.get(elementKey(index)), INDEX_PROPERTIES))
+      .forEach((index) => dropIndex(context, from.name, index));
+  }
+
+  if (isPostgres) createEnums(context, before, after);
+  if (isPostgres && !isDeepEqual(before.types ?? [], after.types ?? [])) {
+    warn(context, 'Composite types changed; they are not migrated');
+  }
+
+  for (const [from, to] of kept) {
+    if (from.name !== to.name) renameTable(context, from.name, to.name);
+  }
+
+  for (const table of created) {
+    if (context.dialect === SqlDatabase.SQLITE) {
+      createSQLiteTable(context, table, afterTables, after.references ?? []);
+    } else {
+      createTable(context, table);
+    }
+  }
+
+  for (const [from, to] of kept) alterColumns(context, from, to);
+
+  dropped.forEach((table) => dropTable(context, table.name));
+
+  for (const [from, to] of kept) {
+    const indices = byKey(from.indices);
+    to.indices
+      .filter((index) => {
+        const previous = indices.get(elementKey(index));
+        return !previous || isAltered(previous, index, INDEX_PROPERTIES);
+      })
+      .forEach((index) => createIndex(context, to.name, index));
+  }
+
+  // New SQLite tables already declared theirs
+  for (const relationship of addedReferences) {
+    const ends = relationshipEnds(relationship, afterTables);
+    if (!ends) continue;
+    if (context.dialect === SqlDatabase.SQLITE && created.includes(ends.startTable)) continue;
+
+    addForeignKey(context, relationship, {
+      startTable: ends.startTable.name,
+      startField: ends.startField.name,
+      endTable: ends.endTable.name,
+      endField: ends.endField.name,
+    });
+  }
+
+  if (isPostgres) dropEnums(context, before, after);
+}
+
+function migrationScript(
+  before: IDiagramSnapshot,
+  after: IDiagramSnapshot,
+  dialect: SqlDatabase,
+): IMigrationScript {
+  const context = createContext(after.database, dialect);
+  planMigration(context, before, after);
+  return { sql: context.statements.join('\n\n'), warnings: context.warnings };
+}
+
+// Up and down scripts between two versions of a diagram, in a dialect its export can be written
+// in; null when it cannot (see exportSQL). The down script is the same migration run backwards.
+export function generateMigration(
+  before: IDiagramSnapshot,
+  after: IDiagramSnapshot,
+  dialect: SqlDatabase,
+): { up: IMigrationScript; down: IMigrationScript } | null {
+  if (after.database !== SqlDatabase.GENERIC && after.database !== dialect) {
+    return null;
+  }
+
+  return {
+    up: migrationScript(before, after, dialect),
+    down: migrationScript(after, before, dialect),
+  };
+}
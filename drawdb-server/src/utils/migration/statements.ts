@@ -0,0 +1,500 @@
+import {
+  IDiagramEnum,
+  IDiagramField,
+  IDiagramIndex,
+  IDiagramRelationship,
+  IDiagramTable,
+} from '../../interfaces/diagram-document';
+import { exportSQL } from '../export-sql';
+import { SqlDatabase, typeTraits } from '../export-sql/data-types';
+import { getSQLiteType, getTypeString } from '../export-sql/generic';
+import { parseType as mariadbType } from '../export-sql/mariadb';
+import { parseType as mysqlType } from '../export-sql/mysql';
+import {
+  escapeQuotes,
+  hasCheck,
+  hasDefault,
+  parseDefault,
+  referentialActions,
+} from '../export-sql/shared';
+
+export interface MigrationContext {
+  // Database of the diagram; a dialect or generic
+  database: string;
+  // Dialect the script is written in
+  dialect: SqlDatabase;
+  statements: string[];
+  warnings: string[];
+}
+
+// Both ends of a foreign key, by name
+export interface ForeignKeyEnds {
+  startTable: string;
+  startField: string;
+  endTable: string;
+  endField: string;
+}
+
+export function createContext(database: string, dialect: SqlDatabase): MigrationContext {
+  return { database, dialect, statements: [], warnings: [] };
+}
+
+function isMySQLFamily(context: MigrationContext): boolean {
+  return context.dialect === SqlDatabase.MYSQL || context.dialect === SqlDatabase.MARIADB;
+}
+
+function emit(context: MigrationContext, sql: string): void {
+  context.statements.push(context.dialect === SqlDatabase.MSSQL ? `${sql};\nGO` : `${sql};`);
+}
+
+// Warnings are listed with the script and also left as comments where the statement would be
+export function warn(context: MigrationContext, message: string): void {
+  context.warnings.push(message);
+  context.statements.push(`-- WARNING: ${message}`);
+}
+
+export function quote(context: MigrationContext, name: string): string {
+  if (isMySQLFamily(context)) return `\`${name}\``;
+  if (context.dialect === SqlDatabase.MSSQL) return `[${name}]`;
+  return `"${name}"`;
+}
+
+function quoteList(context: MigrationContext, names: string[]): string {
+  return names.map((name) => quote(context, name)).join(', ');
+}
+
+function alterTable(context: MigrationContext, table: string, clause: string): void {
+  emit(context, `ALTER TABLE ${quote(context, table)} ${clause}`);
+}
+
+// The column's type as the exporters write it for the dialect
+export function columnType(context: MigrationContext, field: IDiagramField): string {
+  if (context.database === SqlDatabase.GENERIC) {
+    return context.dialect === SqlDatabase.SQLITE
+      ? getSQLiteType(field)
+      : getTypeString(field, SqlDatabase.GENERIC, context.dialect, true);
+  }
+
+  const traits = typeTraits(context.database, field.type);
+  const size = field.size !== undefined && field.size !== '' ? `(${field.size})` : '';
+
+  switch (context.dialect) {
+    case SqlDatabase.MYSQL:
+      return mysqlType(field);
+    case SqlDatabase.MARIADB:
+      return mariadbType(field);
+    case SqlDatabase.POSTGRES:
+      return `${field.type}${field.size ? size : ''}${field.isArray ? ' ARRAY' : ''}`;
+    case SqlDatabase.MSSQL:
+      return `${field.type}${traits.isSized || traits.hasPrecision ? size : ''}`;
+    case SqlDatabase.ORACLESQL:
+      return `${field.type}${size}`;
+    default:
+      return field.type;
+  }
+}
+
+function identityClause(context: MigrationContext): string {
+  switch (context.dialect) {
+    case SqlDatabase.MYSQL:
+    case SqlDatabase.MARIADB:
+      return ' AUTO_INCREMENT';
+    case SqlDatabase.MSSQL:
+      return ' IDENTITY';
+    case SqlDatabase.ORACLESQL:
+      return ' GENERATED ALWAYS AS IDENTITY';
+    case SqlDatabase.POSTGRES:
+      // Generic diagrams get serial types instead
+      return context.database === SqlDatabase.GENERIC ? '' : ' GENERATED BY DEFAULT AS IDENTITY';
+    default:
+      return '';
+  }
+}
+
+// Column definition as in CREATE TABLE; UNIQUE and CHECK are left out where the column is being
+// modified, since repeating them would add a second constraint
+function columnDefinition(
+  context: MigrationContext,
+  field: IDiagramField,
+  withConstraints = true,
+): string {
+  const unsigned =
+    isMySQLFamily(context) && field.unsigned && typeTraits(context.database, field.type).signed;
+
+  return `${quote(context, field.name)} ${columnType(context, field)}${unsigned ? ' UNSIGNED' : ''}${
+    field.notNull ? ' NOT NULL' : ''
+  }${field.increment ? identityClause(context) : ''}${
+    withConstraints && field.unique ? ' UNIQUE' : ''
+  }${hasDefault(field) ? ` DEFAULT ${parseDefault(field, context.database)}` : ''}${
+    withConstraints && hasCheck(field, context.database) ? ` CHECK(${field.check})` : ''
+  }${isMySQLFamily(context) && field.comment ? ` COMMENT '${escapeQuotes(field.comment)}'` : ''}`;
+}
+
+// Names the databases give to unnamed column constraints, where they are predictable
+function uniqueName(table: string, field: string): string {
+  return `${table}_${field}_key`;
+}
+
+function checkName(table: string, field: string): string {
+  return `${table}_${field}_check`;
+}
+
+// CREATE TABLE with its indices, as the export writes it
+export function createTable(context: MigrationContext, table: IDiagramTable): void {
+  const sql = exportSQL(
+    { database: context.database, tables: [table], references: [], types: [], enums: [] },
+    context.dialect,
+  );
+  if (sql !== null) context.statements.push(sql.trim());
+}
+
+// SQLite cannot add foreign keys later, so a new table declares its own. The exporter resolves
+// their ends among the tables it is given and writes them all, one after another; the others are
+// exported again without keys and cut off the end.
+export function createSQLiteTable(
+  context: MigrationContext,
+  table: IDiagramTable,
+  tables: IDiagramTable[],
+  references: IDiagramRelationship[],
+): void {
+  const others = tables.filter((t) => t.id !== table.id);
+  const input = { database: context.database, types: [], enums: [] };
+  const all = exportSQL(
+    {
+      ...input,
+      tables: [table, ...others],
+      references: references.filter((relationship) => relationship.startTableId === table.id),
+    },
+    context.dialect,
+  );
+  const rest = exportSQL({ ...input, tables: others, references: [] }, context.dialect);
+  if (all === null || rest === null) return;
+
+  context.statements.push((others.length ? all.slice(0, -(rest.length + 1)) : all).trim());
+}
+
+export function dropTable(context: MigrationContext, table: string): void {
+  emit(context, `DROP TABLE ${quote(context, table)}`);
+}
+
+export function renameTable(context: MigrationContext, from: string, to: string): void {
+  if (isMySQLFamily(context)) {
+    emit(context, `RENAME TABLE ${quote(context, from)} TO ${quote(context, to)}`);
+  } else if (context.dialect === SqlDatabase.MSSQL) {
+    emit(context, `EXEC sp_rename '${escapeQuotes(from)}', '${escapeQuotes(to)}'`);
+  } else {
+    alterTable(context, from, `RENAME TO ${quote(context, to)}`);
+  }
+}
+
+export function addColumn(context: MigrationContext, table: string, field: IDiagramField): void {
+  const keyword =
+    context.dialect === SqlDatabase.MSSQL || context.dialect === SqlDatabase.ORACLESQL
+      ? 'ADD'
+      : 'ADD COLUMN';
+
+  // Generic diagrams give each ENUM/SET column a PostgreSQL type of its own
+  if (
+    context.database === SqlDatabase.GENERIC &&
+    context.dialect === SqlDatabase.POSTGRES &&
+    (field.type === 'ENUM' || field.type === 'SET')
+  ) {
+    emit(
+      context,
+      `CREATE TYPE "${field.name}_t" AS ENUM (${(field.values ?? []).map((v) => `'${v}'`).join(', ')})`,
+    );
+  }
+
+  alterTable(context, table, `${keyword} ${columnDefinition(context, field)}`);
+}
+
+export function dropColumn(context: MigrationContext, table: string, field: string): void {
+  alterTable(context, table, `DROP COLUMN ${quote(context, field)}`);
+}
+
+export function renameColumn(
+  context: MigrationContext,
+  table: string,
+  from: string,
+  to: string,
+): void {
+  if (context.dialect === SqlDatabase.MSSQL) {
+    emit(
+      context,
+      `EXEC sp_rename '${escapeQuotes(`${table}.${from}`)}', '${escapeQuotes(to)}', 'COLUMN'`,
+    );
+    return;
+  }
+
+  alterTable(context, table, `RENAME COLUMN ${quote(context, from)} TO ${quote(context, to)}`);
+}
+
+const TYPE_PROPERTIES = ['type', 'size', 'values', 'isArray', 'unsigned'];
+
+// Change a column's type, nullability, default or identity; `changed` names the properties that
+// differ between the two versions of the field
+export function alterColumn(
+  context: MigrationContext,
+  table: string,
+  before: IDiagramField,
+  after: IDiagramField,
+  changed: string[],
+): void {
+  const column = quote(context, after.name);
+  const typeChanged = changed.some((property) => TYPE_PROPERTIES.includes(property));
+  const label = `${table}.${after.name}`;
+
+  switch (context.dialect) {
+    case SqlDatabase.MYSQL:
+    case SqlDatabase.MARIADB:
+      alterTable(context, table, `MODIFY COLUMN ${columnDefinition(context, after, false)}`);
+      return;
+
+    case SqlDatabase.POSTGRES:
+      if (typeChanged) {
+        alterTable(context, table, `ALTER COLUMN ${column} TYPE ${columnType(context, after)}`);
+      }
+      if (changed.includes('notNull')) {
+        alterTable(
+          context,
+          table,
+          `ALTER COLUMN ${column} ${after.notNull ? 'SET' : 'DROP'} NOT NULL`,
+        );
+      }
+      if (changed.includes('default')) {
+        alterTable(
+          context,
+          table,
+          hasDefault(after)
+            ? `ALTER COLUMN ${column} SET DEFAULT ${parseDefault(after, context.database)}`
+            : `ALTER COLUMN ${column} DROP DEFAULT`,
+        );
+      }
+      if (changed.includes('increment') && context.database !== SqlDatabase.GENERIC) {
+        alterTable(
+          context,
+          table,
+          after.increment
+            ? `ALTER COLUMN ${column} ADD GENERATED BY DEFAULT AS IDENTITY`
+            : `ALTER COLUMN ${column} DROP IDENTITY`,
+        );
+      }
+      return;
+
+    case SqlDatabase.MSSQL:
+      if (typeChanged || changed.includes('notNull')) {
+        alterTable(
+          context,
+          table,
+          `ALTER COLUMN ${column} ${columnType(context, after)} ${after.notNull ? 'NOT NULL' : 'NULL'}`,
+        );
+      }
+      if (changed.includes('default')) {
+        warn(
+          context,
+          `SQL Server keeps defaults as constraints; change the default of ${label} by hand`,
+        );
+      }
+      if (changed.includes('increment')) {
+        warn(context, `SQL Server cannot change the identity of ${label}; rebuild the column`);
+      }
+      return;
+
+    case SqlDatabase.ORACLESQL:
+      if (typeChanged || changed.includes('notNull')) {
+        alterTable(
+          context,
+          table,
+          `MODIFY (${column} ${columnType(context, after)}${
+            before.notNull !== after.notNull ? (after.notNull ? ' NOT NULL' : ' NULL') : ''
+          })`,
+        );
+      }
+      if (changed.includes('default')) {
+        alterTable(
+          context,
+          table,
+          `MODIFY (${column} DEFAULT ${hasDefault(after) ? parseDefault(after, context.database) : 'NULL'})`,
+        );
+      }
+      if (changed.includes('increment')) {
+        warn(context, `Oracle cannot change the identity of ${label}; rebuild the column`);
+      }
+      return;
+
+    default:
+      warn(
+        context,
+        `SQLite cannot alter ${label} (${changed.join(', ')}); rebuild ${table} to apply it`,
+      );
+  }
+}
+
+export function dropPrimaryKey(context: MigrationContext, table: string, named: string): void {
+  if (isMySQLFamily(context)) {
+    alterTable(context, table, 'DROP PRIMARY KEY');
+  } else if (context.dialect === SqlDatabase.POSTGRES) {
+    alterTable(context, table, `DROP CONSTRAINT ${quote(context, `${named}_pkey`)}`);
+  } else {
+    warn(
+      context,
+      `The primary key of ${table} has no predictable name in ${context.dialect}; drop it by hand`,
+    );
+  }
+}
+
+export function addPrimaryKey(context: MigrationContext, table: string, fields: string[]): void {
+  if (context.dialect === SqlDatabase.SQLITE) {
+    warn(context, `SQLite cannot add a primary key to ${table}; rebuild the table`);
+    return;
+  }
+
+  alterTable(context, table, `ADD PRIMARY KEY (${quoteList(context, fields)})`);
+}
+
+// `named` are the table and column names the constraint was created under
+export function dropUnique(
+  context: MigrationContext,
+  table: string,
+  field: string,
+  named: [string, string],
+): void {
+  if (isMySQLFamily(context)) {
+    alterTable(context, table, `DROP INDEX ${quote(context, named[1])}`);
+  } else if (context.dialect === SqlDatabase.POSTGRES) {
+    alterTable(context, table, `DROP CONSTRAINT ${quote(context, uniqueName(...named))}`);
+  } else {
+    warn(
+      context,
+      `The unique constraint on ${table}.${field} has no predictable name in ${context.dialect}; drop it by hand`,
+    );
+  }
+}
+
+export function addUnique(context: MigrationContext, table: string, field: string): void {
+  if (isMySQLFamily(context)) {
+    alterTable(
+      context,
+      table,
+      `ADD UNIQUE INDEX ${quote(context, field)} (${quote(context, field)})`,
+    );
+  } else if (context.dialect === SqlDatabase.SQLITE) {
+    emit(
+      context,
+      `CREATE UNIQUE INDEX ${quote(context, uniqueName(table, field))} ON ${quote(context, table)} (${quote(context, field)})`,
+    );
+  } else {
+    alterTable(
+      context,
+      table,
+      `ADD CONSTRAINT ${quote(context, uniqueName(table, field))} UNIQUE (${quote(context, field)})`,
+    );
+  }
+}
+
+export function dropCheck(
+  context: MigrationContext,
+  table: string,
+  field: string,
+  named: [string, string],
+): void {
+  if (context.dialect === SqlDatabase.POSTGRES) {
+    alterTable(context, table, `DROP CONSTRAINT ${quote(context, checkName(...named))}`);
+  } else {
+    warn(
+      context,
+      `The check on ${table}.${field} has no predictable name in ${context.dialect}; drop it by hand`,
+    );
+  }
+}
+
+export function addCheck(context: MigrationContext, table: string, field: IDiagramField): void {
+  if (!hasCheck(field, context.database)) return;
+
+  if (context.dialect === SqlDatabase.SQLITE) {
+    warn(context, `SQLite cannot add a check to ${table}.${field.name}; rebuild the table`);
+    return;
+  }
+
+  alterTable(
+    context,
+    table,
+    `ADD CONSTRAINT ${quote(context, checkName(table, field.name))} CHECK(${field.check})`,
+  );
+}
+
+export function createIndex(context: MigrationContext, table: string, index: IDiagramIndex): void {
+  emit(
+    context,
+    `CREATE ${index.unique ? 'UNIQUE ' : ''}INDEX ${quote(context, index.name)} ON ${quote(
+      context,
+      table,
+    )} (${quoteList(context, index.fields)})`,
+  );
+}
+
+export function dropIndex(context: MigrationContext, table: string, index: IDiagramIndex): void {
+  if (isMySQLFamily(context) || context.dialect === SqlDatabase.MSSQL) {
+    emit(context, `DROP INDEX ${quote(context, index.name)} ON ${quote(context, table)}`);
+  } else {
+    emit(context, `DROP INDEX ${quote(context, index.name)}`);
+  }
+}
+
+// Foreign keys are named after their relationship, as the migrations create them
+export function addForeignKey(
+  context: MigrationContext,
+  relationship: IDiagramRelationship,
+  ends: ForeignKeyEnds,
+): void {
+  if (context.dialect === SqlDatabase.SQLITE) {
+    warn(
+      context,
+      `SQLite cannot add foreign key ${relationship.name} to ${ends.startTable}; rebuild the table`,
+    );
+    return;
+  }
+
+  alterTable(
+    context,
+    ends.startTable,
+    `ADD CONSTRAINT ${quote(context, relationship.name)} FOREIGN KEY (${quote(
+      context,
+      ends.startField,
+    )}) REFERENCES ${quote(context, ends.endTable)} (${quote(context, ends.endField)}) ${referentialActions(
+      relationship,
+    )}`,
+  );
+}
+
+export function dropForeignKey(
+  context: MigrationContext,
+  relationship: IDiagramRelationship,
+  table: string,
+): void {
+  if (context.dialect === SqlDatabase.SQLITE) {
+    warn(
+      context,
+      `SQLite cannot drop foreign key ${relationship.name} from ${table}; rebuild the table`,
+    );
+  } else if (isMySQLFamily(context)) {
+    alterTable(context, table, `DROP FOREIGN KEY ${quote(context, relationship.name)}`);
+  } else {
+    alterTable(context, table, `DROP CONSTRAINT ${quote(context, relationship.name)}`);
+  }
+}
+
+export function createEnum(context: MigrationContext, e: IDiagramEnum): void {
+  emit(
+    context,
+    `CREATE TYPE ${quote(context, e.name)} AS ENUM (${e.values.map((v) => `'${escapeQuotes(v)}'`).join(', ')})`,
+  );
+}
+
+export function addEnumValue(context: MigrationContext, name: string, value: string): void {
+  emit(context, `ALTER TYPE ${quote(context, name)} ADD VALUE '${escapeQuotes(value)}'`);
+}
+
+export function dropEnum(context: MigrationContext, name: string): void {
+  emit(context, `DROP TYPE ${quote(context, name)}`);
+}
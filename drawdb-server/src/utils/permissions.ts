@@ -0,0 +1,20 @@
+import { PermissionLevel } from '../models/DiagramShare';
+
+const PERMISSION_RANK: Record<PermissionLevel, number> = {
+  [PermissionLevel.VIEWER]: 1,
+  [PermissionLevel.EDITOR]: 2,
+  [PermissionLevel.OWNER]: 3,
+};
+
+// The stronger of the given permissions; null entries mean no access
+export function highestPermission(
+  ...permissions: Array<PermissionLevel | null | undefined>
+): PermissionLevel | null {
+  return permissions.reduce<PermissionLevel | null>(
+    (best, permission) =>
+      permission && (!best || PERMISSION_RANK[permission] > PERMISSION_RANK[best])
+        ? permission
+        : best,
+    null,
+  );
+}
@@ -0,0 +1,36 @@
+import { Resvg, ResvgRenderOptions } from '@resvg/resvg-js';
+
+export { IRenderInput, RenderOptions, renderSvg } from './svg';
+
+// Bigger images take seconds and hundreds of megabytes to rasterize
+const MAX_PNG_PIXELS = 40_000_000;
+
+const FONT: ResvgRenderOptions['font'] = {
+  loadSystemFonts: true,
+  defaultFontFamily: 'DejaVu Sans',
+};
+
+export class ImageTooLargeError extends Error {
+  constructor(width: number, height: number) {
+    super(`A ${width}x${height} image is over ${MAX_PNG_PIXELS} pixels; use a smaller scale`);
+    this.name = 'ImageTooLargeError';
+  }
+}
+
+// Rasterize a rendered diagram at its own size, or scaled down to at most `maxWidth` pixels wide.
+// The pixel limit applies to the size drawn, so a narrow but very tall diagram is refused too.
+export function renderPng(svg: string, maxWidth?: number): Buffer {
+  let resvg = new Resvg(svg, { font: FONT });
+  const fit = maxWidth && resvg.width > maxWidth ? maxWidth / resvg.width : 1;
+  const width = Math.ceil(resvg.width * fit);
+  const height = Math.ceil(resvg.height * fit);
+
+  if (width * height > MAX_PNG_PIXELS) {
+    throw new ImageTooLargeError(width, height);
+  }
+  if (fit < 1) {
+    resvg = new Resvg(svg, { font: FONT, fitTo: { mode: 'width', value: width } });
+  }
+
+  return resvg.render().asPng();
+}
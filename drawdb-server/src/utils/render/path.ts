@@ -0,0 +1,112 @@
+import { TABLE_FIELD_HEIGHT, TABLE_HEADER_HEIGHT, TABLE_WIDTH } from '../diagram-layout';
+
+export interface RelationshipGeometry {
+  startTable: { x: number; y: number };
+  endTable: { x: number; y: number };
+  startFieldIndex: number;
+  endFieldIndex: number;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// SVG path of a relationship line between two fields, as drawdb/src/utils/calcPath.js draws it
+export function calcPath(r: RelationshipGeometry, width: number = TABLE_WIDTH): string {
+  const x1 = r.startTable.x;
+  const y1 =
+    r.startTable.y +
+    r.startFieldIndex * TABLE_FIELD_HEIGHT +
+    TABLE_HEADER_HEIGHT +
+    TABLE_FIELD_HEIGHT / 2;
+  const x2 = r.endTable.x;
+  const y2 =
+    r.endTable.y +
+    r.endFieldIndex * TABLE_FIELD_HEIGHT +
+    TABLE_HEADER_HEIGHT +
+    TABLE_FIELD_HEIGHT / 2;
+
+  let radius = 10;
+  const midX = (x2 + x1 + width) / 2;
+  const endX = x2 + width < x1 ? x2 + width : x2;
+
+  if (Math.abs(y1 - y2) <= 36) {
+    radius = Math.abs(y2 - y1) / 3;
+    if (radius <= 2) {
+      if (x1 + width <= x2) return `M ${x1 + width} ${y1} L ${x2} ${y2 + 0.1}`;
+      else if (x2 + width < x1) return `M ${x1} ${y1} L ${x2 + width} ${y2 + 0.1}`;
+    }
+  }
+
+  if (y1 <= y2) {
+    if (x1 + width <= x2) {
+      return `M ${x1 + width} ${y1} L ${midX - radius} ${y1} A ${radius} ${radius} 0 0 1 ${midX} ${y1 + radius} L ${midX} ${y2 - radius} A ${radius} ${radius} 0 0 0 ${midX + radius} ${y2} L ${endX} ${y2}`;
+    } else if (x2 <= x1 + width && x1 <= x2) {
+      return `M ${x1 + width} ${y1} L ${x2 + width} ${y1} A ${radius} ${radius} 0 0 1 ${x2 + width + radius} ${y1 + radius} L ${x2 + width + radius} ${y2 - radius} A ${radius} ${radius} 0 0 1 ${x2 + width} ${y2} L ${x2 + width} ${y2}`;
+    } else if (x2 + width >= x1 && x2 + width <= x1 + width) {
+      return `M ${x1} ${y1} L ${x2 - radius} ${y1} A ${radius} ${radius} 0 0 0 ${x2 - radius - radius} ${y1 + radius} L ${x2 - radius - radius} ${y2 - radius} A ${radius} ${radius} 0 0 0 ${x2 - radius} ${y2} L ${x2} ${y2}`;
+    } else {
+      return `M ${x1} ${y1} L ${midX + radius} ${y1} A ${radius} ${radius} 0 0 0 ${midX} ${y1 + radius} L ${midX} ${y2 - radius} A ${radius} ${radius} 0 0 1 ${midX - radius} ${y2} L ${endX} ${y2}`;
+    }
+  } else {
+    if (x1 + width <= x2) {
+      return `M ${x1 + width} ${y1} L ${midX - radius} ${y1} A ${radius} ${radius} 0 0 0 ${midX} ${y1 - radius} L ${midX} ${y2 + radius} A ${radius} ${radius} 0 0 1 ${midX + radius} ${y2} L ${endX} ${y2}`;
+    } else if (x1 + width >= x2 && x1 + width <= x2 + width) {
+      return `M ${x1} ${y1} L ${x1 - radius - radius} ${y1} A ${radius} ${radius} 0 0 1 ${x1 - radius - radius - radius} ${y1 - radius} L ${x1 - radius - radius - radius} ${y2 + radius} A ${radius} ${radius} 0 0 1 ${x1 - radius - radius} ${y2} L ${endX} ${y2}`;
+    } else if (x1 >= x2 && x1 <= x2 + width) {
+      return `M ${x1 + width} ${y1} L ${x1 + width + radius} ${y1} A ${radius} ${radius} 0 0 0 ${x1 + width + radius + radius} ${y1 - radius} L ${x1 + width + radius + radius} ${y2 + radius} A ${radius} ${radius} 0 0 0 ${x1 + width + radius} ${y2} L ${x2 + width} ${y2}`;
+    } else {
+      return `M ${x1} ${y1} L ${midX + radius} ${y1} A ${radius} ${radius} 0 0 1 ${midX} ${y1 - radius} L ${midX} ${y2 + radius} A ${radius} ${radius} 0 0 0 ${midX - radius} ${y2} L ${endX} ${y2}`;
+    }
+  }
+}
+
+// The corners of a path drawn with M, L and A commands; arcs count as straight lines
+function corners(path: string): Point[] {
+  return (path.match(/[MLA][^MLA]*/g) ?? []).map((command) => {
+    const numbers = command.slice(1).trim().split(/\s+/).map(Number);
+    return { x: numbers[numbers.length - 2], y: numbers[numbers.length - 1] };
+  });
+}
+
+// Point `distance` along a polyline from its first corner
+function pointAlong(points: Point[], distance: number): Point {
+  let left = distance;
+
+  for (let i = 1; i < points.length; i++) {
+    const from = points[i - 1];
+    const to = points[i];
+    const length = Math.hypot(to.x - from.x, to.y - from.y);
+
+    if (length > 0 && left <= length) {
+      return {
+        x: from.x + ((to.x - from.x) * left) / length,
+        y: from.y + ((to.y - from.y) * left) / length,
+      };
+    }
+    left -= length;
+  }
+
+  return points[points.length - 1];
+}
+
+function polylineLength(points: Point[]): number {
+  return points
+    .slice(1)
+    .reduce((sum, to, i) => sum + Math.hypot(to.x - points[i].x, to.y - points[i].y), 0);
+}
+
+// Where the editor puts a relationship's labels: the name halfway along the path, and the
+// cardinalities `offset` in from either end
+export function labelPoints(path: string, offset: number) {
+  const points = corners(path);
+  const length = polylineLength(points);
+  const inset = Math.min(offset, length / 2);
+
+  return {
+    middle: pointAlong(points, length / 2),
+    start: pointAlong(points, inset),
+    end: pointAlong(points, length - inset),
+  };
+}
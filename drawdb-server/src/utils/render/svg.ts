@@ -0,0 +1,205 @@
+import {
+  IDiagramArea,
+  IDiagramNote,
+  IDiagramRelationship,
+  IDiagramTable,
+} from '../../interfaces/diagram-document';
+import {
+  NOTE_WIDTH,
+  noteRect,
+  Rect,
+  TABLE_FIELD_HEIGHT,
+  TABLE_HEADER_HEIGHT,
+  TABLE_WIDTH,
+  tableHeight,
+  tableRect,
+} from '../diagram-layout';
+import { calcPath, labelPoints } from './path';
+
+// What the renderer reads from a diagram
+export interface IRenderInput {
+  tables: IDiagramTable[];
+  references: IDiagramRelationship[];
+  areas: IDiagramArea[];
+  notes: IDiagramNote[];
+}
+
+export interface RenderOptions {
+  scale?: number;
+}
+
+// Editor measures from drawdb/src/data/constants.js and the canvas components
+const PADDING = 24;
+const COLOR_STRIP = 10;
+const NOTE_FOLD = 24;
+const NOTE_RADIUS = 3;
+const CARDINALITY_OFFSET = 28;
+const DEFAULT_TABLE_COLOR = '#175e7a';
+const DEFAULT_NOTE_COLOR = '#fcf7ac';
+// Rough advance of one character at 14px, for truncating and wrapping without a font at hand
+const CHAR_WIDTH = 8.5;
+
+const STYLE = `text { font-family: 'DejaVu Sans', Arial, Helvetica, sans-serif; font-size: 14px; fill: #1e293b; }
+.type { font-family: 'DejaVu Sans Mono', Menlo, Consolas, monospace; font-size: 12px; fill: #64748b; }
+.title { font-weight: bold; }
+.relationship { stroke: grey; stroke-width: 2.5; fill: none; }
+.cardinality { font-size: 12px; fill: white; }`;
+
+function escape(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Cut text to about `width` pixels, marking the cut with an ellipsis
+function fit(text: string, width: number): string {
+  const max = Math.max(1, Math.floor(width / CHAR_WIDTH));
+  return text.length <= max ? text : `${text.slice(0, max - 1)}…`;
+}
+
+// Break text into lines of about `width` pixels at spaces, keeping its own line breaks
+function wrap(text: string, width: number): string[] {
+  const max = Math.max(1, Math.floor(width / CHAR_WIDTH));
+
+  return text.split(/\r?\n/).flatMap((paragraph) => {
+    const lines: string[] = [];
+    let line = '';
+    for (const word of paragraph.split(' ')) {
+      if (line && line.length + word.length + 1 > max) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = line ? `${line} ${word}` : word;
+      }
+    }
+    lines.push(line);
+    return lines;
+  });
+}
+
+function bounds(rects: Rect[]): Rect {
+  if (rects.length === 0) return { x: 0, y: 0, width: TABLE_WIDTH, height: TABLE_HEADER_HEIGHT };
+
+  const x = Math.min(...rects.map((rect) => rect.x));
+  const y = Math.min(...rects.map((rect) => rect.y));
+  const right = Math.max(...rects.map((rect) => rect.x + rect.width));
+  const bottom = Math.max(...rects.map((rect) => rect.y + rect.height));
+  return { x, y, width: right - x, height: bottom - y };
+}
+
+function areaElement(area: IDiagramArea): string {
+  return `<g>
+<rect x="${area.x}" y="${area.y}" width="${Math.max(area.width, 0)}" height="${Math.max(area.height, 0)}" rx="4" fill="${escape(area.color)}" fill-opacity="0.4" stroke="#94a3b8" stroke-width="2"/>
+<text x="${area.x + 8}" y="${area.y + 22}">${escape(fit(area.name, area.width - 16))}</text>
+</g>`;
+}
+
+function cardinalityLabel(x: number, y: number, text: string): string {
+  const width = text.length * CHAR_WIDTH + 14;
+  return `<rect x="${x - width / 2}" y="${y - 12}" width="${width}" height="24" rx="12" fill="grey"/>
+<text class="cardinality" x="${x}" y="${y + 4}" text-anchor="middle">${escape(text)}</text>`;
+}
+
+function relationshipElement(
+  relationship: IDiagramRelationship,
+  tables: IDiagramTable[],
+): string | null {
+  const startTable = tables.find((table) => table.id === relationship.startTableId);
+  const endTable = tables.find((table) => table.id === relationship.endTableId);
+  if (!startTable || !endTable) return null;
+
+  const startFieldIndex = startTable.fields.findIndex(
+    (field) => field.id === relationship.startFieldId,
+  );
+  const endFieldIndex = endTable.fields.findIndex((field) => field.id === relationship.endFieldId);
+  if (startFieldIndex === -1 || endFieldIndex === -1) return null;
+
+  const path = calcPath({ startTable, endTable, startFieldIndex, endFieldIndex });
+  const labels = labelPoints(path, CARDINALITY_OFFSET);
+  const [startLabel, endLabel] =
+    relationship.cardinality === 'many_to_one'
+      ? ['n', '1']
+      : relationship.cardinality === 'one_to_many'
+        ? ['1', 'n']
+        : ['1', '1'];
+
+  return `<g>
+<path class="relationship" d="${path}"/>
+<text x="${labels.middle.x}" y="${labels.middle.y - 6}" text-anchor="middle" font-weight="500">${escape(relationship.name)}</text>
+${cardinalityLabel(labels.start.x, labels.start.y, startLabel)}
+${cardinalityLabel(labels.end.x, labels.end.y, endLabel)}
+</g>`;
+}
+
+function tableElement(table: IDiagramTable): string {
+  const { x, y } = table;
+  const height = tableHeight(table);
+  const color = table.color || DEFAULT_TABLE_COLOR;
+
+  const fields = table.fields.map((field, i) => {
+    const top = y + TABLE_HEADER_HEIGHT + i * TABLE_FIELD_HEIGHT;
+    const type = `${field.type}${field.size !== undefined && field.size !== '' ? `(${field.size})` : ''}`;
+    const typeWidth = Math.min(type.length * 7.5, TABLE_WIDTH / 2);
+    return `<line x1="${x}" y1="${top}" x2="${x + TABLE_WIDTH}" y2="${top}" stroke="#e2e8f0"/>
+<text x="${x + 12}" y="${top + 23}"${field.primary ? ' class="title"' : ''}>${escape(fit(field.name, TABLE_WIDTH - typeWidth - 32))}</text>
+<text class="type" x="${x + TABLE_WIDTH - 12}" y="${top + 23}" text-anchor="end">${escape(fit(type, TABLE_WIDTH / 2))}</text>`;
+  });
+
+  return `<g>
+<rect x="${x}" y="${y}" width="${TABLE_WIDTH}" height="${height}" rx="6" fill="white" stroke="#cbd5e1" stroke-width="1.5"/>
+<path d="M ${x} ${y + COLOR_STRIP} V ${y + 6} A 6 6 0 0 1 ${x + 6} ${y} H ${x + TABLE_WIDTH - 6} A 6 6 0 0 1 ${x + TABLE_WIDTH} ${y + 6} V ${y + COLOR_STRIP} Z" fill="${escape(color)}"/>
+<text class="title" x="${x + 12}" y="${y + COLOR_STRIP + 25}">${escape(fit(table.name, TABLE_WIDTH - 24))}</text>
+${fields.join('\n')}
+</g>`;
+}
+
+function noteElement(note: IDiagramNote): string {
+  const { x, y, height } = note;
+  const color = escape(note.color || DEFAULT_NOTE_COLOR);
+  const lines = wrap(note.content, NOTE_WIDTH - 24).slice(
+    0,
+    Math.max(0, Math.floor((height - NOTE_FOLD - 12) / 18)),
+  );
+
+  return `<g>
+<path d="M${x + NOTE_FOLD} ${y} L${x + NOTE_WIDTH - NOTE_RADIUS} ${y} A${NOTE_RADIUS} ${NOTE_RADIUS} 0 0 1 ${x + NOTE_WIDTH} ${y + NOTE_RADIUS} L${x + NOTE_WIDTH} ${y + height - NOTE_RADIUS} A${NOTE_RADIUS} ${NOTE_RADIUS} 0 0 1 ${x + NOTE_WIDTH - NOTE_RADIUS} ${y + height} L${x + NOTE_RADIUS} ${y + height} A${NOTE_RADIUS} ${NOTE_RADIUS} 0 0 1 ${x} ${y + height - NOTE_RADIUS} L${x} ${y + NOTE_FOLD}" fill="${color}" stroke="#a8a29e" stroke-linejoin="round" stroke-width="2"/>
+<path d="M${x} ${y + NOTE_FOLD} L${x + NOTE_FOLD - NOTE_RADIUS} ${y + NOTE_FOLD} A${NOTE_RADIUS} ${NOTE_RADIUS} 0 0 0 ${x + NOTE_FOLD} ${y + NOTE_FOLD - NOTE_RADIUS} L${x + NOTE_FOLD} ${y} L${x} ${y + NOTE_FOLD} Z" fill="${color}" stroke="#a8a29e" stroke-linejoin="round" stroke-width="2"/>
+<text class="title" x="${x + NOTE_FOLD + 8}" y="${y + 17}">${escape(fit(note.title, NOTE_WIDTH - NOTE_FOLD - 16))}</text>
+${lines
+  .map((line, i) => `<text x="${x + 12}" y="${y + NOTE_FOLD + 20 + i * 18}">${escape(line)}</text>`)
+  .join('\n')}
+</g>`;
+}
+
+// The diagram as a standalone SVG image, laid out as the editor draws it: areas at the back,
+// then relationships, tables and notes. Hidden tables are left out with their relationships.
+export function renderSvg(input: IRenderInput, options: RenderOptions = {}): string {
+  const scale = options.scale ?? 1;
+  const tables = input.tables.filter((table) => !table.hidden);
+
+  const box = bounds([...tables.map(tableRect), ...input.areas, ...input.notes.map(noteRect)]);
+  const view = {
+    x: box.x - PADDING,
+    y: box.y - PADDING,
+    width: box.width + 2 * PADDING,
+    height: box.height + 2 * PADDING,
+  };
+
+  const elements = [
+    ...input.areas.map(areaElement),
+    ...input.references
+      .map((relationship) => relationshipElement(relationship, tables))
+      .filter((element): element is string => element !== null),
+    ...tables.map(tableElement),
+    ...input.notes.map(noteElement),
+  ];
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${Math.ceil(view.width * scale)}" height="${Math.ceil(view.height * scale)}" viewBox="${view.x} ${view.y} ${view.width} ${view.height}">
+<style>${STYLE}</style>
+<rect x="${view.x}" y="${view.y}" width="${view.width}" height="${view.height}" fill="white"/>
+${elements.join('\n')}
+</svg>
+`;
+}
@@ -0,0 +1,286 @@
+import {
+  IDiagramEnum,
+  IDiagramField,
+  IDiagramIndex,
+  IDiagramRelationship,
+  IDiagramTable,
+} from '../interfaces/diagram-document';
+import { DriftObject, IDriftDifference, IDriftSummary } from '../interfaces/drift-report';
+import { isDeepEqual } from './deep-equal';
+import { SqlDatabase } from './export-sql/data-types';
+import { relationshipEnds } from './export-sql/shared';
+import { defaultValue } from './introspection/shared';
+
+// The parts of a schema drift is checked on, as a diagram stores them and introspection reads them
+export interface DriftSchema {
+  tables: IDiagramTable[];
+  relationships: IDiagramRelationship[];
+  enums: IDiagramEnum[];
+}
+
+interface IndexSignature {
+  name: string;
+  unique: boolean;
+  fields: string[];
+}
+
+interface ForeignKeySignature {
+  name: string;
+  table: string;
+  endTable: string;
+  updateConstraint: string;
+  deleteConstraint: string;
+}
+
+function byName<T extends { name: string }>(elements: T[]): Map<string, T> {
+  return new Map(elements.map((element) => [element.name, element]));
+}
+
+function hasSize(field: IDiagramField): boolean {
+  return field.size !== undefined && field.size !== '';
+}
+
+// Older stored fields may have no type
+function baseType(field: IDiagramField): string {
+  return (field.type ?? '').toUpperCase();
+}
+
+function columnType(field: IDiagramField): string {
+  const size = hasSize(field) ? `(${field.size})` : '';
+  return `${baseType(field)}${size}${field.isArray ? '[]' : ''}`;
+}
+
+// Sizes are compared when both sides have one: databases report sizes a diagram may leave out,
+// such as MySQL's display widths
+function sameType(a: IDiagramField, b: IDiagramField): boolean {
+  if (baseType(a) !== baseType(b) || !!a.isArray !== !!b.isArray) return false;
+  if (!hasSize(a) || !hasSize(b)) return true;
+  return String(a.size).replace(/\s+/g, '') === String(b.size).replace(/\s+/g, '');
+}
+
+function isNotNull(field: IDiagramField): boolean {
+  return field.notNull || field.primary;
+}
+
+// Defaults as bare, case-insensitive literals; diagrams may keep them quoted or not
+function normalDefault(field: IDiagramField): string {
+  return defaultValue(String(field.default ?? '')).toLowerCase();
+}
+
+// Unique constraints on one column are the field's flag in one schema and an index in the other,
+// so indices are matched on what they cover rather than on their name
+function indexSignatures(table: IDiagramTable): Map<string, IndexSignature> {
+  const signatures = new Map<string, IndexSignature>();
+  const add = (index: IndexSignature) =>
+    signatures.set(`${index.unique ? 'unique' : 'index'}(${index.fields.join(',')})`, index);
+
+  table.fields
+    .filter((field) => field.unique && !field.primary)
+    .forEach((field) =>
+      add({ name: `unique (${field.name})`, unique: true, fields: [field.name] }),
+    );
+  // Older stored tables may have no indices
+  (table.indices ?? []).forEach((index: IDiagramIndex) => add(index));
+
+  return signatures;
+}
+
+// Foreign keys are matched on the columns they join
+function foreignKeySignatures(schema: DriftSchema): Map<string, ForeignKeySignature> {
+  const signatures = new Map<string, ForeignKeySignature>();
+
+  for (const relationship of schema.relationships) {
+    const ends = relationshipEnds(relationship, schema.tables);
+    if (!ends) continue;
+
+    const { startTable, startField, endTable, endField } = ends;
+    signatures.set(`${startTable.name}.${startField.name}->${endTable.name}.${endField.name}`, {
+      name: relationship.name,
+      table: startTable.name,
+      endTable: endTable.name,
+      updateConstraint: relationship.updateConstraint,
+      deleteConstraint: relationship.deleteConstraint,
+    });
+  }
+
+  return signatures;
+}
+
+// Report what is only in the diagram, what is only in the database, and the properties of shared
+// elements that differ, for elements matched by `key`
+function compare<T>(
+  differences: IDriftDifference[],
+  object: DriftObject,
+  diagram: Map<string, T>,
+  database: Map<string, T>,
+  describe: (element: T) => { table: string | null; name: string },
+  compareShared?: (inDiagram: T, inDatabase: T) => void,
+) {
+  for (const [key, element] of diagram) {
+    const match = database.get(key);
+    if (!match) {
+      differences.push({ kind: 'missing_in_database', object, ...describe(element) });
+    } else {
+      compareShared?.(element, match);
+    }
+  }
+
+  for (const [key, element] of database) {
+    if (!diagram.has(key)) {
+      differences.push({ kind: 'missing_in_diagram', object, ...describe(element) });
+    }
+  }
+}
+
+function compareColumns(differences: IDriftDifference[], from: IDiagramTable, to: IDiagramTable) {
+  const table = from.name;
+
+  compare(
+    differences,
+    'column',
+    byName(from.fields),
+    byName(to.fields),
+    (field) => ({ table, name: field.name }),
+    (inDiagram, inDatabase) => {
+      const mismatch = (
+        property: IDriftDifference['property'],
+        diagram: unknown,
+        database: unknown,
+      ) =>
+        differences.push({
+          kind: 'mismatch',
+          object: 'column',
+          table,
+          name: inDiagram.name,
+          property,
+          diagram,
+          database,
+        });
+
+      if (!sameType(inDiagram, inDatabase)) {
+        mismatch('type', columnType(inDiagram), columnType(inDatabase));
+      }
+      if (
+        inDiagram.values &&
+        inDatabase.values &&
+        !isDeepEqual(inDiagram.values, inDatabase.values)
+      ) {
+        mismatch('values', inDiagram.values, inDatabase.values);
+      }
+      if (isNotNull(inDiagram) !== isNotNull(inDatabase)) {
+        mismatch('notNull', isNotNull(inDiagram), isNotNull(inDatabase));
+      }
+      // Auto-increment columns default to a sequence or nothing, depending on the database
+      if (
+        !inDiagram.increment &&
+        !inDatabase.increment &&
+        normalDefault(inDiagram) !== normalDefault(inDatabase)
+      ) {
+        mismatch('default', inDiagram.default, inDatabase.default);
+      }
+    },
+  );
+}
+
+// Compare a diagram with the schema introspected from a live `source` database. Tables, columns
+// and enums are matched by name.
+export function detectDrift(
+  diagram: DriftSchema,
+  database: DriftSchema,
+  source: SqlDatabase,
+): IDriftDifference[] {
+  const differences: IDriftDifference[] = [];
+  const shared: [IDiagramTable, IDiagramTable][] = [];
+
+  compare(
+    differences,
+    'table',
+    byName(diagram.tables),
+    byName(database.tables),
+    (table) => ({ table: null, name: table.name }),
+    (inDiagram, inDatabase) => shared.push([inDiagram, inDatabase]),
+  );
+
+  for (const [inDiagram, inDatabase] of shared) {
+    compareColumns(differences, inDiagram, inDatabase);
+    compare(
+      differences,
+      'index',
+      indexSignatures(inDiagram),
+      indexSignatures(inDatabase),
+      (index) => ({ table: inDiagram.name, name: index.name }),
+    );
+  }
+
+  // Keys of tables missing on one side are covered by the table
+  const sharedNames = new Set(shared.map(([table]) => table.name));
+  const keysOnSharedTables = (schema: DriftSchema) =>
+    new Map(
+      [...foreignKeySignatures(schema)].filter(
+        ([, key]) => sharedNames.has(key.table) && sharedNames.has(key.endTable),
+      ),
+    );
+
+  compare(
+    differences,
+    'foreign_key',
+    keysOnSharedTables(diagram),
+    keysOnSharedTables(database),
+    (key) => ({ table: key.table, name: key.name }),
+    (inDiagram, inDatabase) => {
+      for (const property of ['updateConstraint', 'deleteConstraint'] as const) {
+        if (
+          (inDiagram[property] ?? '').toLowerCase() !== (inDatabase[property] ?? '').toLowerCase()
+        ) {
+          differences.push({
+            kind: 'mismatch',
+            object: 'foreign_key',
+            table: inDiagram.table,
+            name: inDiagram.name,
+            property,
+            diagram: inDiagram[property],
+            database: inDatabase[property],
+          });
+        }
+      }
+    },
+  );
+
+  // Enums exist as types of their own in PostgreSQL only; elsewhere their values live in the columns
+  if (source !== SqlDatabase.POSTGRES) return differences;
+
+  compare(
+    differences,
+    'enum',
+    byName(diagram.enums),
+    byName(database.enums),
+    (e) => ({ table: null, name: e.name }),
+    (inDiagram, inDatabase) => {
+      if (!isDeepEqual(inDiagram.values, inDatabase.values)) {
+        differences.push({
+          kind: 'mismatch',
+          object: 'enum',
+          table: null,
+          name: inDiagram.name,
+          property: 'values',
+          diagram: inDiagram.values,
+          database: inDatabase.values,
+        });
+      }
+    },
+  );
+
+  return differences;
+}
+
+export function summarizeDrift(differences: IDriftDifference[]): IDriftSummary {
+  const count = (kind: IDriftDifference['kind']) =>
+    differences.filter((difference) => difference.kind === kind).length;
+
+  return {
+    inSync: differences.length === 0,
+    missingInDatabase: count('missing_in_database'),
+    missingInDiagram: count('missing_in_diagram'),
+    mismatches: count('mismatch'),
+  };
+}
@@ -0,0 +1,11 @@
+import { createHash, randomBytes } from 'crypto';
+
+// Random URL-safe token for links and refresh tokens
+export function generateToken(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+// What is stored in place of a token, so a database leak does not hand out working tokens
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
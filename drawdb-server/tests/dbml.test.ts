@@ -0,0 +1,194 @@
+import { DbmlSyntaxError, fromDBML, IDbmlImportResult, toDBML } from '../src/utils/dbml';
+import { field, relationship, table } from './fixtures';
+
+const SOURCE = `Enum mood {
+  happy
+  sad
+}
+
+Table users {
+  id integer [pk, increment]
+  email varchar(255) [not null, unique, note: 'User\\'s login']
+  mood mood [default: 'happy']
+  active boolean [default: true]
+  created_at timestamp [default: \`now()\`]
+  Note: 'Registered users'
+}
+
+Table posts {
+  id integer [pk]
+  user_id integer [not null]
+  title varchar(100) [default: 'Untitled']
+
+  indexes {
+    (user_id, title) [unique, name: 'posts_user_title_idx']
+  }
+}
+
+Ref fk_posts_user: posts.user_id > users.id [delete: cascade]
+
+TableGroup accounts {
+  users
+}
+
+Note todo {
+  'Add comments'
+}
+`;
+
+function exported(result: IDbmlImportResult): string {
+  return toDBML({
+    database: 'generic',
+    tables: result.tables,
+    references: result.relationships,
+    enums: result.enums,
+    areas: result.areas,
+    notes: result.notes,
+  });
+}
+
+// The parts of an import a round trip must keep; ids and positions are assigned anew
+function schema(result: IDbmlImportResult) {
+  const tableName = (id: unknown) => result.tables.find((t) => t.id === id)?.name;
+  const fieldName = (tableId: unknown, fieldId: unknown) =>
+    result.tables.find((t) => t.id === tableId)?.fields.find((f) => f.id === fieldId)?.name;
+
+  return {
+    enums: result.enums,
+    tables: result.tables.map((t) => ({
+      name: t.name,
+      comment: t.comment,
+      fields: t.fields.map((f) => ({ ...f, id: undefined })),
+      indices: t.indices.map((i) => ({ ...i, id: undefined })),
+    })),
+    relationships: result.relationships.map((r) => ({
+      name: r.name,
+      start: `${tableName(r.startTableId)}.${fieldName(r.startTableId, r.startFieldId)}`,
+      end: `${tableName(r.endTableId)}.${fieldName(r.endTableId, r.endFieldId)}`,
+      cardinality: r.cardinality,
+      updateConstraint: r.updateConstraint,
+      deleteConstraint: r.deleteConstraint,
+    })),
+    areas: result.areas.map((area) => area.name),
+    notes: result.notes.map((note) => [note.title, note.content]),
+  };
+}
+
+describe('DBML round trip', () => {
+  it('keeps the schema through import, export and import', () => {
+    const first = fromDBML(SOURCE);
+    const second = fromDBML(exported(first));
+
+    expect(first.warnings).toEqual([]);
+    expect(second.warnings).toEqual([]);
+    expect(schema(second)).toEqual(schema(first));
+  });
+
+  it('exports the same DBML again after a round trip', () => {
+    const dbml = exported(fromDBML(SOURCE));
+
+    expect(exported(fromDBML(dbml))).toBe(dbml);
+  });
+
+  it('imports what it was given', () => {
+    const { tables, relationships, enums, areas, notes } = fromDBML(SOURCE);
+    const [users, posts] = tables;
+
+    expect(enums).toEqual([{ name: 'mood', values: ['happy', 'sad'] }]);
+    expect(users.comment).toBe('Registered users');
+    expect(users.fields.map((f) => [f.name, f.type, f.default])).toEqual([
+      ['id', 'INTEGER', ''],
+      ['email', 'VARCHAR', ''],
+      ['mood', 'mood', 'happy'],
+      ['active', 'BOOLEAN', 'true'],
+      ['created_at', 'TIMESTAMP', 'now()'],
+    ]);
+    expect(users.fields[1]).toEqual(
+      expect.objectContaining({
+        size: '255',
+        notNull: true,
+        unique: true,
+        comment: "User's login",
+      }),
+    );
+    expect(posts.indices).toEqual([
+      expect.objectContaining({
+        name: 'posts_user_title_idx',
+        unique: true,
+        fields: ['user_id', 'title'],
+      }),
+    ]);
+    expect(relationships).toEqual([
+      expect.objectContaining({
+        name: 'fk_posts_user',
+        startTableId: posts.id,
+        endTableId: users.id,
+        cardinality: 'many_to_one',
+        deleteConstraint: 'Cascade',
+      }),
+    ]);
+    expect(areas.map((area) => area.name)).toEqual(['accounts']);
+    expect(notes).toEqual([expect.objectContaining({ title: 'todo', content: 'Add comments' })]);
+  });
+
+  it('keeps quotes, backslashes and keyword defaults of a diagram', () => {
+    const quoted = table(0, "user's", [
+      field(0, 'id', { type: 'INT', primary: true }),
+      field(1, 'path', { type: 'VARCHAR', default: 'C:\\temp', comment: "Where it's kept" }),
+      field(2, 'created_at', { type: 'TIMESTAMP', default: 'CURRENT_TIMESTAMP' }),
+      field(3, 'deleted_at', { type: 'TIMESTAMP', default: 'NULL' }),
+    ]);
+    const dbml = toDBML({
+      database: 'generic',
+      tables: [quoted],
+      references: [],
+      enums: [],
+      areas: [],
+      notes: [],
+    });
+
+    const [imported] = fromDBML(dbml).tables;
+
+    expect(imported.name).toBe("user's");
+    expect(imported.fields.map((f) => [f.name, f.default, f.comment])).toEqual([
+      ['id', '', ''],
+      ['path', 'C:\\temp', "Where it's kept"],
+      ['created_at', 'CURRENT_TIMESTAMP', ''],
+      ['deleted_at', 'null', ''],
+    ]);
+  });
+
+  it('exports relationships between the tables of a diagram', () => {
+    const users = table(0, 'users', [field(0, 'id', { type: 'INT', primary: true })]);
+    const posts = table(1, 'posts', [field(0, 'user_id', { type: 'INT' })]);
+
+    const dbml = toDBML({
+      database: 'generic',
+      tables: [users, posts],
+      references: [relationship(0, 'fk_posts_user', [1, 0], [0, 0])],
+      enums: [],
+      areas: [],
+      notes: [],
+    });
+
+    expect(dbml).toContain(
+      'Ref fk_posts_user {\n\tposts.user_id > users.id [ delete: no action, update: no action ]\n}',
+    );
+  });
+});
+
+describe('fromDBML', () => {
+  it('throws the compiler diagnostics by line for DBML that does not compile', () => {
+    let failure: unknown;
+    try {
+      fromDBML("Table users {\n  email varchar [note: 'User''s login']\n}");
+    } catch (error) {
+      failure = error;
+    }
+
+    expect(failure).toBeInstanceOf(DbmlSyntaxError);
+    expect((failure as DbmlSyntaxError).diagnostics).toEqual([
+      { line: 2, message: "Expect a comma ',' at column 30" },
+    ]);
+  });
+});
@@ -0,0 +1,160 @@
+import { diffDiagrams, elementKey, summarizeChanges } from '../src/utils/diagram-diff';
+import { field, relationship, snapshot, table } from './fixtures';
+
+const users = table(0, 'users', [
+  field(0, 'id', { primary: true }),
+  field(1, 'email', { type: 'VARCHAR', size: 255 }),
+]);
+const posts = table(1, 'posts', [field(0, 'id', { primary: true }), field(1, 'user_id')]);
+const postsAuthor = relationship(0, 'fk_posts_user', [1, 1], [0, 0]);
+
+const before = snapshot({
+  tables: [users, posts],
+  references: [postsAuthor],
+  enums: [{ name: 'mood', values: ['happy', 'sad'] }],
+});
+
+describe('elementKey', () => {
+  it('identifies elements by id, falling back to the name', () => {
+    expect(elementKey({ id: 0, name: 'users' })).toBe('id:0');
+    expect(elementKey({ id: 'a1', name: 'users' })).toBe('id:a1');
+    expect(elementKey({ name: 'mood' })).toBe('name:mood');
+  });
+});
+
+describe('diffDiagrams', () => {
+  it('finds no changes between equal documents, ignoring table positions', () => {
+    const moved = snapshot({ ...before, tables: [{ ...users, x: 420, y: 80 }, posts] });
+
+    const changes = diffDiagrams(before, moved, 1, 2);
+
+    expect(changes.from).toBe(1);
+    expect(changes.to).toBe(2);
+    expect(changes.tables).toEqual({ added: [], removed: [], renamed: [], altered: [] });
+    expect(changes.relationships).toEqual({ added: [], removed: [], altered: [] });
+  });
+
+  it('matches tables by id, so a renamed table is reported as renamed', () => {
+    const after = snapshot({ ...before, tables: [{ ...users, name: 'accounts' }, posts] });
+
+    const changes = diffDiagrams(before, after, 1, 2);
+
+    expect(changes.tables).toEqual({
+      added: [],
+      removed: [],
+      renamed: [{ id: 0, from: 'users', to: 'accounts' }],
+      altered: [],
+    });
+  });
+
+  it('reports added and removed tables', () => {
+    const comments = table(2, 'comments', [field(0, 'id', { primary: true })]);
+    const after = snapshot({ ...before, tables: [users, comments] });
+
+    const changes = diffDiagrams(before, after, 1, 2);
+
+    expect(changes.tables.added).toEqual([{ id: 2, name: 'comments' }]);
+    expect(changes.tables.removed).toEqual([{ id: 1, name: 'posts' }]);
+  });
+
+  it('reports field and index changes property by property', () => {
+    const altered = {
+      ...users,
+      comment: 'Registered users',
+      fields: [
+        users.fields[0],
+        { ...users.fields[1], size: 320, notNull: true },
+        field(2, 'created_at', { type: 'TIMESTAMP' }),
+      ],
+      indices: [{ id: 0, name: 'users_email_idx', unique: true, fields: ['email'] }],
+    };
+    const after = snapshot({ ...before, tables: [altered, posts] });
+
+    const changes = diffDiagrams(before, after, 1, 2);
+
+    expect(changes.tables.altered).toEqual([
+      {
+        id: 0,
+        name: 'users',
+        changes: { comment: { from: '', to: 'Registered users' } },
+        fields: {
+          added: [{ id: 2, name: 'created_at' }],
+          removed: [],
+          altered: [
+            {
+              id: 1,
+              name: 'email',
+              changes: {
+                size: { from: 255, to: 320 },
+                notNull: { from: false, to: true },
+              },
+            },
+          ],
+        },
+        indices: { added: [{ id: 0, name: 'users_email_idx' }], removed: [], altered: [] },
+      },
+    ]);
+  });
+
+  it('matches elements without ids by name', () => {
+    const after = snapshot({
+      ...before,
+      enums: [
+        { name: 'mood', values: ['happy', 'sad', 'meh'] },
+        { name: 'status', values: ['draft'] },
+      ],
+    });
+
+    const changes = diffDiagrams(before, after, 1, 2);
+
+    expect(changes.enums).toEqual({
+      added: [{ id: 'status', name: 'status' }],
+      removed: [],
+      altered: [
+        {
+          id: 'mood',
+          name: 'mood',
+          changes: { values: { from: ['happy', 'sad'], to: ['happy', 'sad', 'meh'] } },
+        },
+      ],
+    });
+  });
+
+  it('reports relationship changes and treats missing collections as empty', () => {
+    const after = snapshot({
+      ...before,
+      references: [{ ...postsAuthor, deleteConstraint: 'Cascade' }],
+      enums: null,
+    });
+
+    const changes = diffDiagrams(before, after, 1, 2);
+
+    expect(changes.relationships.altered).toEqual([
+      {
+        id: 0,
+        name: 'fk_posts_user',
+        changes: { deleteConstraint: { from: 'No action', to: 'Cascade' } },
+      },
+    ]);
+    expect(changes.enums.removed).toEqual([{ id: 'mood', name: 'mood' }]);
+  });
+});
+
+describe('summarizeChanges', () => {
+  it('counts the changes per collection', () => {
+    const after = snapshot({
+      ...before,
+      tables: [{ ...users, name: 'accounts', color: '#ff0000' }],
+      notes: [{ id: 0, title: 'Todo', content: '', color: '#fcf7ac', x: 0, y: 0, height: 88 }],
+    });
+
+    expect(summarizeChanges(before, after)).toEqual({
+      tables: { added: 0, removed: 1, renamed: 1, altered: 1 },
+      relationships: { added: 0, removed: 0, altered: 0 },
+      enums: { added: 0, removed: 0, altered: 0 },
+      types: { added: 0, removed: 0, altered: 0 },
+      areas: { added: 0, removed: 0, altered: 0 },
+      notes: { added: 1, removed: 0, altered: 0 },
+    });
+  });
+});
@@ -0,0 +1,298 @@
+import {
+  IDiagramArea,
+  IDiagramField,
+  IDiagramNote,
+  IDiagramTable,
+} from '../src/interfaces/diagram-document';
+import { IDiagramSnapshot } from '../src/interfaces/diagram-snapshot';
+import { mergeDiagrams } from '../src/utils/diagram-merge';
+
+function field(id: string, name: string): IDiagramField {
+  return {
+    id,
+    name,
+    type: 'INTEGER',
+    default: '',
+    check: '',
+    primary: false,
+    unique: false,
+    notNull: false,
+    increment: false,
+    comment: '',
+  };
+}
+
+function table(id: string, name: string, fields: IDiagramField[]): IDiagramTable {
+  return { id, name, x: 0, y: 0, fields, comment: '', indices: [], color: '#175e7a' };
+}
+
+function note(id: number, title: string, x = 0, y = 0): IDiagramNote {
+  return { id, title, x, y, content: '', color: '#fcf7ac', height: 88 };
+}
+
+function area(id: number, name: string, x = 0, y = 0): IDiagramArea {
+  return { id, name, x, y, width: 200, height: 200, color: '#175e7a' };
+}
+
+function snapshot(document: Partial<IDiagramSnapshot> = {}): IDiagramSnapshot {
+  return {
+    name: 'Diagram',
+    database: 'generic',
+    tables: [],
+    references: [],
+    notes: [],
+    areas: [],
+    todos: [],
+    enums: null,
+    types: null,
+    ...document,
+  };
+}
+
+const users = table('t1', 'users', [field('f1', 'id'), field('f2', 'email')]);
+const posts = table('t2', 'posts', [field('f3', 'id'), field('f4', 'user_id')]);
+const reference = {
+  id: 'r1',
+  name: 'fk_posts_user',
+  startTableId: 't2',
+  startFieldId: 'f4',
+  endTableId: 't1',
+  endFieldId: 'f1',
+  cardinality: 'many_to_one',
+  updateConstraint: 'No action',
+  deleteConstraint: 'No action',
+};
+
+describe('mergeDiagrams', () => {
+  describe('tables and relationships', () => {
+    it('merges edits to different properties of the same table', () => {
+      const base = snapshot({ tables: [users] });
+      const theirs = snapshot({ tables: [{ ...users, x: 100 }] });
+      const ours = snapshot({ tables: [{ ...users, color: '#ff0000' }] });
+
+      const { merged, conflicts } = mergeDiagrams(base, theirs, ours);
+
+      expect(conflicts).toEqual([]);
+      expect(merged.tables).toEqual([{ ...users, x: 100, color: '#ff0000' }]);
+    });
+
+    it('merges fields added on both sides to the same table', () => {
+      const base = snapshot({ tables: [users] });
+      const theirs = snapshot({
+        tables: [{ ...users, fields: [...users.fields, field('f5', 'name')] }],
+      });
+      const ours = snapshot({
+        tables: [{ ...users, fields: [...users.fields, field('f6', 'created_at')] }],
+      });
+
+      const { merged, conflicts } = mergeDiagrams(base, theirs, ours);
+
+      expect(conflicts).toEqual([]);
+      expect(merged.tables[0].fields.map((f) => f.name)).toEqual([
+        'id',
+        'email',
+        'name',
+        'created_at',
+      ]);
+    });
+
+    it('keeps theirs and reports a conflict when both change the same property', () => {
+      const base = snapshot({ tables: [users] });
+      const theirs = snapshot({ tables: [{ ...users, name: 'accounts' }] });
+      const ours = snapshot({ tables: [{ ...users, name: 'members' }] });
+
+      const { merged, conflicts } = mergeDiagrams(base, theirs, ours);
+
+      expect(merged.tables[0].name).toBe('accounts');
+      expect(conflicts).toEqual([
+        expect.objectContaining({
+          path: 'tables/t1/name',
+          element: 'table',
+          reason: 'both_modified',
+          ours: 'members',
+          theirs: 'accounts',
+        }),
+      ]);
+    });
+
+    it('does not report a conflict when both make the same change', () => {
+      const base = snapshot({ tables: [users] });
+      const changed = snapshot({ tables: [{ ...users, name: 'accounts' }] });
+
+      const { merged, conflicts } = mergeDiagrams(base, changed, changed);
+
+      expect(conflicts).toEqual([]);
+      expect(merged.tables[0].name).toBe('accounts');
+    });
+
+    it('applies a delete when the other side left the element unchanged', () => {
+      const base = snapshot({ tables: [users, posts] });
+      const theirs = snapshot({ tables: [users] });
+      const ours = snapshot({ tables: [{ ...users, x: 50 }, posts] });
+
+      const { merged, conflicts } = mergeDiagrams(base, theirs, ours);
+
+      expect(conflicts).toEqual([]);
+      expect(merged.tables).toEqual([{ ...users, x: 50 }]);
+    });
+
+    it('keeps an element one side changed and the other deleted, with a conflict', () => {
+      const base = snapshot({ tables: [users, posts] });
+      const theirs = snapshot({ tables: [users] });
+      const ours = snapshot({ tables: [users, { ...posts, name: 'articles' }] });
+
+      const { merged, conflicts } = mergeDiagrams(base, theirs, ours);
+
+      expect(merged.tables.map((t) => t.name)).toEqual(['users', 'articles']);
+      expect(conflicts).toEqual([
+        expect.objectContaining({
+          path: 'tables/t2',
+          reason: 'modified_and_deleted',
+          theirs: null,
+        }),
+      ]);
+    });
+
+    it('reports different elements added under the same id', () => {
+      const base = snapshot();
+      const theirs = snapshot({ tables: [users] });
+      const ours = snapshot({ tables: [{ ...users, name: 'accounts' }] });
+
+      const { merged, conflicts } = mergeDiagrams(base, theirs, ours);
+
+      expect(merged.tables).toEqual([users]);
+      expect(conflicts).toEqual([expect.objectContaining({ reason: 'added_twice' })]);
+    });
+
+    it('reports a relationship added to a field the other side deleted', () => {
+      const base = snapshot({ tables: [users, posts] });
+      const theirs = snapshot({
+        tables: [users, { ...posts, fields: [field('f3', 'id')] }],
+      });
+      const ours = snapshot({ tables: [users, posts], references: [reference] });
+
+      const { merged, conflicts } = mergeDiagrams(base, theirs, ours);
+
+      expect(merged.references).toEqual([reference]);
+      expect(conflicts).toEqual([
+        expect.objectContaining({
+          path: 'references/r1',
+          reason: 'modified_and_deleted',
+          ours: reference,
+          theirs: null,
+        }),
+      ]);
+    });
+  });
+
+  describe('notes and areas', () => {
+    it('keeps notes added on both sides under the same index id', () => {
+      const base = snapshot({ notes: [note(0, 'note_0')] });
+      const theirs = snapshot({ notes: [note(0, 'note_0'), note(1, 'note_1', 100, 0)] });
+      const ours = snapshot({ notes: [note(0, 'note_0'), note(1, 'note_1', 400, 300)] });
+
+      const { merged, conflicts } = mergeDiagrams(base, theirs, ours);
+
+      expect(conflicts).toEqual([]);
+      expect(merged.notes).toEqual([
+        note(0, 'note_0'),
+        note(1, 'note_1', 100, 0),
+        note(2, 'note_1', 400, 300),
+      ]);
+    });
+
+    it('keeps a note added identically on both sides once', () => {
+      const base = snapshot();
+      const added = snapshot({ notes: [note(0, 'note_0')] });
+
+      const { merged, conflicts } = mergeDiagrams(base, added, added);
+
+      expect(conflicts).toEqual([]);
+      expect(merged.notes).toEqual([note(0, 'note_0')]);
+    });
+
+    it('applies an edit to the right note after the other side deleted one before it', () => {
+      const base = snapshot({ notes: [note(0, 'first'), note(1, 'second'), note(2, 'third')] });
+      // Deleting the first note renumbers the others
+      const theirs = snapshot({ notes: [note(0, 'second'), note(1, 'third')] });
+      const ours = snapshot({
+        notes: [note(0, 'first'), { ...note(1, 'second'), content: 'edited' }, note(2, 'third')],
+      });
+
+      const { merged, conflicts } = mergeDiagrams(base, theirs, ours);
+
+      expect(conflicts).toEqual([]);
+      expect(merged.notes).toEqual([{ ...note(0, 'second'), content: 'edited' }, note(1, 'third')]);
+    });
+
+    it('follows a note that was renamed on one side and moved on the other', () => {
+      const base = snapshot({ notes: [note(0, 'todo', 10, 10)] });
+      const theirs = snapshot({ notes: [note(0, 'todo', 200, 80)] });
+      const ours = snapshot({ notes: [note(0, 'done', 10, 10)] });
+
+      const { merged, conflicts } = mergeDiagrams(base, theirs, ours);
+
+      expect(conflicts).toEqual([]);
+      expect(merged.notes).toEqual([note(0, 'done', 200, 80)]);
+    });
+
+    it('keeps a note one side edited and the other deleted, with a conflict', () => {
+      const base = snapshot({ notes: [note(0, 'first'), note(1, 'second')] });
+      const theirs = snapshot({ notes: [note(0, 'first')] });
+      const ours = snapshot({ notes: [note(0, 'first'), { ...note(1, 'second'), color: '#fff' }] });
+
+      const { merged, conflicts } = mergeDiagrams(base, theirs, ours);
+
+      expect(merged.notes).toEqual([note(0, 'first'), { ...note(1, 'second'), color: '#fff' }]);
+      expect(conflicts).toEqual([
+        expect.objectContaining({
+          path: 'notes/1',
+          element: 'note',
+          reason: 'modified_and_deleted',
+        }),
+      ]);
+    });
+
+    it('merges areas added and deleted on different sides', () => {
+      const base = snapshot({ areas: [area(0, 'auth'), area(1, 'billing', 300)] });
+      const theirs = snapshot({ areas: [area(0, 'billing', 300)] });
+      const ours = snapshot({
+        areas: [area(0, 'auth'), area(1, 'billing', 300), area(2, 'reports', 600)],
+      });
+
+      const { merged, conflicts } = mergeDiagrams(base, theirs, ours);
+
+      expect(conflicts).toEqual([]);
+      expect(merged.areas).toEqual([area(0, 'billing', 300), area(1, 'reports', 600)]);
+    });
+
+    it('reports a conflict when both sides change the same area property', () => {
+      const base = snapshot({ areas: [area(0, 'auth')] });
+      const theirs = snapshot({ areas: [{ ...area(0, 'auth'), color: '#111111' }] });
+      const ours = snapshot({ areas: [{ ...area(0, 'auth'), color: '#222222' }] });
+
+      const { merged, conflicts } = mergeDiagrams(base, theirs, ours);
+
+      expect(merged.areas[0].color).toBe('#111111');
+      expect(conflicts).toEqual([
+        expect.objectContaining({ path: 'areas/0/color', reason: 'both_modified' }),
+      ]);
+    });
+  });
+
+  describe('collections without keys', () => {
+    it('merges todos as a whole', () => {
+      const todo = { title: 'Add indexes', details: '', complete: false, priority: 0, order: 0 };
+      const base = snapshot({ todos: [todo] });
+      const theirs = snapshot({ todos: [{ ...todo, complete: true }] });
+      const ours = snapshot({ todos: [todo, { ...todo, title: 'Review names' }] });
+
+      const { merged, conflicts } = mergeDiagrams(base, theirs, ours);
+
+      expect(merged.todos).toEqual(theirs.todos);
+      expect(conflicts).toEqual([
+        expect.objectContaining({ path: 'todos', reason: 'both_modified' }),
+      ]);
+    });
+  });
+});
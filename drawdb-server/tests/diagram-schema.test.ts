@@ -0,0 +1,125 @@
+import { IDiagramField } from '../src/interfaces/diagram-document';
+import { validateDocument, validateReferences } from '../src/utils/diagram-schema';
+import { validateSchema } from '../src/utils/json-schema';
+import { field, relationship, snapshot, table } from './fixtures';
+
+const users = table(0, 'users', [
+  field(0, 'id', { primary: true, increment: true }),
+  field(1, 'mood', { type: 'ENUM', values: ['happy', 'sad'], default: 'happy' }),
+  field(2, 'active', { type: 'BOOLEAN', default: true, notNull: true }),
+]);
+const posts = table(1, 'posts', [field(0, 'id', { primary: true }), field(1, 'user_id')], {
+  indices: [{ id: 0, name: 'posts_user_id_idx', unique: false, fields: ['user_id'] }],
+  locked: false,
+});
+const postsAuthor = relationship(0, 'fk_posts_user', [1, 1], [0, 0]);
+
+// A document as the editor saves it
+const editorDocument = snapshot({
+  tables: [users, posts],
+  references: [postsAuthor],
+  areas: [{ id: 0, name: 'Accounts', x: -20, y: -20, width: 400, height: 300, color: '#175e7a' }],
+  notes: [{ id: 0, x: 500, y: 40, title: 'Todo', content: '', color: '#fcf7ac', height: 88 }],
+  todos: [{ title: 'Add comments', details: '', complete: false, priority: 0, order: 0 }],
+  enums: [{ name: 'mood', values: ['happy', 'sad'] }],
+  types: [
+    {
+      name: 'address',
+      fields: [{ name: 'street', type: 'VARCHAR' }],
+      comment: '',
+    },
+  ],
+}) as unknown as Record<string, unknown>;
+
+describe('validateSchema', () => {
+  it('checks types, patterns, required properties and items, with their paths', () => {
+    const schema = {
+      type: 'object' as const,
+      properties: {
+        count: { type: 'integer' as const },
+        color: { type: 'string' as const, pattern: '^#[0-9a-f]{6}$' },
+        tags: { type: 'array' as const, items: { type: 'string' as const } },
+      },
+      required: ['count', 'name'],
+    };
+
+    expect(
+      validateSchema({ count: 2, color: '#ffffff', tags: [], name: 'a' }, schema, 'x'),
+    ).toEqual([]);
+    expect(validateSchema({ count: 1.5, color: 'red', tags: ['a', 3] }, schema, 'x')).toEqual([
+      { field: 'x.name', message: 'x.name is required' },
+      { field: 'x.count', message: 'x.count must be an integer' },
+      { field: 'x.color', message: 'x.color must match ^#[0-9a-f]{6}$' },
+      { field: 'x.tags[1]', message: 'x.tags[1] must be a string' },
+    ]);
+  });
+
+  it('accepts integers as numbers and names every allowed type', () => {
+    expect(validateSchema(3, { type: 'number' }, 'x')).toEqual([]);
+    expect(validateSchema(null, { type: ['integer', 'string', 'boolean'] }, 'x')).toEqual([
+      { field: 'x', message: 'x must be an integer, a string or a boolean' },
+    ]);
+  });
+});
+
+describe('validateDocument', () => {
+  it('accepts documents saved by the editor', () => {
+    expect(validateDocument(editorDocument)).toEqual([]);
+    expect(validateDocument({ ...editorDocument, enums: null, types: null })).toEqual([]);
+  });
+
+  it('checks only the collections present', () => {
+    expect(validateDocument({ notes: [] })).toEqual([]);
+    expect(validateDocument({})).toEqual([]);
+  });
+
+  it('rejects collections that are not arrays', () => {
+    expect(validateDocument({ tables: {}, references: null })).toEqual([
+      { field: 'tables', message: 'tables must be an array' },
+      { field: 'references', message: 'references must be an array' },
+    ]);
+  });
+
+  it('reports every invalid element by its path', () => {
+    const unnamed: Partial<IDiagramField> = { ...users.fields[0] };
+    delete unnamed.name;
+    const details = validateDocument({
+      tables: [
+        { ...users, color: 'blue', fields: [unnamed, { ...users.fields[1], values: [1] }] },
+        { ...posts, x: '10', indices: [{ name: 'posts_user_id_idx', fields: ['user_id'] }] },
+      ],
+      areas: [{ ...(editorDocument.areas as object[])[0], id: 'a' }],
+      todos: [{ title: 'Add comments' }],
+    });
+
+    expect(details.map((detail) => detail.field)).toEqual([
+      'tables[0].fields[0].name',
+      'tables[0].fields[1].values[0]',
+      'tables[0].color',
+      'tables[1].x',
+      'tables[1].indices[0].unique',
+      'areas[0].id',
+      'todos[0].details',
+      'todos[0].complete',
+      'todos[0].priority',
+    ]);
+  });
+});
+
+describe('validateReferences', () => {
+  it('accepts relationships between existing tables and fields', () => {
+    expect(validateReferences([users, posts], [postsAuthor])).toEqual([]);
+  });
+
+  it('reports endpoints naming a missing table or field', () => {
+    const dangling = [
+      relationship(0, 'fk_posts_user', [1, 7], [0, 0]),
+      relationship(1, 'fk_comments_post', [2, 1], [1, 0]),
+    ];
+
+    expect(validateReferences([users, posts], dangling)).toEqual([
+      { field: 'references[0].startFieldId', message: 'Field 7 does not exist in table posts' },
+      { field: 'references[1].startTableId', message: 'Table 2 does not exist' },
+    ]);
+  });
+});
@@ -0,0 +1,141 @@
+import { buildDataDictionary, IDocsInput, toHtmlPages, toMarkdown } from '../src/utils/docs';
+import { field, relationship, table } from './fixtures';
+
+const users = table(
+  0,
+  'users',
+  [
+    field(0, 'id', { type: 'INT', primary: true, increment: true }),
+    field(1, 'email', { type: 'VARCHAR', size: 255, notNull: true, comment: 'Login | contact' }),
+  ],
+  { x: 20, y: 20, comment: 'Registered users' },
+);
+const posts = table(1, 'posts', [field(0, 'id', { type: 'INT' }), field(1, 'user_id')], {
+  x: 600,
+  y: 20,
+  indices: [{ id: 0, name: 'posts_user_id_idx', unique: false, fields: ['user_id'] }],
+});
+
+function input(properties: Partial<IDocsInput> = {}): IDocsInput {
+  return {
+    name: 'Blog',
+    database: 'postgresql',
+    tables: [users, posts],
+    references: [relationship(0, 'fk_posts_user', [1, 1], [0, 0])],
+    enums: [],
+    types: [],
+    areas: [{ id: 0, name: 'Accounts', x: 0, y: 0, width: 400, height: 300, color: '#175e7a' }],
+    notes: [],
+    ...properties,
+  };
+}
+
+// Markup a diagram may hold in its names and comments
+const hostile = input({
+  name: '<b>Blog</b>',
+  tables: [
+    table(
+      0,
+      '<script>alert(1)</script>',
+      [field(0, '<img src=x onerror=alert(1)>', { comment: 'a < b & "c"' })],
+      { comment: "<iframe src='x'>" },
+    ),
+  ],
+  references: [],
+  notes: [
+    { id: 0, x: 900, y: 900, title: '<h1>', content: '</div><script>', color: '', height: 88 },
+  ],
+});
+
+describe('buildDataDictionary', () => {
+  it('gathers columns, relationships and subject areas per table', () => {
+    const dictionary = buildDataDictionary(input());
+    const [docsUsers, docsPosts] = dictionary.tables;
+
+    expect(dictionary.database).toBe('PostgreSQL');
+    expect(docsUsers.fields[1]).toEqual({
+      name: 'email',
+      type: 'VARCHAR(255)',
+      constraints: ['NOT NULL'],
+      default: '',
+      comment: 'Login | contact',
+      values: [],
+    });
+    expect(docsUsers.area).toBe('Accounts');
+    expect(docsPosts.area).toBeNull();
+    expect(docsPosts.outgoing).toEqual(docsUsers.incoming);
+    expect(docsPosts.outgoing[0]).toMatchObject({
+      from: { table: 'posts', slug: 'posts', field: 'user_id' },
+      to: { table: 'users', slug: 'users', field: 'id' },
+      cardinality: 'many to one',
+    });
+  });
+
+  it('gives tables distinct slugs when their names slug alike', () => {
+    const dictionary = buildDataDictionary(
+      input({ tables: [table(0, 'Order Items', []), table(1, 'order-items', [])], references: [] }),
+    );
+
+    expect(dictionary.tables.map((t) => t.slug)).toEqual(['order-items', 'order-items-2']);
+  });
+});
+
+describe('toMarkdown', () => {
+  it('documents each table with its columns, indices and relationships', () => {
+    const markdown = toMarkdown(buildDataDictionary(input()));
+
+    expect(markdown).toContain('  - [users](#users)');
+    expect(markdown).toContain('<a id="users"></a>\n\n### users\n\nRegistered users');
+    expect(markdown).toContain('| **email** | `VARCHAR(255)` | NOT NULL |  | Login \\| contact |');
+    expect(markdown).toContain('| posts_user_id_idx | No | user_id |');
+    expect(markdown).toContain(
+      '| fk_posts_user | [posts](#posts).user_id | [users](#users).id | many to one | No action | No action |',
+    );
+    expect(markdown).toContain('### Accounts\n\nTables: [users](#users)');
+  });
+
+  it('escapes markup in names, comments and notes', () => {
+    const markdown = toMarkdown(buildDataDictionary(hostile));
+
+    expect(markdown).not.toMatch(/<(script|img|iframe|b|h1)\b|<\/div>/);
+    expect(markdown).toContain('# &lt;b&gt;Blog&lt;/b&gt;');
+    expect(markdown).toContain('### &lt;script&gt;alert(1)&lt;/script&gt;');
+    expect(markdown).toContain("&lt;iframe src='x'&gt;");
+    expect(markdown).toContain('| **&lt;img src=x onerror=alert(1)&gt;** |');
+    expect(markdown).toContain('| a &lt; b &amp; "c" |');
+    expect(markdown).toContain('### &lt;h1&gt;\n\n&lt;/div&gt;&lt;script&gt;');
+  });
+});
+
+describe('toHtmlPages', () => {
+  it('writes an index page, a page per table and a stylesheet', () => {
+    const pages = toHtmlPages(buildDataDictionary(input()));
+
+    expect(Object.keys(pages)).toEqual([
+      'index.html',
+      'style.css',
+      'tables/users.html',
+      'tables/posts.html',
+    ]);
+    expect(pages['index.html']).toContain('<a href="tables/users.html">users</a>');
+    expect(pages['tables/posts.html']).toContain(
+      '<td><a href="../tables/posts.html">posts</a>.user_id</td>',
+    );
+    expect(pages['tables/users.html']).toContain('<link rel="stylesheet" href="../style.css">');
+  });
+
+  it('escapes markup in names, comments and notes', () => {
+    const pages = toHtmlPages(buildDataDictionary(hostile));
+    const tablePage = pages['tables/script-alert-1-script.html'];
+
+    for (const html of [pages['index.html'], tablePage]) {
+      expect(html).not.toMatch(/<(script|img|iframe)\b/);
+    }
+    expect(pages['index.html']).toContain('<title>&lt;b&gt;Blog&lt;/b&gt;</title>');
+    expect(pages['index.html']).toContain('<div class="note">&lt;/div&gt;&lt;script&gt;</div>');
+    expect(tablePage).toContain('<h1>&lt;script&gt;alert(1)&lt;/script&gt;</h1>');
+    expect(tablePage).toContain('<p class="comment">&lt;iframe src=&#39;x&#39;&gt;</p>');
+    expect(tablePage).toContain('<strong>&lt;img src=x onerror=alert(1)&gt;</strong>');
+    expect(tablePage).toContain('<span class="comment">a &lt; b &amp; &quot;c&quot;</span>');
+  });
+});
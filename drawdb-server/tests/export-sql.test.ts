@@ -0,0 +1,74 @@
+import { exportSQL, ISqlExportInput, SQL_DIALECTS, SqlDatabase } from '../src/utils/export-sql';
+import { field, relationship, table } from './fixtures';
+
+// Users and their posts, with the integer and text types the editor offers for the database
+function shop(database: string, integer = 'INTEGER', text = 'VARCHAR'): ISqlExportInput {
+  const users = table(0, 'users', [
+    field(0, 'id', { type: integer, primary: true, increment: true }),
+    field(1, 'email', {
+      type: text,
+      size: 255,
+      notNull: true,
+      unique: true,
+      comment: "User's login",
+    }),
+  ]);
+  const posts = table(
+    1,
+    'posts',
+    [
+      field(0, 'id', { type: integer, primary: true }),
+      field(1, 'user_id', { type: integer, notNull: true }),
+      field(2, 'title', { type: text, size: 100, default: 'Untitled' }),
+    ],
+    {
+      comment: 'Blog posts',
+      indices: [{ id: 0, name: 'posts_user_id_idx', unique: false, fields: ['user_id'] }],
+    },
+  );
+
+  return {
+    database,
+    tables: [users, posts],
+    references: [relationship(0, 'fk_posts_user', [1, 1], [0, 0], { deleteConstraint: 'Cascade' })],
+    types: [],
+    enums: [],
+  };
+}
+
+describe('exportSQL', () => {
+  it.each([
+    ['postgres', 'VARCHAR'],
+    ['mysql', 'VARCHAR'],
+    ['mariadb', 'VARCHAR'],
+    ['sqlite', 'TEXT'],
+    ['mssql', 'VARCHAR'],
+    ['oraclesql', 'VARCHAR2'],
+  ])('exports a %s diagram as the editor does', (dialect, text) => {
+    const database = SQL_DIALECTS[dialect];
+
+    expect(exportSQL(shop(database, 'INTEGER', text), database)).toMatchSnapshot();
+  });
+
+  it('exports PostgreSQL enums and composite types', () => {
+    const diagram: ISqlExportInput = {
+      ...shop(SqlDatabase.POSTGRES),
+      enums: [{ name: 'mood', values: ['happy', 'sad'] }],
+      types: [{ name: 'address', fields: [{ name: 'street', type: 'VARCHAR' }], comment: '' }],
+    };
+
+    const sql = exportSQL(diagram, SqlDatabase.POSTGRES);
+
+    expect(sql).toContain(`CREATE TYPE "mood" AS ENUM (\n\t'happy',\n\t'sad'\n);`);
+    expect(sql).toContain('CREATE TYPE address AS (\n\tstreet VARCHAR\n);');
+  });
+
+  it.each(Object.keys(SQL_DIALECTS))('exports a generic diagram to %s', (dialect) => {
+    expect(exportSQL(shop(SqlDatabase.GENERIC, 'INT'), SQL_DIALECTS[dialect])).toMatchSnapshot();
+  });
+
+  it('exports a diagram for one database to that database only', () => {
+    expect(exportSQL(shop(SqlDatabase.MYSQL), SqlDatabase.POSTGRES)).toBeNull();
+    expect(exportSQL(shop(SqlDatabase.GENERIC), SqlDatabase.GENERIC)).toBeNull();
+  });
+});
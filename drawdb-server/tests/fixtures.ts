@@ -0,0 +1,84 @@
+import {
+  IDiagramField,
+  IDiagramRelationship,
+  IDiagramTable,
+} from '../src/interfaces/diagram-document';
+import { IDiagramSnapshot } from '../src/interfaces/diagram-snapshot';
+
+// Builders for diagram documents shared by the tests
+
+export function field(
+  id: string | number,
+  name: string,
+  properties: Partial<IDiagramField> = {},
+): IDiagramField {
+  return {
+    id,
+    name,
+    type: 'INTEGER',
+    default: '',
+    check: '',
+    primary: false,
+    unique: false,
+    notNull: false,
+    increment: false,
+    comment: '',
+    ...properties,
+  };
+}
+
+export function table(
+  id: string | number,
+  name: string,
+  fields: IDiagramField[],
+  properties: Partial<IDiagramTable> = {},
+): IDiagramTable {
+  return {
+    id,
+    name,
+    x: 0,
+    y: 0,
+    fields,
+    comment: '',
+    indices: [],
+    color: '#175e7a',
+    ...properties,
+  };
+}
+
+// A many-to-one relationship from `start` to `end`, given as [tableId, fieldId] pairs
+export function relationship(
+  id: string | number,
+  name: string,
+  start: [string | number, string | number],
+  end: [string | number, string | number],
+  properties: Partial<IDiagramRelationship> = {},
+): IDiagramRelationship {
+  return {
+    id,
+    name,
+    startTableId: start[0],
+    startFieldId: start[1],
+    endTableId: end[0],
+    endFieldId: end[1],
+    cardinality: 'many_to_one',
+    updateConstraint: 'No action',
+    deleteConstraint: 'No action',
+    ...properties,
+  };
+}
+
+export function snapshot(document: Partial<IDiagramSnapshot> = {}): IDiagramSnapshot {
+  return {
+    name: 'Diagram',
+    database: 'generic',
+    tables: [],
+    references: [],
+    notes: [],
+    areas: [],
+    todos: [],
+    enums: null,
+    types: null,
+    ...document,
+  };
+}
@@ -0,0 +1,330 @@
+import { Response } from 'express';
+import { Transaction } from 'sequelize';
+import { sequelize } from '../src/config/database';
+import { ImportController } from '../src/controllers/import-controller';
+import { IDiagramTable } from '../src/interfaces/diagram-document';
+import { AuthRequest } from '../src/middleware/auth';
+import { Diagram } from '../src/models';
+import { RevisionService } from '../src/services/revision-service';
+import { SqlDatabase } from '../src/utils/export-sql';
+import { importSQL, ISqlImportResult } from '../src/utils/import-sql';
+
+// Tables by name, with their fields as [name, type] pairs
+function columns(tables: IDiagramTable[]) {
+  return Object.fromEntries(
+    tables.map((table) => [table.name, table.fields.map((field) => [field.name, field.type])]),
+  );
+}
+
+// Relationships as "table.column -> table.column" with their actions
+function foreignKeys({ tables, relationships }: ISqlImportResult) {
+  const end = (tableId: unknown, fieldId: unknown) => {
+    const table = tables.find((t) => t.id === tableId);
+    return `${table?.name}.${table?.fields.find((f) => f.id === fieldId)?.name}`;
+  };
+
+  return relationships.map((r) => ({
+    name: r.name,
+    from: end(r.startTableId, r.startFieldId),
+    to: end(r.endTableId, r.endFieldId),
+    cardinality: r.cardinality,
+    onUpdate: r.updateConstraint,
+    onDelete: r.deleteConstraint,
+  }));
+}
+
+describe('importSQL', () => {
+  it('imports PostgreSQL tables, enums, indices, comments and foreign keys', () => {
+    const result = importSQL(
+      `CREATE TYPE mood AS ENUM ('happy', 'sad');
+      CREATE TABLE "users" (
+        "id" SERIAL PRIMARY KEY,
+        "email" VARCHAR(255) NOT NULL UNIQUE,
+        "mood" "mood" DEFAULT 'happy'
+      );
+      CREATE TABLE "posts" (
+        "id" INTEGER PRIMARY KEY,
+        "user_id" INTEGER NOT NULL REFERENCES "users"("id") ON DELETE CASCADE,
+        "editor_id" INTEGER
+      );
+      ALTER TABLE "posts" ADD CONSTRAINT "fk_posts_editor" FOREIGN KEY ("editor_id")
+        REFERENCES "users"("id") ON UPDATE SET NULL;
+      CREATE UNIQUE INDEX "posts_user_id_idx" ON "posts" ("user_id");
+      COMMENT ON TABLE "posts" IS 'Blog posts';`,
+      SqlDatabase.POSTGRES,
+    );
+
+    expect(result.warnings).toEqual([]);
+    expect(result.enums).toEqual([{ name: 'mood', values: ['happy', 'sad'] }]);
+    expect(columns(result.tables)).toEqual({
+      users: [
+        ['id', 'SERIAL'],
+        ['email', 'VARCHAR'],
+        ['mood', 'mood'],
+      ],
+      posts: [
+        ['id', 'INTEGER'],
+        ['user_id', 'INTEGER'],
+        ['editor_id', 'INTEGER'],
+      ],
+    });
+
+    const [users, posts] = result.tables;
+    expect(users.fields[0]).toEqual(expect.objectContaining({ primary: true }));
+    expect(users.fields[1]).toEqual(
+      expect.objectContaining({ size: 255, notNull: true, unique: true }),
+    );
+    expect(users.fields[2].default).toBe('happy');
+    expect(posts.comment).toBe('Blog posts');
+    expect(posts.indices).toEqual([
+      expect.objectContaining({ name: 'posts_user_id_idx', unique: true, fields: ['user_id'] }),
+    ]);
+    expect(foreignKeys(result)).toEqual([
+      {
+        name: 'fk_posts_user_id_users',
+        from: 'posts.user_id',
+        to: 'users.id',
+        cardinality: 'many_to_one',
+        onUpdate: 'No action',
+        onDelete: 'Cascade',
+      },
+      {
+        name: 'fk_posts_editor',
+        from: 'posts.editor_id',
+        to: 'users.id',
+        cardinality: 'many_to_one',
+        onUpdate: 'Set null',
+        onDelete: 'No action',
+      },
+    ]);
+  });
+
+  it('imports MySQL auto increments and foreign keys added by ALTER TABLE', () => {
+    const result = importSQL(
+      `CREATE TABLE \`users\` (\`id\` INT AUTO_INCREMENT PRIMARY KEY, \`email\` VARCHAR(255));
+      CREATE TABLE \`posts\` (\`id\` INT PRIMARY KEY, \`user_id\` INT NOT NULL);
+      ALTER TABLE \`posts\` ADD FOREIGN KEY (\`user_id\`) REFERENCES \`users\`(\`id\`)
+        ON DELETE CASCADE;`,
+      SqlDatabase.MYSQL,
+    );
+
+    expect(result.warnings).toEqual([]);
+    expect(result.tables[0].fields[0]).toEqual(
+      expect.objectContaining({ type: 'INTEGER', primary: true, increment: true }),
+    );
+    expect(foreignKeys(result)).toEqual([
+      expect.objectContaining({ from: 'posts.user_id', to: 'users.id', onDelete: 'Cascade' }),
+    ]);
+  });
+
+  it('imports MariaDB foreign keys declared in the table', () => {
+    const result = importSQL(
+      `CREATE TABLE users (id INT PRIMARY KEY);
+      CREATE TABLE posts (
+        id INT PRIMARY KEY,
+        user_id INT,
+        CONSTRAINT fk_posts_user FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE SET NULL
+      );`,
+      SqlDatabase.MARIADB,
+    );
+
+    expect(result.warnings).toEqual([]);
+    expect(foreignKeys(result)).toEqual([
+      expect.objectContaining({
+        name: 'fk_posts_user',
+        from: 'posts.user_id',
+        onDelete: 'Set null',
+      }),
+    ]);
+  });
+
+  it('imports SQLite tables and indices on quoted columns', () => {
+    const result = importSQL(
+      `CREATE TABLE "users" ("id" INTEGER PRIMARY KEY AUTOINCREMENT, "email" TEXT NOT NULL);
+      CREATE TABLE "posts" (
+        "id" INTEGER PRIMARY KEY,
+        "user_id" INTEGER NOT NULL,
+        FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE
+      );
+      CREATE INDEX "posts_user_id_idx" ON "posts" ("user_id");`,
+      SqlDatabase.SQLITE,
+    );
+
+    expect(result.warnings).toEqual([]);
+    expect(columns(result.tables)).toEqual({
+      users: [
+        ['id', 'INTEGER'],
+        ['email', 'TEXT'],
+      ],
+      posts: [
+        ['id', 'INTEGER'],
+        ['user_id', 'INTEGER'],
+      ],
+    });
+    expect(result.tables[1].indices).toEqual([
+      expect.objectContaining({ name: 'posts_user_id_idx', fields: ['user_id'] }),
+    ]);
+    expect(foreignKeys(result)).toEqual([
+      expect.objectContaining({ from: 'posts.user_id', to: 'users.id', onDelete: 'Cascade' }),
+    ]);
+  });
+
+  it('imports SQL Server identities and bracketed names', () => {
+    const result = importSQL(
+      `CREATE TABLE [users] ([id] INT IDENTITY(1,1) PRIMARY KEY, [email] NVARCHAR(255) NOT NULL);
+      CREATE TABLE [posts] ([id] INT PRIMARY KEY, [user_id] INT NOT NULL);
+      ALTER TABLE [posts] ADD CONSTRAINT [fk_posts_user] FOREIGN KEY ([user_id])
+        REFERENCES [users] ([id]) ON DELETE CASCADE;`,
+      SqlDatabase.MSSQL,
+    );
+
+    expect(result.tables[0].fields).toEqual([
+      expect.objectContaining({ name: 'id', type: 'INTEGER', increment: true }),
+      expect.objectContaining({ name: 'email', type: 'NVARCHAR', size: 255, notNull: true }),
+    ]);
+    // The parser does not read SQL Server foreign keys
+    expect(result.relationships).toEqual([]);
+    expect(result.warnings).toEqual([
+      { line: 4, message: expect.stringMatching(/^Could not parse statement/) },
+    ]);
+  });
+
+  it('imports Oracle tables and constraints', () => {
+    const result = importSQL(
+      `CREATE TABLE users (id NUMBER PRIMARY KEY, email VARCHAR2(255) NOT NULL UNIQUE);
+      CREATE TABLE posts (
+        id NUMBER PRIMARY KEY,
+        user_id NUMBER NOT NULL,
+        CONSTRAINT fk_posts_user FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+      );`,
+      SqlDatabase.ORACLESQL,
+    );
+
+    expect(result.warnings).toEqual([]);
+    expect(columns(result.tables)).toEqual({
+      users: [
+        ['id', 'NUMBER'],
+        ['email', 'VARCHAR2'],
+      ],
+      posts: [
+        ['id', 'NUMBER'],
+        ['user_id', 'NUMBER'],
+      ],
+    });
+    expect(foreignKeys(result)).toEqual([
+      expect.objectContaining({ name: 'fk_posts_user', onDelete: 'Cascade' }),
+    ]);
+  });
+
+  it('translates types for generic diagrams', () => {
+    const result = importSQL(
+      'CREATE TABLE users (id INTEGER PRIMARY KEY, email VARCHAR(255), data JSONB);',
+      SqlDatabase.POSTGRES,
+      SqlDatabase.GENERIC,
+    );
+
+    expect(columns(result.tables)).toEqual({
+      users: [
+        ['id', 'INT'],
+        ['email', 'VARCHAR'],
+        ['data', 'BLOB'],
+      ],
+    });
+    expect(result.warnings).toEqual([
+      { line: 1, message: 'Unknown type JSONB of users.data was imported as BLOB' },
+    ]);
+  });
+
+  it('reports statements it cannot parse or import by line, and imports the rest', () => {
+    const result = importSQL(
+      `CREATE TABLE users (id INT PRIMARY KEY);
+
+      CREATE TABLE posts (id INT PRIMARY KEY,,);
+      CREATE VIEW active_users AS SELECT * FROM users;
+      ALTER TABLE comments ADD COLUMN body TEXT;
+      CREATE TABLE tags (id INT, post_id INT REFERENCES posts(id));`,
+      SqlDatabase.POSTGRES,
+    );
+
+    expect(result.tables.map((table) => table.name)).toEqual(['users', 'tags']);
+    expect(result.relationships).toEqual([]);
+    expect(result.warnings).toEqual([
+      { line: 3, message: expect.stringMatching(/^Could not parse statement: unexpected ","/) },
+      { line: 4, message: 'CREATE VIEW statement was skipped' },
+      { line: 5, message: 'ALTER TABLE on unknown table comments was skipped' },
+      { line: 6, message: expect.stringContaining('posts') },
+    ]);
+  });
+});
+
+describe('ImportController.sql', () => {
+  function request(body: Record<string, unknown>): AuthRequest {
+    return { userId: 'owner', body } as AuthRequest;
+  }
+
+  function response() {
+    const res = { status: jest.fn(), json: jest.fn() };
+    res.status.mockReturnValue(res);
+    return res as unknown as Response & typeof res;
+  }
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('answers 400 when no script is sent', async () => {
+    const res = response();
+
+    await ImportController.sql(request({ dialect: 'postgres', sql: '  ' }), res);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ error: 'Validation error' }));
+  });
+
+  it('answers 422 with the warnings when nothing in the script can be imported', async () => {
+    const create = jest.spyOn(Diagram, 'create');
+    const res = response();
+
+    await ImportController.sql(request({ dialect: 'mysql', sql: 'CREATE TABLE (;' }), res);
+
+    expect(res.status).toHaveBeenCalledWith(422);
+    expect(res.json).toHaveBeenCalledWith(
+      expect.objectContaining({
+        error: 'Nothing to import',
+        details: [expect.objectContaining({ line: 1 })],
+      }),
+    );
+    expect(create).not.toHaveBeenCalled();
+  });
+
+  it('stores the imported diagram with its warnings', async () => {
+    jest
+      .spyOn(sequelize, 'transaction')
+      .mockImplementation(((run: (transaction: Transaction) => Promise<unknown>) =>
+        run({} as Transaction)) as never);
+    const create = jest
+      .spyOn(Diagram, 'create')
+      .mockImplementation((async (values: object) => ({ ...values })) as never);
+    jest.spyOn(RevisionService, 'record').mockResolvedValue(undefined as never);
+    const res = response();
+
+    await ImportController.sql(
+      request({ dialect: 'postgres', sql: 'CREATE TABLE users (id INT);\nDROP TABLE x;' }),
+      res,
+    );
+
+    expect(create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        name: 'Imported diagram',
+        database: 'postgresql',
+        userId: 'owner',
+        tables: [expect.objectContaining({ name: 'users' })],
+      }),
+      expect.anything(),
+    );
+    expect(res.status).toHaveBeenCalledWith(201);
+    expect(res.json).toHaveBeenCalledWith(
+      expect.objectContaining({
+        warnings: [{ line: 2, message: 'DROP TABLE statement was skipped' }],
+      }),
+    );
+  });
+});
@@ -0,0 +1,212 @@
+import { Transaction } from 'sequelize';
+import { sequelize } from '../src/config/database';
+import { IJsonPatchOperation } from '../src/interfaces/json-patch-operation';
+import { Diagram } from '../src/models';
+import { PermissionLevel } from '../src/models/DiagramShare';
+import { DiagramAccessService } from '../src/services/diagram-access-service';
+import { DiagramEventService } from '../src/services/diagram-event-service';
+import { DiagramPatchService } from '../src/services/diagram-patch-service';
+import { RevisionService } from '../src/services/revision-service';
+import { HttpError } from '../src/utils/http-error';
+import { applyPatch, JsonPatchError, parsePointer } from '../src/utils/json-patch';
+import { field, snapshot, table } from './fixtures';
+
+const users = table(0, 'users', [field(0, 'id', { primary: true })]);
+
+describe('parsePointer', () => {
+  it('splits pointers and unescapes ~1 and ~0', () => {
+    expect(parsePointer('')).toEqual([]);
+    expect(parsePointer('/tables/0/name')).toEqual(['tables', '0', 'name']);
+    expect(parsePointer('/a~1b/c~0d')).toEqual(['a/b', 'c~d']);
+  });
+
+  it('rejects pointers without a leading slash', () => {
+    expect(() => parsePointer('tables/0')).toThrow('Invalid JSON pointer "tables/0"');
+  });
+
+  it.each(['/__proto__/polluted', '/tables/constructor/prototype', '/notes/0/prototype'])(
+    'rejects prototype segments in %s',
+    (pointer) => {
+      expect(() => parsePointer(pointer)).toThrow('Invalid JSON pointer');
+    },
+  );
+});
+
+describe('applyPatch', () => {
+  const document = snapshot({ tables: [users] });
+
+  it('adds, replaces, removes, moves and copies values', () => {
+    const patched = applyPatch(document, [
+      { op: 'add', path: '/tables/-', value: table(1, 'posts', []) },
+      { op: 'replace', path: '/tables/0/name', value: 'accounts' },
+      { op: 'copy', from: '/tables/0/fields/0', path: '/tables/1/fields/0' },
+      { op: 'move', from: '/tables/1/fields/0/name', path: '/tables/1/fields/0/label' },
+      { op: 'remove', path: '/tables/0/comment' },
+    ]);
+
+    expect(patched.tables.map((t) => t.name)).toEqual(['accounts', 'posts']);
+    expect(patched.tables[0]).not.toHaveProperty('comment');
+    expect(patched.tables[1].fields[0]).toEqual(
+      expect.objectContaining({ id: 0, label: 'id', primary: true }),
+    );
+    expect(patched.tables[1].fields[0]).not.toHaveProperty('name');
+  });
+
+  it('passes or fails on test operations by deep equality', () => {
+    const test: IJsonPatchOperation = {
+      op: 'test',
+      path: '/tables/0/fields/0',
+      value: field(0, 'id', { primary: true }),
+    };
+
+    expect(applyPatch(document, [test])).toEqual(document);
+    expect(() => applyPatch(document, [{ ...test, value: field(0, 'id') }])).toThrow(
+      'Test failed at "/tables/0/fields/0"',
+    );
+  });
+
+  it('leaves the input untouched and reports the failing operation', () => {
+    const operations: IJsonPatchOperation[] = [
+      { op: 'replace', path: '/name', value: 'Renamed' },
+      { op: 'remove', path: '/tables/5' },
+    ];
+    const before = JSON.parse(JSON.stringify(document));
+
+    let failure: unknown;
+    try {
+      applyPatch(document, operations);
+    } catch (error) {
+      failure = error;
+    }
+
+    expect(failure).toBeInstanceOf(JsonPatchError);
+    expect(failure).toMatchObject({
+      operationIndex: 1,
+      message: 'Array index 5 is out of bounds',
+    });
+    expect(document).toEqual(before);
+  });
+
+  it('refuses to move a value into one of its children', () => {
+    expect(() =>
+      applyPatch(document, [{ op: 'move', from: '/tables', path: '/tables/0/x' }]),
+    ).toThrow('Cannot move a value into one of its children');
+  });
+});
+
+describe('DiagramPatchService', () => {
+  function patchRequest(operations: IJsonPatchOperation[]) {
+    return DiagramPatchService.apply({ diagramId: 'diagram', userId: 'owner', operations });
+  }
+
+  describe('checkPaths', () => {
+    it('accepts paths into the versioned document', () => {
+      expect(() =>
+        DiagramPatchService.checkPaths([
+          { op: 'replace', path: '/name', value: 'Shop' },
+          { op: 'copy', from: '/tables/0', path: '/tables/-' },
+        ]),
+      ).not.toThrow();
+    });
+
+    it('rejects paths and sources outside the document with 400', () => {
+      let failure: unknown;
+      try {
+        DiagramPatchService.checkPaths([
+          { op: 'replace', path: '/userId', value: 'someone' },
+          { op: 'move', from: '/version', path: '/name' },
+          { op: 'add', path: '/__proto__/admin', value: true },
+          { op: 'replace', path: '', value: {} },
+        ]);
+      } catch (error) {
+        failure = error;
+      }
+
+      expect(failure).toBeInstanceOf(HttpError);
+      expect(failure).toMatchObject({
+        statusCode: 400,
+        body: {
+          details: [
+            expect.objectContaining({ field: 'operations[0].path' }),
+            expect.objectContaining({ field: 'operations[1].from' }),
+            {
+              field: 'operations[2].path',
+              message: 'Invalid JSON pointer "/__proto__/admin"',
+            },
+            expect.objectContaining({ field: 'operations[3].path' }),
+          ],
+        },
+      });
+    });
+  });
+
+  describe('apply', () => {
+    let stored: Diagram;
+
+    beforeEach(() => {
+      stored = {
+        ...snapshot({ tables: [users] }),
+        id: 'diagram',
+        folderId: null,
+        lintConfig: null,
+        version: 3,
+        update: jest.fn().mockResolvedValue(undefined),
+      } as unknown as Diagram;
+
+      jest
+        .spyOn(sequelize, 'transaction')
+        .mockImplementation(((run: (transaction: Transaction) => Promise<unknown>) =>
+          run({} as Transaction)) as never);
+      jest.spyOn(Diagram, 'findOne').mockResolvedValue(stored);
+      jest.spyOn(DiagramAccessService, 'getPermission').mockResolvedValue(PermissionLevel.OWNER);
+      jest.spyOn(RevisionService, 'ensureRecorded').mockResolvedValue(undefined as never);
+      jest.spyOn(RevisionService, 'record').mockResolvedValue(undefined as never);
+      jest.spyOn(DiagramEventService, 'publish').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => jest.restoreAllMocks());
+
+    it('stores the patched document as the next version', async () => {
+      await patchRequest([
+        { op: 'test', path: '/tables/0/name', value: 'users' },
+        { op: 'replace', path: '/tables/0/name', value: 'accounts' },
+      ]);
+
+      expect(stored.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          version: 4,
+          tables: [expect.objectContaining({ name: 'accounts' })],
+        }),
+        expect.anything(),
+      );
+    });
+
+    it('applies nothing and answers 422 when any operation fails', async () => {
+      const result = patchRequest([
+        { op: 'replace', path: '/tables/0/name', value: 'accounts' },
+        { op: 'test', path: '/tables/0/name', value: 'users' },
+      ]);
+
+      await expect(result).rejects.toMatchObject({
+        statusCode: 422,
+        body: {
+          error: 'Patch could not be applied',
+          details: [{ field: 'operations[1]', message: 'Test failed at "/tables/0/name"' }],
+        },
+      });
+      expect(stored.update).not.toHaveBeenCalled();
+      expect(stored.tables[0].name).toBe('users');
+      expect(DiagramEventService.publish).not.toHaveBeenCalled();
+    });
+
+    it('answers 422 when the patched document is no longer a valid diagram', async () => {
+      await expect(
+        patchRequest([{ op: 'replace', path: '/tables', value: {} }]),
+      ).rejects.toMatchObject({
+        statusCode: 422,
+        body: { error: 'Invalid patch result' },
+      });
+      expect(stored.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,299 @@
+import { IDiagramTable } from '../src/interfaces/diagram-document';
+import { ILintConfig, LintRuleId } from '../src/interfaces/lint';
+import { Diagram } from '../src/models';
+import { LintService } from '../src/services/lint-service';
+import { HttpError } from '../src/utils/http-error';
+import {
+  lintDiagram,
+  LintDocument,
+  resolveLintConfig,
+  validateLintConfig,
+} from '../src/utils/lint';
+import { field, relationship, table } from './fixtures';
+
+const users = table(0, 'users', [
+  field(0, 'id', { primary: true }),
+  field(1, 'email', { type: 'VARCHAR', size: 255 }),
+]);
+const posts = table(1, 'posts', [field(0, 'id', { primary: true }), field(1, 'user_id')], {
+  indices: [{ id: 0, name: 'posts_user_id_idx', unique: false, fields: ['user_id'] }],
+});
+const postsAuthor = relationship(0, 'fk_posts_user', [1, 1], [0, 0]);
+
+function document(properties: Partial<LintDocument> = {}): LintDocument {
+  return {
+    database: 'postgresql',
+    tables: [users, posts],
+    references: [postsAuthor],
+    enums: null,
+    types: null,
+    ...properties,
+  };
+}
+
+function lint(properties: Partial<LintDocument>, ...configs: ILintConfig[]) {
+  return lintDiagram(document(properties), resolveLintConfig(...configs));
+}
+
+function rules(properties: Partial<LintDocument>, ...configs: ILintConfig[]): LintRuleId[] {
+  return lint(properties, ...configs).map((issue) => issue.rule);
+}
+
+function withField(target: IDiagramTable, index: number, properties: object): IDiagramTable {
+  return {
+    ...target,
+    fields: target.fields.map((f, i) => (i === index ? { ...f, ...properties } : f)),
+  };
+}
+
+describe('lint rules', () => {
+  it('finds nothing in a well-formed diagram', () => {
+    expect(lint({})).toEqual([]);
+  });
+
+  it('reports elements with no name', () => {
+    const issues = lint({ tables: [withField(users, 1, { name: '' }), posts] });
+
+    expect(issues).toEqual([
+      {
+        rule: 'empty_name',
+        severity: 'error',
+        message: "Empty field `name` in table 'users'",
+        element: 'field',
+        tableId: 0,
+        elementId: 1,
+      },
+    ]);
+  });
+
+  it('reports duplicate table and relationship names', () => {
+    expect(
+      rules({
+        tables: [users, posts, { ...posts, id: 2 }],
+        references: [postsAuthor, { ...postsAuthor, id: 1 }],
+      }),
+    ).toEqual(['duplicate_name', 'duplicate_name']);
+  });
+
+  it('reports fields with no type', () => {
+    expect(rules({ tables: [withField(users, 1, { type: '' }), posts] })).toEqual(['missing_type']);
+  });
+
+  it('reports enum fields and enums without values', () => {
+    expect(
+      rules({
+        tables: [withField(users, 1, { type: 'ENUM', values: [] }), posts],
+        enums: [{ name: 'mood', values: [] }],
+      }),
+    ).toEqual(['missing_values', 'missing_values']);
+  });
+
+  it('reports defaults that do not fit the type, and NULL defaults on NOT NULL fields', () => {
+    const issues = lint({
+      tables: [withField(users, 1, { notNull: true, default: 'NULL' }), posts],
+    });
+    expect(issues.map((issue) => issue.message)).toEqual([
+      "'email' field of table 'users' is NOT NULL but has default NULL",
+    ]);
+
+    expect(rules({ tables: [users, withField(posts, 1, { default: 'abc' })] })).toEqual([
+      'invalid_default',
+    ]);
+    expect(rules({ tables: [users, withField(posts, 1, { default: '42' })] })).toEqual([]);
+  });
+
+  it('reports indices without columns', () => {
+    const empty = { id: 1, name: 'posts_empty_idx', unique: false, fields: [] };
+
+    expect(rules({ tables: [users, { ...posts, indices: [...posts.indices, empty] }] })).toEqual([
+      'empty_index',
+    ]);
+  });
+
+  it('warns about columns redeclared from an inherited table', () => {
+    const admins = table(2, 'admins', [field(0, 'email', { type: 'VARCHAR' })], {
+      inherits: ['users'],
+    });
+
+    expect(lint({ tables: [users, posts, admins] })).toEqual([
+      expect.objectContaining({ rule: 'inherited_column', severity: 'warning', tableId: 2 }),
+      expect.objectContaining({ rule: 'missing_primary_key', tableId: 2 }),
+    ]);
+  });
+
+  it('reports each table in a foreign key cycle once', () => {
+    const usersWithPost = {
+      ...users,
+      fields: [...users.fields, field(2, 'pinned_post_id')],
+      indices: [{ name: 'users_pinned_post_id_idx', unique: false, fields: ['pinned_post_id'] }],
+    };
+    const pinned = relationship(1, 'fk_users_post', [0, 2], [1, 0]);
+
+    const issues = lint({ tables: [usersWithPost, posts], references: [postsAuthor, pinned] });
+
+    expect(issues.map((issue) => issue.message)).toEqual([
+      "Circular dependency involving table 'users'",
+      "Circular dependency involving table 'posts'",
+    ]);
+  });
+
+  it('warns about tables without a primary key', () => {
+    expect(rules({ tables: [withField(users, 0, { primary: false }), posts] })).toEqual([
+      'missing_primary_key',
+    ]);
+  });
+
+  it('reports relationships joining columns of different types', () => {
+    expect(rules({ tables: [users, withField(posts, 1, { type: 'VARCHAR' })] })).toEqual([
+      'relationship_type_mismatch',
+    ]);
+  });
+
+  it('warns about foreign key columns that lead no index', () => {
+    expect(rules({ tables: [users, { ...posts, indices: [] }] })).toEqual([
+      'unindexed_foreign_key',
+    ]);
+  });
+
+  it("warns about names reserved by the diagram's database", () => {
+    const order = table(2, 'order', [field(0, 'id', { primary: true })]);
+
+    expect(lint({ tables: [users, posts, order] })).toEqual([
+      expect.objectContaining({
+        rule: 'reserved_word',
+        message: "Table name 'order' is a reserved word in postgresql",
+      }),
+    ]);
+  });
+
+  it('checks names against presets and patterns', () => {
+    const tables = [{ ...users, name: 'UserAccounts' }, posts];
+    const reference = { ...postsAuthor, startTableId: 1, endTableId: 0 };
+
+    expect(lint({ tables, references: [reference] }, { naming: { table: 'snake_case' } })).toEqual([
+      expect.objectContaining({
+        rule: 'naming_convention',
+        message: "Table name 'UserAccounts' does not match snake_case",
+      }),
+    ]);
+    expect(rules({}, { naming: { relationship: '^fk_' } })).toEqual([]);
+    expect(rules({}, { naming: { relationship: '^rel_' } })).toEqual(['naming_convention']);
+  });
+});
+
+describe('resolveLintConfig', () => {
+  const orphan = { tables: [withField(users, 0, { primary: false }), posts] };
+
+  it('uses each rule’s own severity by default', () => {
+    const config = resolveLintConfig();
+
+    expect(config.rules.missing_primary_key).toEqual({ enabled: true, severity: 'warning' });
+    expect(config.rules.duplicate_name).toEqual({ enabled: true, severity: 'error' });
+    expect(config.rejectOnError).toBe(false);
+  });
+
+  it('applies severity overrides and disabled rules', () => {
+    expect(lint(orphan, { rules: { missing_primary_key: { severity: 'error' } } })).toEqual([
+      expect.objectContaining({ rule: 'missing_primary_key', severity: 'error' }),
+    ]);
+    expect(lint(orphan, { rules: { missing_primary_key: { enabled: false } } })).toEqual([]);
+  });
+
+  it('layers later configs over earlier ones setting by setting', () => {
+    const folder: ILintConfig = {
+      rules: { missing_primary_key: { severity: 'error' } },
+      naming: { table: 'snake_case', column: 'snake_case' },
+      rejectOnError: true,
+    };
+    const diagram: ILintConfig = {
+      rules: { missing_primary_key: { enabled: false } },
+      naming: { column: 'camelCase' },
+    };
+
+    const config = resolveLintConfig(folder, diagram);
+
+    expect(config.rules.missing_primary_key).toEqual({ enabled: false, severity: 'error' });
+    expect(config.naming).toEqual({ table: 'snake_case', column: 'camelCase' });
+    expect(config.rejectOnError).toBe(true);
+    expect(resolveLintConfig(folder, { rejectOnError: false }).rejectOnError).toBe(false);
+  });
+});
+
+describe('validateLintConfig', () => {
+  it('accepts known rules, severities, presets and patterns', () => {
+    expect(
+      validateLintConfig({
+        rules: { reserved_word: { enabled: false, severity: 'error' } },
+        naming: { table: 'snake_case', column: '^[a-z_]+$' },
+        rejectOnError: true,
+      }),
+    ).toEqual([]);
+  });
+
+  it('reports unknown rules, bad severities and invalid patterns', () => {
+    expect(
+      validateLintConfig({
+        rules: { no_such_rule: {}, reserved_word: { severity: 'fatal' } },
+        naming: { table: '([', view: 'snake_case' },
+        rejectOnError: 'yes',
+      }).map((detail) => detail.field),
+    ).toEqual([
+      'rules.no_such_rule',
+      'rules.reserved_word.severity',
+      'naming.table',
+      'naming.view',
+      'rejectOnError',
+    ]);
+  });
+});
+
+describe('LintService', () => {
+  const emptyTable = { tables: [table(0, '', [field(0, 'id', { primary: true })])] };
+
+  function diagram(properties: Partial<Diagram>): Diagram {
+    return { folderId: null, lintConfig: null, ...properties } as Diagram;
+  }
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('layers folder configs from the outermost in, then the diagram’s own', async () => {
+    const folderConfigs = jest
+      .spyOn(LintService, 'folderConfigs')
+      .mockResolvedValue([
+        { naming: { table: 'snake_case', column: 'snake_case' } },
+        null,
+        { naming: { column: 'camelCase' }, rejectOnError: true },
+      ]);
+
+    const config = await LintService.configFor(
+      diagram({ folderId: 'folder', lintConfig: { naming: { table: 'PascalCase' } } }),
+    );
+
+    expect(folderConfigs).toHaveBeenCalledWith('folder', undefined);
+    expect(config.naming).toEqual({ table: 'PascalCase', column: 'camelCase' });
+    expect(config.rejectOnError).toBe(true);
+  });
+
+  it('skips folder configs for diagrams outside folders', async () => {
+    const folderConfigs = jest.spyOn(LintService, 'folderConfigs');
+
+    const config = await LintService.configFor(diagram({ lintConfig: { rejectOnError: true } }));
+
+    expect(folderConfigs).not.toHaveBeenCalled();
+    expect(config.rejectOnError).toBe(true);
+  });
+
+  it('refuses saves with error-level issues only when the settings say so', async () => {
+    await expect(LintService.checkSave(diagram({}), document(emptyTable))).resolves.toBeUndefined();
+
+    const refused = LintService.checkSave(
+      diagram({ lintConfig: { rejectOnError: true } }),
+      document(emptyTable),
+    );
+    await expect(refused).rejects.toBeInstanceOf(HttpError);
+    await expect(refused).rejects.toMatchObject({
+      statusCode: 422,
+      body: { error: 'Lint errors', details: [expect.objectContaining({ rule: 'empty_name' })] },
+    });
+  });
+});
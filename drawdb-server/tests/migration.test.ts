@@ -0,0 +1,134 @@
+import { SqlDatabase } from '../src/utils/export-sql';
+import { generateMigration } from '../src/utils/migration';
+import { field, relationship, snapshot, table } from './fixtures';
+
+const users = table(0, 'users', [
+  field(0, 'id', { primary: true }),
+  field(1, 'email', { type: 'VARCHAR', size: 255, notNull: true }),
+]);
+const posts = table(1, 'posts', [field(0, 'id', { primary: true }), field(1, 'user_id')]);
+const comments = table(2, 'comments', [
+  field(0, 'id', { primary: true }),
+  field(1, 'body', { type: 'TEXT' }),
+]);
+
+const before = snapshot({
+  database: SqlDatabase.POSTGRES,
+  tables: [users, posts],
+  references: [relationship(0, 'fk_posts_user', [1, 1], [0, 0])],
+});
+
+function migrate(after: Parameters<typeof snapshot>[0], dialect = SqlDatabase.POSTGRES) {
+  const migration = generateMigration(
+    { ...before, database: dialect },
+    snapshot({ ...before, ...after, database: dialect }),
+    dialect,
+  );
+  if (!migration) throw new Error('No migration generated');
+  return migration;
+}
+
+describe('generateMigration', () => {
+  it('creates an added table and drops it again on the way down', () => {
+    const { up, down } = migrate({ tables: [users, posts, comments] });
+
+    expect(up).toEqual({
+      sql: 'CREATE TABLE IF NOT EXISTS "comments" (\n\t"id" INTEGER,\n\t"body" TEXT,\n\tPRIMARY KEY("id")\n);',
+      warnings: [],
+    });
+    expect(down).toEqual({ sql: 'DROP TABLE "comments";', warnings: [] });
+  });
+
+  it('drops a removed table with its relationships and recreates both on the way down', () => {
+    const { up, down } = migrate({ tables: [users], references: [] });
+
+    expect(up.sql).toBe('DROP TABLE "posts";');
+    expect(down.sql.split('\n\n')).toEqual([
+      'CREATE TABLE IF NOT EXISTS "posts" (\n\t"id" INTEGER,\n\t"user_id" INTEGER,\n\tPRIMARY KEY("id")\n);',
+      'ALTER TABLE "posts" ADD CONSTRAINT "fk_posts_user" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON UPDATE NO ACTION ON DELETE NO ACTION;',
+    ]);
+  });
+
+  it('renames a table that keeps its id', () => {
+    const { up, down } = migrate({ tables: [{ ...users, name: 'accounts' }, posts] });
+
+    expect(up.sql).toBe('ALTER TABLE "users" RENAME TO "accounts";');
+    expect(down.sql).toBe('ALTER TABLE "accounts" RENAME TO "users";');
+  });
+
+  it('adds, drops and renames columns, and reverses each on the way down', () => {
+    const createdAt = field(2, 'created_at', {
+      type: 'TIMESTAMP',
+      notNull: true,
+      default: 'CURRENT_TIMESTAMP',
+    });
+    const { up, down } = migrate({
+      tables: [
+        { ...users, fields: [users.fields[0], { ...users.fields[1], name: 'login' }, createdAt] },
+        { ...posts, fields: [posts.fields[0]] },
+      ],
+      references: [],
+    });
+
+    expect(up.sql.split('\n\n')).toEqual([
+      'ALTER TABLE "posts" DROP CONSTRAINT "fk_posts_user";',
+      'ALTER TABLE "users" RENAME COLUMN "email" TO "login";',
+      'ALTER TABLE "users" ADD COLUMN "created_at" TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP;',
+      'ALTER TABLE "posts" DROP COLUMN "user_id";',
+    ]);
+    expect(down.sql.split('\n\n')).toEqual([
+      'ALTER TABLE "users" RENAME COLUMN "login" TO "email";',
+      'ALTER TABLE "users" DROP COLUMN "created_at";',
+      'ALTER TABLE "posts" ADD COLUMN "user_id" INTEGER;',
+      'ALTER TABLE "posts" ADD CONSTRAINT "fk_posts_user" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON UPDATE NO ACTION ON DELETE NO ACTION;',
+    ]);
+  });
+
+  it('renames columns of a renamed table by the new table name', () => {
+    const { up } = migrate({
+      tables: [
+        {
+          ...users,
+          name: 'accounts',
+          fields: [users.fields[0], { ...users.fields[1], name: 'login' }],
+        },
+        posts,
+      ],
+    });
+
+    expect(up.sql.split('\n\n')).toEqual([
+      'ALTER TABLE "users" RENAME TO "accounts";',
+      'ALTER TABLE "accounts" RENAME COLUMN "email" TO "login";',
+    ]);
+  });
+
+  it('writes the statements of the target dialect', () => {
+    const { up, down } = migrate(
+      { tables: [{ ...users, name: 'accounts' }, posts], references: [] },
+      SqlDatabase.MYSQL,
+    );
+
+    expect(up.sql.split('\n\n')).toEqual([
+      'ALTER TABLE `posts` DROP FOREIGN KEY `fk_posts_user`;',
+      'RENAME TABLE `users` TO `accounts`;',
+    ]);
+    expect(down.sql.split('\n\n')).toEqual([
+      'RENAME TABLE `accounts` TO `users`;',
+      'ALTER TABLE `posts` ADD CONSTRAINT `fk_posts_user` FOREIGN KEY (`user_id`) REFERENCES `users` (`id`) ON UPDATE NO ACTION ON DELETE NO ACTION;',
+    ]);
+  });
+
+  it('warns about foreign key changes SQLite cannot make in place', () => {
+    const { up, down } = migrate({ references: [] }, SqlDatabase.SQLITE);
+    const warning = 'SQLite cannot drop foreign key fk_posts_user from posts; rebuild the table';
+
+    expect(up).toEqual({ sql: `-- WARNING: ${warning}`, warnings: [warning] });
+    expect(down.warnings).toEqual([
+      'SQLite cannot add foreign key fk_posts_user to posts; rebuild the table',
+    ]);
+  });
+
+  it('generates nothing for a diagram of another database', () => {
+    expect(generateMigration(before, before, SqlDatabase.MYSQL)).toBeNull();
+  });
+});
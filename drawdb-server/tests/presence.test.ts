@@ -0,0 +1,124 @@
+import { Op, WhereOptions } from 'sequelize';
+import { config } from '../src/config';
+import { DiagramPresence } from '../src/models';
+import { DiagramEventService } from '../src/services/diagram-event-service';
+import { PresenceService } from '../src/services/presence-service';
+
+const ada = { id: 'ada', username: 'ada' };
+const grace = { id: 'grace', username: 'grace' };
+
+// The diagram_presence table, with the conditions the service queries it by
+let rows: DiagramPresence[];
+
+function matches(row: DiagramPresence, where: WhereOptions): boolean {
+  return Object.entries(where).every(([key, condition]) => {
+    const value = row.get(key as keyof DiagramPresence);
+    if (condition && typeof condition === 'object' && Op.lt in condition) {
+      return (value as Date) < (condition as { [Op.lt]: Date })[Op.lt];
+    }
+    return value === condition;
+  });
+}
+
+function find(where: WhereOptions): DiagramPresence[] {
+  return rows.filter((row) => matches(row, where));
+}
+
+beforeEach(() => {
+  rows = [];
+
+  jest
+    .spyOn(DiagramPresence, 'findOne')
+    .mockImplementation(
+      (async ({ where }: { where: WhereOptions }) => find(where)[0] ?? null) as never,
+    );
+  jest
+    .spyOn(DiagramPresence, 'findAll')
+    .mockImplementation((async ({ where }: { where: WhereOptions }) => find(where)) as never);
+  jest.spyOn(DiagramPresence, 'upsert').mockImplementation((async (values: object) => {
+    const row = DiagramPresence.build(values as DiagramPresence);
+    rows = [...rows.filter((r) => r.diagramId !== row.diagramId || r.userId !== row.userId), row];
+    return [row, true];
+  }) as never);
+  jest.spyOn(DiagramPresence, 'update').mockImplementation((async (
+    values: object,
+    { where }: { where: WhereOptions },
+  ) => {
+    const updated = find(where);
+    updated.forEach((row) => row.set(values));
+    return [updated.length];
+  }) as never);
+  jest.spyOn(DiagramPresence, 'destroy').mockImplementation((async ({
+    where,
+  }: {
+    where: WhereOptions;
+  }) => {
+    const destroyed = find(where);
+    rows = rows.filter((row) => !destroyed.includes(row));
+    return destroyed.length;
+  }) as never);
+  jest.spyOn(DiagramEventService, 'publish');
+});
+
+afterEach(() => jest.restoreAllMocks());
+
+describe('PresenceService', () => {
+  it('keeps the selection and viewport a heartbeat leaves out', async () => {
+    await PresenceService.update('d1', ada, {
+      selection: { tableId: 0, fieldId: 1 },
+      viewport: { pan: { x: 10, y: 20 }, zoom: 2 },
+    });
+    const entry = await PresenceService.update('d1', ada, { viewport: { pan: {}, zoom: 1 } });
+
+    expect(entry).toMatchObject({
+      userId: 'ada',
+      selection: { tableId: 0, fieldId: 1 },
+      viewport: { pan: { x: 10, y: 20 }, zoom: 2 },
+    });
+    expect(await PresenceService.list('d1')).toEqual([entry]);
+    expect(DiagramEventService.publish).toHaveBeenLastCalledWith({
+      type: 'presence',
+      diagramId: 'd1',
+      presence: entry,
+    });
+  });
+
+  it('lists the users of one diagram, dropping those whose heartbeat timed out', async () => {
+    await PresenceService.update('d1', ada);
+    await PresenceService.update('d1', grace);
+    await PresenceService.update('d2', grace);
+    rows[0].lastSeen = new Date(Date.now() - config.presence.timeout - 1000);
+
+    const presence = await PresenceService.list('d1');
+
+    expect(presence.map((entry) => entry.userId)).toEqual(['grace']);
+    expect(DiagramEventService.publish).toHaveBeenCalledWith({
+      type: 'presence_left',
+      diagramId: 'd1',
+      userId: 'ada',
+    });
+  });
+
+  it('announces a user leaving only once', async () => {
+    await PresenceService.update('d1', ada);
+
+    await PresenceService.remove('d1', 'ada');
+    await PresenceService.remove('d1', 'ada');
+
+    const left = jest
+      .mocked(DiagramEventService.publish)
+      .mock.calls.filter(([event]) => event.type === 'presence_left');
+    expect(left).toHaveLength(1);
+  });
+
+  it('stores a heartbeat again for a user another instance removed', async () => {
+    await PresenceService.update('d1', ada, { selection: { tableId: 0, fieldId: null } });
+    await PresenceService.remove('d1', 'ada');
+
+    await PresenceService.touch('d1', ada);
+
+    expect(await PresenceService.list('d1')).toEqual([
+      expect.objectContaining({ userId: 'ada', selection: null }),
+    ]);
+  });
+});
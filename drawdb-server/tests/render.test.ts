@@ -0,0 +1,174 @@
+import { Diagram, DiagramThumbnail } from '../src/models';
+import { RenderService } from '../src/services/render-service';
+import { ImageTooLargeError, IRenderInput, renderPng, renderSvg } from '../src/utils/render';
+import { field, relationship, table } from './fixtures';
+
+const users = table(0, 'users', [
+  field(0, 'id', { primary: true }),
+  field(1, 'email', { type: 'VARCHAR', size: 64 }),
+]);
+const posts = table(1, 'posts', [field(0, 'id', { primary: true }), field(1, 'user_id')], {
+  x: 400,
+});
+
+function input(properties: Partial<IRenderInput> = {}): IRenderInput {
+  return {
+    tables: [users, posts],
+    references: [relationship(0, 'fk_posts_user', [1, 1], [0, 0])],
+    areas: [],
+    notes: [],
+    ...properties,
+  };
+}
+
+// Width and height from the IHDR chunk of a PNG
+function pngSize(png: Buffer): [number, number] {
+  return [png.readUInt32BE(16), png.readUInt32BE(20)];
+}
+
+function blankSvg(width: number, height: number): string {
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}"><rect width="${width}" height="${height}" fill="white"/></svg>`;
+}
+
+describe('renderSvg', () => {
+  it('draws tables, fields and relationships sized to the diagram', () => {
+    const svg = renderSvg(input());
+
+    expect(svg).toMatch(/^<svg xmlns="http:\/\/www.w3.org\/2000\/svg" width="\d+" height="\d+"/);
+    expect(svg).toContain('>users</text>');
+    expect(svg).toContain('>VARCHAR(64)</text>');
+    expect(svg).toContain('>fk_posts_user</text>');
+  });
+
+  it('scales the image but not the drawing', () => {
+    const [, width, height, viewBox] = /width="(\d+)" height="(\d+)" viewBox="([^"]+)"/.exec(
+      renderSvg(input()),
+    ) as RegExpExecArray;
+    const scaled = renderSvg(input(), { scale: 2 });
+
+    expect(scaled).toContain(
+      `width="${Number(width) * 2}" height="${Number(height) * 2}" viewBox="${viewBox}"`,
+    );
+  });
+
+  it('leaves out hidden tables with their relationships', () => {
+    const svg = renderSvg(input({ tables: [users, { ...posts, hidden: true }] }));
+
+    expect(svg).not.toContain('>posts</text>');
+    expect(svg).not.toContain('fk_posts_user');
+  });
+
+  it('escapes markup in names, types and notes', () => {
+    const svg = renderSvg({
+      tables: [
+        table(0, '<script>', [field(0, 'a&b', { type: 'ENUM("x")' })], { x: 0, y: 0 }),
+        table(1, 't', [field(0, 'id')], { x: 400, y: 0 }),
+      ],
+      references: [relationship(0, '</g><g>', [1, 0], [0, 0])],
+      areas: [{ id: 0, name: '<area>', x: -50, y: -50, width: 900, height: 400, color: '#fff' }],
+      notes: [
+        {
+          id: 0,
+          x: 0,
+          y: 400,
+          title: '<b>',
+          content: 'x < y',
+          color: '#fcf7ac',
+          height: 88,
+        },
+      ],
+    });
+
+    expect(svg).not.toMatch(/<(script|area|b)>|<\/g><g>/);
+    expect(svg).toContain('>&lt;script&gt;</text>');
+    expect(svg).toContain('>a&amp;b</text>');
+    expect(svg).toContain('>ENUM(&quot;x&quot;)</text>');
+    expect(svg).toContain('>&lt;/g&gt;&lt;g&gt;</text>');
+    expect(svg).toContain('>&lt;area&gt;</text>');
+    expect(svg).toContain('>&lt;b&gt;</text>');
+    expect(svg).toContain('>x &lt; y</text>');
+  });
+
+  it('escapes colors so they cannot leave their attribute', () => {
+    const color = 'red" onload="alert(1)';
+    const svg = renderSvg(
+      input({
+        tables: [{ ...users, color }],
+        references: [],
+        areas: [{ id: 0, name: 'a', x: -50, y: -50, width: 400, height: 400, color }],
+        notes: [{ id: 0, x: 0, y: 400, title: 'n', content: '', color, height: 88 }],
+      }),
+    );
+
+    expect(svg).not.toContain('onload="');
+    expect(svg.match(/fill="red&quot; onload=&quot;alert\(1\)"/g)).toHaveLength(4);
+    // Still an image the rasterizer reads
+    expect(() => renderPng(svg)).not.toThrow();
+  });
+});
+
+describe('renderPng', () => {
+  it('rasterizes at the size of the SVG', () => {
+    const svg = renderSvg(input());
+    const [, width, height] = /width="(\d+)" height="(\d+)"/.exec(svg) as RegExpExecArray;
+
+    expect(pngSize(renderPng(svg))).toEqual([Number(width), Number(height)]);
+  });
+
+  it('scales wide images down to the maximum width', () => {
+    const [width, height] = pngSize(renderPng(blankSvg(1600, 800), 320));
+
+    expect([width, height]).toEqual([320, 160]);
+  });
+
+  it('applies the pixel limit to the size drawn after fitting', () => {
+    // 64 million pixels at full size, but only 320x5 once fitted
+    expect(pngSize(renderPng(blankSvg(64_000, 1000), 320))).toEqual([320, 5]);
+    expect(() => renderPng(blankSvg(64_000, 1000))).toThrow(ImageTooLargeError);
+
+    // Narrow enough not to be fitted, and still too tall
+    expect(() => renderPng(blankSvg(200, 250_000), 320)).toThrow(ImageTooLargeError);
+    expect(() => renderPng(blankSvg(200, 250_000), 320)).toThrow(
+      'A 200x250000 image is over 40000000 pixels; use a smaller scale',
+    );
+  });
+});
+
+describe('RenderService', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  function diagram(properties: Partial<Diagram>): Diagram {
+    return { references: [], areas: null, notes: null, ...properties } as Diagram;
+  }
+
+  it('lists cached thumbnails by path without drawing any', async () => {
+    const findAll = jest
+      .spyOn(DiagramThumbnail, 'findAll')
+      .mockResolvedValue([DiagramThumbnail.build({ diagramId: 'a', version: 3, image: null })]);
+    const findDiagrams = jest.spyOn(Diagram, 'findAll');
+
+    const thumbnails = await RenderService.thumbnails([{ id: 'a' }, { id: 'b' }]);
+
+    expect(thumbnails).toEqual(new Map([['a', '/api/v1/diagrams/a/thumbnail.png?version=3']]));
+    expect(findAll).toHaveBeenCalledTimes(1);
+    expect(findDiagrams).not.toHaveBeenCalled();
+  });
+
+  it('redraws stale thumbnails, storing none for diagrams too large to draw', async () => {
+    const huge = table(1, 'huge', [field(0, 'id')], { x: 0, y: 2_000_000 });
+    jest
+      .spyOn(Diagram, 'findAll')
+      .mockResolvedValue([
+        diagram({ id: 'a', version: 2, tables: [users, posts] }),
+        diagram({ id: 'b', version: 5, tables: [users, huge] }),
+      ]);
+    const upsert = jest.spyOn(DiagramThumbnail, 'upsert').mockResolvedValue([] as never);
+
+    expect(await RenderService.refreshThumbnails(20)).toBe(2);
+
+    expect(upsert).toHaveBeenCalledWith({ diagramId: 'a', version: 2, image: expect.any(Buffer) });
+    expect(upsert).toHaveBeenCalledWith({ diagramId: 'b', version: 5, image: null });
+    const [width] = pngSize(upsert.mock.calls[0][0].image as Buffer);
+    expect(width).toBe(320);
+  });
+});
@@ -0,0 +1,164 @@
+import { IDiagramField, IDiagramTable } from '../src/interfaces/diagram-document';
+import { SqlDatabase } from '../src/utils/export-sql/data-types';
+import { DriftSchema, detectDrift, summarizeDrift } from '../src/utils/schema-drift';
+import { field, relationship, table } from './fixtures';
+
+function schema(document: Partial<DriftSchema> = {}): DriftSchema {
+  return { tables: [], relationships: [], enums: [], ...document };
+}
+
+const users = table(0, 'users', [
+  field(0, 'id', { primary: true, increment: true }),
+  field(1, 'email', { type: 'VARCHAR', size: 255, notNull: true, unique: true }),
+]);
+const posts = table(1, 'posts', [field(0, 'id', { primary: true }), field(1, 'user_id')]);
+const postsAuthor = relationship(0, 'fk_posts_user', [1, 1], [0, 0]);
+
+describe('detectDrift', () => {
+  it('reports nothing when the diagram and database agree', () => {
+    const diagram = schema({ tables: [users, posts], relationships: [postsAuthor] });
+
+    const differences = detectDrift(diagram, diagram, SqlDatabase.POSTGRES);
+
+    expect(differences).toEqual([]);
+    expect(summarizeDrift(differences).inSync).toBe(true);
+  });
+
+  it('reports tables and columns missing on either side', () => {
+    const diagram = schema({ tables: [users, posts] });
+    const database = schema({
+      tables: [
+        { ...users, fields: [...users.fields, field(2, 'created_at', { type: 'TIMESTAMP' })] },
+        table(2, 'comments', [field(0, 'id')]),
+      ],
+    });
+
+    const differences = detectDrift(diagram, database, SqlDatabase.POSTGRES);
+
+    expect(differences).toEqual(
+      expect.arrayContaining([
+        { kind: 'missing_in_database', object: 'table', table: null, name: 'posts' },
+        { kind: 'missing_in_diagram', object: 'table', table: null, name: 'comments' },
+        { kind: 'missing_in_diagram', object: 'column', table: 'users', name: 'created_at' },
+      ]),
+    );
+    expect(summarizeDrift(differences)).toEqual({
+      inSync: false,
+      missingInDatabase: 1,
+      missingInDiagram: 2,
+      mismatches: 0,
+    });
+  });
+
+  it('compares types case-insensitively and sizes only when both sides have one', () => {
+    const diagram = schema({ tables: [users] });
+    const database = schema({
+      tables: [
+        {
+          ...users,
+          fields: [
+            field(0, 'id', { type: 'integer', primary: true, increment: true }),
+            field(1, 'email', { type: 'varchar', notNull: true, unique: true }),
+          ],
+        },
+      ],
+    });
+
+    expect(detectDrift(diagram, database, SqlDatabase.POSTGRES)).toEqual([]);
+  });
+
+  it('reports column type, null and default mismatches', () => {
+    const diagram = schema({
+      tables: [table(0, 'users', [field(0, 'name', { type: 'VARCHAR', size: 100 })])],
+    });
+    const database = schema({
+      tables: [
+        table(0, 'users', [
+          field(0, 'name', { type: 'VARCHAR', size: 50, notNull: true, default: "'anon'" }),
+        ]),
+      ],
+    });
+
+    const differences = detectDrift(diagram, database, SqlDatabase.POSTGRES);
+
+    expect(differences).toEqual([
+      expect.objectContaining({
+        property: 'type',
+        diagram: 'VARCHAR(100)',
+        database: 'VARCHAR(50)',
+      }),
+      expect.objectContaining({ property: 'notNull', diagram: false, database: true }),
+      expect.objectContaining({ property: 'default', diagram: '', database: "'anon'" }),
+    ]);
+  });
+
+  it('matches a unique flag in one schema with a unique index in the other', () => {
+    const diagram = schema({ tables: [users] });
+    const database = schema({
+      tables: [
+        {
+          ...users,
+          fields: users.fields.map((f) => ({ ...f, unique: false })),
+          indices: [{ name: 'users_email_key', unique: true, fields: ['email'] }],
+        },
+      ],
+    });
+
+    expect(detectDrift(diagram, database, SqlDatabase.POSTGRES)).toEqual([]);
+  });
+
+  it('reports foreign key action mismatches only between shared tables', () => {
+    const diagram = schema({ tables: [users, posts], relationships: [postsAuthor] });
+    const database = schema({
+      tables: [users, posts],
+      relationships: [{ ...postsAuthor, deleteConstraint: 'CASCADE' }],
+    });
+
+    expect(detectDrift(diagram, database, SqlDatabase.POSTGRES)).toEqual([
+      {
+        kind: 'mismatch',
+        object: 'foreign_key',
+        table: 'posts',
+        name: 'fk_posts_user',
+        property: 'deleteConstraint',
+        diagram: 'No action',
+        database: 'CASCADE',
+      },
+    ]);
+
+    const withoutUsers = schema({ tables: [posts], relationships: [] });
+    expect(detectDrift(diagram, withoutUsers, SqlDatabase.POSTGRES)).toEqual([
+      { kind: 'missing_in_database', object: 'table', table: null, name: 'users' },
+    ]);
+  });
+
+  it('compares enums on PostgreSQL only', () => {
+    const diagram = schema({ enums: [{ name: 'mood', values: ['happy', 'sad'] }] });
+    const database = schema({ enums: [{ name: 'mood', values: ['happy'] }] });
+
+    expect(detectDrift(diagram, database, SqlDatabase.POSTGRES)).toEqual([
+      expect.objectContaining({ object: 'enum', name: 'mood', property: 'values' }),
+    ]);
+    expect(detectDrift(diagram, database, SqlDatabase.MYSQL)).toEqual([]);
+  });
+
+  it('treats a stored table without indices or field types as having none', () => {
+    const untyped: Partial<IDiagramField> = field(0, 'id');
+    delete untyped.type;
+    const legacy: Partial<IDiagramTable> = table(0, 'users', [untyped as IDiagramField]);
+    delete legacy.indices;
+    const database = schema({ tables: [table(0, 'users', [field(0, 'id')])] });
+
+    expect(
+      detectDrift(schema({ tables: [legacy as IDiagramTable] }), database, SqlDatabase.POSTGRES),
+    ).toEqual([
+      expect.objectContaining({
+        object: 'column',
+        name: 'id',
+        property: 'type',
+        diagram: '',
+        database: 'INTEGER',
+      }),
+    ]);
+  });
+});
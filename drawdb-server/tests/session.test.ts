@@ -0,0 +1,148 @@
+import { Op, WhereOptions } from 'sequelize';
+import { Session, User } from '../src/models';
+import { DiagramEventService } from '../src/services/diagram-event-service';
+import { SessionService } from '../src/services/session-service';
+import { HttpError } from '../src/utils/http-error';
+
+const client = { userAgent: 'jest', ipAddress: '127.0.0.1' };
+const user = User.build({ id: 'user', username: 'ada', email: 'ada@example.com', password: 'x' });
+
+// The sessions table, with the conditions the service queries it by
+let sessions: Session[];
+
+function matches(session: Session, where: WhereOptions): boolean {
+  return Object.entries(where).every(([key, condition]) => {
+    const value = session.get(key as keyof Session);
+    if (condition && typeof condition === 'object' && Op.ne in condition) {
+      return value !== condition[Op.ne];
+    }
+    return value === condition;
+  });
+}
+
+async function refreshFailure(refreshToken: string): Promise<unknown> {
+  try {
+    await SessionService.refresh(refreshToken, client);
+  } catch (error) {
+    return error;
+  }
+}
+
+beforeEach(() => {
+  sessions = [];
+
+  jest.spyOn(Session, 'create').mockImplementation((async (values: object) => {
+    // Columns the database fills in with null
+    const session = Session.build({
+      previousTokenHash: null,
+      revokedAt: null,
+      ...values,
+    } as Session);
+    sessions.push(session);
+    return session;
+  }) as never);
+  jest.spyOn(Session, 'findOne').mockImplementation((async ({ where }: { where: WhereOptions }) => {
+    return sessions.find((session) => matches(session, where)) ?? null;
+  }) as never);
+  jest.spyOn(Session, 'update').mockImplementation((async (
+    values: object,
+    { where }: { where: WhereOptions },
+  ) => {
+    const updated = sessions.filter((session) => matches(session, where));
+    updated.forEach((session) => session.set(values));
+    return [updated.length, updated];
+  }) as never);
+  jest.spyOn(Session.prototype, 'reload').mockImplementation(function (this: Session) {
+    return Promise.resolve(this);
+  });
+  jest.spyOn(User, 'findByPk').mockResolvedValue(user);
+  jest.spyOn(DiagramEventService, 'publishSessionsEnded');
+});
+
+afterEach(() => jest.restoreAllMocks());
+
+describe('SessionService.refresh', () => {
+  it('rotates the refresh token, so each one can be exchanged once', async () => {
+    const started = await SessionService.start(user, client);
+
+    const refreshed = await SessionService.refresh(started.refreshToken, client);
+
+    expect(refreshed.session.id).toBe(started.session.id);
+    expect(refreshed.refreshToken).not.toBe(started.refreshToken);
+    expect(refreshed.token).toEqual(expect.any(String));
+    await expect(SessionService.refresh(refreshed.refreshToken, client)).resolves.toMatchObject({
+      session: { id: started.session.id },
+    });
+  });
+
+  it('ends the session when an exchanged token is presented again', async () => {
+    const started = await SessionService.start(user, client);
+    const refreshed = await SessionService.refresh(started.refreshToken, client);
+
+    const failure = await refreshFailure(started.refreshToken);
+
+    expect(failure).toBeInstanceOf(HttpError);
+    expect(failure).toMatchObject({ statusCode: 401 });
+    expect(started.session.revokedAt).toEqual(expect.any(Date));
+    expect(DiagramEventService.publishSessionsEnded).toHaveBeenCalledWith([started.session.id]);
+    // The successor is useless too, whoever holds it
+    expect(await refreshFailure(refreshed.refreshToken)).toMatchObject({ statusCode: 401 });
+  });
+
+  it('lets only one of two concurrent refreshes with the same token rotate it', async () => {
+    const started = await SessionService.start(user, client);
+
+    const results = await Promise.allSettled([
+      SessionService.refresh(started.refreshToken, client),
+      SessionService.refresh(started.refreshToken, client),
+    ]);
+
+    expect(results.map((result) => result.status)).toEqual(['fulfilled', 'rejected']);
+    expect((results[1] as PromiseRejectedResult).reason).toMatchObject({ statusCode: 401 });
+    // Losing the race is not a replay: the session goes on with the winner's token
+    expect(started.session.revokedAt).toBeNull();
+    const { refreshToken } = (results[0] as PromiseFulfilledResult<{ refreshToken: string }>).value;
+    await expect(SessionService.refresh(refreshToken, client)).resolves.toBeDefined();
+  });
+
+  it('refuses tokens of expired sessions and of deactivated users', async () => {
+    const expired = await SessionService.start(user, client);
+    expired.session.expiresAt = new Date(Date.now() - 1000);
+    const deactivated = await SessionService.start(user, client);
+    jest.spyOn(User, 'findByPk').mockResolvedValue(User.build({ ...user.get(), isActive: false }));
+
+    expect(await refreshFailure(expired.refreshToken)).toMatchObject({ statusCode: 401 });
+    expect(await refreshFailure(deactivated.refreshToken)).toMatchObject({ statusCode: 401 });
+    expect(await refreshFailure('unknown')).toMatchObject({ statusCode: 401 });
+  });
+});
+
+describe('SessionService.revokeAll', () => {
+  it('ends every other session of the user and keeps the current one', async () => {
+    const current = await SessionService.start(user, client);
+    const laptop = await SessionService.start(user, client);
+    const phone = await SessionService.start(user, client);
+    const other = await SessionService.start(User.build({ ...user.get(), id: 'other' }), client);
+
+    const count = await SessionService.revokeAll(user.id, current.session.id);
+
+    expect(count).toBe(2);
+    expect(current.session.revokedAt).toBeNull();
+    expect(other.session.revokedAt).toBeNull();
+    expect(laptop.session.revokedAt).toEqual(expect.any(Date));
+    expect(phone.session.revokedAt).toEqual(expect.any(Date));
+    expect(DiagramEventService.publishSessionsEnded).toHaveBeenCalledWith([
+      laptop.session.id,
+      phone.session.id,
+    ]);
+    await expect(SessionService.refresh(current.refreshToken, client)).resolves.toBeDefined();
+  });
+
+  it('ends every session of the user when none is kept', async () => {
+    await SessionService.start(user, client);
+    await SessionService.start(user, client);
+
+    expect(await SessionService.revokeAll(user.id)).toBe(2);
+    expect(sessions.every((session) => session.revokedAt)).toBe(true);
+  });
+});
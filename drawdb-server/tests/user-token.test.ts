@@ -0,0 +1,293 @@
+import { Response } from 'express';
+import { Op, Transaction, WhereOptions } from 'sequelize';
+import { sequelize } from '../src/config/database';
+import { AuthController } from '../src/controllers/auth-controller';
+import { AuthRequest } from '../src/middleware/auth';
+import { User, UserToken } from '../src/models';
+import { UserTokenPurpose } from '../src/models/UserToken';
+import { SessionService } from '../src/services/session-service';
+import { UserTokenService } from '../src/services/user-token-service';
+import { HttpError } from '../src/utils/http-error';
+import { sendEmail } from '../src/utils/send-email';
+
+jest.mock('../src/utils/send-email', () => ({ sendEmail: jest.fn() }));
+
+const HOUR = 60 * 60 * 1000;
+const INVALID = { error: 'Invalid token', message: 'The link is invalid or has expired' };
+
+// The users and user_tokens tables, with the conditions the code queries them by
+let users: User[];
+let tokens: UserToken[];
+
+function matches(row: User | UserToken, where: WhereOptions): boolean {
+  return Object.entries(where).every(([key, condition]) => {
+    const value = row.get(key as keyof typeof row);
+    if (condition && typeof condition === 'object' && Op.gt in condition) {
+      return (value as Date) > (condition as { [Op.gt]: Date })[Op.gt];
+    }
+    return value === condition;
+  });
+}
+
+function account(id: string, email: string): User {
+  const user = User.build({ id, username: id, email, password: 'secret', emailVerified: false });
+  users.push(user);
+  return user;
+}
+
+async function consumeFailure(token: string, purpose: UserTokenPurpose): Promise<unknown> {
+  try {
+    await UserTokenService.consume(token, purpose);
+  } catch (error) {
+    return error;
+  }
+}
+
+async function respond(
+  handler: (req: AuthRequest, res: Response) => Promise<void>,
+  body: Record<string, unknown>,
+) {
+  const res = { status: jest.fn(), json: jest.fn() };
+  res.status.mockReturnValue(res);
+
+  await handler({ body } as AuthRequest, res as unknown as Response);
+
+  return {
+    status: res.status.mock.calls[0]?.[0] ?? 200,
+    body: res.json.mock.calls[0][0],
+  };
+}
+
+// Lets the emails sent after responding go out
+function flushBackground(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve));
+}
+
+beforeEach(() => {
+  users = [];
+  tokens = [];
+
+  jest.spyOn(UserToken, 'create').mockImplementation((async (values: object) => {
+    const token = UserToken.build({ email: null, usedAt: null, ...values } as UserToken);
+    tokens.push(token);
+    return token;
+  }) as never);
+  jest.spyOn(UserToken, 'destroy').mockImplementation((async ({
+    where,
+  }: {
+    where: WhereOptions;
+  }) => {
+    const destroyed = tokens.filter((token) => matches(token, where));
+    tokens = tokens.filter((token) => !destroyed.includes(token));
+    return destroyed.length;
+  }) as never);
+  jest.spyOn(UserToken, 'findOne').mockImplementation((async ({
+    where,
+  }: {
+    where: WhereOptions;
+  }) => {
+    return tokens.find((token) => matches(token, where)) ?? null;
+  }) as never);
+  jest.spyOn(User, 'findOne').mockImplementation((async ({ where }: { where: WhereOptions }) => {
+    return users.find((user) => matches(user, where)) ?? null;
+  }) as never);
+  jest.spyOn(User, 'findByPk').mockImplementation((async (id: string) => {
+    return users.find((user) => user.id === id) ?? null;
+  }) as never);
+  for (const model of [User, UserToken]) {
+    jest.spyOn(model.prototype, 'update').mockImplementation(function (
+      this: User,
+      values: Partial<User>,
+    ) {
+      this.set(values);
+      return Promise.resolve(this);
+    } as never);
+  }
+  jest
+    .spyOn(sequelize, 'transaction')
+    .mockImplementation(((run: (t: Transaction) => unknown) => run({} as Transaction)) as never);
+  jest.spyOn(SessionService, 'revokeAll').mockResolvedValue(2);
+  jest.mocked(sendEmail).mockReset().mockResolvedValue(undefined);
+});
+
+afterEach(() => jest.restoreAllMocks());
+
+describe('UserTokenService', () => {
+  it('stores only the hash of a token and lets it be used once', async () => {
+    const token = await UserTokenService.issue('ada', UserTokenPurpose.PASSWORD_RESET, HOUR);
+
+    expect(tokens).toHaveLength(1);
+    expect(tokens[0].tokenHash).not.toContain(token);
+
+    const used = await UserTokenService.consume(token, UserTokenPurpose.PASSWORD_RESET);
+
+    expect(used.userId).toBe('ada');
+    expect(used.usedAt).toEqual(expect.any(Date));
+    const failure = await consumeFailure(token, UserTokenPurpose.PASSWORD_RESET);
+    expect(failure).toBeInstanceOf(HttpError);
+    expect(failure).toMatchObject({ statusCode: 400, body: INVALID });
+  });
+
+  it('refuses expired tokens and tokens issued for another purpose', async () => {
+    const expired = await UserTokenService.issue('ada', UserTokenPurpose.PASSWORD_RESET, HOUR);
+    tokens[0].expiresAt = new Date(Date.now() - 1000);
+    const verification = await UserTokenService.issue(
+      'ada',
+      UserTokenPurpose.EMAIL_VERIFICATION,
+      HOUR,
+    );
+
+    expect(await consumeFailure(expired, UserTokenPurpose.PASSWORD_RESET)).toMatchObject({
+      body: INVALID,
+    });
+    expect(await consumeFailure(verification, UserTokenPurpose.PASSWORD_RESET)).toMatchObject({
+      body: INVALID,
+    });
+    expect(await consumeFailure('unknown', UserTokenPurpose.PASSWORD_RESET)).toMatchObject({
+      body: INVALID,
+    });
+  });
+
+  it('cancels the earlier tokens of the user for the same purpose when reissuing', async () => {
+    const first = await UserTokenService.issue('ada', UserTokenPurpose.PASSWORD_RESET, HOUR);
+    const verification = await UserTokenService.issue(
+      'ada',
+      UserTokenPurpose.EMAIL_VERIFICATION,
+      HOUR,
+    );
+    const other = await UserTokenService.issue('grace', UserTokenPurpose.PASSWORD_RESET, HOUR);
+    const second = await UserTokenService.issue('ada', UserTokenPurpose.PASSWORD_RESET, HOUR);
+
+    expect(await consumeFailure(first, UserTokenPurpose.PASSWORD_RESET)).toMatchObject({
+      body: INVALID,
+    });
+    for (const [token, purpose] of [
+      [second, UserTokenPurpose.PASSWORD_RESET],
+      [verification, UserTokenPurpose.EMAIL_VERIFICATION],
+      [other, UserTokenPurpose.PASSWORD_RESET],
+    ] as const) {
+      await expect(UserTokenService.consume(token, purpose)).resolves.toBeDefined();
+    }
+  });
+});
+
+describe('AuthController.forgotPassword', () => {
+  it('answers the same for unknown emails and emails only known accounts', async () => {
+    account('ada', 'ada@example.com');
+
+    const known = await respond(AuthController.forgotPassword, { email: 'ada@example.com' });
+    const unknown = await respond(AuthController.forgotPassword, { email: 'bob@example.com' });
+    await flushBackground();
+
+    expect(unknown).toEqual(known);
+    expect(known.status).toBe(200);
+    expect(sendEmail).toHaveBeenCalledTimes(1);
+    expect(jest.mocked(sendEmail).mock.calls[0][2]).toBe('ada@example.com');
+  });
+});
+
+describe('AuthController.resetPassword', () => {
+  it('sets the new password once and signs out every session', async () => {
+    const ada = account('ada', 'ada@example.com');
+    const token = await UserTokenService.issue(ada.id, UserTokenPurpose.PASSWORD_RESET, HOUR);
+
+    const reset = await respond(AuthController.resetPassword, { token, newPassword: 'n3w' });
+    const again = await respond(AuthController.resetPassword, { token, newPassword: 'other' });
+
+    expect(reset).toEqual({
+      status: 200,
+      body: { message: 'Password reset successfully', revokedSessions: 2 },
+    });
+    expect(SessionService.revokeAll).toHaveBeenCalledWith('ada');
+    expect(ada.password).toBe('n3w');
+    expect(again).toEqual({ status: 400, body: INVALID });
+  });
+
+  it('refuses expired tokens', async () => {
+    const ada = account('ada', 'ada@example.com');
+    const token = await UserTokenService.issue(ada.id, UserTokenPurpose.PASSWORD_RESET, HOUR);
+    tokens[0].expiresAt = new Date(Date.now() - 1000);
+
+    const reset = await respond(AuthController.resetPassword, { token, newPassword: 'n3w' });
+
+    expect(reset).toEqual({ status: 400, body: INVALID });
+    expect(ada.password).toBe('secret');
+  });
+});
+
+describe('AuthController.verifyEmail', () => {
+  it('verifies the address the link was sent to', async () => {
+    const ada = account('ada', 'ada@example.com');
+    const token = await UserTokenService.issue(
+      ada.id,
+      UserTokenPurpose.EMAIL_VERIFICATION,
+      HOUR,
+      ada.email,
+    );
+
+    const verified = await respond(AuthController.verifyEmail, { token });
+
+    expect(verified).toEqual({ status: 200, body: { message: 'Email verified successfully' } });
+    expect(ada.emailVerified).toBe(true);
+    expect(await respond(AuthController.verifyEmail, { token })).toEqual({
+      status: 400,
+      body: INVALID,
+    });
+  });
+
+  it('refuses a link sent before the email address changed', async () => {
+    const ada = account('ada', 'ada@example.com');
+    const token = await UserTokenService.issue(
+      ada.id,
+      UserTokenPurpose.EMAIL_VERIFICATION,
+      HOUR,
+      ada.email,
+    );
+    ada.email = 'ada@new.example.com';
+
+    const verified = await respond(AuthController.verifyEmail, { token });
+
+    expect(verified).toEqual({ status: 400, body: INVALID });
+    expect(ada.emailVerified).toBe(false);
+  });
+});
+
+describe('AuthController.confirmEmail', () => {
+  it('switches the account to the new address once', async () => {
+    const ada = account('ada', 'ada@example.com');
+    const token = await UserTokenService.issue(
+      ada.id,
+      UserTokenPurpose.EMAIL_CHANGE,
+      HOUR,
+      'ada@new.example.com',
+    );
+
+    const confirmed = await respond(AuthController.confirmEmail, { token });
+
+    expect(confirmed).toEqual({
+      status: 200,
+      body: { message: 'Email address changed successfully', email: 'ada@new.example.com' },
+    });
+    expect(ada.emailVerified).toBe(true);
+    expect(await respond(AuthController.confirmEmail, { token })).toEqual({
+      status: 400,
+      body: INVALID,
+    });
+  });
+
+  it('refuses an address another account took since the link was sent', async () => {
+    const ada = account('ada', 'ada@example.com');
+    const token = await UserTokenService.issue(
+      ada.id,
+      UserTokenPurpose.EMAIL_CHANGE,
+      HOUR,
+      'shared@example.com',
+    );
+    account('grace', 'shared@example.com');
+
+    const confirmed = await respond(AuthController.confirmEmail, { token });
+
+    expect(confirmed.status).toBe(409);
+    expect(ada.email).toBe('ada@example.com');
+  });
+});
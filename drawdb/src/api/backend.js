@@ -23,15 +23,51 @@ api.interceptors.request.use(
   },
 );
 
+function clearSession() {
+  localStorage.removeItem("auth_token");
+  localStorage.removeItem("refresh_token");
+  localStorage.removeItem("user");
+}
+
+// One refresh at a time; requests failing meanwhile wait for the same new token
+let refreshing = null;
+
+function refreshAccessToken() {
+  const refreshToken = localStorage.getItem("refresh_token");
+  if (!refreshToken) return Promise.reject(new Error("No refresh token"));
+
+  refreshing ??= axios
+    .post(`${baseURL}/api/v1/auth/refresh`, { refreshToken })
+    .then((response) => {
+      localStorage.setItem("auth_token", response.data.token);
+      localStorage.setItem("refresh_token", response.data.refreshToken);
+      return response.data.token;
+    })
+    .finally(() => {
+      refreshing = null;
+    });
+
+  return refreshing;
+}
+
 // Response interceptor to handle auth errors
 api.interceptors.response.use(
   (response) => response,
-  (error) => {
-    if (error.response?.status === 401) {
-      // Token expired or invalid
-      localStorage.removeItem("auth_token");
-      localStorage.removeItem("user");
-      window.location.href = "/login";
+  async (error) => {
+    const request = error.config;
+
+    if (error.response?.status === 401 && request && !request.retried) {
+      // Access token expired: renew it once and repeat the request
+      try {
+        const token = await refreshAccessToken();
+        request.retried = true;
+        request.headers.Authorization = `Bearer ${token}`;
+        return api(request);
+      } catch {
+        // Session ended or revoked
+        clearSession();
+        window.location.href = "/login";
+      }
     }
     return Promise.reject(error);
   },
@@ -55,14 +91,23 @@ export const authAPI = {
     });
     if (response.data.token) {
       localStorage.setItem("auth_token", response.data.token);
+      localStorage.setItem("refresh_token", response.data.refreshToken);
       localStorage.setItem("user", JSON.stringify(response.data.user));
     }
     return response.data;
   },
 
-  logout: () => {
-    localStorage.removeItem("auth_token");
-    localStorage.removeItem("user");
+  logout: async () => {
+    const token = localStorage.getItem("auth_token");
+    clearSession();
+    if (token) {
+      // End the session on the server too; the local sign-out stands either way
+      await axios
+        .post(`${baseURL}/api/v1/auth/logout`, null, {
+          headers: { Authorization: `Bearer ${token}` },
+        })
+        .catch(() => {});
+    }
   },
 
   getCurrentUser: async () => {
@@ -82,12 +127,54 @@ export const authAPI = {
     });
     return response.data;
   },
+
+  // Emails a reset link; the response is the same for unknown addresses
+  forgotPassword: async (email) => {
+    const response = await api.post("/auth/forgot-password", { email });
+    return response.data;
+  },
+
+  resetPassword: async (token, newPassword) => {
+    const response = await api.post("/auth/reset-password", {
+      token,
+      newPassword,
+    });
+    return response.data;
+  },
+
+  verifyEmail: async (token) => {
+    const response = await api.post("/auth/verify-email", { token });
+    return response.data;
+  },
+
+  resendVerification: async (email) => {
+    const response = await api.post("/auth/resend-verification", { email });
+    return response.data;
+  },
+
+  // Switches the account to the address the emailed link was sent to
+  confirmEmail: async (token) => {
+    const response = await api.post("/auth/confirm-email", { token });
+    return response.data;
+  },
+
+  // Devices the user is signed in on
+  getSessions: async () => {
+    const response = await api.get("/auth/sessions");
+    return response.data;
+  },
+
+  revokeSession: async (id) => {
+    const response = await api.delete(`/auth/sessions/${id}`);
+    return response.data;
+  },
 };
 
 // Diagram API
 export const diagramAPI = {
-  getAll: async () => {
-    const response = await api.get("/diagrams");
+  // params: limit, cursor, sort, order, scope, database, ownerId, name, folderId
+  getAll: async (params) => {
+    const response = await api.get("/diagrams", { params });
     return response.data;
   },
 
@@ -116,6 +203,27 @@ export const diagramAPI = {
     return response.data;
   },
 
+  moveToFolder: async (id, folderId) => {
+    const response = await api.put(`/diagrams/${id}/folder`, { folderId });
+    return response.data;
+  },
+
+  // Trash endpoints
+  getTrash: async () => {
+    const response = await api.get("/diagrams/trash");
+    return response.data;
+  },
+
+  restore: async (id) => {
+    const response = await api.post(`/diagrams/${id}/restore`);
+    return response.data;
+  },
+
+  deletePermanently: async (id) => {
+    const response = await api.delete(`/diagrams/${id}/permanent`);
+    return response.data;
+  },
+
   getVersion: async (id) => {
     const response = await api.get(`/diagrams/${id}/version`);
     return response.data;
@@ -160,6 +268,62 @@ export const diagramAPI = {
   },
 };
 
+// Search API
+export const searchAPI = {
+  search: async (q, params = {}) => {
+    const response = await api.get("/search", { params: { q, ...params } });
+    return response.data;
+  },
+};
+
+// Folder API
+export const folderAPI = {
+  getAll: async () => {
+    const response = await api.get("/folders");
+    return response.data;
+  },
+
+  create: async (name, parentId = null) => {
+    const response = await api.post("/folders", { name, parentId });
+    return response.data;
+  },
+
+  update: async (id, changes) => {
+    const response = await api.put(`/folders/${id}`, changes);
+    return response.data;
+  },
+
+  delete: async (id) => {
+    const response = await api.delete(`/folders/${id}`);
+    return response.data;
+  },
+
+  share: async (id, userId, permissionLevel) => {
+    const response = await api.post(`/folders/${id}/share`, {
+      userId,
+      permissionLevel,
+    });
+    return response.data;
+  },
+
+  getShares: async (id) => {
+    const response = await api.get(`/folders/${id}/shares`);
+    return response.data;
+  },
+
+  updateShare: async (id, userId, permissionLevel) => {
+    const response = await api.put(`/folders/${id}/shares/${userId}`, {
+      permissionLevel,
+    });
+    return response.data;
+  },
+
+  revokeShare: async (id, userId) => {
+    const response = await api.delete(`/folders/${id}/shares/${userId}`);
+    return response.data;
+  },
+};
+
 // Template API
 export const templateAPI = {
   getAll: async () => {
@@ -761,11 +761,8 @@ export default function ControlPanel({
       }
 
       try {
-        const { ownDiagrams, sharedDiagrams } = await diagramAPI.getAll();
-        const allDiagrams = [...ownDiagrams, ...sharedDiagrams]
-          .sort((a, b) => new Date(b.lastModified || b.updatedAt) - new Date(a.lastModified || a.updatedAt))
-          .slice(0, 10);
-        setRecentlyOpenedDiagrams(allDiagrams);
+        const { diagrams } = await diagramAPI.getAll({ limit: 10 });
+        setRecentlyOpenedDiagrams(diagrams);
       } catch (error) {
         console.error("Failed to fetch recent diagrams:", error);
         setRecentlyOpenedDiagrams([]);
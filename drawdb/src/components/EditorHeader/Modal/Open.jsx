@@ -1,13 +1,32 @@
 import { useState, useEffect } from "react";
-import { Banner } from "@douyinfe/semi-ui";
+import { Banner, Button } from "@douyinfe/semi-ui";
 import { useTranslation } from "react-i18next";
 import { databases } from "../../../data/databases";
 import { diagramAPI } from "../../../api/backend";
 import { useAuth } from "../../../hooks";
 
+const PAGE_SIZE = 100;
+
+// One page of the diagram list, with dates parsed
+async function fetchPage(cursor) {
+  const { diagrams, nextCursor } = await diagramAPI.getAll({
+    limit: PAGE_SIZE,
+    ...(cursor && { cursor }),
+  });
+  return {
+    diagrams: diagrams.map((d) => ({
+      ...d,
+      lastModified: new Date(d.lastModified || d.updatedAt),
+    })),
+    nextCursor,
+  };
+}
+
 export default function Open({ selectedDiagramId, setSelectedDiagramId }) {
   const [diagrams, setDiagrams] = useState([]);
+  const [nextCursor, setNextCursor] = useState(null);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
   const { t } = useTranslation();
   const { isAuthenticated } = useAuth();
 
@@ -15,20 +34,19 @@ export default function Open({ selectedDiagramId, setSelectedDiagramId }) {
     const fetchDiagrams = async () => {
       if (!isAuthenticated) {
         setDiagrams([]);
+        setNextCursor(null);
         setLoading(false);
         return;
       }
 
       try {
-        const { ownDiagrams, sharedDiagrams } = await diagramAPI.getAll();
-        const allDiagrams = [...ownDiagrams, ...sharedDiagrams].map((d) => ({
-          ...d,
-          lastModified: new Date(d.lastModified || d.updatedAt),
-        }));
-        setDiagrams(allDiagrams);
+        const page = await fetchPage(null);
+        setDiagrams(page.diagrams);
+        setNextCursor(page.nextCursor);
       } catch (error) {
         console.error("Failed to fetch diagrams:", error);
         setDiagrams([]);
+        setNextCursor(null);
       } finally {
         setLoading(false);
       }
@@ -37,8 +55,21 @@ export default function Open({ selectedDiagramId, setSelectedDiagramId }) {
     fetchDiagrams();
   }, [isAuthenticated]);
 
+  const loadMore = async () => {
+    setLoadingMore(true);
+    try {
+      const page = await fetchPage(nextCursor);
+      setDiagrams((prev) => [...prev, ...page.diagrams]);
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error("Failed to fetch diagrams:", error);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
   const getDiagramSize = (d) => {
-    const size = JSON.stringify(d).length;
+    const size = d.documentSize ?? 0;
     let sizeStr;
     if (size >= 1024 && size < 1024 * 1024)
       sizeStr = (size / 1024).toFixed(1) + "KB";
@@ -104,6 +135,13 @@ export default function Open({ selectedDiagramId, setSelectedDiagramId }) {
               })}
             </tbody>
           </table>
+          {nextCursor && (
+            <div className="text-center py-2">
+              <Button onClick={loadMore} loading={loadingMore}>
+                {t("load_more")}
+              </Button>
+            </div>
+          )}
         </div>
       )}
     </div>
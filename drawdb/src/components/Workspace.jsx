@@ -133,6 +133,16 @@ export default function WorkSpace() {
           // Update existing diagram
           const updatedDiagram = await diagramAPI.update(id, diagramData);
           setCurrentVersion(updatedDiagram.version);
+          if (updatedDiagram.merged) {
+            // The server merged this save with a concurrent one; show the combined result
+            setTables(updatedDiagram.tables || []);
+            setRelationships(updatedDiagram.references || []);
+            setNotes(updatedDiagram.notes || []);
+            setAreas(updatedDiagram.areas || []);
+            setTasks(updatedDiagram.todos ?? []);
+            if (databases[database].hasEnums) setEnums(updatedDiagram.enums ?? []);
+            if (databases[database].hasTypes) setTypes(updatedDiagram.types ?? []);
+          }
           setSaveState(State.SAVED);
           setLastSaved(new Date().toLocaleString());
         }
@@ -197,6 +207,13 @@ export default function WorkSpace() {
     loadedFromGistId,
     isAuthenticated,
     currentVersion,
+    setTables,
+    setRelationships,
+    setNotes,
+    setAreas,
+    setTasks,
+    setEnums,
+    setTypes,
   ]);
 
   const load = useCallback(async () => {
@@ -204,16 +221,11 @@ export default function WorkSpace() {
       // Fetch from backend if authenticated
       if (isAuthenticated) {
         try {
-          const { ownDiagrams, sharedDiagrams } = await diagramAPI.getAll();
-          const allDiagrams = [...ownDiagrams, ...sharedDiagrams];
+          // The list is sorted by lastModified and only has summaries
+          const { diagrams } = await diagramAPI.getAll({ limit: 1 });
 
-          if (allDiagrams.length > 0) {
-            // Sort by lastModified and get the latest
-            const latest = allDiagrams.sort(
-              (a, b) =>
-                new Date(b.lastModified || b.updatedAt) -
-                new Date(a.lastModified || a.updatedAt)
-            )[0];
+          if (diagrams.length > 0) {
+            const latest = await diagramAPI.getById(diagrams[0].id);
 
             if (latest.database) {
               setDatabase(latest.database);
@@ -449,10 +461,12 @@ export default function WorkSpace() {
       // Check if diagram from this gist already exists in backend
       if (isAuthenticated) {
         try {
-          const { ownDiagrams } = await diagramAPI.getAll();
-          const existingDiagram = ownDiagrams.find(
-            (d) => d.loadedFromGistId === shareId
-          );
+          const { diagrams } = await diagramAPI.getAll({
+            scope: "owned",
+            loadedFromGistId: shareId,
+            limit: 1,
+          });
+          const existingDiagram = diagrams[0];
 
           if (existingDiagram) {
             window.name = "d " + existingDiagram.id;
@@ -50,7 +50,15 @@ export default function AuthContextProvider({ children }) {
   const register = useCallback(
     async (username, email, password) => {
       try {
-        await authAPI.register(username, email, password);
+        const data = await authAPI.register(username, email, password);
+        // The server may ask for the email address to be verified before the first login
+        if (data.verificationRequired) {
+          return {
+            success: true,
+            verificationRequired: true,
+            message: data.message,
+          };
+        }
         // Auto-login after registration
         return await login(email, password);
       } catch (error) {
@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { useNavigate } from "react-router-dom";
+import { Link, useNavigate } from "react-router-dom";
 import { useAuth } from "../hooks";
 import { Button, Form, Toast } from "@douyinfe/semi-ui";
 
@@ -24,7 +24,10 @@ export default function Login() {
         );
       }
 
-      if (result.success) {
+      if (result.verificationRequired) {
+        Toast.info(result.message);
+        setIsLogin(true);
+      } else if (result.success) {
         Toast.success(`${isLogin ? "Login" : "Registration"} successful!`);
         navigate("/editor");
       } else {
@@ -115,6 +118,12 @@ export default function Login() {
           </Button>
         </Form>
 
+        {isLogin && (
+          <div style={{ marginTop: "12px", textAlign: "center" }}>
+            <Link to="/reset-password">Forgot password?</Link>
+          </div>
+        )}
+
         <div style={{ marginTop: "16px", textAlign: "center" }}>
           <Button type="tertiary" onClick={() => setIsLogin(!isLogin)}>
             {isLogin
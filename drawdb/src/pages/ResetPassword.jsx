@@ -0,0 +1,139 @@
+import { useState } from "react";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
+import { authAPI } from "../api/backend";
+import { Button, Form, Toast } from "@douyinfe/semi-ui";
+
+// Asks for the account email, or for a new password when opened from the emailed link
+export default function ResetPassword() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("token");
+  const [loading, setLoading] = useState(false);
+  const [sent, setSent] = useState(false);
+  const navigate = useNavigate();
+
+  const handleRequest = async (values) => {
+    setLoading(true);
+
+    try {
+      await authAPI.forgotPassword(values.email);
+      setSent(true);
+    } catch (error) {
+      Toast.error(
+        error.response?.data?.message || "An error occurred. Please try again.",
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleReset = async (values) => {
+    setLoading(true);
+
+    try {
+      await authAPI.resetPassword(token, values.password);
+      Toast.success("Password changed. Please log in.");
+      navigate("/login");
+    } catch (error) {
+      Toast.error(
+        error.response?.data?.message || "An error occurred. Please try again.",
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div
+      style={{
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+        minHeight: "100vh",
+        backgroundColor: "#f5f5f5",
+      }}
+    >
+      <div
+        style={{
+          width: "100%",
+          maxWidth: "400px",
+          padding: "32px",
+          backgroundColor: "white",
+          borderRadius: "8px",
+          boxShadow: "0 2px 8px rgba(0,0,0,0.1)",
+        }}
+      >
+        <h2
+          style={{
+            fontSize: "24px",
+            fontWeight: "bold",
+            textAlign: "center",
+            marginBottom: "24px",
+          }}
+        >
+          {token ? "Choose a new password" : "Reset your password"}
+        </h2>
+
+        {token ? (
+          <Form onSubmit={handleReset} layout="vertical">
+            <Form.Input
+              field="password"
+              label="New password"
+              type="password"
+              mode="password"
+              placeholder="Enter new password"
+              rules={[
+                { required: true, message: "Password is required" },
+                {
+                  min: 6,
+                  message: "Password must be at least 6 characters",
+                },
+              ]}
+            />
+
+            <Button
+              htmlType="submit"
+              type="primary"
+              block
+              loading={loading}
+              style={{ marginTop: "16px" }}
+            >
+              Set password
+            </Button>
+          </Form>
+        ) : sent ? (
+          <p style={{ textAlign: "center" }}>
+            If an account exists for this email, we have sent it a link to reset
+            the password.
+          </p>
+        ) : (
+          <Form onSubmit={handleRequest} layout="vertical">
+            <Form.Input
+              field="email"
+              label="Email"
+              type="email"
+              placeholder="Enter email"
+              rules={[
+                { required: true, message: "Email is required" },
+                { type: "email", message: "Invalid email format" },
+              ]}
+            />
+
+            <Button
+              htmlType="submit"
+              type="primary"
+              block
+              loading={loading}
+              style={{ marginTop: "16px" }}
+            >
+              Send reset link
+            </Button>
+          </Form>
+        )}
+
+        <div style={{ marginTop: "16px", textAlign: "center" }}>
+          <Link to="/login">Back to login</Link>
+        </div>
+      </div>
+    </div>
+  );
+}
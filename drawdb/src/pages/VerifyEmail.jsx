@@ -0,0 +1,128 @@
+import { useEffect, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { authAPI } from "../api/backend";
+import { Button, Form, Spin, Toast } from "@douyinfe/semi-ui";
+
+// Follows an emailed link that verifies the account's address or, with `change`, switches the
+// account to a new one. A failed verification link can be sent again.
+export default function VerifyEmail({ change = false }) {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("token");
+  const [status, setStatus] = useState(token ? "pending" : "failed");
+  const [message, setMessage] = useState(
+    token ? "" : "The link is invalid or has expired",
+  );
+  const [loading, setLoading] = useState(false);
+  const [sent, setSent] = useState(false);
+
+  useEffect(() => {
+    if (!token) return;
+
+    const confirm = change ? authAPI.confirmEmail : authAPI.verifyEmail;
+    confirm(token)
+      .then((data) => {
+        setStatus("done");
+        setMessage(data.message);
+      })
+      .catch((error) => {
+        setStatus("failed");
+        setMessage(
+          error.response?.data?.message ||
+            "An error occurred. Please try again.",
+        );
+      });
+  }, [token, change]);
+
+  const handleResend = async (values) => {
+    setLoading(true);
+
+    try {
+      await authAPI.resendVerification(values.email);
+      setSent(true);
+    } catch (error) {
+      Toast.error(
+        error.response?.data?.message || "An error occurred. Please try again.",
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div
+      style={{
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+        minHeight: "100vh",
+        backgroundColor: "#f5f5f5",
+      }}
+    >
+      <div
+        style={{
+          width: "100%",
+          maxWidth: "400px",
+          padding: "32px",
+          backgroundColor: "white",
+          borderRadius: "8px",
+          boxShadow: "0 2px 8px rgba(0,0,0,0.1)",
+        }}
+      >
+        <h2
+          style={{
+            fontSize: "24px",
+            fontWeight: "bold",
+            textAlign: "center",
+            marginBottom: "24px",
+          }}
+        >
+          {change ? "Confirm your new email" : "Verify your email"}
+        </h2>
+
+        {status === "pending" ? (
+          <div style={{ textAlign: "center" }}>
+            <Spin />
+          </div>
+        ) : (
+          <p style={{ textAlign: "center" }}>{message}</p>
+        )}
+
+        {status === "failed" &&
+          !change &&
+          (sent ? (
+            <p style={{ marginTop: "16px", textAlign: "center" }}>
+              If an unverified account uses this email, we have sent it a new
+              link.
+            </p>
+          ) : (
+            <Form onSubmit={handleResend} layout="vertical">
+              <Form.Input
+                field="email"
+                label="Email"
+                type="email"
+                placeholder="Enter email"
+                rules={[
+                  { required: true, message: "Email is required" },
+                  { type: "email", message: "Invalid email format" },
+                ]}
+              />
+
+              <Button
+                htmlType="submit"
+                type="primary"
+                block
+                loading={loading}
+                style={{ marginTop: "16px" }}
+              >
+                Send a new link
+              </Button>
+            </Form>
+          ))}
+
+        <div style={{ marginTop: "16px", textAlign: "center" }}>
+          <Link to="/login">Back to login</Link>
+        </div>
+      </div>
+    </div>
+  );
+}